@@ -0,0 +1,36 @@
+-- KOLs - the traders tracked on the leaderboard
+
+-- migrate:up
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+-- Keeps updated_at current on tables with a trigger
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = CURRENT_TIMESTAMP;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TABLE IF NOT EXISTS kols (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    wallet_address VARCHAR(50) UNIQUE NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    twitter_handle VARCHAR(50),
+    image_url VARCHAR(255),
+    telegram_handle BOOLEAN DEFAULT false,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_kols_wallet_address ON kols(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_kols_active ON kols(is_active);
+
+DROP TRIGGER IF EXISTS update_kols_updated_at ON kols;
+CREATE TRIGGER update_kols_updated_at BEFORE UPDATE ON kols
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- migrate:down
+DROP TABLE IF EXISTS kols;
+DROP FUNCTION IF EXISTS update_updated_at_column();
@@ -0,0 +1,27 @@
+-- Tokens - metadata of the mints KOLs trade
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    mint_address VARCHAR(50) UNIQUE NOT NULL,
+    name VARCHAR(100),
+    symbol VARCHAR(20),
+    decimals INTEGER DEFAULT 9,
+    image_url TEXT,
+    description TEXT,
+    token_program VARCHAR(50),
+    supply BIGINT,
+    price_usd DECIMAL(18, 8),
+    last_price_update TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_tokens_mint_address ON tokens(mint_address);
+
+DROP TRIGGER IF EXISTS update_tokens_updated_at ON tokens;
+CREATE TRIGGER update_tokens_updated_at BEFORE UPDATE ON tokens
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- migrate:down
+DROP TABLE IF EXISTS tokens;
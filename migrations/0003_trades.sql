@@ -0,0 +1,53 @@
+-- Trades - one KOL's position in one token, aggregated from its transactions
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS trades (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    kol_id UUID NOT NULL REFERENCES kols(id) ON DELETE CASCADE,
+    token_id UUID NOT NULL REFERENCES tokens(id) ON DELETE CASCADE,
+
+    -- Trade aggregation data
+    total_buy_amount DECIMAL(20, 9) DEFAULT 0, -- SOL amount spent on buys
+    total_sell_amount DECIMAL(20, 9) DEFAULT 0, -- SOL amount received from sells
+    total_token_bought DECIMAL(30, 9) DEFAULT 0, -- Token amount bought
+    total_token_sold DECIMAL(30, 9) DEFAULT 0, -- Token amount sold
+
+    -- P&L calculations (buys include fees, sells are net of fees)
+    cost_basis_sol DECIMAL(20, 9) DEFAULT 0, -- Cost of the tokens still held
+    pnl_sol DECIMAL(20, 9) DEFAULT 0, -- Realized P&L
+    pnl_usd DECIMAL(20, 2) DEFAULT 0,
+    unrealized_pnl_sol DECIMAL(20, 9) DEFAULT 0, -- Tokens still held, marked at the last trade price
+
+    -- Trade status
+    is_open BOOLEAN DEFAULT true,
+    status VARCHAR(20) DEFAULT 'active', -- active, completed, partial
+
+    -- Timestamps
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_activity_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    -- Ensure one trade record per KOL-token pair
+    UNIQUE(kol_id, token_id)
+);
+
+-- Cost-basis columns for databases created before they existed
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS cost_basis_sol DECIMAL(20, 9) DEFAULT 0;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS unrealized_pnl_sol DECIMAL(20, 9) DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_trades_kol_id ON trades(kol_id);
+CREATE INDEX IF NOT EXISTS idx_trades_token_id ON trades(token_id);
+CREATE INDEX IF NOT EXISTS idx_trades_started_at ON trades(started_at);
+CREATE INDEX IF NOT EXISTS idx_trades_is_open ON trades(is_open);
+CREATE INDEX IF NOT EXISTS idx_trades_pnl_sol ON trades(pnl_sol DESC);
+
+DROP TRIGGER IF EXISTS update_trades_updated_at ON trades;
+CREATE TRIGGER update_trades_updated_at BEFORE UPDATE ON trades
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- migrate:down
+DROP TABLE IF EXISTS trades;
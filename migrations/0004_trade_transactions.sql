@@ -0,0 +1,39 @@
+-- Trade transactions - the individual buys and sells of a trade
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS trade_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    trade_id UUID NOT NULL REFERENCES trades(id) ON DELETE CASCADE,
+
+    -- Transaction details
+    signature VARCHAR(100) UNIQUE NOT NULL,
+    transaction_type VARCHAR(10) NOT NULL CHECK (transaction_type IN ('buy', 'sell')),
+
+    -- Amounts
+    sol_amount DECIMAL(20, 9) NOT NULL, -- SOL amount (positive for buys, negative for sells)
+    token_amount DECIMAL(30, 9) NOT NULL, -- Token amount
+    price_per_token DECIMAL(20, 9), -- SOL per token
+    fee_sol DECIMAL(20, 9) DEFAULT 0, -- Network fee paid by the KOL
+    realized_pnl_sol DECIMAL(20, 9), -- P&L realized by a sell
+    sol_price_usd DECIMAL(10, 2), -- SOL price at block time
+
+    -- Blockchain data
+    slot BIGINT,
+    block_time TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Cost-basis and pricing columns for databases created before they existed
+ALTER TABLE trade_transactions ADD COLUMN IF NOT EXISTS fee_sol DECIMAL(20, 9) DEFAULT 0;
+ALTER TABLE trade_transactions ADD COLUMN IF NOT EXISTS realized_pnl_sol DECIMAL(20, 9);
+ALTER TABLE trade_transactions ADD COLUMN IF NOT EXISTS sol_price_usd DECIMAL(10, 2);
+
+CREATE INDEX IF NOT EXISTS idx_trade_transactions_trade_id ON trade_transactions(trade_id);
+CREATE INDEX IF NOT EXISTS idx_trade_transactions_signature ON trade_transactions(signature);
+CREATE INDEX IF NOT EXISTS idx_trade_transactions_block_time ON trade_transactions(block_time);
+CREATE INDEX IF NOT EXISTS idx_trade_transactions_type ON trade_transactions(transaction_type);
+
+-- migrate:down
+DROP TABLE IF EXISTS trade_transactions;
@@ -0,0 +1,18 @@
+-- Leaderboard periods - the calendar epochs trades are ranked over
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS leaderboard_periods (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    period_id VARCHAR(50) UNIQUE NOT NULL, -- Format: startTimestamp-endTimestamp
+    start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    is_active BOOLEAN DEFAULT false,
+    sol_price_usd DECIMAL(10, 2), -- SOL price at period start
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_periods_start_time ON leaderboard_periods(start_time);
+CREATE INDEX IF NOT EXISTS idx_leaderboard_periods_active ON leaderboard_periods(is_active);
+
+-- migrate:down
+DROP TABLE IF EXISTS leaderboard_periods;
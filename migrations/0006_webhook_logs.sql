@@ -0,0 +1,28 @@
+-- Webhook logs - processing status, payload and retry schedule per transaction
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS webhook_logs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    signature VARCHAR(100) UNIQUE NOT NULL,
+    kol_wallet_address VARCHAR(50),
+    transaction_type VARCHAR(20), -- pump_fun, pump_swap, other
+    processed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    processing_status VARCHAR(20) DEFAULT 'pending', -- pending, processing, processed, failed, dead, discarded
+    error_message TEXT,
+    raw_data JSONB, -- Store the full webhook payload
+    attempts INTEGER DEFAULT 0, -- Failed processing attempts
+    next_retry_at TIMESTAMP WITH TIME ZONE -- When the retry worker picks a failed row up again
+);
+
+-- Retry bookkeeping for databases created before it existed
+ALTER TABLE webhook_logs ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 0;
+ALTER TABLE webhook_logs ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_signature ON webhook_logs(signature);
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_kol_wallet ON webhook_logs(kol_wallet_address);
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_status ON webhook_logs(processing_status);
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_processed_at ON webhook_logs(processed_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_retry ON webhook_logs(processing_status, next_retry_at);
+
+-- migrate:down
+DROP TABLE IF EXISTS webhook_logs;
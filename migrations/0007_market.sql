@@ -0,0 +1,87 @@
+-- PILLS prediction market - one market per epoch with LMSR shares per KOL
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS market_periods (
+    id VARCHAR(50) PRIMARY KEY, -- Format: period_startTimestamp
+    epoch_number INTEGER NOT NULL,
+    start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    end_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    liquidity_parameter DECIMAL(20, 9) NOT NULL, -- LMSR b
+    state VARCHAR(20) NOT NULL DEFAULT 'upcoming' CHECK (state IN ('upcoming', 'active', 'resolving', 'resolved', 'cancelled')),
+    winner_address VARCHAR(50),
+    total_volume DECIMAL(30, 9) DEFAULT 0, -- PILLS traded
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_periods_start_time ON market_periods(start_time);
+CREATE INDEX IF NOT EXISTS idx_market_periods_state ON market_periods(state, end_time);
+
+DROP TRIGGER IF EXISTS update_market_periods_updated_at ON market_periods;
+CREATE TRIGGER update_market_periods_updated_at BEFORE UPDATE ON market_periods
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- LMSR outstanding quantity per KOL per period
+CREATE TABLE IF NOT EXISTS market_kol_shares (
+    period_id VARCHAR(50) NOT NULL REFERENCES market_periods(id) ON DELETE CASCADE,
+    kol_address VARCHAR(50) NOT NULL,
+    total_shares DECIMAL(30, 9) DEFAULT 0,
+    total_invested DECIMAL(30, 9) DEFAULT 0, -- Net PILLS paid in
+    last_updated TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (period_id, kol_address)
+);
+
+-- User holdings per KOL per period
+CREATE TABLE IF NOT EXISTS market_positions (
+    user_address VARCHAR(50) NOT NULL,
+    period_id VARCHAR(50) NOT NULL REFERENCES market_periods(id) ON DELETE CASCADE,
+    kol_address VARCHAR(50) NOT NULL,
+    shares_owned DECIMAL(30, 9) DEFAULT 0,
+    average_price DECIMAL(20, 9) DEFAULT 0,
+    total_invested DECIMAL(30, 9) DEFAULT 0,
+    last_trade_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (user_address, period_id, kol_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_positions_period_kol ON market_positions(period_id, kol_address);
+
+-- Filled buy/sell orders
+CREATE TABLE IF NOT EXISTS market_orders (
+    id VARCHAR(50) PRIMARY KEY, -- Format: order_timestamp_random
+    user_address VARCHAR(50) NOT NULL,
+    period_id VARCHAR(50) NOT NULL REFERENCES market_periods(id) ON DELETE CASCADE,
+    kol_address VARCHAR(50) NOT NULL,
+    order_type VARCHAR(4) NOT NULL CHECK (order_type IN ('buy', 'sell')),
+    shares DECIMAL(30, 9) NOT NULL,
+    price_per_share DECIMAL(20, 9) NOT NULL, -- Average fill price
+    total_value DECIMAL(30, 9) NOT NULL, -- PILLS paid or received
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'filled', 'cancelled', 'failed')),
+    signature VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    filled_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_orders_user_address ON market_orders(user_address, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_market_orders_period_id ON market_orders(period_id);
+
+-- Final ranking and payout of each settled period
+CREATE TABLE IF NOT EXISTS market_resolutions (
+    period_id VARCHAR(50) PRIMARY KEY REFERENCES market_periods(id) ON DELETE CASCADE,
+    reason VARCHAR(30) NOT NULL, -- winner, tie_break, dead_heat, no_activity, no_winning_holders
+    winner_address VARCHAR(50), -- Sole winner, NULL for dead heats and voids
+    winners JSONB NOT NULL, -- Every KOL whose shares pay out
+    final_ranking JSONB NOT NULL, -- [{ kolAddress, rank, pnlSol, winRate, totalTrades }]
+    payout_per_share DECIMAL(20, 9) NOT NULL,
+    total_winning_shares DECIMAL(30, 9) NOT NULL,
+    total_prize_pool DECIMAL(30, 9) NOT NULL,
+    total_payout DECIMAL(30, 9) NOT NULL,
+    refund_stakes BOOLEAN NOT NULL DEFAULT false,
+    resolved_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS market_resolutions;
+DROP TABLE IF EXISTS market_orders;
+DROP TABLE IF EXISTS market_positions;
+DROP TABLE IF EXISTS market_kol_shares;
+DROP TABLE IF EXISTS market_periods;
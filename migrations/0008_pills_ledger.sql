@@ -0,0 +1,63 @@
+-- PILLS custodial ledger, on-chain deposits and withdrawal requests
+
+-- migrate:up
+-- One row per balanced posting, reference makes postings idempotent
+CREATE TABLE IF NOT EXISTS pills_ledger_transactions (
+    id BIGSERIAL PRIMARY KEY,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('deposit', 'withdrawal', 'trade', 'payout')),
+    reference VARCHAR(150) NOT NULL UNIQUE, -- e.g. deposit:<signature>, order:<id>
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Signed amounts, entries of a transaction sum to zero
+CREATE TABLE IF NOT EXISTS pills_ledger_entries (
+    id BIGSERIAL PRIMARY KEY,
+    transaction_id BIGINT NOT NULL REFERENCES pills_ledger_transactions(id) ON DELETE CASCADE,
+    account VARCHAR(100) NOT NULL, -- user:<wallet>, market:<period_id>, treasury, withdrawals_pending
+    amount DECIMAL(30, 9) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pills_ledger_entries_account ON pills_ledger_entries(account, transaction_id DESC);
+
+-- Running total per ledger account
+CREATE TABLE IF NOT EXISTS pills_balances (
+    account VARCHAR(100) PRIMARY KEY,
+    balance DECIMAL(30, 9) NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- On-chain transfers to the treasury credited to a user
+CREATE TABLE IF NOT EXISTS pills_deposits (
+    signature VARCHAR(100) PRIMARY KEY,
+    user_address VARCHAR(50) NOT NULL,
+    amount DECIMAL(30, 9) NOT NULL,
+    slot BIGINT NOT NULL,
+    block_time TIMESTAMP WITH TIME ZONE,
+    ledger_transaction_id BIGINT REFERENCES pills_ledger_transactions(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_pills_deposits_user_address ON pills_deposits(user_address, created_at DESC);
+
+-- Requested payouts from the treasury to a user's wallet
+CREATE TABLE IF NOT EXISTS pills_withdrawals (
+    id VARCHAR(50) PRIMARY KEY, -- Format: withdrawal_timestamp_random
+    user_address VARCHAR(50) NOT NULL,
+    destination_address VARCHAR(50) NOT NULL,
+    amount DECIMAL(30, 9) NOT NULL CHECK (amount > 0),
+    status VARCHAR(20) DEFAULT 'requested' CHECK (status IN ('requested', 'completed', 'rejected')),
+    signature VARCHAR(100),
+    requested_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_pills_withdrawals_user_address ON pills_withdrawals(user_address, requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pills_withdrawals_status ON pills_withdrawals(status);
+
+-- migrate:down
+DROP TABLE IF EXISTS pills_withdrawals;
+DROP TABLE IF EXISTS pills_deposits;
+DROP TABLE IF EXISTS pills_balances;
+DROP TABLE IF EXISTS pills_ledger_entries;
+DROP TABLE IF EXISTS pills_ledger_transactions;
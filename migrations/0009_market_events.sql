@@ -0,0 +1,13 @@
+-- Market events - append-only feed behind /api/stream, id doubles as the SSE event id
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS market_events (
+    id BIGSERIAL PRIMARY KEY,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('trade', 'price_update', 'new_period', 'resolution', 'pnl_update')),
+    period_id VARCHAR(50) NOT NULL,
+    data JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS market_events;
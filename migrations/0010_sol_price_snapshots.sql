@@ -0,0 +1,16 @@
+-- SOL/USD snapshots used to convert trades at their block time
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS sol_price_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    price_usd DECIMAL(10, 2) NOT NULL,
+    source VARCHAR(20) NOT NULL, -- helius, http, fixture
+    recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(source, recorded_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sol_price_snapshots_recorded_at ON sol_price_snapshots(recorded_at);
+
+-- migrate:down
+DROP TABLE IF EXISTS sol_price_snapshots;
@@ -0,0 +1,24 @@
+-- Ingestion jobs - webhook transactions queued for the ingestion worker, processed in slot order per wallet
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+    id BIGSERIAL PRIMARY KEY,
+    signature VARCHAR(100) UNIQUE NOT NULL,
+    kol_address VARCHAR(50) NOT NULL, -- Wallet whose queue orders the job
+    kol_addresses JSONB NOT NULL, -- Every monitored KOL in the transaction
+    slot BIGINT NOT NULL,
+    payload JSONB NOT NULL, -- Helius enhanced transaction
+    status VARCHAR(20) DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'done', 'failed')),
+    attempts INTEGER DEFAULT 0,
+    last_error TEXT,
+    available_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP, -- Retry backoff
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_wallet_queue ON ingestion_jobs(kol_address, slot, id) WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_status ON ingestion_jobs(status, completed_at);
+
+-- migrate:down
+DROP TABLE IF EXISTS ingestion_jobs;
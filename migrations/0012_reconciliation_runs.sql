@@ -0,0 +1,24 @@
+-- Reconciliation runs - per KOL and leaderboard period, webhook-recorded signatures vs the chain
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+    id BIGSERIAL PRIMARY KEY,
+    kol_wallet_address VARCHAR(50) NOT NULL,
+    period_id VARCHAR(50) NOT NULL, -- leaderboard period
+    status VARCHAR(20) NOT NULL CHECK (status IN ('ok', 'repaired', 'gaps', 'error')),
+    chain_signatures INTEGER DEFAULT 0,
+    recorded_signatures INTEGER DEFAULT 0,
+    missing_signatures JSONB DEFAULT '[]', -- On chain with KOL swaps but not recorded
+    extra_signatures JSONB DEFAULT '[]', -- Recorded but not in the wallet's history
+    backfilled INTEGER DEFAULT 0,
+    failed INTEGER DEFAULT 0,
+    error_message TEXT,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_period ON reconciliation_runs(period_id, kol_wallet_address);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_completed_at ON reconciliation_runs(completed_at DESC);
+
+-- migrate:down
+DROP TABLE IF EXISTS reconciliation_runs;
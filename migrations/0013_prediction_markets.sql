@@ -0,0 +1,35 @@
+-- Prediction markets and user bets (for future prediction market feature)
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS prediction_markets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    period_id UUID NOT NULL REFERENCES leaderboard_periods(id),
+    title VARCHAR(200) NOT NULL,
+    description TEXT,
+    market_type VARCHAR(20) DEFAULT 'winner_prediction', -- winner_prediction, top3, etc
+    status VARCHAR(20) DEFAULT 'active', -- active, resolved, cancelled
+    total_volume DECIMAL(20, 9) DEFAULT 0,
+    resolution_data JSONB, -- Store winner information when resolved
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+DROP TRIGGER IF EXISTS update_prediction_markets_updated_at ON prediction_markets;
+CREATE TRIGGER update_prediction_markets_updated_at BEFORE UPDATE ON prediction_markets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS user_bets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    market_id UUID NOT NULL REFERENCES prediction_markets(id),
+    user_wallet VARCHAR(50) NOT NULL,
+    predicted_kol_id UUID NOT NULL REFERENCES kols(id),
+    bet_amount DECIMAL(20, 9) NOT NULL,
+    potential_payout DECIMAL(20, 9),
+    is_winning_bet BOOLEAN,
+    placed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- migrate:down
+DROP TABLE IF EXISTS user_bets;
+DROP TABLE IF EXISTS prediction_markets;
@@ -0,0 +1,22 @@
+-- Leaderboard period rosters - the KOLs ranked in a period, fixed when the period is created
+-- so KOLs added or deactivated mid-period only change the next one
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS leaderboard_period_kols (
+    period_id VARCHAR(50) NOT NULL REFERENCES leaderboard_periods(period_id) ON DELETE CASCADE,
+    kol_id UUID NOT NULL REFERENCES kols(id) ON DELETE CASCADE,
+    PRIMARY KEY (period_id, kol_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_period_kols_kol_id ON leaderboard_period_kols(kol_id);
+
+-- Existing periods get today's active KOLs
+INSERT INTO leaderboard_period_kols (period_id, kol_id)
+SELECT p.period_id, k.id
+FROM leaderboard_periods p
+CROSS JOIN kols k
+WHERE k.is_active = true
+ON CONFLICT DO NOTHING;
+
+-- migrate:down
+DROP TABLE IF EXISTS leaderboard_period_kols;
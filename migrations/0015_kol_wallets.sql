@@ -0,0 +1,42 @@
+-- KOL wallets - every wallet a KOL trades from, with when it was linked and unlinked
+-- Swaps are attributed to the KOL that had the wallet linked at block time
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS kol_wallets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    kol_id UUID NOT NULL REFERENCES kols(id) ON DELETE CASCADE,
+    wallet_address VARCHAR(50) NOT NULL,
+    added_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    removed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (removed_at IS NULL OR removed_at > added_at)
+);
+
+-- A wallet belongs to at most one KOL at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_kol_wallets_linked_wallet ON kol_wallets(wallet_address) WHERE removed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_kol_wallets_wallet_address ON kol_wallets(wallet_address, added_at);
+CREATE INDEX IF NOT EXISTS idx_kol_wallets_kol_id ON kol_wallets(kol_id);
+
+-- Wallet that made each swap, for per-wallet reconciliation
+ALTER TABLE trade_transactions ADD COLUMN IF NOT EXISTS wallet_address VARCHAR(50);
+CREATE INDEX IF NOT EXISTS idx_trade_transactions_wallet_address ON trade_transactions(wallet_address, block_time);
+
+-- Existing KOLs own their wallet since their first recorded swap
+INSERT INTO kol_wallets (kol_id, wallet_address, added_at)
+SELECT k.id, k.wallet_address, LEAST(k.created_at, MIN(tt.block_time))
+FROM kols k
+LEFT JOIN trades t ON t.kol_id = k.id
+LEFT JOIN trade_transactions tt ON tt.trade_id = t.id
+WHERE NOT EXISTS (SELECT 1 FROM kol_wallets w WHERE w.wallet_address = k.wallet_address)
+GROUP BY k.id, k.wallet_address, k.created_at;
+
+UPDATE trade_transactions tt
+SET wallet_address = k.wallet_address
+FROM trades t
+JOIN kols k ON k.id = t.kol_id
+WHERE t.id = tt.trade_id
+  AND tt.wallet_address IS NULL;
+
+-- migrate:down
+ALTER TABLE trade_transactions DROP COLUMN IF EXISTS wallet_address;
+DROP TABLE IF EXISTS kol_wallets;
@@ -0,0 +1,12 @@
+-- Trade transaction legs - one transaction can hold several legs (one per KOL wallet and token),
+-- so a leg is identified by its signature, wallet and trade rather than the signature alone
+
+-- migrate:up
+ALTER TABLE trade_transactions DROP CONSTRAINT IF EXISTS trade_transactions_signature_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trade_transactions_leg
+    ON trade_transactions(signature, wallet_address, trade_id);
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_trade_transactions_leg;
+ALTER TABLE trade_transactions ADD CONSTRAINT trade_transactions_signature_key UNIQUE (signature);
@@ -0,0 +1,27 @@
+-- Ingestion job KOLs - every KOL in a queued transaction, so a job waits its turn
+-- in each of their queues rather than only the first KOL's
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS ingestion_job_kols (
+    job_id BIGINT NOT NULL REFERENCES ingestion_jobs(id) ON DELETE CASCADE,
+    kol_address VARCHAR(50) NOT NULL,
+    slot BIGINT NOT NULL, -- Copied from the job to order each KOL's queue
+    PRIMARY KEY (job_id, kol_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_job_kols_queue ON ingestion_job_kols(kol_address, slot, job_id);
+
+INSERT INTO ingestion_job_kols (job_id, kol_address, slot)
+SELECT j.id, kol.address, j.slot
+FROM ingestion_jobs j
+CROSS JOIN jsonb_array_elements_text(j.kol_addresses) AS kol(address)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE ingestion_jobs DROP COLUMN IF EXISTS kol_address;
+
+-- migrate:down
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS kol_address VARCHAR(50);
+UPDATE ingestion_jobs SET kol_address = kol_addresses->>0;
+ALTER TABLE ingestion_jobs ALTER COLUMN kol_address SET NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_wallet_queue ON ingestion_jobs(kol_address, slot, id) WHERE status IN ('queued', 'running');
+DROP TABLE IF EXISTS ingestion_job_kols;
@@ -0,0 +1,9 @@
+-- Legs recorded before a SOL/USD price was available, priced later by the
+-- SOL price recorder
+
+-- migrate:up
+CREATE INDEX IF NOT EXISTS idx_trade_transactions_unpriced
+    ON trade_transactions(block_time, id) WHERE sol_price_usd IS NULL;
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_trade_transactions_unpriced;
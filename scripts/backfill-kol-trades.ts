@@ -0,0 +1,114 @@
+/**
+ * Backfill KOL trades for a time window from on-chain history
+ *
+ * Usage:
+ *   npm run trades:backfill -- --from 2025-01-01T00:00:00Z [--to <ISO date>] [--kol <wallet>]...
+ *     [--fixture <file>] [--record <file>]
+ *
+ * Defaults to every wallet linked to an active KOL, up to now; swaps only
+ * count for the KOL that had the wallet linked at block time. A wallet counts
+ * from when it was linked, which is when it was added unless backdated
+ * (addedAt on POST /api/kols or /api/kols/<address>/wallets), so link it from
+ * before --from first: earlier swaps are reported as unlinked, not recorded.
+ * --fixture replays recorded RPC responses instead of calling the RPC;
+ * --record saves this run's responses as such a fixture. Swaps are priced in
+ * USD at block time, which takes a historical SOL price provider
+ * (SOL_PRICE_PROVIDER=http with a {timestamp} URL, or fixture); without one,
+ * swaps with no recorded price nearby are stored unpriced until one is.
+ */
+import 'dotenv/config';
+
+import type { Address } from 'gill';
+import { closePool } from '../src/lib/database';
+import { getMonitoredWallets } from '../src/lib/kol-registry';
+import { getSolPriceAt, getSolPriceProvider } from '../src/lib/sol-price';
+import {
+  backfillKOLTrades,
+  createFixtureBackfillSource,
+  createRecordingBackfillSource,
+  createRpcBackfillSource,
+} from '../src/lib/trade-backfill';
+import type { BackfillResult, BackfillSource } from '../src/lib/trade-backfill';
+
+function readArgs(name: string): string[] {
+  const values: string[] = [];
+  process.argv.forEach((arg, index) => {
+    if (arg === `--${name}` && process.argv[index + 1]) {
+      values.push(process.argv[index + 1]);
+    }
+  });
+  return values;
+}
+
+function parseTime(value: string | undefined, fallback?: number): number {
+  if (!value) {
+    if (fallback === undefined) {
+      console.error('❌ --from <ISO date> is required');
+      process.exit(1);
+    }
+    return fallback;
+  }
+
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) {
+    console.error(`❌ Invalid date: ${value}`);
+    process.exit(1);
+  }
+  return time;
+}
+
+async function main() {
+  const startTime = parseTime(readArgs('from')[0]);
+  const endTime = parseTime(readArgs('to')[0], Date.now());
+  const kolArgs = readArgs('kol');
+  const fixturePath = readArgs('fixture')[0];
+  const recordPath = readArgs('record')[0];
+
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is required');
+    process.exit(1);
+  }
+
+  if (await getSolPriceAt(startTime) === null) {
+    console.warn(`⚠️  The ${getSolPriceProvider().name} SOL price provider can't price ${new Date(startTime).toISOString()}; swaps without a recorded price nearby will be stored unpriced in USD`);
+  }
+
+  const wallets = await getMonitoredWallets();
+  const walletAddresses = kolArgs.length > 0 ? (kolArgs as Address[]) : [...wallets.keys()];
+
+  const baseSource = fixturePath ? await createFixtureBackfillSource(fixturePath) : createRpcBackfillSource();
+  const recorder = recordPath ? createRecordingBackfillSource(baseSource) : null;
+  const source: BackfillSource = recorder || baseSource;
+
+  console.log(`🚀 Backfilling ${walletAddresses.length} KOL wallet(s)${fixturePath ? ` from fixture ${fixturePath}` : ''}`);
+
+  const results: BackfillResult[] = [];
+  for (const walletAddress of walletAddresses) {
+    try {
+      results.push(await backfillKOLTrades(walletAddress, { startTime, endTime }, source, wallets));
+    } catch (error) {
+      console.error(`❌ Backfill failed for ${walletAddress}:`, error);
+    }
+  }
+
+  if (recorder && recordPath) {
+    await recorder.save(recordPath);
+    console.log(`💾 Recorded RPC responses to ${recordPath}`);
+  }
+
+  const recorded = results.reduce((sum, result) => sum + result.recorded, 0);
+  const unlinked = results.reduce((sum, result) => sum + result.unlinked, 0);
+  const failed = results.reduce((sum, result) => sum + result.failed, 0);
+  console.log(`\n🎉 Backfill complete: ${recorded} transaction(s) recorded, ${failed} failed`);
+  if (unlinked > 0) {
+    console.log(`⚠️  ${unlinked} transaction(s) predate their wallet's link to a KOL and were not recorded; backdate the link (addedAt) and re-run to include them`);
+  }
+
+  await closePool();
+  process.exit(failed > 0 || results.length < walletAddresses.length ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('❌ Backfill failed:', error);
+  process.exit(1);
+});
@@ -1,51 +1,51 @@
+/**
+ * Verify the database schema against the migrations
+ * Reports pending migrations and every missing or differing column,
+ * constraint and index; exits non-zero when the schema is out of date
+ *
+ * Usage:
+ *   npm run db:check
+ */
 import { config } from 'dotenv';
-import { Pool } from 'pg';
+import { closePool } from '../src/lib/database';
+import { checkSchema } from '../src/lib/migrations';
 
 // Load environment variables
 config();
 
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL,
-  ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
-});
+async function main() {
+  let ok = false;
 
-async function checkSchema() {
-  const client = await pool.connect();
-  
   try {
     console.log('🔍 Checking database schema...');
-    
-    // List all tables
-    const tablesResult = await client.query(`
-      SELECT table_name 
-      FROM information_schema.tables 
-      WHERE table_schema = 'public'
-      ORDER BY table_name;
-    `);
-    
-    console.log('\n📋 Tables in database:');
-    tablesResult.rows.forEach((row, index) => {
-      console.log(`${index + 1}. ${row.table_name}`);
-    });
-    
-    // Check if we have the expected tables
-    const expectedTables = ['kols', 'tokens', 'trades', 'trade_transactions', 'leaderboard_periods', 'webhook_logs'];
-    const existingTables = tablesResult.rows.map(row => row.table_name);
-    const missingTables = expectedTables.filter(table => !existingTables.includes(table));
-    
-    if (missingTables.length > 0) {
-      console.log('\n❌ Missing tables:');
-      missingTables.forEach(table => console.log(`- ${table}`));
-    } else {
-      console.log('\n✅ All expected tables exist');
+
+    const result = await checkSchema();
+
+    if (result.pending.length > 0) {
+      console.log(`\n⏳ Pending migrations: ${result.pending.join(', ')}`);
+    }
+
+    if (result.problems.length > 0) {
+      console.log('\n❌ Schema differences:');
+      result.problems.forEach(problem => console.log(`- ${problem}`));
+    }
+
+    if (result.extraTables.length > 0) {
+      console.log(`\nℹ️  Tables not created by any migration: ${result.extraTables.join(', ')}`);
+    }
+
+    if (result.ok) {
+      console.log('\n✅ Schema matches the migrations');
     }
-    
+    ok = result.ok;
+
   } catch (error) {
     console.error('❌ Error checking schema:', error);
   } finally {
-    client.release();
-    await pool.end();
+    await closePool();
   }
+
+  process.exit(ok ? 0 : 1);
 }
 
-checkSchema();
\ No newline at end of file
+main();
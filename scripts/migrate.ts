@@ -0,0 +1,77 @@
+/**
+ * Apply, revert and list schema migrations
+ *
+ * Usage:
+ *   npm run db:migrate -- up [--to <version>]
+ *   npm run db:migrate -- down [--steps <n>]
+ *   npm run db:migrate -- status
+ */
+import 'dotenv/config';
+
+import { closePool } from '../src/lib/database';
+import { getMigrationStatus, migrateDown, migrateUp } from '../src/lib/migrations';
+
+function readArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function parsePositiveInteger(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    console.error(`❌ --${name} must be a positive integer`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+async function main() {
+  const command = process.argv[2] || 'status';
+
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is required');
+    process.exit(1);
+  }
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp(parsePositiveInteger(readArg('to'), 'to'));
+      console.log(applied.length > 0 ? `✅ Applied ${applied.length} migration(s)` : '✅ Database is up to date');
+      break;
+    }
+
+    case 'down': {
+      const reverted = await migrateDown(parsePositiveInteger(readArg('steps'), 'steps') ?? 1);
+      console.log(reverted.length > 0 ? `✅ Reverted ${reverted.length} migration(s)` : 'ℹ️  No migrations to revert');
+      break;
+    }
+
+    case 'status': {
+      const statuses = await getMigrationStatus();
+      console.log('\n📋 Migrations:');
+      for (const status of statuses) {
+        const state = status.missing
+          ? '❓ applied, file missing'
+          : status.appliedAt === null
+            ? '⏳ pending'
+            : `✅ applied ${new Date(status.appliedAt).toISOString()}${status.modified ? ' (⚠️  modified since)' : ''}`;
+        console.log(`${status.version.toString().padStart(4, '0')}_${status.name.padEnd(28)} ${state}`);
+      }
+      break;
+    }
+
+    default:
+      console.error(`❌ Unknown command "${command}", expected up, down or status`);
+      process.exit(1);
+  }
+
+  await closePool();
+}
+
+main().catch(async error => {
+  console.error('❌ Migration failed:', error);
+  await closePool().catch(() => undefined);
+  process.exit(1);
+});
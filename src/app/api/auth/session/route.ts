@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, type Address } from 'gill';
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_MS,
+  createSessionToken,
+  getSignInMessage,
+  getWalletSession,
+  isWalletAuthConfigured,
+  verifySignIn,
+} from '@/lib/wallet-auth';
+import type { WalletSession } from '@/lib/wallet-auth';
+import type { ApiResponse } from '@/lib/pills-market-types';
+
+/**
+ * Wallet sign-in sessions
+ * GET ?address= returns a sign-in message to sign (or, without an address, the
+ * current session), POST exchanges the signed message for a session cookie,
+ * DELETE signs out
+ */
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(request: NextRequest) {
+  const address = request.nextUrl.searchParams.get('address');
+
+  if (!address) {
+    const session = getWalletSession(request);
+    if (!session) {
+      return errorResponse('Not signed in', 401);
+    }
+    const response: ApiResponse<WalletSession> = { success: true, data: session, timestamp: Date.now() };
+    return NextResponse.json(response);
+  }
+
+  if (!isAddress(address)) {
+    return errorResponse('Invalid wallet address', 400);
+  }
+
+  const issuedAt = Date.now();
+  const response: ApiResponse<{ message: string; issuedAt: number }> = {
+    success: true,
+    data: { message: getSignInMessage(address, issuedAt), issuedAt },
+    timestamp: Date.now(),
+  };
+  return NextResponse.json(response);
+}
+
+export async function POST(request: NextRequest) {
+  if (!isWalletAuthConfigured()) {
+    return errorResponse('Wallet sign-in is not configured', 503);
+  }
+
+  let body: { address?: string; issuedAt?: number; signature?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (!body.address || !isAddress(body.address)) {
+    return errorResponse('Invalid wallet address', 400);
+  }
+  if (typeof body.issuedAt !== 'number' || typeof body.signature !== 'string') {
+    return errorResponse('Signed sign-in message required', 400);
+  }
+
+  if (!(await verifySignIn(body.address, body.issuedAt, body.signature))) {
+    return errorResponse('Invalid or expired signature', 401);
+  }
+
+  const { token, session } = createSessionToken(body.address as Address);
+  const response: ApiResponse<WalletSession> = { success: true, data: session, timestamp: Date.now() };
+  const res = NextResponse.json(response);
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_MS / 1000,
+  });
+  return res;
+}
+
+export async function DELETE() {
+  const response: ApiResponse<null> = { success: true, data: null, timestamp: Date.now() };
+  const res = NextResponse.json(response);
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
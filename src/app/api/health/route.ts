@@ -1,23 +1,32 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { healthCheck, getAllActiveKOLs } from '@/lib/database';
+import { NextResponse } from 'next/server';
+import { healthCheck } from '@/lib/database';
+import { getAllActiveKOLs } from '@/lib/kol-db';
 import { isHeliusConfigured } from '@/lib/helius-api';
+import { getIngestionQueueMetrics } from '@/lib/ingestion-queue';
+import { getReconciliationSummary } from '@/lib/reconciliation';
 
 /**
  * Health check endpoint
- * Verifies database connection, Helius API configuration, and system status
+ * Verifies database connection, Helius API configuration, and system status,
+ * and reports the ingestion queue and the latest webhook-vs-chain reconciliation
  */
 
+// Queued webhook transactions older than this mean the worker is falling behind
+const INGESTION_LAG_WARNING_MS = 60 * 1000;
+
 export async function GET() {
   try {
-    const [dbHealthy, kols] = await Promise.all([
+    const [dbHealthy, kols, ingestion, reconciliation] = await Promise.all([
       healthCheck(),
       getAllActiveKOLs().catch(() => []), // Don't fail if KOLs table doesn't exist yet
+      getIngestionQueueMetrics().catch(() => null),
+      getReconciliationSummary().catch(() => null),
     ]);
 
     const heliusConfigured = isHeliusConfigured();
     
     // Calculate system status
-    const systemStatus = dbHealthy && heliusConfigured ? 'healthy' : 'degraded';
+    const systemStatus = dbHealthy && heliusConfigured && reconciliation?.status !== 'gaps' ? 'healthy' : 'degraded';
     
     return NextResponse.json({
       status: systemStatus,
@@ -32,6 +41,12 @@ export async function GET() {
           status: heliusConfigured ? 'configured' : 'not_configured',
           configured: heliusConfigured,
         },
+        ingestion: ingestion
+          ? { status: ingestion.lagMs > INGESTION_LAG_WARNING_MS ? 'lagging' : 'healthy', ...ingestion }
+          : { status: 'unavailable' },
+        reconciliation: reconciliation
+          ? { ...reconciliation, lastRunAt: new Date(reconciliation.lastRunAt).toISOString() }
+          : { status: 'not_run' },
       },
       version: process.env.npm_package_version || '1.0.0',
       environment: process.env.NODE_ENV,
@@ -74,14 +89,11 @@ export async function POST() {
       dbDiagnostics = {
         connected: dbHealthy,
         activeKOLs: kols.length,
-        sampleKOLs: kols.slice(0, 3).map((kol: unknown) => {
-          const kolData = kol as { name: string; wallet_address?: string; twitter_handle: string };
-          return {
-            name: kolData.name,
-            wallet: kolData.wallet_address?.slice(0, 8) + '...',
-            twitter: kolData.twitter_handle,
-          };
-        }),
+        sampleKOLs: kols.slice(0, 3).map(kol => ({
+          name: kol.name,
+          wallet: kol.wallet_address.slice(0, 8) + '...',
+          twitter: kol.twitter_handle,
+        })),
       };
     } catch (error) {
       dbDiagnostics = {
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { getKOL, isKOLError, KOLError, updateKOL } from '@/lib/kol-registry';
+import type { KOLProfileInput } from '@/lib/kol-registry';
+import type { KOL } from '@/lib/kol-types';
+import type { ApiResponse } from '@/lib/pills-market-types';
+
+/**
+ * Single KOL endpoint
+ * GET returns the KOL, active or not; PATCH { name?, twitter?, avatar?,
+ * telegramHandle?, isActive? } edits it (operator only). Deactivating stops
+ * monitoring the wallet but keeps its trades and current period entries.
+ */
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ address: string }> }) {
+  const { address } = await params;
+
+  try {
+    const kol = await getKOL(address);
+    if (!kol) {
+      return errorResponse(KOLError.NOT_FOUND, 404);
+    }
+
+    const response: ApiResponse<KOL> = { success: true, data: kol, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error fetching KOL:', error);
+    return errorResponse('Failed to fetch KOL', 500);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ address: string }> }) {
+  if (!isAdminRequest(request)) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  const { address } = await params;
+  let body: KOLProfileInput;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  try {
+    const kol = await updateKOL(address, {
+      name: body.name,
+      twitter: body.twitter,
+      avatar: body.avatar,
+      telegramHandle: body.telegramHandle,
+      isActive: body.isActive,
+    });
+    const response: ApiResponse<KOL> = { success: true, data: kol, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (isKOLError(error)) {
+      return errorResponse(error.message, error.message === KOLError.NOT_FOUND ? 404 : 400);
+    }
+
+    console.error('Error updating KOL:', error);
+    return errorResponse('Failed to update KOL', 500);
+  }
+}
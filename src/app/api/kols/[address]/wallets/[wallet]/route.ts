@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { isKOLError, KOLError, unlinkWallet } from '@/lib/kol-registry';
+import type { KOLWallet } from '@/lib/kol-types';
+import type { ApiResponse } from '@/lib/pills-market-types';
+
+/**
+ * Single KOL wallet endpoint
+ * DELETE unlinks the wallet (operator only), as of ?at=<ms> or now. Trades
+ * already recorded from it stay with the KOL; later swaps no longer count.
+ */
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string; wallet: string }> }
+) {
+  if (!isAdminRequest(request)) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  const { address, wallet } = await params;
+  const at = request.nextUrl.searchParams.get('at');
+
+  try {
+    const unlinked = await unlinkWallet(address, wallet, at === null ? undefined : Number(at));
+    const response: ApiResponse<KOLWallet> = { success: true, data: unlinked, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (isKOLError(error)) {
+      switch (error.message) {
+        case KOLError.NOT_FOUND:
+        case KOLError.WALLET_NOT_LINKED:
+          return errorResponse(error.message, 404);
+        case KOLError.LAST_WALLET:
+          return errorResponse(error.message, 409);
+        default:
+          return errorResponse(error.message, 400);
+      }
+    }
+
+    console.error('Error unlinking KOL wallet:', error);
+    return errorResponse('Failed to unlink KOL wallet', 500);
+  }
+}
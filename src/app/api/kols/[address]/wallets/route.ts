@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { getKOLWalletHistory, isKOLError, KOLError, linkWallet } from '@/lib/kol-registry';
+import type { KOLWallet } from '@/lib/kol-types';
+import type { ApiResponse } from '@/lib/pills-market-types';
+
+/**
+ * KOL wallets endpoint
+ * GET lists every wallet the KOL has had linked, current and past;
+ * POST { wallet, addedAt? } links another wallet (operator only). Swaps count
+ * for the KOL from addedAt (ms, now by default), so backdating lets the
+ * backfill attribute the wallet's earlier history.
+ */
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+function toStatus(error: KOLError): number {
+  if (error === KOLError.NOT_FOUND) return 404;
+  if (error === KOLError.WALLET_IN_USE) return 409;
+  return 400;
+}
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ address: string }> }) {
+  const { address } = await params;
+
+  try {
+    const wallets = await getKOLWalletHistory(address);
+    const response: ApiResponse<KOLWallet[]> = { success: true, data: wallets, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (isKOLError(error)) {
+      return errorResponse(error.message, toStatus(error.message));
+    }
+
+    console.error('Error fetching KOL wallets:', error);
+    return errorResponse('Failed to fetch KOL wallets', 500);
+  }
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ address: string }> }) {
+  if (!isAdminRequest(request)) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  const { address } = await params;
+  let body: { wallet?: string; addedAt?: number };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (typeof body.wallet !== 'string') {
+    return errorResponse(KOLError.INVALID_ADDRESS, 400);
+  }
+
+  try {
+    const wallet = await linkWallet(address, body.wallet, body.addedAt);
+    const response: ApiResponse<KOLWallet> = { success: true, data: wallet, timestamp: Date.now() };
+    return NextResponse.json(response, { status: 201 });
+
+  } catch (error) {
+    if (isKOLError(error)) {
+      return errorResponse(error.message, toStatus(error.message));
+    }
+
+    console.error('Error linking KOL wallet:', error);
+    return errorResponse('Failed to link KOL wallet', 500);
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { addKOL, getActiveKOLs, isKOLError, KOLError, listKOLs } from '@/lib/kol-registry';
+import type { KOLProfileInput } from '@/lib/kol-registry';
+import type { KOL } from '@/lib/kol-types';
+import type { ApiResponse } from '@/lib/pills-market-types';
+
+/**
+ * KOL registry endpoint
+ * GET lists the active KOLs (operators can add ?include=inactive);
+ * POST { address, name, twitter?, avatar?, telegramHandle?, addedAt? } starts
+ * tracking a wallet (operator only), which joins the roster from the next
+ * period; addedAt (ms) backdates when the wallet counts as the KOL's
+ */
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(request: NextRequest) {
+  const includeInactive = request.nextUrl.searchParams.get('include') === 'inactive';
+  if (includeInactive && !isAdminRequest(request)) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  try {
+    const kols = includeInactive ? await listKOLs() : await getActiveKOLs();
+    const response: ApiResponse<KOL[]> = { success: true, data: kols, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error listing KOLs:', error);
+    return errorResponse('Failed to list KOLs', 500);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  let body: KOLProfileInput & { address?: string; addedAt?: number };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (typeof body.address !== 'string') {
+    return errorResponse(KOLError.INVALID_ADDRESS, 400);
+  }
+
+  try {
+    const kol = await addKOL(body.address, {
+      name: body.name,
+      twitter: body.twitter,
+      avatar: body.avatar,
+      telegramHandle: body.telegramHandle,
+      isActive: body.isActive,
+    }, body.addedAt);
+    const response: ApiResponse<KOL> = { success: true, data: kol, timestamp: Date.now() };
+    return NextResponse.json(response, { status: 201 });
+
+  } catch (error) {
+    if (isKOLError(error)) {
+      const conflict = error.message === KOLError.ALREADY_EXISTS || error.message === KOLError.WALLET_IN_USE;
+      return errorResponse(error.message, conflict ? 409 : 400);
+    }
+
+    console.error('Error adding KOL:', error);
+    return errorResponse('Failed to add KOL', 500);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPeriodArchive } from '@/lib/period-archive';
+import type { PeriodArchiveDetail } from '@/lib/kol-types';
+import type { ApiResponse } from '@/lib/pills-market-types';
+
+/**
+ * Past period endpoint
+ * GET returns an ended period's final leaderboard, settlement and market price
+ * history; 404 for unknown periods and periods still running
+ */
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ periodId: string }> }) {
+  const { periodId } = await params;
+
+  try {
+    const archive = await getPeriodArchive(periodId);
+    if (!archive) {
+      return errorResponse('Period not found', 404);
+    }
+
+    const response: ApiResponse<PeriodArchiveDetail> = { success: true, data: archive, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error fetching past period:', error);
+    return errorResponse('Failed to fetch period', 500);
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPastPeriods } from '@/lib/period-archive';
+import type { PeriodArchiveEntry } from '@/lib/kol-types';
+import type { ApiResponse, PaginatedResponse } from '@/lib/pills-market-types';
+
+/**
+ * Past periods endpoint
+ * GET ?page=&limit= lists the periods that have ended, most recent first, with
+ * their market volume, winners, final ranking and payout per share
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const page = parseInt(request.nextUrl.searchParams.get('page') || '1', 10);
+  const limit = parseInt(request.nextUrl.searchParams.get('limit') || '', 10);
+
+  try {
+    const periods = await getPastPeriods(page, limit);
+    const response: ApiResponse<PaginatedResponse<PeriodArchiveEntry>> = { success: true, data: periods, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error listing past periods:', error);
+    const response: ApiResponse<never> = { success: false, error: 'Failed to list periods', timestamp: Date.now() };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
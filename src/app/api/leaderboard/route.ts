@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLeaderboardEntries } from '@/lib/leaderboard-db';
+import type { KOLLeaderboardEntry } from '@/lib/kol-types';
+import type { ApiResponse } from '@/lib/pills-market-types';
+
+/**
+ * KOL leaderboard endpoint
+ * GET ?period=<start>-<end> (defaults to the current period) returns ranked
+ * KOLs with their active and completed trades from the webhook-fed tables
+ */
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(request: NextRequest) {
+  const periodId = request.nextUrl.searchParams.get('period') || undefined;
+
+  try {
+    const entries = await getLeaderboardEntries(periodId);
+    if (!entries) {
+      return errorResponse('Period not found', 404);
+    }
+
+    const response: ApiResponse<KOLLeaderboardEntry[]> = { success: true, data: entries, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error fetching leaderboard:', error);
+    return errorResponse('Failed to fetch leaderboard', 500);
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, type Address } from 'gill';
+import { getUserOrders, isMarketError, placeMarketOrder } from '@/lib/market-db';
+import { isWalletRequest } from '@/lib/wallet-auth';
+import { MarketError } from '@/lib/pills-market-types';
+import type { ApiResponse, TradeOrder } from '@/lib/pills-market-types';
+import type { PlaceOrderResult } from '@/lib/market-db';
+
+/**
+ * Market orders endpoint
+ * POST places a buy/sell order against the current period for the signed-in
+ * wallet, GET lists a user's orders
+ */
+
+interface PlaceOrderBody {
+  userAddress: string;
+  periodId?: string;
+  kolAddress: string;
+  type: 'buy' | 'sell';
+  amount: number;
+  minSharesOut?: number;
+  minPillsOut?: number;
+}
+
+// An unset bound falls back to the default slippage guard; anything else must be a real floor
+function isMinimumFill(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+}
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function POST(request: NextRequest) {
+  let body: PlaceOrderBody;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (!body.userAddress || !isAddress(body.userAddress)) {
+    return errorResponse('Invalid user address', 400);
+  }
+  if (!isWalletRequest(request, body.userAddress)) {
+    return errorResponse('Sign in with this wallet to trade', 401);
+  }
+  if (!body.kolAddress || !isAddress(body.kolAddress)) {
+    return errorResponse('Invalid KOL address', 400);
+  }
+  if (body.type !== 'buy' && body.type !== 'sell') {
+    return errorResponse('Order type must be buy or sell', 400);
+  }
+  if (typeof body.amount !== 'number' || !Number.isFinite(body.amount) || body.amount <= 0) {
+    return errorResponse(MarketError.INVALID_AMOUNT, 400);
+  }
+  if (!isMinimumFill(body.minSharesOut)) {
+    return errorResponse('minSharesOut must be a non-negative number', 400);
+  }
+  if (!isMinimumFill(body.minPillsOut)) {
+    return errorResponse('minPillsOut must be a non-negative number', 400);
+  }
+  if (body.periodId !== undefined && typeof body.periodId !== 'string') {
+    return errorResponse('Invalid period', 400);
+  }
+
+  try {
+    const result = await placeMarketOrder({
+      userAddress: body.userAddress as Address,
+      periodId: body.periodId,
+      kolAddress: body.kolAddress as Address,
+      type: body.type,
+      amount: body.amount,
+      minSharesOut: body.minSharesOut,
+      minPillsOut: body.minPillsOut,
+    });
+
+    console.log(`✅ Filled ${result.order.type} order ${result.order.id} for ${result.order.userAddress}`);
+
+    const response: ApiResponse<PlaceOrderResult> = { success: true, data: result, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (isMarketError(error)) {
+      const closed = error.message === MarketError.MARKET_CLOSED || error.message === MarketError.ALREADY_RESOLVED;
+      return errorResponse(error.message, closed ? 409 : 400);
+    }
+
+    console.error('Error placing market order:', error);
+    return errorResponse(MarketError.TRANSACTION_FAILED, 500);
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const userAddress = request.nextUrl.searchParams.get('user');
+  if (!userAddress || !isAddress(userAddress)) {
+    return errorResponse('Invalid user address', 400);
+  }
+
+  try {
+    const orders = await getUserOrders(userAddress);
+    const response: ApiResponse<TradeOrder[]> = { success: true, data: orders, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error fetching market orders:', error);
+    return errorResponse('Failed to fetch orders', 500);
+  }
+}
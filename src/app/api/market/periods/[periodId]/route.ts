@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { isMarketError } from '@/lib/market-db';
+import { cancelMarketPeriod } from '@/lib/market-resolver';
+import { MarketState } from '@/lib/pills-market-types';
+import type { ApiResponse, MarketResolution } from '@/lib/pills-market-types';
+
+/**
+ * Market period endpoint (operator only)
+ * PATCH { state: 'cancelled' } cancels an unresolved period and refunds every stake
+ */
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ periodId: string }> }) {
+  if (!isAdminRequest(request)) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  const { periodId } = await params;
+  let body: { state?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (body.state !== MarketState.CANCELLED) {
+    return errorResponse(`Only the ${MarketState.CANCELLED} state can be set manually`, 400);
+  }
+
+  try {
+    const resolution = await cancelMarketPeriod(periodId);
+    const response: ApiResponse<MarketResolution> = { success: true, data: resolution, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (isMarketError(error)) {
+      return errorResponse(error.message, 409);
+    }
+    if (error instanceof Error && error.message.endsWith('not found')) {
+      return errorResponse(error.message, 404);
+    }
+
+    console.error('Error cancelling market period:', error);
+    return errorResponse('Failed to cancel period', 500);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'gill';
+import { getUserPositions } from '@/lib/market-db';
+import type { ApiResponse, UserPosition } from '@/lib/pills-market-types';
+
+/**
+ * Market positions endpoint
+ * Returns a user's open positions in the current period at current prices
+ */
+
+export async function GET(request: NextRequest) {
+  const userAddress = request.nextUrl.searchParams.get('user');
+  if (!userAddress || !isAddress(userAddress)) {
+    const response: ApiResponse<never> = { success: false, error: 'Invalid user address', timestamp: Date.now() };
+    return NextResponse.json(response, { status: 400 });
+  }
+
+  try {
+    const positions = await getUserPositions(userAddress);
+    const response: ApiResponse<UserPosition[]> = { success: true, data: positions, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error fetching market positions:', error);
+    const response: ApiResponse<never> = {
+      success: false,
+      error: 'Failed to fetch positions',
+      timestamp: Date.now(),
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
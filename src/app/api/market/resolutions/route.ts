@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { getMarketResolution, resolveDueMarketPeriods } from '@/lib/market-resolver';
+import type { ApiResponse, MarketResolution } from '@/lib/pills-market-types';
+
+/**
+ * Market resolutions endpoint
+ * GET returns the resolution of a settled period,
+ * POST (operator only) settles every ended period now, e.g. from an external cron
+ */
+
+export const dynamic = 'force-dynamic';
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(request: NextRequest) {
+  const periodId = request.nextUrl.searchParams.get('period');
+  if (!periodId) {
+    return errorResponse('Missing period', 400);
+  }
+
+  try {
+    const resolution = await getMarketResolution(periodId);
+    if (!resolution) {
+      return errorResponse('Period not resolved', 404);
+    }
+
+    const response: ApiResponse<MarketResolution> = { success: true, data: resolution, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error fetching market resolution:', error);
+    return errorResponse('Failed to fetch resolution', 500);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  try {
+    const resolutions = await resolveDueMarketPeriods();
+    const response: ApiResponse<MarketResolution[]> = { success: true, data: resolutions, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error resolving market periods:', error);
+    return errorResponse('Failed to resolve periods', 500);
+  }
+}
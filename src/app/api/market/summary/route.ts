@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getMarketSummary } from '@/lib/market-db';
+import type { ApiResponse, MarketSummary } from '@/lib/pills-market-types';
+
+/**
+ * Market summary endpoint
+ * Returns the current period with LMSR prices and probabilities for every KOL
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const summary = await getMarketSummary();
+    const response: ApiResponse<MarketSummary> = { success: true, data: summary, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error fetching market summary:', error);
+    const response: ApiResponse<never> = {
+      success: false,
+      error: 'Failed to fetch market summary',
+      timestamp: Date.now(),
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
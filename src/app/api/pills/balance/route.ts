@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'gill';
+import { getPillsBalance } from '@/lib/pills-ledger';
+import type { ApiResponse } from '@/lib/pills-market-types';
+
+/**
+ * PILLS balance endpoint
+ * Returns a user's custodial PILLS balance
+ */
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const userAddress = request.nextUrl.searchParams.get('user');
+  if (!userAddress || !isAddress(userAddress)) {
+    const response: ApiResponse<never> = { success: false, error: 'Invalid user address', timestamp: Date.now() };
+    return NextResponse.json(response, { status: 400 });
+  }
+
+  try {
+    const balance = await getPillsBalance(userAddress);
+    const response: ApiResponse<{ userAddress: string; balance: number }> = {
+      success: true,
+      data: { userAddress, balance },
+      timestamp: Date.now(),
+    };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error fetching PILLS balance:', error);
+    const response: ApiResponse<never> = {
+      success: false,
+      error: 'Failed to fetch balance',
+      timestamp: Date.now(),
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, isSignature } from 'gill';
+import { creditDeposit, getUserDeposits } from '@/lib/pills-deposits';
+import { isBalanceError } from '@/lib/pills-ledger';
+import { BalanceError } from '@/lib/pills-market-types';
+import type { ApiResponse, PillsDeposit } from '@/lib/pills-market-types';
+
+/**
+ * PILLS deposits endpoint
+ * POST credits the PILLS transfer to the treasury in a finalized transaction,
+ * GET lists a user's credited deposits
+ */
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function POST(request: NextRequest) {
+  let body: { signature?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (!body.signature || !isSignature(body.signature)) {
+    return errorResponse('Invalid transaction signature', 400);
+  }
+
+  try {
+    const deposit = await creditDeposit(body.signature);
+    const response: ApiResponse<PillsDeposit> = { success: true, data: deposit, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (isBalanceError(error)) {
+      // Not finalized yet: the client retries
+      return errorResponse(error.message, error.message === BalanceError.DEPOSIT_NOT_FOUND ? 404 : 400);
+    }
+
+    console.error('Error crediting PILLS deposit:', error);
+    return errorResponse('Failed to credit deposit', 500);
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const userAddress = request.nextUrl.searchParams.get('user');
+  if (!userAddress || !isAddress(userAddress)) {
+    return errorResponse('Invalid user address', 400);
+  }
+
+  try {
+    const deposits = await getUserDeposits(userAddress);
+    const response: ApiResponse<PillsDeposit[]> = { success: true, data: deposits, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error fetching PILLS deposits:', error);
+    return errorResponse('Failed to fetch deposits', 500);
+  }
+}
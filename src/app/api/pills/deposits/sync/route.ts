@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { syncTreasuryDeposits } from '@/lib/pills-deposits';
+import type { ApiResponse, PillsDeposit } from '@/lib/pills-market-types';
+
+/**
+ * Treasury deposit sync endpoint (operator only)
+ * Credits transfers to the treasury that no client submitted, e.g. from a cron job
+ */
+
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    const response: ApiResponse<never> = { success: false, error: 'Unauthorized', timestamp: Date.now() };
+    return NextResponse.json(response, { status: 401 });
+  }
+
+  try {
+    const deposits = await syncTreasuryDeposits();
+    console.log(`🔄 Treasury sync credited ${deposits.length} deposits`);
+
+    const response: ApiResponse<PillsDeposit[]> = { success: true, data: deposits, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error syncing treasury deposits:', error);
+    const response: ApiResponse<never> = {
+      success: false,
+      error: 'Failed to sync deposits',
+      timestamp: Date.now(),
+    };
+    return NextResponse.json(response, { status: 500 });
+  }
+}
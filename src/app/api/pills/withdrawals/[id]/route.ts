@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSignature } from 'gill';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { isBalanceError } from '@/lib/pills-ledger';
+import { processWithdrawal } from '@/lib/pills-withdrawals';
+import { BalanceError } from '@/lib/pills-market-types';
+import type { ApiResponse, PillsWithdrawal } from '@/lib/pills-market-types';
+
+/**
+ * Withdrawal processing endpoint (operator only)
+ * PATCH { status: 'completed', signature } once the treasury transfer is sent,
+ * or { status: 'rejected' } to refund the user's balance
+ */
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!isAdminRequest(request)) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  const { id } = await params;
+  let body: { status?: string; signature?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (body.status === 'completed' && (!body.signature || !isSignature(body.signature))) {
+    return errorResponse('Completed withdrawals need the payout transaction signature', 400);
+  }
+  if (body.status !== 'completed' && body.status !== 'rejected') {
+    return errorResponse('Status must be completed or rejected', 400);
+  }
+
+  try {
+    const withdrawal = await processWithdrawal(
+      id,
+      body.status === 'completed'
+        ? { status: 'completed', signature: body.signature as string }
+        : { status: 'rejected' }
+    );
+    const response: ApiResponse<PillsWithdrawal> = { success: true, data: withdrawal, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (isBalanceError(error)) {
+      return errorResponse(error.message, error.message === BalanceError.WITHDRAWAL_NOT_FOUND ? 404 : 409);
+    }
+
+    console.error('Error processing PILLS withdrawal:', error);
+    return errorResponse('Failed to process withdrawal', 500);
+  }
+}
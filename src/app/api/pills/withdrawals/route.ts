@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress, type Address } from 'gill';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { isWalletRequest } from '@/lib/wallet-auth';
+import { isBalanceError } from '@/lib/pills-ledger';
+import { getPendingWithdrawals, getUserWithdrawals, requestWithdrawal } from '@/lib/pills-withdrawals';
+import { MarketError } from '@/lib/pills-market-types';
+import type { ApiResponse, PillsWithdrawal } from '@/lib/pills-market-types';
+import { isMarketError } from '@/lib/market-db';
+
+/**
+ * PILLS withdrawals endpoint
+ * POST debits the signed-in wallet's balance and queues a transfer back to it,
+ * GET lists a user's withdrawals, or the pending queue for the operator
+ */
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function POST(request: NextRequest) {
+  let body: { userAddress?: string; amount?: number };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (!body.userAddress || !isAddress(body.userAddress)) {
+    return errorResponse('Invalid user address', 400);
+  }
+  if (!isWalletRequest(request, body.userAddress)) {
+    return errorResponse('Sign in with this wallet to withdraw', 401);
+  }
+  if (typeof body.amount !== 'number' || !Number.isFinite(body.amount) || body.amount <= 0) {
+    return errorResponse(MarketError.INVALID_AMOUNT, 400);
+  }
+
+  try {
+    const withdrawal = await requestWithdrawal(body.userAddress as Address, body.amount);
+    const response: ApiResponse<PillsWithdrawal> = { success: true, data: withdrawal, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (isMarketError(error) || isBalanceError(error)) {
+      return errorResponse(error.message, 400);
+    }
+
+    console.error('Error requesting PILLS withdrawal:', error);
+    return errorResponse('Failed to request withdrawal', 500);
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const userAddress = request.nextUrl.searchParams.get('user');
+
+  if (!userAddress) {
+    if (!isAdminRequest(request)) {
+      return errorResponse('Invalid user address', 400);
+    }
+
+    try {
+      const pending = await getPendingWithdrawals();
+      const response: ApiResponse<PillsWithdrawal[]> = { success: true, data: pending, timestamp: Date.now() };
+      return NextResponse.json(response);
+
+    } catch (error) {
+      console.error('Error fetching pending withdrawals:', error);
+      return errorResponse('Failed to fetch withdrawals', 500);
+    }
+  }
+
+  if (!isAddress(userAddress)) {
+    return errorResponse('Invalid user address', 400);
+  }
+
+  try {
+    const withdrawals = await getUserWithdrawals(userAddress);
+    const response: ApiResponse<PillsWithdrawal[]> = { success: true, data: withdrawals, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error fetching PILLS withdrawals:', error);
+    return errorResponse('Failed to fetch withdrawals', 500);
+  }
+}
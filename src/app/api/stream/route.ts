@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MarketEventCursor, getMarketEventsSince, subscribeMarketEvents } from '@/lib/market-events';
+import type { ApiResponse, MarketEvent } from '@/lib/pills-market-types';
+
+/**
+ * Market event stream (Server-Sent Events)
+ * Pushes trade, price_update, new_period, resolution and pnl_update events as
+ * they are committed. Each SSE id is the stream's cursor (the newest id sent
+ * plus recent ids still outstanding), so reconnecting clients that send it back
+ * as Last-Event-ID (or ?lastEventId=) get every event they missed, including
+ * ones that committed after a higher id, before the live feed resumes.
+ */
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const RECONNECT_DELAY_MS = 3000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+const REPLAY_BATCH_SIZE = 500;
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+function formatEvent(event: MarketEvent, cursor: MarketEventCursor): string {
+  return `id: ${cursor}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+export async function GET(request: NextRequest) {
+  const lastEventId = request.headers.get('last-event-id') || request.nextUrl.searchParams.get('lastEventId');
+  const resumeFrom = lastEventId ? MarketEventCursor.parse(lastEventId) : null;
+  if (lastEventId && !resumeFrom) {
+    return errorResponse('Invalid lastEventId', 400);
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      let cursor = new MarketEventCursor(BigInt(0));
+      let replaying = true;
+      const buffered: MarketEvent[] = [];
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      // Events are only sent once, whether replayed, live or committed late
+      const send = (event: MarketEvent) => {
+        if (!cursor.accept(event.id)) return;
+        write(formatEvent(event, cursor));
+      };
+
+      let unsubscribe = () => {};
+      const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener('abort', cleanup);
+
+      try {
+        // Subscribe before reading the backlog so nothing committed in between is lost
+        unsubscribe = await subscribeMarketEvents((event) => {
+          if (replaying) {
+            buffered.push(event);
+          } else {
+            send(event);
+          }
+        });
+        if (closed) {
+          unsubscribe();
+          return;
+        }
+
+        write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+        if (resumeFrom) {
+          cursor = resumeFrom;
+          let batch: MarketEvent[];
+          do {
+            batch = await getMarketEventsSince(cursor, REPLAY_BATCH_SIZE);
+            batch.forEach(send);
+          } while (batch.length === REPLAY_BATCH_SIZE && !closed);
+        } else {
+          cursor = await MarketEventCursor.atLatest();
+        }
+
+        replaying = false;
+        buffered
+          .sort((a, b) => (BigInt(a.id || '0') < BigInt(b.id || '0') ? -1 : 1))
+          .forEach(send);
+        buffered.length = 0;
+
+      } catch (error) {
+        console.error('Error starting market event stream:', error);
+        cleanup();
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
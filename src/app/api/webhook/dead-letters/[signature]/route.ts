@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import {
+  discardWebhookLog,
+  isWebhookLogError,
+  replayWebhookLog,
+  WebhookLogError,
+} from '@/lib/webhook-dead-letter';
+import type { WebhookLog } from '@/lib/webhook-dead-letter';
+import type { ApiResponse } from '@/lib/pills-market-types';
+
+/**
+ * Webhook dead-letter entry endpoint (operator only)
+ * PATCH { action: 'replay' } processes the transaction again from its stored
+ * payload, { action: 'discard' } stops retrying it
+ */
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ signature: string }> }) {
+  if (!isAdminRequest(request)) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  const { signature } = await params;
+  let body: { action?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON body', 400);
+  }
+
+  if (body.action !== 'replay' && body.action !== 'discard') {
+    return errorResponse('Action must be replay or discard', 400);
+  }
+
+  try {
+    const log = body.action === 'replay'
+      ? await replayWebhookLog(signature)
+      : await discardWebhookLog(signature);
+    const response: ApiResponse<WebhookLog> = { success: true, data: log, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    if (isWebhookLogError(error)) {
+      return errorResponse(error.message, error.message === WebhookLogError.NOT_FOUND ? 404 : 409);
+    }
+
+    console.error(`Error handling webhook log ${signature}:`, error);
+    return errorResponse(
+      body.action === 'replay' ? 'Replay failed, the attempt was recorded' : 'Failed to discard webhook log',
+      500
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { listWebhookLogs, retryFailedWebhooks, WEBHOOK_LOG_STATUSES } from '@/lib/webhook-dead-letter';
+import type { WebhookLog, WebhookLogStatus, WebhookRetryResult } from '@/lib/webhook-dead-letter';
+import type { ApiResponse } from '@/lib/pills-market-types';
+
+/**
+ * Webhook dead-letter endpoint (operator only)
+ * GET ?status=failed,dead&limit=100 lists logged webhook transactions,
+ * POST retries every failed transaction whose backoff has elapsed
+ */
+
+export const dynamic = 'force-dynamic';
+
+const MAX_LIMIT = 500;
+
+function errorResponse(error: string, status: number) {
+  const body: ApiResponse<never> = { success: false, error, timestamp: Date.now() };
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  const { searchParams } = request.nextUrl;
+  const statuses = (searchParams.get('status') || 'failed,dead').split(',') as WebhookLogStatus[];
+  if (statuses.some(status => !WEBHOOK_LOG_STATUSES.includes(status))) {
+    return errorResponse(`Status must be one of ${WEBHOOK_LOG_STATUSES.join(', ')}`, 400);
+  }
+
+  const limit = parseInt(searchParams.get('limit') || '100', 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return errorResponse(`Limit must be between 1 and ${MAX_LIMIT}`, 400);
+  }
+
+  try {
+    const logs = await listWebhookLogs(statuses, limit);
+    const response: ApiResponse<WebhookLog[]> = { success: true, data: logs, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error listing webhook logs:', error);
+    return errorResponse('Failed to list webhook logs', 500);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return errorResponse('Unauthorized', 401);
+  }
+
+  try {
+    const result = await retryFailedWebhooks();
+    const response: ApiResponse<WebhookRetryResult> = { success: true, data: result, timestamp: Date.now() };
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Error retrying webhook transactions:', error);
+    return errorResponse('Failed to retry webhook transactions', 500);
+  }
+}
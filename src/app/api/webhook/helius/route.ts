@@ -1,178 +1,174 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getActiveKOLAddresses } from '@/lib/kol-data';
 import type { Address } from 'gill';
+import { getWebhookSecret, isWebhookRequest } from '@/lib/admin-auth';
+import { enqueueWebhookTransactions } from '@/lib/ingestion-queue';
+import type { IngestionJobInput } from '@/lib/ingestion-queue';
+import { getMonitoredWallets } from '@/lib/kol-registry';
+import { findInvolvedWallets } from '@/lib/trade-decoder';
+import type { HeliusEnhancedTransaction } from '@/lib/trade-decoder';
+import { findProcessedSignatures } from '@/lib/webhook-log-db';
+import { MAX_WEBHOOK_ITEMS, validateHeliusTransaction } from '@/lib/webhook-payload';
 
 /**
  * Helius Webhook Handler
  * This endpoint receives real-time transaction data from Helius webhooks
- * for the monitored KOL wallets trading on Pump.Fun and PumpSwap
+ * for the monitored KOL wallets. Deliveries must carry the WEBHOOK_SECRET
+ * bearer token; malformed items are rejected one by one, already-seen
+ * signatures are skipped, and transactions involving a KOL are queued for the
+ * ingestion worker, which decodes and records their swaps. The response only
+ * waits for the queue insert, so large batches return well within Helius's
+ * timeout.
  */
 
-interface HeliusWebhookPayload {
-  accountData: {
-    account: string;
-    nativeBalanceChange: number;
-    tokenBalanceChanges: Array<{
-      mint: string;
-      rawTokenAmount: {
-        tokenAmount: string;
-        decimals: number;
-      };
-      userAccount: string;
-    }>;
-  }[];
-  description: string;
-  events: unknown[];
-  fee: number;
-  feePayer: string;
-  instructions: Array<{
-    accounts: string[];
-    data: string;
-    programId: string;
-    innerInstructions: unknown[];
-  }>;
-  nativeTransfers: Array<{
-    fromUserAccount: string;
-    toUserAccount: string;
-    amount: number;
-  }>;
-  signature: string;
-  slot: number;
-  source: string;
-  timestamp: number;
-  tokenTransfers: Array<{
-    fromTokenAccount: string;
-    toTokenAccount: string;
-    fromUserAccount: string;
-    toUserAccount: string;
-    tokenAmount: number;
-    mint: string;
-  }>;
-  transactionError: string | null;
-  type: string;
+export const dynamic = 'force-dynamic';
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+type WebhookItemStatus = 'queued' | 'skipped' | 'duplicate' | 'invalid';
+
+interface WebhookItemResult {
+  index: number;
+  signature?: string;
+  status: WebhookItemStatus;
+  reason?: string;
+}
+
+/**
+ * Read the request body, or null once it grows past maxBytes
+ */
+async function readBody(request: NextRequest, maxBytes: number): Promise<string | null> {
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
 }
 
 export async function POST(request: NextRequest) {
   try {
-    // Parse the webhook payload
-    const payload: HeliusWebhookPayload[] = await request.json();
-    
-    console.log(`🔔 Received webhook with ${payload.length} transaction(s)`);
-    
-    // Verify the webhook is from Helius (in production, verify signature/auth)
-    const heliusSecret = process.env.HELIUS_WEBHOOK_SECRET;
-    const authHeader = request.headers.get('authorization');
-    
-    if (heliusSecret && authHeader !== `Bearer ${heliusSecret}`) {
+    // Verify the webhook is from Helius before reading anything else
+    if (!getWebhookSecret()) {
+      console.error('❌ WEBHOOK_SECRET is not configured, rejecting webhook delivery');
+      return NextResponse.json({ error: 'Webhook authentication not configured' }, { status: 503 });
+    }
+    if (!isWebhookRequest(request)) {
       console.log('❌ Unauthorized webhook request');
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Get the list of KOL addresses we're monitoring
-    const monitoredAddresses = getActiveKOLAddresses();
-    console.log(`👥 Monitoring ${monitoredAddresses.length} KOL addresses`);
+    const contentLength = parseInt(request.headers.get('content-length') || '0', 10);
+    if (contentLength > MAX_BODY_BYTES) {
+      return NextResponse.json({ error: 'Payload too large' }, { status: 413 });
+    }
+    const body = await readBody(request, MAX_BODY_BYTES);
+    if (body === null) {
+      return NextResponse.json({ error: 'Payload too large' }, { status: 413 });
+    }
+
+    // Parse the webhook payload
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+    if (!Array.isArray(payload)) {
+      return NextResponse.json({ error: 'Payload must be an array of transactions' }, { status: 400 });
+    }
+    if (payload.length > MAX_WEBHOOK_ITEMS) {
+      return NextResponse.json({ error: `Payload exceeds ${MAX_WEBHOOK_ITEMS} transactions` }, { status: 413 });
+    }
     
-    // Process each transaction
-    for (const transaction of payload) {
-      // Skip failed transactions
-      if (transaction.transactionError) {
-        console.log(`Skipping failed transaction: ${transaction.signature}`);
+    console.log(`🔔 Received webhook with ${payload.length} transaction(s)`);
+
+    // Validate every item up front and drop repeats of a signature
+    const results: WebhookItemResult[] = [];
+    const seen = new Set<string>();
+    const accepted: Array<{ index: number; transaction: HeliusEnhancedTransaction }> = [];
+    for (const [index, item] of payload.entries()) {
+      const validation = validateHeliusTransaction(item);
+      if (!validation.valid) {
+        console.log(`⚠️  Rejecting malformed transaction at index ${index}: ${validation.error}`);
+        results.push({ index, status: 'invalid', reason: validation.error });
         continue;
       }
 
-      // Check if this transaction involves any of our monitored KOLs
-      const involvedKOLs = transaction.accountData
-        .map(account => account.account)
-        .filter(account => monitoredAddresses.includes(account as Address));
-
-      if (involvedKOLs.length === 0) {
-        console.log(`⏭️  Skipping transaction ${transaction.signature} - no monitored KOLs involved`);
-        continue; // Skip transactions not involving our KOLs
+      const { transaction } = validation;
+      if (seen.has(transaction.signature)) {
+        results.push({ index, signature: transaction.signature, status: 'duplicate', reason: 'Repeated in this delivery' });
+        continue;
       }
+      seen.add(transaction.signature);
+      accepted.push({ index, transaction });
+    }
 
-      // Check if this is a Pump.Fun or Pump Swap transaction
-      const isPumpFunTx = transaction.instructions.some(
-        instruction => 
-          instruction.programId === '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P' || // Pump.Fun launchpad program ID
-          instruction.programId === 'pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA'   // Pump Swap AMM program ID
-      );
+    const processedSignatures = await findProcessedSignatures([...seen]);
 
-      if (!isPumpFunTx) {
-        console.log(`⏭️  Skipping transaction ${transaction.signature} - not a Pump.Fun/Pump Swap transaction`);
-        continue; // Only process Pump.Fun/Pump Swap transactions
+    // Get the KOL wallets we're monitoring
+    const monitoredWallets = await getMonitoredWallets();
+    console.log(`👥 Monitoring ${monitoredWallets.size} KOL wallets`);
+    
+    // Queue each transaction that involves a KOL
+    const jobs: IngestionJobInput[] = [];
+    const jobIndexes = new Map<string, number>();
+    for (const { index, transaction } of accepted) {
+      const { signature } = transaction;
+
+      if (processedSignatures.has(signature)) {
+        results.push({ index, signature, status: 'duplicate', reason: 'Already processed' });
+        continue;
       }
 
-      // Check transaction type and identify buy/sell
-      const transactionType = transaction.type;
-      const isPumpAmmTransaction = transactionType === 'BUY' || transactionType === 'SELL';
-      
-      // For Pump.Fun launchpad, we need to check instruction data for buy/sell
-      const hasPumpFunBuySell = transaction.instructions.some(instruction => {
-        if (instruction.programId === '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P') {
-          // Check if instruction data matches buy (discriminator: [102, 6, 61, 18, 1, 218, 235, 234])
-          // or sell (discriminator: [51, 230, 133, 164, 1, 127, 131, 173]) from the IDL
-          const data = instruction.data;
-          if (data) {
-            const buyDiscriminator = '660630120100dadabea'; // hex representation of buy discriminator
-            const sellDiscriminator = '33e685a4017f83ad'; // hex representation of sell discriminator
-            return data.startsWith(buyDiscriminator) || data.startsWith(sellDiscriminator);
-          }
-        }
-        return false;
-      });
-
-      if (!isPumpAmmTransaction && !hasPumpFunBuySell) {
-        console.log(`⏭️  Skipping transaction ${transaction.signature} - not a buy/sell transaction (type: ${transactionType})`);
-        continue; // Only process buy/sell transactions
+      // Skip failed transactions
+      if (transaction.transactionError) {
+        results.push({ index, signature, status: 'skipped', reason: 'Transaction failed on chain' });
+        continue;
       }
 
-      console.log(`🎯 Processing Pump.Fun transaction for KOL(s): ${involvedKOLs.join(', ')}`);
-      console.log(`📝 Transaction signature: ${transaction.signature}`);
-      console.log(`⏰ Timestamp: ${new Date(transaction.timestamp * 1000).toISOString()}`);
-      console.log(`🏷️  Transaction type: ${transactionType || 'UNKNOWN'}`);
-      console.log(`📊 Program IDs involved: ${transaction.instructions.map(i => i.programId).join(', ')}`);
-
-      // Extract token transfers for this transaction
-      const tokenTransfers = transaction.tokenTransfers.filter(
-        transfer => involvedKOLs.includes(transfer.fromUserAccount) || 
-                    involvedKOLs.includes(transfer.toUserAccount)
-      );
-
-      // Extract native SOL transfers
-      const solTransfers = transaction.nativeTransfers.filter(
-        transfer => involvedKOLs.includes(transfer.fromUserAccount) || 
-                    involvedKOLs.includes(transfer.toUserAccount)
-      );
-
-      // Process and save transaction data to database
-      try {
-        const { processWebhookTransaction } = await import('@/lib/webhook-db-processor');
-        
-        await processWebhookTransaction(
-          transaction.signature,
-          transaction.timestamp,
-          transaction.slot,
-          involvedKOLs,
-          tokenTransfers,
-          solTransfers,
-          transactionType
-        );
-        
-        console.log(`✅ Successfully saved transaction ${transaction.signature} to database`);
-        
-      } catch (dbError) {
-        console.error(`❌ Failed to save transaction ${transaction.signature} to database:`, dbError);
-        // Continue processing other transactions even if one fails
+      // Check if this transaction involves any of our monitored wallets
+      const involvedWallets = findInvolvedWallets(transaction, monitoredWallets);
+
+      if (involvedWallets.length === 0) {
+        results.push({ index, signature, status: 'skipped', reason: 'No monitored KOLs involved' });
+        continue; // Skip transactions not involving our KOLs
       }
+
+      // Queue per KOL, so a KOL's swaps across its wallets are recorded in slot order
+      const involvedKOLs = [...new Set(involvedWallets.map(wallet => monitoredWallets.get(wallet) as Address))];
+      jobs.push({ transaction, kolAddresses: involvedKOLs });
+      jobIndexes.set(signature, index);
+    }
+
+    const queued = await enqueueWebhookTransactions(jobs);
+    for (const [signature, index] of jobIndexes) {
+      results.push(queued.has(signature)
+        ? { index, signature, status: 'queued' }
+        : { index, signature, status: 'duplicate', reason: 'Already queued' });
     }
 
-    console.log(`✅ Webhook processed successfully - ${payload.length} transaction(s)`);
+    results.sort((a, b) => a.index - b.index);
+    const summary = results.reduce<Record<WebhookItemStatus, number>>(
+      (counts, result) => ({ ...counts, [result.status]: counts[result.status] + 1 }),
+      { queued: 0, skipped: 0, duplicate: 0, invalid: 0 }
+    );
+
+    console.log(`✅ Webhook handled ${payload.length} transaction(s): ${JSON.stringify(summary)}`);
     
-    return NextResponse.json({ 
-      success: true, 
-      processed: payload.length,
-      message: 'Webhook processed successfully' 
-    });
+    return NextResponse.json({ success: true, summary, results });
 
   } catch (error) {
     console.error('Error processing Helius webhook:', error);
@@ -188,6 +184,6 @@ export async function GET() {
   return NextResponse.json({ 
     status: 'ok',
     service: 'Helius webhook handler',
-    monitoredKOLs: getActiveKOLAddresses().length
+    monitoredWallets: (await getMonitoredWallets()).size
   });
 }
\ No newline at end of file
@@ -1,21 +1,104 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { ArrowLeft, ExternalLink, Twitter } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { KOLPnlChart } from '@/components/kol-pnl-chart';
+import { ArrowLeft, ChevronLeft, ChevronRight, ExternalLink, Twitter } from 'lucide-react';
 import Link from 'next/link';
-import { getKOLByAddress } from '@/lib/kol-data';
+import { getExplorerLink } from 'gill';
+import { getKOLProfile, getKOLTrades } from '@/lib/kol-profile';
+import { formatDuration, formatSOL, formatUSD, formatWinRate, getTradePerformanceColor } from '@/lib/kol-utils';
+import type { Trade, TradeTransaction } from '@/lib/kol-types';
+import { pillsMarketEngine } from '@/lib/pills-market-engine';
+
+export const dynamic = 'force-dynamic';
 
 interface KOLDetailPageProps {
   params: Promise<{
     address: string;
   }>;
+  searchParams: Promise<{
+    page?: string;
+  }>;
+}
+
+function formatSignedSOL(amount: number): string {
+  return `${amount >= 0 ? '+' : ''}${formatSOL(amount)}`;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function getTokensHeld(trade: Trade): number {
+  const bought = trade.buys.reduce((sum, tx) => sum + tx.tokenAmount, 0);
+  const sold = trade.sells.reduce((sum, tx) => sum + tx.tokenAmount, 0);
+  return Math.max(bought - sold, 0);
 }
 
-export default async function KOLDetailPage({ params }: KOLDetailPageProps) {
+function StatTile({ label, value, className = '' }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="text-center">
+      <div className={`text-2xl font-bold ${className}`}>{value}</div>
+      <div className="text-sm text-gray-600 dark:text-gray-400">{label}</div>
+    </div>
+  );
+}
+
+function TransactionRow({ tx }: { tx: TradeTransaction }) {
+  return (
+    <div className="flex items-center justify-between gap-4 text-xs text-gray-600 dark:text-gray-400">
+      <span className={tx.type === 'BUY' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+        {tx.type}
+      </span>
+      <span>{tx.tokenAmount.toLocaleString()} for {formatSOL(tx.solAmount)}</span>
+      <span>{formatTime(tx.timestamp)}</span>
+      <a
+        href={getExplorerLink({ transaction: tx.signature })}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="font-mono inline-flex items-center gap-1 hover:underline"
+      >
+        {tx.signature.slice(0, 8)}…
+        <ExternalLink className="w-3 h-3" />
+      </a>
+    </div>
+  );
+}
+
+function PageLink({
+  address,
+  page,
+  enabled,
+  children,
+}: {
+  address: string;
+  page: number;
+  enabled: boolean;
+  children: React.ReactNode;
+}) {
+  if (!enabled) {
+    return (
+      <Button variant="outline" size="sm" disabled>
+        {children}
+      </Button>
+    );
+  }
+
+  return (
+    <Button variant="outline" size="sm" asChild>
+      <Link href={`/kol/${address}?page=${page}`}>{children}</Link>
+    </Button>
+  );
+}
+
+export default async function KOLDetailPage({ params, searchParams }: KOLDetailPageProps) {
   const { address } = await params;
-  const kol = getKOLByAddress(address);
+  const { page } = await searchParams;
+  const profile = await getKOLProfile(address);
 
-  if (!kol) {
+  if (!profile) {
     return (
       <div className="text-center py-12">
         <h1 className="text-2xl font-bold mb-4">KOL Not Found</h1>
@@ -32,6 +115,10 @@ export default async function KOLDetailPage({ params }: KOLDetailPageProps) {
     );
   }
 
+  const { kol, stats, periods, openPositions, market } = profile;
+  const trades = await getKOLTrades(kol.address, parseInt(page || '1', 10));
+  const pageCount = Math.max(Math.ceil(trades.total / trades.limit), 1);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -47,53 +134,184 @@ export default async function KOLDetailPage({ params }: KOLDetailPageProps) {
       {/* KOL Profile */}
       <Card>
         <CardContent className="p-8">
-          <div className="flex items-center gap-6 mb-6">
-            <Avatar className="w-24 h-24 border-4 border-white/20">
-              <AvatarImage src={kol.avatar} alt={kol.name} />
-              <AvatarFallback className="text-2xl">{kol.name.slice(0, 2)}</AvatarFallback>
-            </Avatar>
-            <div>
-              <h1 className="text-3xl font-bold">{kol.name}</h1>
-              <p className="text-lg text-gray-600 dark:text-gray-400 mb-2">@{kol.twitter}</p>
-              <div className="flex gap-2">
-                <Button variant="outline" size="sm" asChild>
-                  <Link href={`https://x.com/${kol.twitter}`} target="_blank">
-                    <Twitter className="w-4 h-4 mr-2" />
-                    Twitter
-                    <ExternalLink className="w-3 h-3 ml-1" />
-                  </Link>
-                </Button>
+          <div className="flex flex-wrap items-center justify-between gap-6">
+            <div className="flex items-center gap-6">
+              <Avatar className="w-24 h-24 border-4 border-white/20">
+                <AvatarImage src={kol.avatar} alt={kol.name} />
+                <AvatarFallback className="text-2xl">{kol.name.slice(0, 2)}</AvatarFallback>
+              </Avatar>
+              <div>
+                <h1 className="text-3xl font-bold">
+                  {kol.name}
+                  {!kol.isActive && <Badge variant="outline" className="ml-3 align-middle">Inactive</Badge>}
+                </h1>
+                <p className="text-lg text-gray-600 dark:text-gray-400 mb-2">@{kol.twitter}</p>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`https://x.com/${kol.twitter}`} target="_blank">
+                      <Twitter className="w-4 h-4 mr-2" />
+                      Twitter
+                      <ExternalLink className="w-3 h-3 ml-1" />
+                    </Link>
+                  </Button>
+                </div>
+                {kol.wallets && kol.wallets.length > 1 && (
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mt-2">
+                    Trades from {kol.wallets.length} wallets
+                  </p>
+                )}
               </div>
             </div>
+
+            {/* Current PILLS market */}
+            <div className="text-right">
+              {market ? (
+                <>
+                  <div className="text-2xl font-bold">{pillsMarketEngine.formatSharePrice(market.pricePerShare)}</div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    {pillsMarketEngine.formatProbability(market.probability)} chance to win this period
+                  </div>
+                </>
+              ) : (
+                <div className="text-sm text-gray-600 dark:text-gray-400">Not listed in the current market</div>
+              )}
+            </div>
           </div>
         </CardContent>
       </Card>
 
-      {/* Trading Stats - Placeholder for now */}
+      {/* Trading Stats */}
       <Card>
         <CardHeader>
           <CardTitle>Trading Performance</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <div className="text-center">
-              <div className="text-2xl font-bold text-green-600">+0.00 SOL</div>
-              <div className="text-sm text-gray-600 dark:text-gray-400">Total P&L</div>
-            </div>
-            <div className="text-center">
-              <div className="text-2xl font-bold">0</div>
-              <div className="text-sm text-gray-600 dark:text-gray-400">Total Trades</div>
-            </div>
-            <div className="text-center">
-              <div className="text-2xl font-bold">0%</div>
-              <div className="text-sm text-gray-600 dark:text-gray-400">Win Rate</div>
-            </div>
-          </div>
-          <div className="mt-6 text-center text-gray-600 dark:text-gray-400">
-            <p>Real-time trading data will be available once the MVP is connected to live Helius webhooks.</p>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-6">
+            <StatTile
+              label={`Total P&L (${stats.totalPnlUsd >= 0 ? '+' : ''}${formatUSD(stats.totalPnlUsd)})`}
+              value={formatSignedSOL(stats.totalPnlSol)}
+              className={getTradePerformanceColor(stats.totalPnlSol)}
+            />
+            <StatTile label="Total Trades" value={stats.totalTrades.toString()} />
+            <StatTile
+              label={`Win Rate (${stats.winningTrades}W / ${stats.losingTrades}L)`}
+              value={formatWinRate(stats.winRate)}
+            />
+            <StatTile
+              label="Average Hold Time"
+              value={stats.averageHoldTimeMs === undefined ? '—' : formatDuration(stats.averageHoldTimeMs)}
+            />
+            <StatTile
+              label={`Biggest Win${stats.biggestWin ? ` (${stats.biggestWin.token.symbol})` : ''}`}
+              value={stats.biggestWin ? formatSignedSOL(stats.biggestWin.pnlSol) : '—'}
+              className={getTradePerformanceColor(stats.biggestWin?.pnlSol ?? 0)}
+            />
+            <StatTile
+              label={`Biggest Loss${stats.biggestLoss ? ` (${stats.biggestLoss.token.symbol})` : ''}`}
+              value={stats.biggestLoss ? formatSignedSOL(stats.biggestLoss.pnlSol) : '—'}
+              className={getTradePerformanceColor(stats.biggestLoss?.pnlSol ?? 0)}
+            />
           </div>
         </CardContent>
       </Card>
+
+      {/* P&L History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>P&L by Period</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <KOLPnlChart periods={periods} />
+        </CardContent>
+      </Card>
+
+      {/* Open Positions */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Open Positions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {openPositions.length === 0 ? (
+            <p className="text-center text-gray-600 dark:text-gray-400">No open positions</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Token</TableHead>
+                  <TableHead className="text-right">Held</TableHead>
+                  <TableHead className="text-right">Cost Basis</TableHead>
+                  <TableHead className="text-right">Unrealized P&L</TableHead>
+                  <TableHead className="text-right">Last Activity</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openPositions.map((trade) => (
+                  <TableRow key={trade.id}>
+                    <TableCell className="font-semibold">{trade.token.symbol}</TableCell>
+                    <TableCell className="text-right font-mono">{getTokensHeld(trade).toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-mono">{formatSOL(trade.costBasisSol ?? 0)}</TableCell>
+                    <TableCell className={`text-right font-mono ${getTradePerformanceColor(trade.unrealizedPnlSol ?? 0)}`}>
+                      {formatSignedSOL(trade.unrealizedPnlSol ?? 0)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatTime(trade.lastActivityAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Trade History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Trade History ({trades.total})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {trades.items.length === 0 ? (
+            <p className="text-center text-gray-600 dark:text-gray-400">No trades recorded yet</p>
+          ) : (
+            trades.items.map((trade) => (
+              <div key={trade.id} className="rounded-lg border p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{trade.token.symbol}</span>
+                    <Badge variant="outline" className="text-xs">
+                      {trade.isOpen ? 'Open' : 'Closed'}
+                    </Badge>
+                  </div>
+                  <div className={`font-mono font-bold ${getTradePerformanceColor(trade.pnlSol)}`}>
+                    {formatSignedSOL(trade.pnlSol)}
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  {[...trade.buys, ...trade.sells]
+                    .sort((a, b) => a.timestamp - b.timestamp)
+                    .map((tx) => (
+                      <TransactionRow key={tx.signature} tx={tx} />
+                    ))}
+                </div>
+              </div>
+            ))
+          )}
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-between">
+              <PageLink address={kol.address} page={trades.page - 1} enabled={trades.page > 1}>
+                <ChevronLeft className="w-4 h-4 mr-1" />
+                Newer
+              </PageLink>
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                Page {trades.page} of {pageCount}
+              </span>
+              <PageLink address={kol.address} page={trades.page + 1} enabled={trades.hasMore}>
+                Older
+                <ChevronRight className="w-4 h-4 ml-1" />
+              </PageLink>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
-}
\ No newline at end of file
+}
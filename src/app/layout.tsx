@@ -12,6 +12,7 @@ export const metadata: Metadata = {
 
 const links: { label: string; path: string }[] = [
   { label: 'Account', path: '/account' },
+  { label: 'Past Periods', path: '/periods' },
   { label: 'How It Works', path: '/how-it-works' },
 ]
 
@@ -0,0 +1,167 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MarketPriceChart } from '@/components/market-price-chart';
+import { ArrowLeft } from 'lucide-react';
+import Link from 'next/link';
+import { getPeriodArchive } from '@/lib/period-archive';
+import { formatSOL, formatUSD, formatWinRate, getTradePerformanceColor } from '@/lib/kol-utils';
+import { pillsMarketEngine } from '@/lib/pills-market-engine';
+
+export const dynamic = 'force-dynamic';
+
+interface PeriodDetailPageProps {
+  params: Promise<{
+    periodId: string;
+  }>;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="text-center">
+      <div className="text-2xl font-bold">{value}</div>
+      <div className="text-sm text-gray-600 dark:text-gray-400">{label}</div>
+    </div>
+  );
+}
+
+export default async function PeriodDetailPage({ params }: PeriodDetailPageProps) {
+  const { periodId } = await params;
+  const archive = await getPeriodArchive(periodId);
+
+  if (!archive) {
+    return (
+      <div className="text-center py-12">
+        <h1 className="text-2xl font-bold mb-4">Period Not Found</h1>
+        <p className="text-gray-600 dark:text-gray-400 mb-6">
+          The requested period doesn&apos;t exist or hasn&apos;t ended yet.
+        </p>
+        <Link href="/periods">
+          <Button>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Past Periods
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const { period, resolution, leaderboard, priceHistory } = archive;
+  const names = new Map(leaderboard.map(entry => [entry.kol.address as string, entry.kol.name]));
+  const nameOf = (address: string) => names.get(address) || `${address.slice(0, 4)}…${address.slice(-4)}`;
+  const finalPrices = priceHistory[priceHistory.length - 1]?.prices;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <Link href="/periods">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Past Periods
+          </Button>
+        </Link>
+      </div>
+
+      {/* Settlement */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-center gap-3">
+            {formatTime(period.startTime)} – {formatTime(period.endTime)}
+            <Badge variant="outline">
+              {resolution ? resolution.reason.replace(/_/g, ' ') : archive.marketState || 'no market'}
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+            <StatTile
+              label={resolution && resolution.winners.length > 1 ? 'Winners' : 'Winner'}
+              value={resolution && resolution.winners.length > 0 ? resolution.winners.map(nameOf).join(', ') : '—'}
+            />
+            <StatTile
+              label={resolution?.refundStakes ? 'Refunded' : 'Payout / Share'}
+              value={resolution && !resolution.refundStakes ? pillsMarketEngine.formatSharePrice(resolution.payoutPerShare) : '—'}
+            />
+            <StatTile
+              label="Prize Pool"
+              value={resolution ? pillsMarketEngine.formatPILLS(resolution.totalPrizePool) : '—'}
+            />
+            <StatTile label="Volume" value={pillsMarketEngine.formatPILLS(archive.totalVolume)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Market Prices */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Market Prices</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MarketPriceChart
+            history={priceHistory}
+            kols={leaderboard.map(entry => ({ address: entry.kol.address, name: entry.kol.name }))}
+            startTime={period.startTime}
+            endTime={period.endTime}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Final Leaderboard */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Final Leaderboard</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {leaderboard.length === 0 ? (
+            <p className="text-center text-gray-600 dark:text-gray-400">No KOLs were ranked this period</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rank</TableHead>
+                  <TableHead>KOL</TableHead>
+                  <TableHead className="text-right">P&L</TableHead>
+                  <TableHead className="text-right">Trades</TableHead>
+                  <TableHead className="text-right">Win Rate</TableHead>
+                  <TableHead className="text-right">Final Price</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {leaderboard.map((entry) => (
+                  <TableRow key={entry.kol.address}>
+                    <TableCell className="font-bold">#{entry.rank}</TableCell>
+                    <TableCell>
+                      <Link href={`/kol/${entry.kol.address}`} className="font-semibold hover:underline">
+                        {entry.kol.name}
+                      </Link>
+                      {resolution?.winners.includes(entry.kol.address) && (
+                        <Badge variant="outline" className="ml-2 text-xs">Winner</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className={`text-right font-mono ${getTradePerformanceColor(entry.totalPnlSol)}`}>
+                      {formatSOL(entry.totalPnlSol)}
+                      <div className="text-xs text-gray-600 dark:text-gray-400">{formatUSD(entry.totalPnlUsd)}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{entry.totalTrades}</TableCell>
+                    <TableCell className="text-right">{formatWinRate(entry.winRate)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {finalPrices?.[entry.kol.address] !== undefined
+                        ? pillsMarketEngine.formatSharePrice(finalPrices[entry.kol.address])
+                        : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
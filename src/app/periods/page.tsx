@@ -0,0 +1,134 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import Link from 'next/link';
+import { listKOLs } from '@/lib/kol-registry';
+import { formatSOL, getTradePerformanceColor } from '@/lib/kol-utils';
+import { getPastPeriods } from '@/lib/period-archive';
+import type { PeriodArchiveEntry } from '@/lib/kol-types';
+import { pillsMarketEngine } from '@/lib/pills-market-engine';
+
+export const dynamic = 'force-dynamic';
+
+interface PeriodsPageProps {
+  searchParams: Promise<{
+    page?: string;
+  }>;
+}
+
+function formatPeriod(entry: PeriodArchiveEntry): string {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', hour: 'numeric' };
+  return `${new Date(entry.period.startTime).toLocaleString('en-US', options)} – ${new Date(entry.period.endTime).toLocaleString('en-US', options)}`;
+}
+
+function PageLink({ page, enabled, children }: { page: number; enabled: boolean; children: React.ReactNode }) {
+  if (!enabled) {
+    return (
+      <Button variant="outline" size="sm" disabled>
+        {children}
+      </Button>
+    );
+  }
+
+  return (
+    <Button variant="outline" size="sm" asChild>
+      <Link href={`/periods?page=${page}`}>{children}</Link>
+    </Button>
+  );
+}
+
+export default async function PeriodsPage({ searchParams }: PeriodsPageProps) {
+  const { page } = await searchParams;
+  const [periods, kols] = await Promise.all([getPastPeriods(parseInt(page || '1', 10)), listKOLs()]);
+  const names = new Map(kols.map(kol => [kol.address as string, kol.name]));
+  const nameOf = (address: string) => names.get(address) || `${address.slice(0, 4)}…${address.slice(-4)}`;
+  const pageCount = Math.max(Math.ceil(periods.total / periods.limit), 1);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Past Periods</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {periods.items.length === 0 ? (
+            <p className="text-center text-gray-600 dark:text-gray-400">No periods have ended yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Winner</TableHead>
+                  <TableHead>Final Ranking</TableHead>
+                  <TableHead className="text-right">Volume</TableHead>
+                  <TableHead className="text-right">Payout / Share</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {periods.items.map((entry) => {
+                  const resolution = entry.resolution;
+                  return (
+                    <TableRow key={entry.period.periodId}>
+                      <TableCell>{formatPeriod(entry)}</TableCell>
+                      <TableCell>
+                        {resolution && resolution.winners.length > 0 ? (
+                          <span className="font-semibold">{resolution.winners.map(nameOf).join(', ')}</span>
+                        ) : (
+                          <Badge variant="outline" className="text-xs">
+                            {resolution ? resolution.reason.replace(/_/g, ' ') : entry.marketState || 'no market'}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {resolution ? (
+                          <ol className="text-xs space-y-0.5">
+                            {resolution.finalRanking.slice(0, 3).map((ranking) => (
+                              <li key={ranking.kolAddress}>
+                                {ranking.rank}. {nameOf(ranking.kolAddress)}{' '}
+                                <span className={getTradePerformanceColor(ranking.pnlSol)}>{formatSOL(ranking.pnlSol)}</span>
+                              </li>
+                            ))}
+                          </ol>
+                        ) : (
+                          <span className="text-xs text-gray-600 dark:text-gray-400">Not settled</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{pillsMarketEngine.formatPILLS(entry.totalVolume)}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {resolution ? pillsMarketEngine.formatSharePrice(resolution.payoutPerShare) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/periods/${entry.period.periodId}`}>View</Link>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-between">
+              <PageLink page={periods.page - 1} enabled={periods.page > 1}>
+                <ChevronLeft className="w-4 h-4 mr-1" />
+                Newer
+              </PageLink>
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                Page {periods.page} of {pageCount}
+              </span>
+              <PageLink page={periods.page + 1} enabled={periods.hasMore}>
+                Older
+                <ChevronRight className="w-4 h-4 ml-1" />
+              </PageLink>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { WalletDropdown } from '@/components/wallet-dropdown'
 import { ClusterDropdown } from '@/components/cluster-dropdown'
 import { useSolana } from '@/components/solana/use-solana'
 import { useUserPortfolio, useMarketFormatters } from '@/hooks/use-pills-market'
+import { PillsDepositModal, PillsWithdrawModal } from '@/components/pills-balance-modals'
 import { useHowItWorks } from '@/contexts/how-it-works-context'
 import Image from 'next/image'
 
@@ -17,7 +18,7 @@ export function AppHeader({ links = [] }: { links: { label: string; path: string
   const router = useRouter()
   const [showMenu, setShowMenu] = useState(false)
   const { account } = useSolana()
-  const { pillsBalance } = useUserPortfolio()
+  const { pillsBalance, refresh: refreshBalance } = useUserPortfolio()
   const { formatPILLS } = useMarketFormatters()
   const { toggleHowItWorks } = useHowItWorks()
 
@@ -78,6 +79,8 @@ export function AppHeader({ links = [] }: { links: { label: string; path: string
             <div className="flex items-center gap-2 text-sm ">
               <Wallet className="w-4 h-4" />
               <span>{formatPILLS(pillsBalance)}</span>
+              <PillsDepositModal onComplete={refreshBalance} />
+              <PillsWithdrawModal balance={pillsBalance} onComplete={refreshBalance} />
             </div>
           )}
           <WalletDropdown />
@@ -92,6 +95,8 @@ export function AppHeader({ links = [] }: { links: { label: string; path: string
                 <div className="flex items-center gap-2 text-sm justify-center">
                   <Wallet className="w-4 h-4" />
                   <span>{formatPILLS(pillsBalance)}</span>
+                  <PillsDepositModal onComplete={refreshBalance} />
+                  <PillsWithdrawModal balance={pillsBalance} onComplete={refreshBalance} />
                 </div>
               )}
               <div className="flex justify-end items-center gap-4">
@@ -4,6 +4,7 @@ import { ThemeProvider } from '@/components/theme-provider'
 import { ReactQueryProvider } from './react-query-provider'
 import { SolanaProvider } from '@/components/solana/solana-provider'
 import { HowItWorksProvider } from '@/contexts/how-it-works-context'
+import { WalletSessionProvider } from '@/contexts/wallet-session-context'
 import React from 'react'
 
 export function AppProviders({ children }: Readonly<{ children: React.ReactNode }>) {
@@ -11,9 +12,11 @@ export function AppProviders({ children }: Readonly<{ children: React.ReactNode
     <ReactQueryProvider>
       <ThemeProvider attribute="class" defaultTheme="system" enableSystem disableTransitionOnChange>
         <SolanaProvider>
-          <HowItWorksProvider>
-            {children}
-          </HowItWorksProvider>
+          <WalletSessionProvider>
+            <HowItWorksProvider>
+              {children}
+            </HowItWorksProvider>
+          </WalletSessionProvider>
         </SolanaProvider>
       </ThemeProvider>
     </ReactQueryProvider>
@@ -0,0 +1,82 @@
+import type { KOLPeriodPnl } from '@/lib/kol-types'
+import { formatSOL } from '@/lib/kol-utils'
+
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = 8
+
+function formatPeriodTime(timestamp: number) {
+  return new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric' })
+}
+
+/**
+ * Each period's P&L as a bar, with the running total drawn as a line over them
+ */
+export function KOLPnlChart({ periods }: { periods: KOLPeriodPnl[] }) {
+  if (periods.length === 0) {
+    return <div className="py-12 text-center text-gray-600 dark:text-gray-400">No ranked periods yet</div>
+  }
+
+  const values = periods.flatMap((period) => [period.pnlSol, period.cumulativePnlSol])
+  const max = Math.max(0, ...values)
+  const min = Math.min(0, ...values)
+  const range = max - min || 1
+  const y = (value: number) => PADDING + ((max - value) / range) * (HEIGHT - 2 * PADDING)
+  const slot = WIDTH / periods.length
+
+  // The running total starts at zero and steps at the end of each period
+  const points = [`0,${y(0)}`, ...periods.map((period, index) => `${slot * (index + 1)},${y(period.cumulativePnlSol)}`)]
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-2">
+        <span>Cumulative: {formatSOL(periods[periods.length - 1].cumulativePnlSol)}</span>
+        <span>
+          Range: {formatSOL(min)} to {formatSOL(max)}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-48"
+        role="img"
+        aria-label="P&L by period with cumulative total"
+      >
+        <line
+          x1={0}
+          x2={WIDTH}
+          y1={y(0)}
+          y2={y(0)}
+          className="stroke-gray-300 dark:stroke-gray-700"
+          strokeDasharray="4 4"
+          vectorEffect="non-scaling-stroke"
+        />
+        {periods.map((period, index) => (
+          <rect
+            key={period.periodId}
+            x={slot * index + slot * 0.2}
+            width={slot * 0.6}
+            y={Math.min(y(0), y(period.pnlSol))}
+            height={Math.abs(y(period.pnlSol) - y(0))}
+            className={period.pnlSol >= 0 ? 'fill-green-500/40' : 'fill-red-500/40'}
+          >
+            <title>
+              {`${formatPeriodTime(period.startTime)}: ${formatSOL(period.pnlSol)} over ${period.totalTrades} trades`}
+            </title>
+          </rect>
+        ))}
+        <polyline
+          points={points.join(' ')}
+          fill="none"
+          className="stroke-blue-500"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mt-2">
+        <span>{formatPeriodTime(periods[0].startTime)}</span>
+        <span>{formatPeriodTime(periods[periods.length - 1].endTime)}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import type { Address } from 'gill'
+import type { MarketPricePoint } from '@/lib/kol-types'
+
+const WIDTH = 600
+const HEIGHT = 200
+const COLORS = ['#22c55e', '#3b82f6', '#f59e0b', '#ef4444', '#a855f7', '#14b8a6', '#ec4899', '#64748b']
+
+/**
+ * Each KOL's share price over a period as a step line, from 0 to 1 PILLS
+ */
+export function MarketPriceChart({
+  history,
+  kols,
+  startTime,
+  endTime,
+}: {
+  history: MarketPricePoint[]
+  /** KOLs to draw, in legend order */
+  kols: { address: Address; name: string }[]
+  startTime: number
+  endTime: number
+}) {
+  if (history.length === 0 || kols.length === 0) {
+    return <div className="py-12 text-center text-gray-600 dark:text-gray-400">No market was opened for this period</div>
+  }
+
+  const span = endTime - startTime || 1
+  const x = (timestamp: number) => (Math.min(Math.max(timestamp, startTime), endTime) - startTime) / span * WIDTH
+  const y = (price: number) => HEIGHT - price * HEIGHT
+
+  // Hold each price until the next fill, and to the end of the period after the last
+  const pathFor = (address: Address) => {
+    const steps = history.map((point, index) => {
+      const price = point.prices[address] ?? 0
+      const next = history[index + 1]?.timestamp ?? endTime
+      return `${index === 0 ? 'M' : 'L'}${x(point.timestamp)},${y(price)} L${x(next)},${y(price)}`
+    })
+    return steps.join(' ')
+  }
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-48"
+        role="img"
+        aria-label="KOL share prices over the period"
+      >
+        {[0.25, 0.5, 0.75].map((price) => (
+          <line
+            key={price}
+            x1={0}
+            x2={WIDTH}
+            y1={y(price)}
+            y2={y(price)}
+            className="stroke-gray-200 dark:stroke-gray-800"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {kols.map((kol, index) => (
+          <path
+            key={kol.address}
+            d={pathFor(kol.address)}
+            fill="none"
+            stroke={COLORS[index % COLORS.length]}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mt-2">
+        <span>{new Date(startTime).toLocaleString()}</span>
+        <span>{history.length - 1} fills</span>
+        <span>{new Date(endTime).toLocaleString()}</span>
+      </div>
+      <div className="flex flex-wrap gap-4 mt-3 text-sm">
+        {kols.map((kol, index) => (
+          <span key={kol.address} className="inline-flex items-center gap-2">
+            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
+            {kol.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
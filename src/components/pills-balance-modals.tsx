@@ -0,0 +1,88 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { AppModal } from '@/components/app-modal'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { usePillsTransfers } from '@/hooks/use-pills-transfers'
+import { PILLS_TOKEN } from '@/lib/pills-market-types'
+
+export function PillsDepositModal({ onComplete }: { onComplete?: () => void }) {
+  const { deposit, isSubmitting } = usePillsTransfers()
+  const [amount, setAmount] = useState('100')
+
+  return (
+    <AppModal
+      title="Deposit"
+      submitDisabled={!amount || parseFloat(amount) <= 0 || isSubmitting}
+      submitLabel={isSubmitting ? 'Depositing...' : 'Deposit'}
+      submit={async () => {
+        const result = await deposit(parseFloat(amount))
+        if (result.success) {
+          toast.success(`Deposited ${result.deposit?.amount} ${PILLS_TOKEN.symbol}`)
+          onComplete?.()
+        } else {
+          toast.error(`Deposit failed: ${result.error}`)
+        }
+      }}
+    >
+      <p className="text-sm text-muted-foreground">
+        Sends {PILLS_TOKEN.symbol} from your wallet to the market treasury. Your balance is credited once the transfer
+        is confirmed.
+      </p>
+      <Label htmlFor="deposit-amount">Amount ({PILLS_TOKEN.symbol})</Label>
+      <Input
+        disabled={isSubmitting}
+        id="deposit-amount"
+        min="0"
+        onChange={(e) => setAmount(e.target.value)}
+        placeholder="Amount"
+        step="any"
+        type="number"
+        value={amount}
+      />
+    </AppModal>
+  )
+}
+
+export function PillsWithdrawModal({ balance, onComplete }: { balance: number; onComplete?: () => void }) {
+  const { withdraw, isSubmitting } = usePillsTransfers()
+  const [amount, setAmount] = useState('')
+  const value = parseFloat(amount)
+
+  return (
+    <AppModal
+      title="Withdraw"
+      submitDisabled={!amount || value <= 0 || value > balance || isSubmitting}
+      submitLabel={isSubmitting ? 'Requesting...' : 'Request Withdrawal'}
+      submit={async () => {
+        const result = await withdraw(value)
+        if (result.success) {
+          toast.success(`Withdrawal of ${value} ${PILLS_TOKEN.symbol} requested`)
+          setAmount('')
+          onComplete?.()
+        } else {
+          toast.error(`Withdrawal failed: ${result.error}`)
+        }
+      }}
+    >
+      <p className="text-sm text-muted-foreground">
+        {PILLS_TOKEN.symbol} are deducted from your balance now and sent to your connected wallet once the treasury
+        processes the request.
+      </p>
+      <Label htmlFor="withdraw-amount">Amount ({PILLS_TOKEN.symbol})</Label>
+      <Input
+        disabled={isSubmitting}
+        id="withdraw-amount"
+        max={balance}
+        min="0"
+        onChange={(e) => setAmount(e.target.value)}
+        placeholder={`Up to ${balance}`}
+        step="any"
+        type="number"
+        value={amount}
+      />
+    </AppModal>
+  )
+}
@@ -19,6 +19,7 @@ import Link from 'next/link'
 import { useTrading, useMarketFormatters } from '@/hooks/use-pills-market'
 import { useLiveLeaderboard } from '@/hooks/use-live-leaderboard'
 import { formatSOL, formatUSD, formatWinRate, getTradePerformanceColor } from '@/lib/kol-utils'
+import { TRADING_CONFIG } from '@/lib/pills-market-types'
 import type { LiveLeaderboardEntry } from '@/hooks/use-live-leaderboard'
 import type { Address } from 'gill'
 
@@ -224,8 +225,8 @@ function TradingModal({ kolAddress, children }: { kolAddress: Address; children:
   const [amount, setAmount] = useState<string>('')
   const [isSubmitting, setIsSubmitting] = useState(false)
 
-  const { buyShares, sellShares, getKOLPrice, calculateShares, canTrade } = useTrading()
-  const { formatShares } = useMarketFormatters()
+  const { buyShares, sellShares, quoteTrade, getKOLPrice, canTrade } = useTrading()
+  const { formatShares, formatPILLS, formatProbability } = useMarketFormatters()
 
   // Find KOL from leaderboard data or fallback to address lookup
   const { leaderboardData } = useLiveLeaderboard()
@@ -235,20 +236,23 @@ function TradingModal({ kolAddress, children }: { kolAddress: Address; children:
   if (!kol) return null
 
   const currentPrice = kolEntry?.sharePrice || getKOLPrice(kolAddress)
-  const pillsAmount = parseFloat(amount) || 0
-  const sharesAmount = calculateShares(kolAddress, pillsAmount)
+  // PILLS to spend for buys, shares to sell for sells
+  const inputAmount = parseFloat(amount) || 0
+  const quote = quoteTrade(kolAddress, tradeType, inputAmount)
 
   const handleTrade = async () => {
-    if (!canTrade || !pillsAmount) return
+    if (!canTrade || !inputAmount || !quote) return
 
     setIsSubmitting(true)
 
     try {
+      // Reject the fill if the market moved further than the tolerance since this quote
+      const slippage = { quote, maxSlippageBps: TRADING_CONFIG.DEFAULT_MAX_SLIPPAGE_BPS }
       let result
       if (tradeType === 'buy') {
-        result = await buyShares(kolAddress, pillsAmount)
+        result = await buyShares(kolAddress, inputAmount, slippage)
       } else {
-        result = await sellShares(kolAddress, sharesAmount)
+        result = await sellShares(kolAddress, inputAmount, slippage)
       }
 
       if (result.success) {
@@ -321,14 +325,40 @@ function TradingModal({ kolAddress, children }: { kolAddress: Address; children:
               className="text-lg font-mono"
             />
             <div className="text-sm text-gray-600 dark:text-gray-400">
-              {tradeType === 'buy' ? `≈ ${formatShares(sharesAmount)} shares` : `≈ $${pillsAmount.toFixed(2)} PILLS`}
+              {tradeType === 'buy'
+                ? `You receive ${formatShares(quote?.shares ?? 0)} shares`
+                : `You receive ${formatPILLS(quote?.pillsAmount ?? 0)}`}
             </div>
           </div>
 
+          {/* Quote Details */}
+          {quote && (
+            <div className="space-y-1 rounded-lg border p-3 text-sm text-gray-600 dark:text-gray-400">
+              <div className="flex justify-between">
+                <span>Avg. price</span>
+                <span className="font-mono">${quote.averagePrice.toFixed(3)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Price impact</span>
+                <span className={`font-mono ${quote.priceImpact > 0.05 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                  {formatProbability(quote.priceImpact)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span>Chance after trade</span>
+                <span className="font-mono">{formatProbability(quote.postTradeProbability)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Max slippage</span>
+                <span className="font-mono">{(TRADING_CONFIG.DEFAULT_MAX_SLIPPAGE_BPS / 100).toFixed(2)}%</span>
+              </div>
+            </div>
+          )}
+
           {/* Trade Button */}
           <Button
             onClick={handleTrade}
-            disabled={!canTrade || !pillsAmount || isSubmitting}
+            disabled={!canTrade || !quote || isSubmitting}
             className="w-full text-lg py-6"
             size="lg"
           >
@@ -0,0 +1,109 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, ReactNode, MutableRefObject } from 'react'
+import { getBase58Decoder, getUtf8Encoder } from 'gill'
+import { UiWalletAccount, useSignMessage } from '@wallet-ui/react'
+import { useSolana } from '@/components/solana/use-solana'
+import type { ApiResponse } from '@/lib/pills-market-types'
+
+type SignMessage = ReturnType<typeof useSignMessage>
+
+interface WalletSessionContextType {
+  /** Sign the server's sign-in message with the connected wallet to open a session */
+  signIn: () => Promise<void>
+  /** fetch() that signs in and retries once when the route asks for a session */
+  fetchAsWallet: (url: string, init?: RequestInit) => Promise<Response>
+}
+
+const WalletSessionContext = createContext<WalletSessionContextType | undefined>(undefined)
+
+// useSignMessage needs a connected account, so it lives in a child rendered only while one is
+function AccountMessageSigner({
+  account,
+  signerRef,
+}: {
+  account: UiWalletAccount
+  signerRef: MutableRefObject<SignMessage | null>
+}) {
+  const signMessage = useSignMessage(account)
+
+  useEffect(() => {
+    signerRef.current = signMessage
+    return () => {
+      signerRef.current = null
+    }
+  }, [signMessage, signerRef])
+
+  return null
+}
+
+export function WalletSessionProvider({ children }: { children: ReactNode }) {
+  const { account } = useSolana()
+  const signerRef = useRef<SignMessage | null>(null)
+  const address = account?.address
+
+  const signIn = useCallback(async () => {
+    const signMessage = signerRef.current
+    if (!address || !signMessage) {
+      throw new Error('Wallet not connected')
+    }
+
+    const challengeResponse = await fetch(`/api/auth/session?address=${address}`)
+    const challenge: ApiResponse<{ message: string; issuedAt: number }> = await challengeResponse.json()
+    if (!challenge.success || !challenge.data) {
+      throw new Error(challenge.error || 'Failed to start sign-in')
+    }
+
+    const { signature } = await signMessage({ message: getUtf8Encoder().encode(challenge.data.message) as Uint8Array })
+    const sessionResponse = await fetch('/api/auth/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        address,
+        issuedAt: challenge.data.issuedAt,
+        signature: getBase58Decoder().decode(signature),
+      }),
+    })
+    const session: ApiResponse<unknown> = await sessionResponse.json()
+    if (!session.success) {
+      throw new Error(session.error || 'Sign-in failed')
+    }
+  }, [address])
+
+  const fetchAsWallet = useCallback(
+    async (url: string, init?: RequestInit) => {
+      const response = await fetch(url, init)
+      if (response.status !== 401) return response
+
+      await signIn()
+      return await fetch(url, init)
+    },
+    [signIn],
+  )
+
+  // A session belongs to one wallet, so drop it when the wallet changes
+  const previousAddress = useRef(address)
+  useEffect(() => {
+    if (previousAddress.current && previousAddress.current !== address) {
+      fetch('/api/auth/session', { method: 'DELETE' }).catch(() => {})
+    }
+    previousAddress.current = address
+  }, [address])
+
+  const value = useMemo(() => ({ signIn, fetchAsWallet }), [signIn, fetchAsWallet])
+
+  return (
+    <WalletSessionContext.Provider value={value}>
+      {account && <AccountMessageSigner key={account.address} account={account} signerRef={signerRef} />}
+      {children}
+    </WalletSessionContext.Provider>
+  )
+}
+
+export function useWalletSession() {
+  const context = useContext(WalletSessionContext)
+  if (context === undefined) {
+    throw new Error('useWalletSession must be used within a WalletSessionProvider')
+  }
+  return context
+}
@@ -1,12 +1,13 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { TRACKED_KOLS } from '@/lib/kol-data';
-import { generateMockTradeData, createLeaderboard, getCurrentLeaderboardPeriod } from '@/lib/kol-utils';
-import { pillsMarketEngine } from '@/lib/pills-market-engine';
+import { useState, useEffect, useCallback } from 'react';
+import { toLeaderboardPeriodForMarket } from '@/lib/epoch-calendar';
+import { useMarketStream } from './use-market-stream';
 import type { 
-  KOLShare,
-  MarketPeriod
+  ApiResponse,
+  MarketEvent,
+  MarketPeriod,
+  MarketSummary
 } from '@/lib/pills-market-types';
 import type { KOLLeaderboardEntry } from '@/lib/kol-types';
 
@@ -38,8 +39,33 @@ export interface LiveLeaderboardData {
   lastUpdated: number;
 }
 
+/**
+ * Sort entries by P&L (highest to lowest), assign ranks and flag rank and
+ * P&L changes against the previous entries for animation
+ */
+function rankLiveEntries(entries: LiveLeaderboardEntry[], previousEntries?: LiveLeaderboardEntry[]) {
+  entries.sort((a, b) => b.totalPnlSol - a.totalPnlSol);
+  entries.forEach((entry, index) => {
+    entry.rank = index + 1;
+    
+    // Check if rank changed for animation
+    const prevEntry = previousEntries?.find(e => e.kol.address === entry.kol.address);
+    if (prevEntry && prevEntry.rank !== entry.rank) {
+      entry.isAnimating = true;
+      entry.animationType = entry.rank < prevEntry.rank ? 'rank-up' : 'rank-down';
+    }
+    
+    // Check for significant P&L changes
+    if (prevEntry && Math.abs(entry.totalPnlSol - prevEntry.totalPnlSol) > 0.1) {
+      entry.isAnimating = true;
+      entry.animationType = entry.totalPnlSol > prevEntry.totalPnlSol ? 'pnl-gain' : 'pnl-loss';
+    }
+  });
+}
+
 /**
  * Hook that combines real-time KOL P&L leaderboard with pills market trading
+ * Loads a snapshot, then applies streamed market events incrementally
  */
 export function useLiveLeaderboard() {
   const [leaderboardData, setLeaderboardData] = useState<LiveLeaderboardData | null>(null);
@@ -47,68 +73,35 @@ export function useLiveLeaderboard() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Generate current market period
-  const currentPeriod = useMemo((): MarketPeriod => {
-    const now = Date.now();
-    const currentDate = new Date(now);
-    
-    const startTime = new Date(
-      currentDate.getUTCFullYear(), 
-      currentDate.getUTCMonth(), 
-      currentDate.getUTCDate()
-    ).getTime();
-    const endTime = startTime + (24 * 60 * 60 * 1000);
-    
-    return {
-      id: `period_${startTime}`,
-      epochNumber: Math.floor(startTime / (24 * 60 * 60 * 1000)),
-      startTime,
-      endTime,
-      isActive: now >= startTime && now < endTime,
-      isResolved: now >= endTime,
-      totalVolume: 0,
-    };
-  }, []);
-
-  // Initialize KOL shares for pills market
-  const initializeKOLShares = useCallback((): KOLShare[] => {
-    return TRACKED_KOLS.map(kol => ({
-      periodId: currentPeriod.id,
-      kolAddress: kol.address,
-      pricePerShare: 0.50,
-      totalShares: 0,
-      totalInvested: 0,
-      probability: 1 / TRACKED_KOLS.length,
-      lastUpdated: Date.now(),
-    }));
-  }, [currentPeriod.id]);
-
   // Load and combine leaderboard + market data
   const loadLiveData = useCallback(async () => {
     try {
       setIsLoading(true);
       setError(null);
       
-      // Get real P&L data from KOL trading
-      const mockTrades = generateMockTradeData();
-      const leaderboardPeriod = getCurrentLeaderboardPeriod();
-      const kolLeaderboard = createLeaderboard(mockTrades, leaderboardPeriod);
-      
-      // Get pills market data
-      const kolShares = initializeKOLShares();
-      const probabilities = pillsMarketEngine.calculateProbabilities(kolShares);
+      // Get pills market data from the server-side ledger (LMSR-priced)
+      const marketResponse = await fetch('/api/market/summary');
+      const marketBody: ApiResponse<MarketSummary> = await marketResponse.json();
+      if (!marketBody.success || !marketBody.data) {
+        throw new Error(marketBody.error || 'Failed to load market data');
+      }
+      const { period: currentPeriod, kolShares: updatedShares } = marketBody.data;
       
-      const updatedShares = kolShares.map(share => ({
-        ...share,
-        probability: probabilities[share.kolAddress] || 0
-      }));
+      // Get real P&L data from the webhook-fed trades over the same window as the market period
+      const leaderboardPeriod = toLeaderboardPeriodForMarket(currentPeriod);
+      const leaderboardResponse = await fetch(`/api/leaderboard?period=${encodeURIComponent(leaderboardPeriod.periodId)}`);
+      const leaderboardBody: ApiResponse<KOLLeaderboardEntry[]> = await leaderboardResponse.json();
+      if (!leaderboardBody.success || !leaderboardBody.data) {
+        throw new Error(leaderboardBody.error || 'Failed to load leaderboard');
+      }
+      const kolEntries = leaderboardBody.data;
       
-      // Combine data into live leaderboard entries
-      const entries: LiveLeaderboardEntry[] = TRACKED_KOLS.map((kol, index) => {
-        const kolEntry = kolLeaderboard.entries.find(entry => entry.kol.address === kol.address);
+      // Combine data into live leaderboard entries for the KOLs on the period's roster
+      const entries: LiveLeaderboardEntry[] = kolEntries.map((kolEntry, index) => {
+        const { kol } = kolEntry;
         const shareData = updatedShares.find(share => share.kolAddress === kol.address);
         
-        const currentRank = kolEntry?.rank || index + 1;
+        const currentRank = kolEntry.rank || index + 1;
         const previousRank = previousData?.entries.find(e => e.kol.address === kol.address)?.rank || currentRank;
         
         let rankChange: 'up' | 'down' | 'same' = 'same';
@@ -123,12 +116,12 @@ export function useLiveLeaderboard() {
           rank: currentRank,
           previousRank,
           rankChange,
-          totalPnlSol: kolEntry?.totalPnlSol || 0,
-          totalPnlUsd: kolEntry?.totalPnlUsd || 0,
-          totalTrades: kolEntry?.totalTrades || 0,
-          winRate: kolEntry?.winRate || 0,
-          activeTrades: kolEntry?.activeTrades?.length || 0,
-          sharePrice: shareData?.pricePerShare || 0.50,
+          totalPnlSol: kolEntry.totalPnlSol,
+          totalPnlUsd: kolEntry.totalPnlUsd,
+          totalTrades: kolEntry.totalTrades,
+          winRate: kolEntry.winRate,
+          activeTrades: kolEntry.activeTrades.length,
+          sharePrice: shareData?.pricePerShare || 0,
           sharesOwned: 0, // Would come from user portfolio
           probability: shareData?.probability || 0,
           totalInvested: shareData?.totalInvested || 0,
@@ -138,23 +131,7 @@ export function useLiveLeaderboard() {
       });
       
       // Sort by P&L (highest to lowest) and update ranks
-      entries.sort((a, b) => b.totalPnlSol - a.totalPnlSol);
-      entries.forEach((entry, index) => {
-        entry.rank = index + 1;
-        
-        // Check if rank changed for animation
-        const prevEntry = previousData?.entries.find(e => e.kol.address === entry.kol.address);
-        if (prevEntry && prevEntry.rank !== entry.rank) {
-          entry.isAnimating = true;
-          entry.animationType = entry.rank < prevEntry.rank ? 'rank-up' : 'rank-down';
-        }
-        
-        // Check for significant P&L changes
-        if (prevEntry && Math.abs(entry.totalPnlSol - prevEntry.totalPnlSol) > 0.1) {
-          entry.isAnimating = true;
-          entry.animationType = entry.totalPnlSol > prevEntry.totalPnlSol ? 'pnl-gain' : 'pnl-loss';
-        }
-      });
+      rankLiveEntries(entries, previousData?.entries);
       
       const newData: LiveLeaderboardData = {
         period: currentPeriod,
@@ -172,20 +149,67 @@ export function useLiveLeaderboard() {
     } finally {
       setIsLoading(false);
     }
-  }, [currentPeriod, initializeKOLShares, leaderboardData, previousData]);
+  }, [leaderboardData, previousData]);
 
   useEffect(() => {
     loadLiveData();
   }, []);
 
-  // Auto-refresh every 10 seconds for real-time updates
-  useEffect(() => {
-    const interval = setInterval(() => {
+  // Apply streamed events to the loaded data instead of reloading everything;
+  // a new period or a resolution changes the whole board, so reload for those
+  const applyMarketEvent = useCallback((event: MarketEvent) => {
+    if (event.type === 'new_period' || event.type === 'resolution') {
       loadLiveData();
-    }, 10000);
+      return;
+    }
+
+    setLeaderboardData(prev => {
+      const kolAddress = event.data.kolAddress;
+      if (!prev || !kolAddress || event.periodId !== prev.period.id) return prev;
+
+      if (event.type === 'price_update') {
+        const entries = prev.entries.map(entry => entry.kol.address === kolAddress ? {
+          ...entry,
+          sharePrice: event.data.newPrice ?? entry.sharePrice,
+          probability: event.data.probability ?? entry.probability,
+          totalInvested: event.data.totalInvested ?? entry.totalInvested,
+        } : entry);
+
+        return {
+          ...prev,
+          entries,
+          totalVolume: entries.reduce((sum, entry) => sum + entry.totalInvested, 0),
+          lastUpdated: event.timestamp,
+        };
+      }
+
+      if (event.type === 'pnl_update') {
+        const pnlDeltaSol = event.data.pnlDeltaSol ?? 0;
+        const pnlDeltaUsd = event.data.pnlDeltaUsd ?? 0;
+        const entries = prev.entries.map(entry => ({
+          ...entry,
+          previousRank: entry.rank,
+          ...(entry.kol.address === kolAddress && {
+            totalPnlSol: entry.totalPnlSol + pnlDeltaSol,
+            totalPnlUsd: entry.totalPnlUsd + pnlDeltaUsd,
+          }),
+        }));
+
+        rankLiveEntries(entries, prev.entries);
+        entries.forEach(entry => {
+          if (entry.rank < entry.previousRank) entry.rankChange = 'up';
+          else if (entry.rank > entry.previousRank) entry.rankChange = 'down';
+          else entry.rankChange = 'same';
+        });
+
+        return { ...prev, entries, lastUpdated: event.timestamp };
+      }
+
+      return prev;
+    });
+  }, [loadLiveData]);
 
-    return () => clearInterval(interval);
-  }, []); // Intentionally not including loadLiveData to avoid excessive re-renders
+  const { isConnected } = useMarketStream(applyMarketEvent);
 
   // Clear animations after delay
   useEffect(() => {
@@ -213,6 +237,7 @@ export function useLiveLeaderboard() {
     leaderboardData,
     isLoading,
     error,
+    isConnected,
     refresh,
   };
 }
\ No newline at end of file
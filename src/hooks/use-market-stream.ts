@@ -0,0 +1,88 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import type { MarketEvent } from '@/lib/pills-market-types';
+
+const MARKET_EVENT_TYPES: MarketEvent['type'][] = [
+  'trade',
+  'price_update',
+  'new_period',
+  'resolution',
+  'pnl_update',
+];
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Hook that subscribes to the /api/stream market event feed
+ * The browser resumes dropped connections with Last-Event-ID on its own; if the
+ * stream fails outright it is reopened with backoff from the last event seen
+ */
+export function useMarketStream(onEvent: (event: MarketEvent) => void, enabled = true) {
+  const [isConnected, setIsConnected] = useState(false);
+  const onEventRef = useRef(onEvent);
+  const lastEventIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return;
+
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let disposed = false;
+
+    const handleEvent = (message: MessageEvent<string>) => {
+      if (message.lastEventId) {
+        lastEventIdRef.current = message.lastEventId;
+      }
+      try {
+        onEventRef.current(JSON.parse(message.data));
+      } catch (err) {
+        console.error('Error handling market event:', err);
+      }
+    };
+
+    const connect = () => {
+      const lastEventId = lastEventIdRef.current;
+      source = new EventSource(
+        lastEventId ? `/api/stream?lastEventId=${encodeURIComponent(lastEventId)}` : '/api/stream'
+      );
+
+      source.onopen = () => {
+        attempts = 0;
+        setIsConnected(true);
+      };
+
+      source.onerror = () => {
+        setIsConnected(false);
+
+        // Still CONNECTING means the browser is retrying by itself
+        if (source?.readyState !== EventSource.CLOSED || disposed) return;
+
+        source = null;
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+
+      for (const type of MARKET_EVENT_TYPES) {
+        source.addEventListener(type, handleEvent);
+      }
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      source?.close();
+      setIsConnected(false);
+    };
+  }, [enabled]);
+
+  return { isConnected };
+}
@@ -1,20 +1,39 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useSolana } from '@/components/solana/use-solana';
+import { useWalletSession } from '@/contexts/wallet-session-context';
 import { pillsMarketEngine } from '@/lib/pills-market-engine';
-import { TRACKED_KOLS } from '@/lib/kol-data';
+import { isTradingOpen } from '@/lib/market-state';
 import type { 
-  MarketPeriod, 
-  KOLShare, 
+  ApiResponse,
   UserPosition, 
   TradeOrder,
   MarketSummary,
-  UserPortfolio 
+  UserPortfolio,
+  TradeQuote,
+  SlippageOptions
 } from '@/lib/pills-market-types';
 import { PILLS_TOKEN, TRADING_CONFIG } from '@/lib/pills-market-types';
 import type { Address } from 'gill';
 
+/**
+ * Fetch a market API route and unwrap its ApiResponse envelope
+ */
+async function fetchMarketApi<T>(
+  url: string,
+  init?: RequestInit,
+  fetcher: (url: string, init?: RequestInit) => Promise<Response> = fetch
+): Promise<T> {
+  const response = await fetcher(url, init);
+  const body: ApiResponse<T> = await response.json();
+
+  if (!body.success || body.data === undefined) {
+    throw new Error(body.error || `Request failed with status ${response.status}`);
+  }
+  return body.data;
+}
+
 /**
  * Hook for managing the current market period and KOL shares
  */
@@ -23,65 +42,13 @@ export function useMarketData() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Generate current market period (24h from current midnight UTC)
-  const currentPeriod = useMemo((): MarketPeriod => {
-    const now = Date.now();
-    const currentDate = new Date(now);
-    
-    // Get start of current day in UTC
-    const startTime = new Date(
-      currentDate.getUTCFullYear(), 
-      currentDate.getUTCMonth(), 
-      currentDate.getUTCDate()
-    ).getTime();
-    const endTime = startTime + (24 * 60 * 60 * 1000);
-    
-    return {
-      id: `period_${startTime}`,
-      epochNumber: Math.floor(startTime / (24 * 60 * 60 * 1000)),
-      startTime,
-      endTime,
-      isActive: now >= startTime && now < endTime,
-      isResolved: now >= endTime,
-      totalVolume: 0,
-    };
-  }, []);
-
-  // Initialize KOL shares for current period
-  const initializeKOLShares = useCallback((): KOLShare[] => {
-    return TRACKED_KOLS.map(kol => ({
-      periodId: currentPeriod.id,
-      kolAddress: kol.address,
-      pricePerShare: 0.50, // Start at base price (equal probability)
-      totalShares: 0,
-      totalInvested: 0,
-      probability: 1 / TRACKED_KOLS.length, // Equal probability initially
-      lastUpdated: Date.now(),
-    }));
-  }, [currentPeriod.id]);
-
-  // Load market data (in production, this would come from API/database)
+  // Load market data from the server-side order ledger
   const loadMarketData = useCallback(async () => {
     try {
       setIsLoading(true);
       setError(null);
       
-      // In production, fetch from API
-      // For now, initialize with empty market
-      const kolShares = initializeKOLShares();
-      const probabilities = pillsMarketEngine.calculateProbabilities(kolShares);
-      
-      const updatedShares = kolShares.map(share => ({
-        ...share,
-        probability: probabilities[share.kolAddress] || 0
-      }));
-      
-      const summary = pillsMarketEngine.generateMarketSummary(
-        currentPeriod,
-        updatedShares,
-        0 // activeTraders - would come from API
-      );
-      
+      const summary = await fetchMarketApi<MarketSummary>('/api/market/summary');
       setMarketSummary(summary);
       
     } catch (err) {
@@ -89,12 +56,21 @@ export function useMarketData() {
     } finally {
       setIsLoading(false);
     }
-  }, [currentPeriod, initializeKOLShares]);
+  }, []);
 
   useEffect(() => {
     loadMarketData();
   }, [loadMarketData]);
 
+  // Reload once the period ends so the UI moves on to the next epoch
+  const periodEndTime = marketSummary?.period.endTime;
+  useEffect(() => {
+    if (!periodEndTime) return;
+
+    const timeout = setTimeout(loadMarketData, Math.max(periodEndTime - Date.now(), 0) + 5000);
+    return () => clearTimeout(timeout);
+  }, [periodEndTime, loadMarketData]);
+
   // Refresh market data
   const refresh = useCallback(() => {
     loadMarketData();
@@ -102,7 +78,7 @@ export function useMarketData() {
 
   return {
     marketSummary,
-    currentPeriod,
+    currentPeriod: marketSummary?.period ?? null,
     isLoading,
     error,
     refresh,
@@ -121,7 +97,7 @@ export function useUserPortfolio() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Load user portfolio (in production, from API)
+  // Load custodial balance and portfolio from the API
   const loadPortfolio = useCallback(async () => {
     if (!userAddress) {
       setPortfolio(null);
@@ -133,29 +109,37 @@ export function useUserPortfolio() {
       setIsLoading(true);
       setError(null);
       
-      // In production, fetch from API
-      // For demo, start with some PILLS balance
-      const demoBalance = 1000; // 1000 PILLS for testing
-      setPillsBalance(demoBalance);
+      const [{ balance }, positions, recentTrades] = await Promise.all([
+        fetchMarketApi<{ balance: number }>(`/api/pills/balance?user=${userAddress}`),
+        fetchMarketApi<UserPosition[]>(`/api/market/positions?user=${userAddress}`),
+        fetchMarketApi<TradeOrder[]>(`/api/market/orders?user=${userAddress}`),
+      ]);
+      setPillsBalance(balance);
       
-      const demoPortfolio: UserPortfolio = {
+      const positionsValue = positions.reduce((sum, pos) => sum + pos.currentValue, 0);
+      const totalInvested = recentTrades
+        .filter(order => order.type === 'buy')
+        .reduce((sum, order) => sum + order.totalValue, 0);
+      const totalReturned = recentTrades
+        .filter(order => order.type === 'sell')
+        .reduce((sum, order) => sum + order.totalValue, 0);
+      
+      setPortfolio({
         userAddress: userAddress as Address,
-        pillsBalance: demoBalance,
-        positions: [], // Would load from API
-        totalValue: demoBalance,
-        totalPnL: 0,
-        recentTrades: [],
+        pillsBalance: balance,
+        positions,
+        totalValue: balance + positionsValue,
+        totalPnL: positions.reduce((sum, pos) => sum + pos.unrealizedPnL, 0),
+        recentTrades,
         stats: {
-          totalMarkets: 0,
+          totalMarkets: new Set(recentTrades.map(order => order.periodId)).size,
           wonMarkets: 0,
           lostMarkets: 0,
-          totalInvested: 0,
-          totalReturned: 0,
-          netProfit: 0,
+          totalInvested,
+          totalReturned,
+          netProfit: totalReturned - totalInvested,
         },
-      };
-      
-      setPortfolio(demoPortfolio);
+      });
       
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load portfolio');
@@ -196,55 +180,46 @@ export function useUserPortfolio() {
 export function useTrading() {
   const { account } = useSolana();
   const userAddress = account?.address;
+  const { fetchAsWallet } = useWalletSession();
   const { marketSummary, refresh: refreshMarket } = useMarketData();
   const { pillsBalance, updateBalance } = useUserPortfolio();
   
   const [isTrading, setIsTrading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Buy shares
-  const buyShares = useCallback(async (
+  // Submit an order to the server-side ledger
+  const submitOrder = useCallback(async (
     kolAddress: Address,
-    pillsAmount: number
+    type: 'buy' | 'sell',
+    amount: number,
+    slippage: SlippageOptions
   ): Promise<{ success: boolean; order?: TradeOrder; error?: string }> => {
-    if (!userAddress || !marketSummary) {
-      return { success: false, error: 'Wallet not connected or market not loaded' };
-    }
-
-    if (pillsAmount > pillsBalance) {
-      return { success: false, error: 'Insufficient PILLS balance' };
-    }
-
-    if (pillsAmount < TRADING_CONFIG.MIN_BET) {
-      return { success: false, error: `Minimum bet is ${TRADING_CONFIG.MIN_BET} PILLS` };
-    }
-
     try {
       setIsTrading(true);
       setError(null);
       
-      // Execute buy order using market engine
-      const result = await pillsMarketEngine.executeBuyOrder(
-        userAddress as Address,
-        marketSummary.period.id,
-        kolAddress,
-        pillsAmount,
-        marketSummary.kolShares
+      const result = await fetchMarketApi<{ order: TradeOrder; newPrice: number; position: UserPosition }>(
+        '/api/market/orders',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            userAddress,
+            periodId: marketSummary?.period.id,
+            kolAddress,
+            type,
+            amount,
+            minSharesOut: type === 'buy' ? pillsMarketEngine.getMinimumFill('buy', slippage) : undefined,
+            minPillsOut: type === 'sell' ? pillsMarketEngine.getMinimumFill('sell', slippage) : undefined,
+          }),
+        },
+        fetchAsWallet
       );
       
-      // In production, this would:
-      // 1. Submit transaction to Solana
-      // 2. Wait for confirmation
-      // 3. Update database
-      // 4. Emit real-time events
-      
-      // For demo, simulate successful transaction
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate network delay
-      
       // Update local state
-      updateBalance(pillsBalance - pillsAmount);
-      result.order.status = 'filled';
-      result.order.filledAt = Date.now();
+      updateBalance(type === 'buy'
+        ? pillsBalance - result.order.totalValue
+        : pillsBalance + result.order.totalValue);
       
       // Refresh market data to show updated prices
       refreshMarket();
@@ -259,97 +234,108 @@ export function useTrading() {
     } finally {
       setIsTrading(false);
     }
-  }, [userAddress, marketSummary, pillsBalance, updateBalance, refreshMarket]);
+  }, [userAddress, marketSummary, pillsBalance, updateBalance, refreshMarket, fetchAsWallet]);
+
+  // Buy shares
+  const buyShares = useCallback(async (
+    kolAddress: Address,
+    pillsAmount: number,
+    slippage: SlippageOptions = {}
+  ): Promise<{ success: boolean; order?: TradeOrder; error?: string }> => {
+    if (!userAddress || !marketSummary) {
+      return { success: false, error: 'Wallet not connected or market not loaded' };
+    }
+
+    if (!isTradingOpen(marketSummary.period)) {
+      return { success: false, error: 'Trading is closed for this period' };
+    }
+
+    if (pillsAmount > pillsBalance) {
+      return { success: false, error: 'Insufficient PILLS balance' };
+    }
+
+    if (pillsAmount < TRADING_CONFIG.MIN_BET) {
+      return { success: false, error: `Minimum bet is ${TRADING_CONFIG.MIN_BET} PILLS` };
+    }
+
+    return submitOrder(kolAddress, 'buy', pillsAmount, slippage);
+  }, [userAddress, marketSummary, pillsBalance, submitOrder]);
 
   // Sell shares
   const sellShares = useCallback(async (
     kolAddress: Address,
-    sharesAmount: number
+    sharesAmount: number,
+    slippage: SlippageOptions = {}
   ): Promise<{ success: boolean; order?: TradeOrder; error?: string }> => {
     if (!userAddress || !marketSummary) {
       return { success: false, error: 'Wallet not connected or market not loaded' };
     }
 
-    // In production, would check user's actual position from database
-    // For demo, assume user has shares to sell
-    const mockPosition: UserPosition = {
-      userAddress: userAddress as Address,
-      periodId: marketSummary.period.id,
-      kolAddress,
-      sharesOwned: sharesAmount, // Demo: assume user has enough shares
-      averagePrice: 0.50,
-      totalInvested: sharesAmount * 0.50,
-      currentValue: 0,
-      unrealizedPnL: 0,
-      lastTradeAt: Date.now(),
-    };
-
-    try {
-      setIsTrading(true);
-      setError(null);
-      
-      // Execute sell order using market engine
-      const result = await pillsMarketEngine.executeSellOrder(
-        userAddress as Address,
-        marketSummary.period.id,
-        kolAddress,
-        sharesAmount,
-        marketSummary.kolShares,
-        mockPosition
-      );
-      
-      // Simulate successful transaction
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Update local state
-      updateBalance(pillsBalance + result.pillsReceived);
-      result.order.status = 'filled';
-      result.order.filledAt = Date.now();
-      
-      // Refresh market data
-      refreshMarket();
-      
-      return { success: true, order: result.order };
-      
-    } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : 'Sell failed';
-      setError(errorMsg);
-      return { success: false, error: errorMsg };
-      
-    } finally {
-      setIsTrading(false);
+    if (!isTradingOpen(marketSummary.period)) {
+      return { success: false, error: 'Trading is closed for this period' };
     }
-  }, [userAddress, marketSummary, pillsBalance, updateBalance, refreshMarket]);
+
+    // The server checks the position and rejects oversized sells
+    return submitOrder(kolAddress, 'sell', sharesAmount, slippage);
+  }, [userAddress, marketSummary, submitOrder]);
 
   // Get current price for a KOL
   const getKOLPrice = useCallback((kolAddress: Address): number => {
-    if (!marketSummary) return 0.50; // Default price
+    if (!marketSummary) return 0; // Not loaded yet
     
+    // KOLs outside this period's market have no price
     const kolShare = marketSummary.kolShares.find(share => share.kolAddress === kolAddress);
-    return kolShare?.pricePerShare || 0.50;
+    return kolShare?.pricePerShare ?? 0;
   }, [marketSummary]);
 
   // Calculate shares for PILLS amount
   const calculateShares = useCallback((kolAddress: Address, pillsAmount: number): number => {
-    const price = getKOLPrice(kolAddress);
-    return pillsAmount / price;
-  }, [getKOLPrice]);
+    if (!marketSummary) return 0;
+    return pillsMarketEngine.calculateSharesForAmount(
+      marketSummary.kolShares,
+      kolAddress,
+      pillsAmount,
+      marketSummary.period.liquidityParameter
+    );
+  }, [marketSummary]);
 
   // Calculate PILLS for shares amount
   const calculatePILLS = useCallback((kolAddress: Address, sharesAmount: number): number => {
-    const price = getKOLPrice(kolAddress);
-    return sharesAmount * price;
-  }, [getKOLPrice]);
+    if (!marketSummary || sharesAmount <= 0) return 0;
+    return pillsMarketEngine.calculateSellProceeds(
+      marketSummary.kolShares,
+      kolAddress,
+      sharesAmount,
+      marketSummary.period.liquidityParameter
+    );
+  }, [marketSummary]);
+
+  // Exact quote for a prospective trade (PILLS for buys, shares for sells)
+  const quoteTrade = useCallback((
+    kolAddress: Address,
+    type: 'buy' | 'sell',
+    amount: number
+  ): TradeQuote | null => {
+    if (!marketSummary || amount <= 0) return null;
+    return pillsMarketEngine.quoteTrade(
+      marketSummary.kolShares,
+      kolAddress,
+      type,
+      amount,
+      marketSummary.period.liquidityParameter
+    );
+  }, [marketSummary]);
 
   return {
     buyShares,
     sellShares,
+    quoteTrade,
     getKOLPrice,
     calculateShares,
     calculatePILLS,
     isTrading,
     error,
-    canTrade: !!userAddress && !!marketSummary && !isTrading,
+    canTrade: !!userAddress && !!marketSummary && isTradingOpen(marketSummary.period) && !isTrading,
   };
 }
 
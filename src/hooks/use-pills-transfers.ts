@@ -0,0 +1,129 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { getBase58Decoder, signAndSendTransactionMessageWithSigners } from 'gill';
+import { buildTransferTokensTransaction } from 'gill/programs';
+import { useSolana } from '@/components/solana/use-solana';
+import { useWalletUiSigner } from '@/components/solana/use-wallet-ui-signer';
+import { useWalletSession } from '@/contexts/wallet-session-context';
+import type { ApiResponse, PillsDeposit, PillsWithdrawal } from '@/lib/pills-market-types';
+import { BalanceError, PILLS_TOKEN } from '@/lib/pills-market-types';
+
+// Deposits are only credited once finalized, usually 15-30 seconds after sending
+const DEPOSIT_CREDIT_ATTEMPTS = 20;
+const DEPOSIT_CREDIT_RETRY_MS = 2000;
+
+async function postPillsApi<T>(
+  url: string,
+  payload: unknown,
+  fetcher: (url: string, init?: RequestInit) => Promise<Response> = fetch
+): Promise<ApiResponse<T>> {
+  const response = await fetcher(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  return await response.json();
+}
+
+/**
+ * Hook for moving PILLS in and out of the custodial balance
+ * Must be used with a connected wallet
+ */
+export function usePillsTransfers() {
+  const { account, client } = useSolana();
+  const signer = useWalletUiSigner();
+  const { fetchAsWallet } = useWalletSession();
+  const userAddress = account?.address;
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Transfer PILLS to the treasury, then have the server credit the transfer
+  const deposit = useCallback(async (
+    amount: number
+  ): Promise<{ success: boolean; deposit?: PillsDeposit; error?: string }> => {
+    if (!userAddress) {
+      return { success: false, error: 'Wallet not connected' };
+    }
+    if (!PILLS_TOKEN.treasuryAddress) {
+      return { success: false, error: 'Deposits are not enabled' };
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const { value: latestBlockhash } = await client.rpc.getLatestBlockhash({ commitment: 'confirmed' }).send();
+      const transaction = await buildTransferTokensTransaction({
+        feePayer: signer,
+        version: 0,
+        latestBlockhash,
+        mint: PILLS_TOKEN.mintAddress,
+        authority: signer,
+        amount: BigInt(Math.round(amount * 10 ** PILLS_TOKEN.decimals)),
+        destination: PILLS_TOKEN.treasuryAddress,
+      });
+
+      const signatureBytes = await signAndSendTransactionMessageWithSigners(transaction);
+      const signature = getBase58Decoder().decode(signatureBytes);
+      console.log(`💸 Sent ${amount} ${PILLS_TOKEN.symbol} deposit: ${signature}`);
+
+      for (let attempt = 1; attempt <= DEPOSIT_CREDIT_ATTEMPTS; attempt++) {
+        const body = await postPillsApi<PillsDeposit>('/api/pills/deposits', { signature });
+        if (body.success && body.data) {
+          return { success: true, deposit: body.data };
+        }
+        if (body.error !== BalanceError.DEPOSIT_NOT_FOUND) {
+          throw new Error(body.error || 'Failed to credit deposit');
+        }
+        await new Promise(resolve => setTimeout(resolve, DEPOSIT_CREDIT_RETRY_MS));
+      }
+
+      throw new Error(`Deposit ${signature} not finalized yet, it will be credited by the next treasury sync`);
+
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Deposit failed';
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [userAddress, client, signer]);
+
+  // Debit the custodial balance and queue a transfer back to the wallet
+  const withdraw = useCallback(async (
+    amount: number
+  ): Promise<{ success: boolean; withdrawal?: PillsWithdrawal; error?: string }> => {
+    if (!userAddress) {
+      return { success: false, error: 'Wallet not connected' };
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const body = await postPillsApi<PillsWithdrawal>('/api/pills/withdrawals', { userAddress, amount }, fetchAsWallet);
+      if (!body.success || !body.data) {
+        throw new Error(body.error || 'Failed to request withdrawal');
+      }
+      return { success: true, withdrawal: body.data };
+
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Withdrawal failed';
+      setError(errorMsg);
+      return { success: false, error: errorMsg };
+
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [userAddress, fetchAsWallet]);
+
+  return {
+    deposit,
+    withdraw,
+    isSubmitting,
+    error,
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Server startup hook
+ * Starts background jobs in the Node.js server runtime
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.NEXT_PHASE === 'phase-production-build') {
+    return;
+  }
+
+  if (process.env.DATABASE_URL && process.env.MARKET_RESOLVER_DISABLED !== 'true') {
+    const { startMarketResolver } = await import('./lib/market-resolver');
+    startMarketResolver();
+  }
+
+  if (process.env.DATABASE_URL) {
+    const { startSolPriceRecorder } = await import('./lib/sol-price');
+    startSolPriceRecorder();
+  }
+
+  if (process.env.DATABASE_URL && process.env.INGESTION_WORKER_DISABLED !== 'true') {
+    const { startIngestionWorker } = await import('./lib/ingestion-queue');
+    startIngestionWorker();
+  }
+
+  if (process.env.DATABASE_URL && process.env.WEBHOOK_RETRY_DISABLED !== 'true') {
+    const { startWebhookRetryWorker } = await import('./lib/webhook-dead-letter');
+    startWebhookRetryWorker();
+  }
+
+  if (process.env.DATABASE_URL && process.env.HELIUS_WEBHOOK_SYNC_DISABLED !== 'true') {
+    // Catch up on KOL changes made while this instance was down
+    const { requestWebhookSync } = await import('./lib/helius-webhooks');
+    requestWebhookSync();
+  }
+
+  if (process.env.DATABASE_URL && process.env.RECONCILIATION_DISABLED !== 'true') {
+    const { startReconciliationWorker } = await import('./lib/reconciliation');
+    startReconciliationWorker();
+  }
+}
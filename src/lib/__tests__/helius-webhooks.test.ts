@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Address } from 'gill';
+
+vi.mock('pg', () => import('./support/test-database').then(m => m.pgModule));
+
+import { createFakeHeliusWebhookApi } from './support/fake-helius-webhook-api';
+import { resetTestDatabase } from './support/test-database';
+import { planWebhookSync, syncHeliusWebhook } from '../helius-webhooks';
+import type { HeliusWebhook } from '../helius-webhooks';
+import { addKOL } from '../kol-registry';
+
+const WEBHOOK_URL = 'https://pills.example/api/webhook/helius';
+const KOL_A = 'So11111111111111111111111111111111111111112' as Address;
+const KOL_B = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' as Address;
+const KOL_C = 'Vote111111111111111111111111111111111111111' as Address;
+
+function webhook(webhookID: string, accountAddresses: string[], webhookURL = WEBHOOK_URL): HeliusWebhook {
+  return {
+    webhookID,
+    webhookURL,
+    transactionTypes: ['ANY'],
+    accountAddresses,
+    webhookType: 'enhanced',
+    authHeader: 'Bearer secret',
+  };
+}
+
+describe('planWebhookSync', () => {
+  it('creates a webhook when none delivers to this app', () => {
+    const plan = planWebhookSync([webhook('other', [KOL_A], 'https://elsewhere.example')], WEBHOOK_URL, [KOL_B, KOL_A], 'Bearer secret');
+
+    expect(plan).toMatchObject({ action: 'created', webhookId: null, added: [KOL_A, KOL_B], duplicateWebhookIds: [] });
+    expect(plan.config.accountAddresses).toEqual([KOL_A, KOL_B]);
+  });
+
+  it('edits the managed webhook and folds in duplicates', () => {
+    const plan = planWebhookSync(
+      [webhook('kept', [KOL_A, KOL_C]), webhook('old-batch', [KOL_B])],
+      WEBHOOK_URL,
+      [KOL_A, KOL_B],
+      'Bearer secret'
+    );
+
+    expect(plan).toMatchObject({ action: 'updated', webhookId: 'kept', added: [], removed: [KOL_C], duplicateWebhookIds: ['old-batch'] });
+  });
+
+  it('leaves an up-to-date webhook alone and updates a changed secret', () => {
+    const webhooks = [webhook('kept', [KOL_A, KOL_B])];
+
+    expect(planWebhookSync(webhooks, WEBHOOK_URL, [KOL_B, KOL_A], 'Bearer secret').action).toBe('unchanged');
+    expect(planWebhookSync(webhooks, WEBHOOK_URL, [KOL_A, KOL_B], 'Bearer rotated').action).toBe('updated');
+  });
+
+  it('deletes every managed webhook once no wallets are left', () => {
+    const plan = planWebhookSync([webhook('kept', [KOL_A]), webhook('old-batch', [KOL_B])], WEBHOOK_URL, [], 'Bearer secret');
+
+    expect(plan).toMatchObject({ action: 'deleted', removed: [KOL_A, KOL_B], duplicateWebhookIds: ['kept', 'old-batch'] });
+    expect(planWebhookSync([], WEBHOOK_URL, []).action).toBe('unchanged');
+  });
+});
+
+describe('syncHeliusWebhook', () => {
+  beforeEach(async () => {
+    // Without an API key adding KOLs doesn't start background syncs
+    vi.stubEnv('HELIUS_API_KEY', '');
+    vi.stubEnv('WEBHOOK_SECRET', 'secret');
+    await resetTestDatabase();
+    await addKOL(KOL_A, { name: 'Alpha' });
+    await addKOL(KOL_B, { name: 'Beta' });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('points the managed webhook at the active KOLs\' wallets', async () => {
+    const api = createFakeHeliusWebhookApi([webhook('kept', [KOL_C]), webhook('old-batch', [KOL_A])]);
+
+    const dryRun = await syncHeliusWebhook({ api, webhookURL: WEBHOOK_URL, dryRun: true });
+    expect(dryRun).toMatchObject({ action: 'updated', dryRun: true });
+    expect(api.webhooks).toHaveLength(2);
+
+    const result = await syncHeliusWebhook({ api, webhookURL: WEBHOOK_URL });
+    expect(result).toMatchObject({ action: 'updated', webhookId: 'kept', added: [KOL_B], removed: [KOL_C] });
+    expect(api.webhooks).toEqual([webhook('kept', [KOL_A, KOL_B])]);
+
+    expect((await syncHeliusWebhook({ api, webhookURL: WEBHOOK_URL })).action).toBe('unchanged');
+  });
+
+  it('creates the webhook with the secret as its auth header', async () => {
+    const api = createFakeHeliusWebhookApi();
+
+    const result = await syncHeliusWebhook({ api, webhookURL: WEBHOOK_URL });
+
+    expect(result.action).toBe('created');
+    expect(api.webhooks).toEqual([webhook(result.webhookId!, [KOL_A, KOL_B])]);
+  });
+});
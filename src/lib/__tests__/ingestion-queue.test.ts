@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Address } from 'gill';
+
+vi.mock('pg', () => import('./support/test-database').then(m => m.pgModule));
+
+import { resetTestDatabase } from './support/test-database';
+import { query } from '../database';
+import { enqueueWebhookTransactions, getIngestionQueueMetrics, processIngestionJobs } from '../ingestion-queue';
+import type { HeliusEnhancedTransaction } from '../trade-decoder';
+import bundledBuy from './fixtures/pumpfun-bundled-buy.enhanced.json';
+
+const KOL_A = 'So11111111111111111111111111111111111111112' as Address;
+const KOL_B = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' as Address;
+const KOL_C = 'Vote111111111111111111111111111111111111111' as Address;
+
+function job(signature: string, slot: number, kolAddresses: Address[]) {
+  const transaction = { ...bundledBuy, signature, slot } as unknown as HeliusEnhancedTransaction;
+  return { transaction, kolAddresses };
+}
+
+async function getDoneSignatures(): Promise<string[]> {
+  const rows = await query<{ signature: string }>(
+    "SELECT signature FROM ingestion_jobs WHERE status = 'done' ORDER BY signature"
+  );
+  return rows.map(row => row.signature);
+}
+
+describe('ingestion queue', () => {
+  beforeEach(async () => {
+    vi.stubEnv('HELIUS_API_KEY', '');
+    await resetTestDatabase();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('runs a multi-KOL job only once it is next for every one of its KOLs', async () => {
+    await enqueueWebhookTransactions([
+      job('shared', 10, [KOL_A, KOL_B]),
+      job('b-earlier', 5, [KOL_B]),
+      job('a-later', 20, [KOL_A]),
+      job('c-only', 30, [KOL_C]),
+    ]);
+    expect((await getIngestionQueueMetrics()).wallets).toBe(3);
+
+    // KOL B's earlier job holds back the shared one, which holds back KOL A's later one
+    expect(await processIngestionJobs(10)).toBe(2);
+    expect(await getDoneSignatures()).toEqual(['b-earlier', 'c-only']);
+
+    expect(await processIngestionJobs(10)).toBe(1);
+    expect(await getDoneSignatures()).toEqual(['b-earlier', 'c-only', 'shared']);
+
+    expect(await processIngestionJobs(10)).toBe(1);
+    expect(await processIngestionJobs(10)).toBe(0);
+    expect((await getIngestionQueueMetrics()).queued).toBe(0);
+  });
+
+  it('leaves signatures already queued alone', async () => {
+    expect(await enqueueWebhookTransactions([job('shared', 10, [KOL_A, KOL_B])])).toEqual(new Set(['shared']));
+    expect(await enqueueWebhookTransactions([job('shared', 10, [KOL_A, KOL_B])])).toEqual(new Set());
+
+    const kols = await query('SELECT kol_address FROM ingestion_job_kols');
+    expect(kols).toHaveLength(2);
+  });
+});
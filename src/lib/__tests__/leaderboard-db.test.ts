@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Address } from 'gill';
+
+vi.mock('pg', () => import('./support/test-database').then(m => m.pgModule));
+
+import { resetTestDatabase } from './support/test-database';
+import { query } from '../database';
+import { getEpoch, getNextEpoch, toLeaderboardPeriodId, toMarketPeriodId } from '../epoch-calendar';
+import { addKOL } from '../kol-registry';
+import { getKOLPeriodHistory } from '../kol-profile';
+import { getLeaderboardEntries } from '../leaderboard-db';
+import { recordSolPriceSnapshot } from '../sol-price';
+import type { SwapLeg } from '../trade-decoder';
+import { processWebhookTransaction } from '../webhook-db-processor';
+
+const KOL = 'So11111111111111111111111111111111111111112' as Address;
+const MINT = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+const HOUR_MS = 60 * 60 * 1000;
+const first = getEpoch(Date.UTC(2026, 0, 15, 12));
+const second = getNextEpoch(first);
+
+async function swap(signature: string, time: number, type: SwapLeg['type'], solAmount: number, tokenAmount: number) {
+  const timestamp = Math.floor(time / 1000);
+  await recordSolPriceSnapshot(200, time, 'fixture');
+  await processWebhookTransaction(signature, timestamp, timestamp, [{
+    kolAddress: KOL,
+    walletAddress: KOL,
+    signature,
+    slot: timestamp,
+    timestamp,
+    type,
+    mint: MINT,
+    tokenAmount,
+    tokenDecimals: 6,
+    solAmount,
+    feeSol: 0,
+    program: 'Pumpfun',
+  }]);
+}
+
+describe('getLeaderboardEntries', () => {
+  beforeEach(() => resetTestDatabase());
+
+  it('returns null for periods that were never opened without creating them', async () => {
+    const future = getNextEpoch(getNextEpoch(getEpoch()));
+
+    expect(await getLeaderboardEntries(toLeaderboardPeriodId(future))).toBeNull();
+    expect(await getLeaderboardEntries('not-a-period')).toBeNull();
+
+    const periods = await query('SELECT id FROM leaderboard_periods');
+    const snapshots = await query('SELECT period_id FROM leaderboard_period_kols');
+    expect(periods).toHaveLength(0);
+    expect(snapshots).toHaveLength(0);
+  });
+});
+
+describe('period PnL', () => {
+  beforeEach(async () => {
+    await resetTestDatabase();
+    await addKOL(KOL, { name: 'Alpha' }, first.startTime - HOUR_MS);
+  });
+
+  it('counts what sells realized inside each period', async () => {
+    // Bought in the first period, half sold in each
+    await swap('buy', first.startTime + HOUR_MS, 'buy', 2, 1000);
+    await swap('sell-1', first.startTime + 2 * HOUR_MS, 'sell', 1.5, 500);
+    await swap('sell-2', second.startTime + HOUR_MS, 'sell', 3, 500);
+
+    const [firstEntry] = (await getLeaderboardEntries(toLeaderboardPeriodId(first)))!;
+    const [secondEntry] = (await getLeaderboardEntries(toLeaderboardPeriodId(second)))!;
+
+    expect(firstEntry.totalPnlSol).toBeCloseTo(0.5);
+    expect(firstEntry.totalPnlUsd).toBeCloseTo(100);
+    expect(secondEntry.totalPnlSol).toBeCloseTo(2);
+    expect(secondEntry.totalPnlUsd).toBeCloseTo(400);
+    expect(secondEntry.totalTrades).toBe(1);
+
+    const history = await getKOLPeriodHistory(KOL);
+    expect(history.map(period => period.pnlSol)).toEqual([
+      expect.closeTo(0.5),
+      expect.closeTo(2),
+    ]);
+    expect(history[1].cumulativePnlSol).toBeCloseTo(2.5);
+  });
+
+  it('streams a late buy\'s re-pricing of a later sell to the sell\'s period', async () => {
+    // The sell arrives first, with no known cost, then the buy before it
+    await swap('sell', second.startTime + HOUR_MS, 'sell', 3, 500);
+    await swap('buy', first.startTime + HOUR_MS, 'buy', 2, 1000);
+
+    const events = await query<{ period_id: string; data: { pnlDeltaSol: number; signature: string } }>(
+      "SELECT period_id, data FROM market_events WHERE type = 'pnl_update' AND data->>'signature' = 'buy'"
+    );
+    const deltas = Object.fromEntries(events.map(event => [event.period_id, event.data.pnlDeltaSol]));
+    expect(deltas).toEqual({
+      [toMarketPeriodId(first)]: 0,
+      [toMarketPeriodId(second)]: expect.closeTo(2),
+    });
+
+    const [secondEntry] = (await getLeaderboardEntries(toLeaderboardPeriodId(second)))!;
+    expect(secondEntry.totalPnlSol).toBeCloseTo(2);
+  });
+});
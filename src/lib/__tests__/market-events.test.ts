@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('pg', () => import('./support/test-database').then(m => m.pgModule));
+
+import { resetTestDatabase } from './support/test-database';
+import { query } from '../database';
+import { CURSOR_GAP_WINDOW, MarketEventCursor, getMarketEventsSince } from '../market-events';
+
+async function insertEvent(id: number): Promise<void> {
+  await query(`
+    INSERT INTO market_events (id, type, period_id, data)
+    VALUES ($1, 'pnl_update', 'period_test', '{}')
+  `, [id]);
+}
+
+describe('MarketEventCursor', () => {
+  it('delivers an event that commits after a higher id exactly once', () => {
+    const cursor = new MarketEventCursor(BigInt(0));
+
+    expect(cursor.accept('1')).toBe(true);
+    expect(cursor.accept('3')).toBe(true);
+    expect(cursor.toString()).toBe('3:2');
+
+    // 2 committed late
+    expect(cursor.accept('2')).toBe(true);
+    expect(cursor.accept('2')).toBe(false);
+    expect(cursor.accept('3')).toBe(false);
+    expect(cursor.toString()).toBe('3');
+  });
+
+  it('round-trips through its serialized form', () => {
+    const cursor = new MarketEventCursor(BigInt(10));
+    cursor.accept('15');
+    cursor.accept('12');
+
+    expect(cursor.toString()).toBe('15:11,13-14');
+    const parsed = MarketEventCursor.parse(cursor.toString());
+    expect(parsed?.toString()).toBe('15:11,13-14');
+    expect(parsed?.pendingIds).toEqual(['11', '13', '14']);
+  });
+
+  it('resumes from a plain event id and rejects malformed cursors', () => {
+    expect(MarketEventCursor.parse('42')?.toString()).toBe('42');
+    expect(MarketEventCursor.parse('42:')).toBeNull();
+    expect(MarketEventCursor.parse('abc')).toBeNull();
+    expect(MarketEventCursor.parse('42:9-3')).toBeNull();
+  });
+
+  it('stops waiting for ids older than the gap window', () => {
+    const cursor = new MarketEventCursor(BigInt(0));
+    cursor.accept('1');
+    cursor.accept('3');
+    cursor.accept(String(3 + CURSOR_GAP_WINDOW));
+
+    expect(cursor.pendingIds).not.toContain('2');
+    expect(cursor.accept('2')).toBe(false);
+  });
+});
+
+describe('getMarketEventsSince', () => {
+  beforeEach(() => resetTestDatabase());
+
+  it('replays a late-committing event after a reconnect', async () => {
+    await insertEvent(1);
+    await insertEvent(2);
+    await insertEvent(4);
+
+    // A fresh stream starts at the newest event, still waiting on 3
+    const cursor = await MarketEventCursor.atLatest();
+    expect(cursor.toString()).toBe('4:3');
+
+    // The client reconnects with that cursor once 3 and 5 have committed
+    await insertEvent(5);
+    await insertEvent(3);
+    const resumed = MarketEventCursor.parse(cursor.toString())!;
+    const events = await getMarketEventsSince(resumed);
+
+    expect(events.map(event => event.id)).toEqual(['3', '5']);
+    expect(events.every(event => resumed.accept(event.id))).toBe(true);
+    expect(resumed.toString()).toBe('5');
+  });
+});
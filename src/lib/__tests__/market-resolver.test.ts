@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Address } from 'gill';
+
+vi.mock('pg', () => import('./support/test-database').then(m => m.pgModule));
+
+import { resetTestDatabase } from './support/test-database';
+import { query, transaction } from '../database';
+import { getEpoch } from '../epoch-calendar';
+import { addKOL } from '../kol-registry';
+import { getCurrentMarketPeriod, placeMarketOrder } from '../market-db';
+import { resolveMarketPeriod } from '../market-resolver';
+import {
+  HOUSE_ACCOUNT,
+  TREASURY_ACCOUNT,
+  getPillsBalance,
+  marketAccount,
+  postLedgerTransaction,
+  userAccount,
+} from '../pills-ledger';
+import { MarketState, ResolutionReason, TRADING_CONFIG } from '../pills-market-types';
+import { recordSolPriceSnapshot } from '../sol-price';
+import type { SwapLeg } from '../trade-decoder';
+import { processWebhookTransaction } from '../webhook-db-processor';
+
+const KOL_A = 'So11111111111111111111111111111111111111112' as Address;
+const KOL_B = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' as Address;
+const USER = 'Vote111111111111111111111111111111111111111' as Address;
+const MINT = 'CzvZY75YE7NQPZXgbFkFxVd4ymCmAgyJ4GPKq7PqUDXT';
+
+const HOUR_MS = 60 * 60 * 1000;
+const epoch = getEpoch(Date.UTC(2026, 0, 15, 12));
+
+async function deposit(walletAddress: string, amount: number): Promise<void> {
+  await transaction(async (client) => {
+    await postLedgerTransaction(client, {
+      kind: 'deposit',
+      reference: `test-deposit:${walletAddress}`,
+      description: 'Test deposit',
+      entries: [
+        { account: userAccount(walletAddress), amount },
+        { account: TREASURY_ACCOUNT, amount: -amount },
+      ],
+    });
+  });
+}
+
+async function swap(kolAddress: Address, signature: string, time: number, type: SwapLeg['type'], solAmount: number) {
+  const timestamp = Math.floor(time / 1000);
+  await recordSolPriceSnapshot(200, time, 'fixture');
+  await processWebhookTransaction(signature, timestamp, timestamp, [{
+    kolAddress,
+    walletAddress: kolAddress,
+    signature,
+    slot: timestamp,
+    timestamp,
+    type,
+    mint: MINT,
+    tokenAmount: 1000,
+    tokenDecimals: 6,
+    solAmount,
+    feeSol: 0,
+    program: 'Pumpfun',
+  }]);
+}
+
+async function getAccountBalance(account: string): Promise<number> {
+  const rows = await query<{ balance: string }>('SELECT balance FROM pills_balances WHERE account = $1', [account]);
+  return rows[0] ? parseFloat(rows[0].balance) : 0;
+}
+
+async function getStoredState(periodId: string): Promise<MarketState> {
+  const [row] = await query<{ state: MarketState }>('SELECT state FROM market_periods WHERE id = $1', [periodId]);
+  return row.state;
+}
+
+describe('resolveMarketPeriod', () => {
+  beforeEach(async () => {
+    await resetTestDatabase();
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    vi.setSystemTime(epoch.startTime - HOUR_MS);
+    await addKOL(KOL_A, { name: 'Alpha' }, epoch.startTime - HOUR_MS);
+    await addKOL(KOL_B, { name: 'Beta' }, epoch.startTime - HOUR_MS);
+    await deposit(USER, 500);
+
+    // The first order creates the period row, stored as upcoming
+    vi.setSystemTime(epoch.startTime + HOUR_MS);
+    await placeMarketOrder({ userAddress: USER, kolAddress: KOL_A, type: 'buy', amount: 100 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('settles an ended period that is still stored as upcoming', async () => {
+    const periodId = getCurrentMarketPeriod(epoch.startTime).id;
+    expect(await getStoredState(periodId)).toBe(MarketState.UPCOMING);
+
+    const now = epoch.endTime + 2 * 60 * 1000;
+    vi.setSystemTime(now);
+    const resolution = await resolveMarketPeriod(periodId, now);
+
+    // Nobody traded, so every stake is refunded
+    expect(resolution.reason).toBe(ResolutionReason.NO_ACTIVITY);
+    expect(resolution.refundStakes).toBe(true);
+    expect(resolution.totalPayout).toBeCloseTo(100, 6);
+    expect(await getStoredState(periodId)).toBe(MarketState.RESOLVED);
+    expect(await getPillsBalance(USER)).toBeCloseTo(500, 6);
+
+    // Re-running returns the stored settlement without paying again
+    const again = await resolveMarketPeriod(periodId, now);
+    expect(again.reason).toBe(ResolutionReason.NO_ACTIVITY);
+    expect(await getPillsBalance(USER)).toBeCloseTo(500, 6);
+  });
+
+  it('settles an ended period that is stored as active', async () => {
+    const periodId = getCurrentMarketPeriod(epoch.startTime).id;
+    await query("UPDATE market_periods SET state = 'active' WHERE id = $1", [periodId]);
+
+    const now = epoch.endTime + 2 * 60 * 1000;
+    vi.setSystemTime(now);
+    await resolveMarketPeriod(periodId, now);
+
+    expect(await getStoredState(periodId)).toBe(MarketState.RESOLVED);
+  });
+
+  it('pays the winner and leaves the rest of the pool with the house', async () => {
+    const periodId = getCurrentMarketPeriod(epoch.startTime).id;
+    await swap(KOL_A, 'a-buy', epoch.startTime + HOUR_MS, 'buy', 1);
+    await swap(KOL_A, 'a-sell', epoch.startTime + 2 * HOUR_MS, 'sell', 2);
+
+    const now = epoch.endTime + 2 * 60 * 1000;
+    vi.setSystemTime(now);
+    const resolution = await resolveMarketPeriod(periodId, now);
+
+    expect(resolution).toMatchObject({ reason: ResolutionReason.WINNER, winner: KOL_A, refundStakes: false });
+    expect(resolution.totalPayout).toBeCloseTo(resolution.totalWinningShares * TRADING_CONFIG.PAYOUT_PER_SHARE, 6);
+    expect(resolution.totalPrizePool).toBeCloseTo(100, 6);
+
+    // The market account is emptied into the payout and the house; nothing is burned
+    const userBalance = await getPillsBalance(USER);
+    const houseBalance = await getAccountBalance(HOUSE_ACCOUNT);
+    expect(userBalance).toBeCloseTo(400 + resolution.totalPayout, 6);
+    expect(await getAccountBalance(marketAccount(periodId))).toBe(0);
+    expect(userBalance + houseBalance).toBeCloseTo(500, 6);
+    const [total] = await query<{ total: string }>('SELECT SUM(balance) AS total FROM pills_balances');
+    expect(parseFloat(total.total)).toBeCloseTo(0, 6);
+  });
+});
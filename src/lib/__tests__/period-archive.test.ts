@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Address } from 'gill';
+
+vi.mock('pg', () => import('./support/test-database').then(m => m.pgModule));
+
+import { resetTestDatabase } from './support/test-database';
+import { transaction } from '../database';
+import { getEpoch, toLeaderboardPeriodId } from '../epoch-calendar';
+import { addKOL } from '../kol-registry';
+import { getCurrentMarketPeriod, placeMarketOrder } from '../market-db';
+import { resolveMarketPeriod } from '../market-resolver';
+import { getPeriodArchive } from '../period-archive';
+import { TREASURY_ACCOUNT, postLedgerTransaction, userAccount } from '../pills-ledger';
+import { recordSolPriceSnapshot } from '../sol-price';
+import type { SwapLeg } from '../trade-decoder';
+import { processWebhookTransaction } from '../webhook-db-processor';
+
+const KOL_A = 'So11111111111111111111111111111111111111112' as Address;
+const KOL_B = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' as Address;
+const USER = 'Vote111111111111111111111111111111111111111' as Address;
+const MINT = 'CzvZY75YE7NQPZXgbFkFxVd4ymCmAgyJ4GPKq7PqUDXT';
+
+const HOUR_MS = 60 * 60 * 1000;
+const epoch = getEpoch(Date.UTC(2026, 0, 15, 12));
+
+async function swap(kolAddress: Address, signature: string, time: number, type: SwapLeg['type'], solAmount: number) {
+  const timestamp = Math.floor(time / 1000);
+  await recordSolPriceSnapshot(200, time, 'fixture');
+  await processWebhookTransaction(signature, timestamp, timestamp, [{
+    kolAddress,
+    walletAddress: kolAddress,
+    signature,
+    slot: timestamp,
+    timestamp,
+    type,
+    mint: MINT,
+    tokenAmount: 1000,
+    tokenDecimals: 6,
+    solAmount,
+    feeSol: 0,
+    program: 'Pumpfun',
+  }]);
+}
+
+describe('getPeriodArchive', () => {
+  beforeEach(async () => {
+    await resetTestDatabase();
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    vi.setSystemTime(epoch.startTime - HOUR_MS);
+    await addKOL(KOL_A, { name: 'Alpha' }, epoch.startTime - HOUR_MS);
+    await addKOL(KOL_B, { name: 'Beta' }, epoch.startTime - HOUR_MS);
+    await transaction(async (client) => {
+      await postLedgerTransaction(client, {
+        kind: 'deposit',
+        reference: `test-deposit:${USER}`,
+        description: 'Test deposit',
+        entries: [
+          { account: userAccount(USER), amount: 500 },
+          { account: TREASURY_ACCOUNT, amount: -500 },
+        ],
+      });
+    });
+
+    vi.setSystemTime(epoch.startTime + HOUR_MS);
+    await placeMarketOrder({ userAddress: USER, kolAddress: KOL_A, type: 'buy', amount: 100 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps the ranking stored at resolution after late trades land', async () => {
+    await swap(KOL_A, 'a-buy', epoch.startTime + HOUR_MS, 'buy', 1);
+    await swap(KOL_A, 'a-sell', epoch.startTime + 2 * HOUR_MS, 'sell', 2);
+
+    const now = epoch.endTime + 2 * 60 * 1000;
+    vi.setSystemTime(now);
+    await resolveMarketPeriod(getCurrentMarketPeriod(epoch.startTime).id, now);
+
+    // A backfill records Beta's bigger win in the settled period
+    await swap(KOL_B, 'b-buy', epoch.startTime + HOUR_MS, 'buy', 1);
+    await swap(KOL_B, 'b-sell', epoch.startTime + 2 * HOUR_MS, 'sell', 5);
+
+    const archive = await getPeriodArchive(toLeaderboardPeriodId(epoch), now);
+    expect(archive?.leaderboard.map(entry => [entry.kol.address, entry.rank])).toEqual([
+      [KOL_A, 1],
+      [KOL_B, 2],
+    ]);
+
+    const [alpha, beta] = archive!.leaderboard;
+    expect(alpha.totalPnlSol).toBeCloseTo(1);
+    expect(alpha.winRate).toBe(100);
+    expect(alpha.completedTrades).toHaveLength(1);
+    expect(beta.totalPnlSol).toBe(0);
+    expect(beta.totalTrades).toBe(0);
+    expect(beta.kol.name).toBe('Beta');
+  });
+});
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Address } from 'gill';
+
+vi.mock('pg', () => import('./support/test-database').then(m => m.pgModule));
+
+import { resetTestDatabase } from './support/test-database';
+import { query, transaction } from '../database';
+import { creditDeposit } from '../pills-deposits';
+import type { DepositTransactionLike, SolanaRpc } from '../pills-deposits';
+import {
+  HOUSE_ACCOUNT,
+  PENDING_WITHDRAWALS_ACCOUNT,
+  TREASURY_ACCOUNT,
+  getPillsBalance,
+  postLedgerTransaction,
+  userAccount,
+} from '../pills-ledger';
+import { BalanceError, MarketError, PILLS_TOKEN } from '../pills-market-types';
+import { requestWithdrawal } from '../pills-withdrawals';
+
+const TREASURY = 'Vote111111111111111111111111111111111111111' as Address;
+const USER = 'So11111111111111111111111111111111111111112' as Address;
+const OTHER = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' as Address;
+const OTHER_MINT = 'CzvZY75YE7NQPZXgbFkFxVd4ymCmAgyJ4GPKq7PqUDXT';
+const DEPOSIT_SIGNATURE = '2d6mh1tRAh6bVSCJ4NEhZR9ix9JCAx5yfFC4n8NMqygpuyLqBsJFcTsg8tH7HTxqmrVRzL3XbtiF9pSCRAXEFa6y';
+
+/** A transfer of `amount` whole tokens from the user to `to` */
+function transfer(amount: number, to: Address = TREASURY, mint: string = PILLS_TOKEN.mintAddress): DepositTransactionLike {
+  const raw = (value: number) => ({ amount: String(value * 10 ** PILLS_TOKEN.decimals), decimals: PILLS_TOKEN.decimals });
+  return {
+    slot: BigInt(331804122),
+    blockTime: BigInt(1744300800),
+    meta: {
+      err: null,
+      preTokenBalances: [
+        { accountIndex: 1, mint, owner: USER, uiTokenAmount: raw(1000) },
+        { accountIndex: 2, mint, owner: to, uiTokenAmount: raw(0) },
+      ],
+      postTokenBalances: [
+        { accountIndex: 1, mint, owner: USER, uiTokenAmount: raw(1000 - amount) },
+        { accountIndex: 2, mint, owner: to, uiTokenAmount: raw(amount) },
+      ],
+    },
+  };
+}
+
+function mockRpc(tx: DepositTransactionLike | null) {
+  const getTransaction = vi.fn(() => ({ send: async () => tx }));
+  return { rpc: { getTransaction } as unknown as SolanaRpc, getTransaction };
+}
+
+async function getAccountBalance(account: string): Promise<number> {
+  const rows = await query<{ balance: string }>('SELECT balance FROM pills_balances WHERE account = $1', [account]);
+  return rows[0] ? parseFloat(rows[0].balance) : 0;
+}
+
+describe('creditDeposit', () => {
+  beforeEach(async () => {
+    vi.stubEnv('PILLS_TREASURY_ADDRESS', TREASURY);
+    await resetTestDatabase();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('credits a finalized treasury transfer once', async () => {
+    const { rpc, getTransaction } = mockRpc(transfer(250));
+
+    const deposit = await creditDeposit(DEPOSIT_SIGNATURE, rpc);
+
+    expect(deposit).toMatchObject({ userAddress: USER, amount: 250, slot: 331804122 });
+    expect(getTransaction).toHaveBeenCalledWith(DEPOSIT_SIGNATURE, expect.objectContaining({ commitment: 'finalized' }));
+    expect(await getPillsBalance(USER)).toBe(250);
+    expect(await getAccountBalance(TREASURY_ACCOUNT)).toBe(-250);
+  });
+
+  it('is idempotent on the deposit\'s reference when redelivered', async () => {
+    const { rpc } = mockRpc(transfer(250));
+
+    await creditDeposit(DEPOSIT_SIGNATURE, rpc);
+    const again = await creditDeposit(DEPOSIT_SIGNATURE, rpc);
+
+    // A posting that slips past the deposit row still can't credit twice
+    const reposted = await transaction(client => postLedgerTransaction(client, {
+      kind: 'deposit',
+      reference: `deposit:${DEPOSIT_SIGNATURE}`,
+      description: 'Redelivered deposit',
+      entries: [
+        { account: userAccount(USER), amount: 250 },
+        { account: TREASURY_ACCOUNT, amount: -250 },
+      ],
+    }));
+
+    expect(again.amount).toBe(250);
+    expect(reposted).toBeNull();
+    expect(await getPillsBalance(USER)).toBe(250);
+    expect(await query('SELECT id FROM pills_ledger_transactions')).toHaveLength(1);
+  });
+
+  it('rejects transfers of another mint or to another address', async () => {
+    await expect(creditDeposit(DEPOSIT_SIGNATURE, mockRpc(transfer(250, TREASURY, OTHER_MINT)).rpc))
+      .rejects.toThrow(BalanceError.NOT_A_DEPOSIT);
+    await expect(creditDeposit(DEPOSIT_SIGNATURE, mockRpc(transfer(250, OTHER)).rpc))
+      .rejects.toThrow(BalanceError.NOT_A_DEPOSIT);
+
+    expect(await getPillsBalance(USER)).toBe(0);
+    expect(await query('SELECT signature FROM pills_deposits')).toHaveLength(0);
+  });
+
+  it('leaves a transaction that isn\'t finalized yet uncredited', async () => {
+    await expect(creditDeposit(DEPOSIT_SIGNATURE, mockRpc(null).rpc)).rejects.toThrow(BalanceError.DEPOSIT_NOT_FOUND);
+    expect(await getPillsBalance(USER)).toBe(0);
+  });
+});
+
+describe('debits', () => {
+  beforeEach(async () => {
+    vi.stubEnv('PILLS_TREASURY_ADDRESS', TREASURY);
+    await resetTestDatabase();
+    await creditDeposit(DEPOSIT_SIGNATURE, mockRpc(transfer(100)).rpc);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('refuses a withdrawal larger than the balance and leaves balances unchanged', async () => {
+    await expect(requestWithdrawal(USER, 150)).rejects.toThrow(MarketError.INSUFFICIENT_FUNDS);
+
+    expect(await getPillsBalance(USER)).toBe(100);
+    expect(await getAccountBalance(PENDING_WITHDRAWALS_ACCOUNT)).toBe(0);
+    expect(await query('SELECT id FROM pills_withdrawals')).toHaveLength(0);
+  });
+
+  it('refuses a debit larger than the balance and leaves balances unchanged', async () => {
+    const debit = transaction(client => postLedgerTransaction(client, {
+      kind: 'trade',
+      reference: 'trade:too-large',
+      description: 'Order larger than the balance',
+      entries: [
+        { account: userAccount(USER), amount: -100.5 },
+        { account: HOUSE_ACCOUNT, amount: 100.5 },
+      ],
+    }));
+
+    await expect(debit).rejects.toThrow(MarketError.INSUFFICIENT_FUNDS);
+    expect(await getPillsBalance(USER)).toBe(100);
+    expect(await getAccountBalance(HOUSE_ACCOUNT)).toBe(0);
+    expect(await query("SELECT id FROM pills_ledger_transactions WHERE reference = 'trade:too-large'")).toHaveLength(0);
+  });
+
+  it('keeps every account in balance', async () => {
+    await requestWithdrawal(USER, 40);
+
+    const [total] = await query<{ total: string }>('SELECT SUM(balance) AS total FROM pills_balances');
+    expect(parseFloat(total.total)).toBe(0);
+    expect(await getPillsBalance(USER)).toBe(60);
+    expect(await getAccountBalance(PENDING_WITHDRAWALS_ACCOUNT)).toBe(40);
+  });
+});
@@ -0,0 +1,356 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import type { Address } from 'gill';
+import { pillsMarketEngine } from '../pills-market-engine';
+import { RESOLUTION_CONFIG, ResolutionReason, TRADING_CONFIG } from '../pills-market-types';
+import type { KOLRankingEntry, KOLShare, MarketResolution } from '../pills-market-types';
+
+const KOLS = Array.from({ length: 8 }, (_, index) => `kol${index}` as Address);
+
+function toShares(quantities: number[]): KOLShare[] {
+  return quantities.map((totalShares, index) => ({
+    periodId: 'period_test',
+    kolAddress: KOLS[index],
+    pricePerShare: 0,
+    totalShares,
+    totalInvested: 0,
+    probability: 0,
+    lastUpdated: 0,
+  }));
+}
+
+function applyTrade(shares: KOLShare[], kolAddress: Address, delta: number): KOLShare[] {
+  return shares.map(share =>
+    share.kolAddress === kolAddress ? { ...share, totalShares: share.totalShares + delta } : share
+  );
+}
+
+/** Floating point slack for PILLS amounts, which scale with b */
+const tolerance = (liquidity: number) => 1e-9 * liquidity;
+
+const liquidityArb = fc.double({ min: 10, max: 10_000, noNaN: true });
+const kolCountArb = fc.integer({ min: 1, max: KOLS.length });
+
+/** Outstanding quantities for n KOLs, up to a few multiples of b in either direction */
+const quantitiesArb = (kolCount: number, liquidity: number) =>
+  fc.array(fc.double({ min: -3 * liquidity, max: 10 * liquidity, noNaN: true }), {
+    minLength: kolCount,
+    maxLength: kolCount,
+  });
+
+/** Buys (positive) and sells (negative) of shares, as [kol index, shares] */
+const tradesArb = (kolCount: number, liquidity: number) =>
+  fc.array(
+    fc.tuple(
+      fc.integer({ min: 0, max: kolCount - 1 }),
+      fc.double({ min: -2 * liquidity, max: 2 * liquidity, noNaN: true })
+    ),
+    { minLength: 1, maxLength: 20 }
+  );
+
+describe('PillsMarketEngine LMSR', () => {
+  it('prices every market so probabilities sum to 1', () => {
+    fc.assert(
+      fc.property(
+        kolCountArb.chain(kolCount =>
+          liquidityArb.chain(liquidity => fc.tuple(fc.constant(liquidity), quantitiesArb(kolCount, liquidity)))
+        ),
+        ([liquidity, quantities]) => {
+          const probabilities = Object.values(pillsMarketEngine.calculateProbabilities(toShares(quantities), liquidity));
+          const total = probabilities.reduce((sum, probability) => sum + probability, 0);
+
+          expect(total).toBeCloseTo(1, 9);
+          for (const probability of probabilities) {
+            expect(probability).toBeGreaterThanOrEqual(0);
+            expect(probability).toBeLessThanOrEqual(1);
+          }
+        }
+      )
+    );
+  });
+
+  it('refunds a buy exactly when the same shares are sold back', () => {
+    fc.assert(
+      fc.property(
+        kolCountArb.chain(kolCount =>
+          liquidityArb.chain(liquidity =>
+            fc.tuple(
+              fc.constant(liquidity),
+              quantitiesArb(kolCount, liquidity),
+              fc.integer({ min: 0, max: kolCount - 1 }),
+              fc.double({ min: 0.01, max: 5 * liquidity, noNaN: true })
+            )
+          )
+        ),
+        ([liquidity, quantities, index, shareAmount]) => {
+          const before = toShares(quantities);
+          const kolAddress = KOLS[index];
+
+          const cost = pillsMarketEngine.calculateBuyCost(before, kolAddress, shareAmount, liquidity);
+          const after = applyTrade(before, kolAddress, shareAmount);
+          const proceeds = pillsMarketEngine.calculateSellProceeds(after, kolAddress, shareAmount, liquidity);
+
+          expect(Math.abs(proceeds - cost)).toBeLessThan(tolerance(liquidity));
+        }
+      )
+    );
+  });
+
+  it('charges the same total for the same trades in any order', () => {
+    fc.assert(
+      fc.property(
+        kolCountArb.chain(kolCount =>
+          liquidityArb.chain(liquidity =>
+            fc.tuple(fc.constant(liquidity), quantitiesArb(kolCount, liquidity), tradesArb(kolCount, liquidity))
+          )
+        ).chain(([liquidity, quantities, trades]) =>
+          fc.tuple(fc.constant(liquidity), fc.constant(quantities), fc.constant(trades), fc.shuffledSubarray(trades, {
+            minLength: trades.length,
+            maxLength: trades.length,
+          }))
+        ),
+        ([liquidity, quantities, trades, reordered]) => {
+          const totalCost = (sequence: [number, number][]) => {
+            let shares = toShares(quantities);
+            let cost = 0;
+            for (const [index, delta] of sequence) {
+              cost += pillsMarketEngine.calculateBuyCost(shares, KOLS[index], delta, liquidity);
+              shares = applyTrade(shares, KOLS[index], delta);
+            }
+            return { cost, shares };
+          };
+
+          const inOrder = totalCost(trades);
+          const shuffled = totalCost(reordered);
+          const direct = pillsMarketEngine.calculateCost(inOrder.shares, liquidity)
+            - pillsMarketEngine.calculateCost(toShares(quantities), liquidity);
+
+          expect(Math.abs(shuffled.cost - inOrder.cost)).toBeLessThan(tolerance(liquidity) * trades.length);
+          expect(Math.abs(inOrder.cost - direct)).toBeLessThan(tolerance(liquidity) * trades.length);
+        }
+      )
+    );
+  });
+
+  it('never loses the market maker more than b * ln(n) on any outcome', () => {
+    fc.assert(
+      fc.property(
+        kolCountArb.chain(kolCount =>
+          liquidityArb.chain(liquidity =>
+            fc.tuple(
+              fc.constant(kolCount),
+              fc.constant(liquidity),
+              fc.array(
+                fc.tuple(
+                  fc.integer({ min: 0, max: kolCount - 1 }),
+                  fc.double({ min: 0, max: 50 * liquidity, noNaN: true })
+                ),
+                { maxLength: 20 }
+              )
+            )
+          )
+        ),
+        ([kolCount, liquidity, buys]) => {
+          // Every market opens with no shares outstanding
+          let shares = toShares(new Array(kolCount).fill(0));
+          let collected = 0;
+          for (const [index, shareAmount] of buys) {
+            collected += pillsMarketEngine.calculateBuyCost(shares, KOLS[index], shareAmount, liquidity);
+            shares = applyTrade(shares, KOLS[index], shareAmount);
+          }
+
+          const bound = pillsMarketEngine.getMaxMarketMakerLoss(kolCount, liquidity);
+          expect(bound).toBeCloseTo(liquidity * Math.log(kolCount), 9);
+          for (const share of shares) {
+            const loss = share.totalShares * TRADING_CONFIG.PAYOUT_PER_SHARE - collected;
+            expect(loss).toBeLessThanOrEqual(bound + tolerance(liquidity) * (buys.length + 1));
+          }
+        }
+      )
+    );
+  });
+});
+
+type Standing = Omit<KOLRankingEntry, 'rank'>;
+
+const standing = (index: number, pnlSol: number, winRate = 0, totalTrades = 0): Standing => ({
+  kolAddress: KOLS[index],
+  pnlSol,
+  winRate,
+  totalTrades,
+});
+
+/** Shares after buying `amounts` of each KOL's shares from an empty market, with what was paid in */
+function buyShares(amounts: number[]): KOLShare[] {
+  let shares = toShares(new Array(amounts.length).fill(0));
+  amounts.forEach((amount, index) => {
+    if (amount === 0) return;
+    const cost = pillsMarketEngine.calculateBuyCost(shares, KOLS[index], amount);
+    shares = applyTrade(shares, KOLS[index], amount).map(share =>
+      share.kolAddress === KOLS[index] ? { ...share, totalInvested: share.totalInvested + cost } : share
+    );
+  });
+  return shares;
+}
+
+/** What each holder of `kol`'s shares receives, by the resolution's own numbers */
+function paidTo(resolution: MarketResolution, shares: KOLShare[], kol: Address): number {
+  const share = shares.find(candidate => candidate.kolAddress === kol)!;
+  if (resolution.refundStakes) return share.totalInvested;
+  return resolution.winners.includes(kol) ? share.totalShares * resolution.payoutPerShare : 0;
+}
+
+/**
+ * The pool is either handed back as refunds or goes to the winners, with
+ * the house keeping the rest or covering a shortfall no larger than b * ln(n)
+ */
+function expectPoolAccountedFor(resolution: MarketResolution, shares: KOLShare[]): void {
+  const paid = shares.reduce((sum, share) => sum + paidTo(resolution, shares, share.kolAddress), 0);
+  expect(resolution.totalPrizePool).toBeCloseTo(shares.reduce((sum, share) => sum + share.totalInvested, 0), 9);
+
+  if (resolution.refundStakes) {
+    expect(resolution.payoutPerShare).toBe(0);
+    expect(paid).toBeCloseTo(resolution.totalPrizePool, 9);
+    return;
+  }
+
+  expect(resolution.totalPayout).toBeCloseTo(paid, 9);
+  // Splitting a dead heat doesn't shrink what a winning share is worth in total
+  expect(resolution.payoutPerShare * resolution.winners.length).toBeCloseTo(TRADING_CONFIG.PAYOUT_PER_SHARE, 9);
+  const subsidy = resolution.totalPayout - resolution.totalPrizePool;
+  expect(subsidy).toBeLessThanOrEqual(pillsMarketEngine.getMaxMarketMakerLoss(shares.length) + 1e-9);
+}
+
+describe('PillsMarketEngine resolution', () => {
+  it('ranks by PnL, then win rate, then trade count', () => {
+    const ranking = pillsMarketEngine.rankKOLs([
+      standing(0, 1, 50, 4),
+      standing(1, 2, 0, 1),
+      standing(2, 1, 75, 2),
+      standing(3, 1, 50, 6),
+    ]);
+
+    expect(ranking.map(entry => [entry.kolAddress, entry.rank])).toEqual([
+      [KOLS[1], 1],
+      [KOLS[2], 2],
+      [KOLS[3], 3],
+      [KOLS[0], 4],
+    ]);
+  });
+
+  it('gives KOLs level after every tie-breaker the same rank', () => {
+    const ranking = pillsMarketEngine.rankKOLs([
+      standing(2, 0.5, 50, 2),
+      standing(1, 1, 50, 2),
+      // Within the PnL tolerance of KOL 1
+      standing(0, 1 + RESOLUTION_CONFIG.pnlTolerance / 2, 50, 2),
+    ]);
+
+    // Address order only fixes the display order of the shared rank
+    expect(ranking.map(entry => [entry.kolAddress, entry.rank])).toEqual([
+      [KOLS[0], 1],
+      [KOLS[1], 1],
+      [KOLS[2], 3],
+    ]);
+  });
+
+  it('pays a sole winner\'s shares at face value', () => {
+    const shares = buyShares([300, 100, 0]);
+    const ranking = pillsMarketEngine.rankKOLs([standing(0, 2, 100, 1), standing(1, 1, 100, 1), standing(2, 0)]);
+
+    const resolution = pillsMarketEngine.calculateMarketResolution('period_test', shares, ranking);
+
+    expect(resolution).toMatchObject({
+      reason: ResolutionReason.WINNER,
+      winner: KOLS[0],
+      winners: [KOLS[0]],
+      payoutPerShare: TRADING_CONFIG.PAYOUT_PER_SHARE,
+      totalWinningShares: 300,
+      refundStakes: false,
+    });
+    expect(resolution.totalPayout).toBeCloseTo(300 * TRADING_CONFIG.PAYOUT_PER_SHARE, 9);
+    expectPoolAccountedFor(resolution, shares);
+  });
+
+  it('pays the KOL ahead on the tie-breakers when PnL is level', () => {
+    const shares = buyShares([100, 200, 0]);
+    const ranking = pillsMarketEngine.rankKOLs([standing(0, 1, 50, 2), standing(1, 1, 100, 1), standing(2, 0)]);
+
+    const resolution = pillsMarketEngine.calculateMarketResolution('period_test', shares, ranking);
+
+    expect(resolution).toMatchObject({
+      reason: ResolutionReason.TIE_BREAK,
+      winner: KOLS[1],
+      winners: [KOLS[1]],
+      totalWinningShares: 200,
+    });
+    expectPoolAccountedFor(resolution, shares);
+  });
+
+  it('splits the payout between KOLs in a dead heat', () => {
+    const shares = buyShares([100, 50, 80]);
+    const ranking = pillsMarketEngine.rankKOLs([standing(0, 1, 50, 2), standing(1, 1, 50, 2), standing(2, 0.5, 100, 1)]);
+
+    const resolution = pillsMarketEngine.calculateMarketResolution('period_test', shares, ranking);
+
+    expect(resolution).toMatchObject({
+      reason: ResolutionReason.DEAD_HEAT,
+      winners: [KOLS[0], KOLS[1]],
+      payoutPerShare: TRADING_CONFIG.PAYOUT_PER_SHARE / 2,
+      totalWinningShares: 150,
+      refundStakes: false,
+    });
+    expect(resolution.winner).toBeUndefined();
+    expect(resolution.totalPayout).toBeCloseTo(75, 9);
+    expectPoolAccountedFor(resolution, shares);
+  });
+
+  it('voids the market when no KOL traded', () => {
+    const shares = buyShares([100, 50, 0]);
+    const ranking = pillsMarketEngine.rankKOLs([standing(0, 0), standing(1, 0), standing(2, 0)]);
+
+    const resolution = pillsMarketEngine.calculateMarketResolution('period_test', shares, ranking);
+
+    expect(resolution).toMatchObject({
+      reason: ResolutionReason.NO_ACTIVITY,
+      winners: [],
+      totalPayout: 0,
+      refundStakes: true,
+    });
+    expect(resolution.totalPrizePool).toBeGreaterThan(0);
+    expectPoolAccountedFor(resolution, shares);
+  });
+
+  it('refunds stakes when nobody holds the winner', () => {
+    const shares = buyShares([0, 100, 50]);
+    const ranking = pillsMarketEngine.rankKOLs([standing(0, 2, 100, 1), standing(1, 1, 100, 1), standing(2, 0)]);
+
+    const resolution = pillsMarketEngine.calculateMarketResolution('period_test', shares, ranking);
+
+    expect(resolution).toMatchObject({
+      reason: ResolutionReason.NO_WINNING_HOLDERS,
+      winners: [KOLS[0]],
+      totalWinningShares: 0,
+      totalPayout: 0,
+      refundStakes: true,
+    });
+    expectPoolAccountedFor(resolution, shares);
+  });
+
+  it('accounts for the whole pool whatever the ranking', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.double({ min: 0, max: 5 * TRADING_CONFIG.LIQUIDITY_PARAMETER, noNaN: true }), { minLength: 2, maxLength: 6 }),
+        fc.array(fc.tuple(fc.integer({ min: -2, max: 2 }), fc.integer({ min: 0, max: 3 })), { minLength: 6, maxLength: 6 }),
+        (amounts, results) => {
+          const shares = buyShares(amounts);
+          const ranking = pillsMarketEngine.rankKOLs(
+            amounts.map((_, index) => standing(index, results[index][0], results[index][1] * 25, results[index][1]))
+          );
+
+          expectPoolAccountedFor(pillsMarketEngine.calculateMarketResolution('period_test', shares, ranking), shares);
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { applyFill, emptyPosition, getUnrealizedPnl } from '../position-accounting';
+import type { CostBasisMethod, PositionFill, PositionState } from '../position-accounting';
+
+const buy = (tokenAmount: number, solAmount: number, feeSol = 0): PositionFill => ({ type: 'buy', tokenAmount, solAmount, feeSol });
+const sell = (tokenAmount: number, solAmount: number, feeSol = 0): PositionFill => ({ type: 'sell', tokenAmount, solAmount, feeSol });
+
+/** Replay fills from an empty position; returns the final state and what each fill realized */
+function replay(fills: PositionFill[], method: CostBasisMethod): { state: PositionState; realized: number[] } {
+  let state = emptyPosition();
+  const realized: number[] = [];
+  for (const fill of fills) {
+    const result = applyFill(state, fill, method);
+    state = result.state;
+    realized.push(result.realizedPnlSol);
+  }
+  return { state, realized };
+}
+
+describe('applyFill', () => {
+  it.each<CostBasisMethod>(['average', 'fifo'])('realizes +1 SOL selling half a 10 SOL buy for 6 (%s)', (method) => {
+    const { state, realized } = replay([buy(1000, 10), sell(500, 6)], method);
+
+    expect(realized[1]).toBeCloseTo(1);
+    expect(state.tokensHeld).toBe(500);
+    expect(state.costBasisSol).toBeCloseTo(5);
+    expect(state.realizedPnlSol).toBeCloseTo(1);
+  });
+
+  it('closes the oldest lots first under FIFO and the blended cost under average', () => {
+    // 100 tokens at 0.01, then 100 at 0.03; sell 150 for 4.5 SOL
+    const fills = [buy(100, 1), buy(100, 3), sell(150, 4.5)];
+
+    const fifo = replay(fills, 'fifo');
+    // Cost: the whole first lot (1) and half the second (1.5)
+    expect(fifo.realized[2]).toBeCloseTo(2);
+    expect(fifo.state.lots).toEqual([{ tokenAmount: 50, costSol: 1.5 }]);
+    expect(fifo.state.costBasisSol).toBeCloseTo(1.5);
+
+    const average = replay(fills, 'average');
+    // Cost: 150 tokens at the 0.02 average
+    expect(average.realized[2]).toBeCloseTo(1.5);
+    expect(average.state.lots).toEqual([]);
+    expect(average.state.costBasisSol).toBeCloseTo(1);
+
+    // Both agree once the position is closed
+    expect(replay([...fills, sell(50, 2)], 'fifo').state.realizedPnlSol).toBeCloseTo(2.5);
+    expect(replay([...fills, sell(50, 2)], 'average').state.realizedPnlSol).toBeCloseTo(2.5);
+  });
+
+  it.each<CostBasisMethod>(['average', 'fifo'])('counts fees in the cost basis and against proceeds (%s)', (method) => {
+    const { state, realized } = replay([buy(1000, 10, 0.1), sell(1000, 12, 0.2)], method);
+
+    // Cost 10.1, proceeds 11.8
+    expect(realized[1]).toBeCloseTo(1.7);
+    expect(state.tokensHeld).toBe(0);
+    expect(state.costBasisSol).toBe(0);
+  });
+
+  it.each<CostBasisMethod>(['average', 'fifo'])('leaves the untracked part of an oversized sell unrealized (%s)', (method) => {
+    // Only 100 of the 400 tokens sold were bought while tracked
+    const { state, realized } = replay([buy(100, 1), sell(400, 8)], method);
+
+    expect(realized[1]).toBeCloseTo(1);
+    expect(state).toEqual({ tokensHeld: 0, costBasisSol: 0, realizedPnlSol: realized[1], lots: [] });
+
+    // Nothing held: a further sell realizes nothing
+    expect(applyFill(state, sell(100, 2), method)).toEqual({ state, realizedPnlSol: 0 });
+  });
+});
+
+describe('getUnrealizedPnl', () => {
+  it('marks the tokens still held against their remaining cost', () => {
+    const { state } = replay([buy(1000, 10), sell(500, 6)], 'average');
+
+    expect(getUnrealizedPnl(state, 0.012)).toBeCloseTo(1);
+    expect(getUnrealizedPnl(emptyPosition(), 0.012)).toBe(0);
+  });
+});
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import path from 'path';
+import type { Address } from 'gill';
+
+vi.mock('pg', () => import('./support/test-database').then(m => m.pgModule));
+
+import { resetTestDatabase } from './support/test-database';
+import { query } from '../database';
+import { getEpoch, toLeaderboardPeriodId } from '../epoch-calendar';
+import { addKOL } from '../kol-registry';
+import { getReconciliationSummary, reconcileKOLPeriod, reconcilePeriod } from '../reconciliation';
+import { createFixtureBackfillSource } from '../trade-backfill';
+import type { BackfillSource } from '../trade-backfill';
+import type { KOLWalletMap } from '../trade-decoder';
+import { processWebhookTransaction } from '../webhook-db-processor';
+
+const FIXTURE_PATH = path.join(__dirname, 'fixtures', 'backfill-wallet.json');
+const WALLET = 'BS2EfUuCDk29VbeWYzuHeTLGh2L6ck6uCBUz2ftZ2DQB' as Address;
+const MINT = 'CzvZY75YE7NQPZXgbFkFxVd4ymCmAgyJ4GPKq7PqUDXT';
+const BUY_SIGNATURE = '4gtHmhfXmsX1JSwf35oya5hgGoQTZ5EdfgLGKRPuTbDQWd8Xuics1nLyf29a6zpi1mZzFkeG1gPmLT3wJAbG2XuS';
+const EXTRA_SIGNATURE = 'extra-signature';
+
+const BUY_TIME = 1744300800 * 1000;
+const MINUTE_MS = 60 * 1000;
+const epoch = getEpoch(BUY_TIME);
+const settled = epoch.endTime + 10 * MINUTE_MS;
+const wallets: KOLWalletMap = new Map([[WALLET, WALLET]]);
+
+async function recordExtraSwap(): Promise<void> {
+  const timestamp = Math.floor((BUY_TIME + 30 * MINUTE_MS) / 1000);
+  await processWebhookTransaction(EXTRA_SIGNATURE, timestamp, timestamp, [{
+    kolAddress: WALLET,
+    walletAddress: WALLET,
+    signature: EXTRA_SIGNATURE,
+    slot: timestamp,
+    timestamp,
+    type: 'buy',
+    mint: MINT,
+    tokenAmount: 1000,
+    tokenDecimals: 6,
+    solAmount: 0.1,
+    feeSol: 0,
+    program: 'Pumpfun',
+  }]);
+}
+
+async function getRecordedSignatures(): Promise<string[]> {
+  const rows = await query<{ signature: string }>('SELECT signature FROM trade_transactions ORDER BY signature');
+  return rows.map(row => row.signature);
+}
+
+describe('reconcileKOLPeriod', () => {
+  let source: BackfillSource;
+
+  beforeEach(async () => {
+    vi.stubEnv('HELIUS_API_KEY', '');
+    await resetTestDatabase();
+    await addKOL(WALLET, { name: 'Alpha' }, epoch.startTime - MINUTE_MS);
+    source = await createFixtureBackfillSource(FIXTURE_PATH);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('backfills a swap that was never delivered', async () => {
+    const run = await reconcileKOLPeriod(WALLET, epoch, source, settled, { wallets });
+
+    // The transfer is on chain but isn't a swap, so it isn't missing
+    expect(run).toMatchObject({
+      periodId: toLeaderboardPeriodId(epoch),
+      status: 'repaired',
+      chainSignatures: 2,
+      recordedSignatures: 0,
+      missingSignatures: [BUY_SIGNATURE],
+      extraSignatures: [],
+      backfilled: 1,
+      failed: 0,
+    });
+    expect(await getRecordedSignatures()).toEqual([BUY_SIGNATURE]);
+
+    expect(await reconcileKOLPeriod(WALLET, epoch, source, settled, { wallets })).toMatchObject({
+      status: 'ok',
+      recordedSignatures: 1,
+      missingSignatures: [],
+    });
+  });
+
+  it('reports recorded signatures missing from the wallet\'s history as gaps', async () => {
+    await recordExtraSwap();
+
+    expect(await reconcileKOLPeriod(WALLET, epoch, source, settled, { wallets })).toMatchObject({
+      status: 'gaps',
+      recordedSignatures: 1,
+      extraSignatures: [EXTRA_SIGNATURE],
+      backfilled: 1,
+    });
+  });
+
+  it('only checks the part of the period the wallet was linked and has settled', async () => {
+    await recordExtraSwap();
+
+    // Linked after the buy: only the transfer and the extra swap are in the window
+    expect(await reconcileKOLPeriod(WALLET, epoch, source, settled, { wallets, addedAt: BUY_TIME + MINUTE_MS }))
+      .toMatchObject({ chainSignatures: 1, recordedSignatures: 1, missingSignatures: [], extraSignatures: [EXTRA_SIGNATURE] });
+
+    // Unlinked before the buy
+    expect(await reconcileKOLPeriod(WALLET, epoch, source, settled, { wallets, removedAt: BUY_TIME - MINUTE_MS }))
+      .toMatchObject({ status: 'ok', chainSignatures: 0, recordedSignatures: 0 });
+
+    // Checked right after the buy, which could still be in flight
+    expect(await reconcileKOLPeriod(WALLET, epoch, source, BUY_TIME + 2 * MINUTE_MS, { wallets }))
+      .toMatchObject({ status: 'ok', chainSignatures: 0, recordedSignatures: 0 });
+
+    expect(await getRecordedSignatures()).toEqual([EXTRA_SIGNATURE]);
+  });
+});
+
+describe('reconcilePeriod', () => {
+  beforeEach(async () => {
+    vi.stubEnv('HELIUS_API_KEY', '');
+    await resetTestDatabase();
+    await addKOL(WALLET, { name: 'Alpha' }, epoch.startTime - MINUTE_MS);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('skips wallets already reconciled for the period unless forced', async () => {
+    const source = await createFixtureBackfillSource(FIXTURE_PATH);
+
+    expect((await reconcilePeriod(epoch, { source })).map(run => run.status)).toEqual(['repaired']);
+    expect(await reconcilePeriod(epoch, { source })).toEqual([]);
+    expect((await reconcilePeriod(epoch, { source, force: true })).map(run => run.status)).toEqual(['ok']);
+
+    expect(await getReconciliationSummary()).toMatchObject({
+      periodId: toLeaderboardPeriodId(epoch),
+      kolsChecked: 1,
+      missing: 0,
+      unresolved: 0,
+      errors: 0,
+      status: 'ok',
+    });
+  });
+
+  it('runs a wallet again after an error', async () => {
+    const failing: BackfillSource = {
+      getSignatures: async () => {
+        throw new Error('RPC unavailable');
+      },
+      getTransaction: async () => null,
+    };
+
+    expect((await reconcilePeriod(epoch, { source: failing })).map(run => run.status)).toEqual(['error']);
+    expect(await getReconciliationSummary()).toMatchObject({ errors: 1, status: 'gaps' });
+
+    const source = await createFixtureBackfillSource(FIXTURE_PATH);
+    expect((await reconcilePeriod(epoch, { source })).map(run => run.status)).toEqual(['repaired']);
+    expect(await getReconciliationSummary()).toMatchObject({ missing: 1, backfilled: 1, errors: 0, status: 'ok' });
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Address } from 'gill';
+
+vi.mock('pg', () => import('./support/test-database').then(m => m.pgModule));
+
+import { resetTestDatabase } from './support/test-database';
+import { query } from '../database';
+import { addKOL } from '../kol-registry';
+import { fillMissingSolPrices, getSolPriceAt, recordSolPriceSnapshot } from '../sol-price';
+import type { SwapLeg } from '../trade-decoder';
+import { processWebhookTransaction } from '../webhook-db-processor';
+
+const KOL = 'So11111111111111111111111111111111111111112' as Address;
+const MINT = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+const MINUTE_MS = 60 * 1000;
+const tradeTime = Date.UTC(2026, 0, 15, 12);
+
+describe('getSolPriceAt', () => {
+  beforeEach(async () => {
+    // The default Helius provider prices nothing without an API key
+    vi.stubEnv('HELIUS_API_KEY', '');
+    await resetTestDatabase();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('falls back to a snapshot within the hour', async () => {
+    await recordSolPriceSnapshot(180, tradeTime - 40 * MINUTE_MS, 'helius');
+    await recordSolPriceSnapshot(190, tradeTime + 30 * MINUTE_MS, 'helius');
+
+    expect(await getSolPriceAt(tradeTime)).toBe(190);
+  });
+
+  it('prices nothing when the nearest snapshot is further away', async () => {
+    await recordSolPriceSnapshot(180, tradeTime - 3 * 60 * MINUTE_MS, 'helius');
+
+    expect(await getSolPriceAt(tradeTime)).toBeNull();
+  });
+});
+
+describe('fillMissingSolPrices', () => {
+  async function swap(signature: string, time: number, type: SwapLeg['type'], solAmount: number) {
+    const timestamp = Math.floor(time / 1000);
+    await processWebhookTransaction(signature, timestamp, timestamp, [{
+      kolAddress: KOL,
+      walletAddress: KOL,
+      signature,
+      slot: timestamp,
+      timestamp,
+      type,
+      mint: MINT,
+      tokenAmount: 1000,
+      tokenDecimals: 6,
+      solAmount,
+      feeSol: 0,
+      program: 'Pumpfun',
+    }]);
+  }
+
+  beforeEach(async () => {
+    vi.stubEnv('HELIUS_API_KEY', '');
+    await resetTestDatabase();
+    await addKOL(KOL, { name: 'Alpha' }, tradeTime - 60 * MINUTE_MS);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('prices legs once a snapshot turns up and recomputes their trade\'s USD PnL', async () => {
+    await swap('buy', tradeTime, 'buy', 1);
+    await swap('sell', tradeTime + 10 * MINUTE_MS, 'sell', 3);
+
+    // The SOL PnL counts before any price is known
+    const [unpriced] = await query<{ pnl_sol: string; pnl_usd: string }>('SELECT pnl_sol, pnl_usd FROM trades');
+    expect(parseFloat(unpriced.pnl_sol)).toBeCloseTo(2);
+    expect(parseFloat(unpriced.pnl_usd)).toBe(0);
+
+    // A snapshot within the hour of both legs prices them
+    await recordSolPriceSnapshot(200, tradeTime + 12 * MINUTE_MS, 'fixture');
+    expect(await fillMissingSolPrices()).toBe(2);
+    expect(await fillMissingSolPrices()).toBe(0);
+
+    const [priced] = await query<{ pnl_usd: string }>('SELECT pnl_usd FROM trades');
+    expect(parseFloat(priced.pnl_usd)).toBeCloseTo(400);
+  });
+});
@@ -0,0 +1,42 @@
+import { randomUUID } from 'crypto';
+import type { HeliusWebhook, HeliusWebhookApi, HeliusWebhookConfig } from '../../helius-webhooks';
+
+/**
+ * In-memory stand-in for the Helius webhook management API, seeded with `webhooks`
+ * Returned webhooks are copies, so callers can't change the stored ones
+ */
+export function createFakeHeliusWebhookApi(webhooks: HeliusWebhook[] = []): HeliusWebhookApi & { webhooks: HeliusWebhook[] } {
+  const copy = (webhook: HeliusWebhook): HeliusWebhook => ({
+    ...webhook,
+    transactionTypes: [...webhook.transactionTypes],
+    accountAddresses: [...webhook.accountAddresses],
+  });
+  const find = (webhookID: string): number => {
+    const index = fake.webhooks.findIndex(webhook => webhook.webhookID === webhookID);
+    if (index === -1) {
+      throw new Error(`Helius webhook request failed with status 404: webhook ${webhookID} not found`);
+    }
+    return index;
+  };
+
+  const fake = {
+    webhooks: webhooks.map(copy),
+    async listWebhooks() {
+      return fake.webhooks.map(copy);
+    },
+    async createWebhook(config: HeliusWebhookConfig) {
+      const webhook = copy({ ...config, webhookID: randomUUID() });
+      fake.webhooks.push(webhook);
+      return copy(webhook);
+    },
+    async updateWebhook(webhookID: string, config: HeliusWebhookConfig) {
+      const index = find(webhookID);
+      fake.webhooks[index] = copy({ ...config, webhookID });
+      return copy(fake.webhooks[index]);
+    },
+    async deleteWebhook(webhookID: string) {
+      fake.webhooks.splice(find(webhookID), 1);
+    },
+  };
+  return fake;
+}
@@ -0,0 +1,98 @@
+/**
+ * In-process Postgres for tests
+ * Stands in for the `pg` module with a Pool backed by PGlite, so repository
+ * code runs its real SQL against a schema built by the real migrations.
+ * Every client shares the one PGlite session, which serializes queries the
+ * way a single pooled connection would.
+ *
+ *   vi.mock('pg', () => import('./support/test-database').then(m => m.pgModule));
+ *   beforeEach(() => resetTestDatabase());
+ */
+
+import { PGlite, types } from '@electric-sql/pglite';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+
+let db: PGlite | null = null;
+let migrated = false;
+
+interface TestQueryResult {
+  rows: unknown[];
+  rowCount: number;
+}
+
+function getDatabase(): PGlite {
+  if (!db) {
+    db = new PGlite({
+      extensions: { uuid_ossp },
+      // Match pg, which returns 64-bit integers and numerics as strings
+      parsers: {
+        [types.INT8]: (value: string) => value,
+        [types.NUMERIC]: (value: string) => value,
+      },
+    });
+  }
+  return db;
+}
+
+async function runQuery(text: string, params?: unknown[]): Promise<TestQueryResult> {
+  const database = getDatabase();
+
+  // Parameterless text may hold several statements (migrations), like pg's simple query protocol
+  if (!params || params.length === 0) {
+    const results = await database.exec(text);
+    const last = results[results.length - 1];
+    return { rows: last?.rows ?? [], rowCount: last?.affectedRows ?? last?.rows.length ?? 0 };
+  }
+
+  const result = await database.query(text, params);
+  return { rows: result.rows, rowCount: result.affectedRows ?? result.rows.length };
+}
+
+class TestPoolClient {
+  query(text: string, params?: unknown[]): Promise<TestQueryResult> {
+    return runQuery(text, params);
+  }
+
+  release(): void {}
+}
+
+class TestPool {
+  async connect(): Promise<TestPoolClient> {
+    return new TestPoolClient();
+  }
+
+  query(text: string, params?: unknown[]): Promise<TestQueryResult> {
+    return runQuery(text, params);
+  }
+
+  on(): this {
+    return this;
+  }
+
+  async end(): Promise<void> {}
+}
+
+/** Replacement for the `pg` module */
+export const pgModule = { Pool: TestPool, default: { Pool: TestPool } };
+
+/**
+ * Migrate the schema on first use and empty every table
+ */
+export async function resetTestDatabase(): Promise<void> {
+  process.env.DATABASE_URL ??= 'pglite://test';
+
+  if (!migrated) {
+    const { migrateUp } = await import('../../migrations');
+    await migrateUp();
+    migrated = true;
+  }
+
+  const tables = await runQuery(`
+    SELECT tablename FROM pg_tables
+    WHERE schemaname = 'public' AND tablename <> 'schema_migrations'
+  `);
+  const names = (tables.rows as { tablename: string }[]).map(row => `"${row.tablename}"`);
+  if (names.length > 0) {
+    await runQuery(`TRUNCATE ${names.join(', ')} RESTART IDENTITY CASCADE`);
+  }
+}
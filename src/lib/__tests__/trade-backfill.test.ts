@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import path from 'path';
+import type { Address } from 'gill';
+
+vi.mock('pg', () => import('./support/test-database').then(m => m.pgModule));
+
+import { resetTestDatabase } from './support/test-database';
+import { query } from '../database';
+import { addKOL } from '../kol-registry';
+import { backfillKOLTrades, createFixtureBackfillSource } from '../trade-backfill';
+import type { BackfillSource } from '../trade-backfill';
+import type { KOLWalletMap } from '../trade-decoder';
+
+const FIXTURE_PATH = path.join(__dirname, 'fixtures', 'backfill-wallet.json');
+const PRICE_FIXTURE_PATH = path.join(__dirname, 'fixtures', 'sol-prices.json');
+const WALLET = 'BS2EfUuCDk29VbeWYzuHeTLGh2L6ck6uCBUz2ftZ2DQB' as Address;
+const BUY_SIGNATURE = '4gtHmhfXmsX1JSwf35oya5hgGoQTZ5EdfgLGKRPuTbDQWd8Xuics1nLyf29a6zpi1mZzFkeG1gPmLT3wJAbG2XuS';
+
+const BUY_TIME = 1744300800 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const window = { startTime: BUY_TIME - HOUR_MS, endTime: BUY_TIME + HOUR_MS };
+const wallets: KOLWalletMap = new Map([[WALLET, WALLET]]);
+
+describe('createFixtureBackfillSource', () => {
+  let source: BackfillSource;
+
+  beforeEach(async () => {
+    source = await createFixtureBackfillSource(FIXTURE_PATH);
+  });
+
+  it('pages through a wallet\'s recorded signatures newest first', async () => {
+    const firstPage = await source.getSignatures(WALLET, { limit: 2 });
+    const secondPage = await source.getSignatures(WALLET, { before: firstPage[1].signature, limit: 2 });
+
+    expect(firstPage.map(entry => entry.blockTime)).toEqual([1744301400, 1744301000]);
+    expect(secondPage.map(entry => entry.signature)[0]).toBe(BUY_SIGNATURE);
+    expect(secondPage).toHaveLength(2);
+    expect(await source.getSignatures(WALLET, { before: 'unknown', limit: 2 })).toEqual([]);
+    expect(await source.getSignatures('11111111111111111111111111111111' as Address, { limit: 2 })).toEqual([]);
+  });
+
+  it('returns recorded transactions and null for anything else', async () => {
+    expect((await source.getTransaction(BUY_SIGNATURE))?.slot).toBe(331804122);
+    expect(await source.getTransaction('unknown')).toBeNull();
+  });
+});
+
+describe('backfillKOLTrades', () => {
+  beforeEach(async () => {
+    vi.stubEnv('HELIUS_API_KEY', '');
+    // Priced from recorded history, with no snapshots taken beforehand
+    vi.stubEnv('SOL_PRICE_PROVIDER', 'fixture');
+    vi.stubEnv('SOL_PRICE_FIXTURE_PATH', PRICE_FIXTURE_PATH);
+    await resetTestDatabase();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('records the window\'s swaps from a fixture and skips them on a re-run', async () => {
+    await addKOL(WALLET, { name: 'Alpha' }, window.startTime - HOUR_MS);
+    const source = await createFixtureBackfillSource(FIXTURE_PATH);
+
+    // The failed transaction and the one before the window aren't scanned
+    expect(await backfillKOLTrades(WALLET, window, source, wallets)).toEqual({
+      walletAddress: WALLET,
+      scanned: 2,
+      skipped: 0,
+      recorded: 1,
+      unlinked: 0,
+      ignored: 1,
+      failed: 0,
+    });
+
+    const rows = await query<{ signature: string; transaction_type: string; sol_price_usd: string }>(
+      'SELECT signature, transaction_type, sol_price_usd FROM trade_transactions'
+    );
+    expect(rows).toEqual([{ signature: BUY_SIGNATURE, transaction_type: 'buy', sol_price_usd: '150.25' }]);
+
+    expect(await backfillKOLTrades(WALLET, window, source, wallets)).toMatchObject({
+      scanned: 2,
+      skipped: 1,
+      recorded: 0,
+      ignored: 1,
+    });
+  });
+
+  it('reports swaps from before the wallet was linked apart from recorded ones', async () => {
+    await addKOL(WALLET, { name: 'Alpha' }, BUY_TIME + 30 * 60 * 1000);
+    const source = await createFixtureBackfillSource(FIXTURE_PATH);
+
+    expect(await backfillKOLTrades(WALLET, window, source, wallets)).toMatchObject({
+      scanned: 2,
+      recorded: 0,
+      unlinked: 1,
+      ignored: 1,
+    });
+    expect(await query('SELECT id FROM trade_transactions')).toHaveLength(0);
+  });
+
+  it('records swaps unpriced when the provider has no price history', async () => {
+    vi.stubEnv('SOL_PRICE_PROVIDER', 'helius');
+    await addKOL(WALLET, { name: 'Alpha' }, window.startTime - HOUR_MS);
+    const source = await createFixtureBackfillSource(FIXTURE_PATH);
+
+    expect(await backfillKOLTrades(WALLET, window, source, wallets)).toMatchObject({
+      recorded: 1,
+      failed: 0,
+    });
+    expect(await query('SELECT sol_price_usd FROM trade_transactions')).toEqual([{ sol_price_usd: null }]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Address } from 'gill';
+import { decodeEnhancedTransaction, decodeParsedTransaction } from '../trade-decoder';
+import type { HeliusEnhancedTransaction, KOLWalletMap, ParsedRawTransaction } from '../trade-decoder';
+import raydiumBuy from './fixtures/raydium-v4-buy.json';
+import bundledBuy from './fixtures/pumpfun-bundled-buy.enhanced.json';
+
+const WALLET_A = 'BS2EfUuCDk29VbeWYzuHeTLGh2L6ck6uCBUz2ftZ2DQB' as Address;
+const WALLET_B = '78akwbCnwWZNLfdfddfoBTdKQWFJoD8FZiQrctek82fX' as Address;
+const KOL_A = 'So11111111111111111111111111111111111111112' as Address;
+const KOL_B = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA' as Address;
+const MINT = 'CzvZY75YE7NQPZXgbFkFxVd4ymCmAgyJ4GPKq7PqUDXT';
+
+describe('decodeParsedTransaction', () => {
+  it('decodes a Raydium V4 buy paid from wrapped SOL', () => {
+    const wallets: KOLWalletMap = new Map([[WALLET_A, KOL_A]]);
+    const legs = decodeParsedTransaction(raydiumBuy as unknown as ParsedRawTransaction, wallets);
+
+    expect(legs).toEqual([expect.objectContaining({
+      kolAddress: KOL_A,
+      walletAddress: WALLET_A,
+      signature: raydiumBuy.transaction.signatures[0],
+      type: 'buy',
+      mint: MINT,
+      tokenAmount: 35_000_000,
+      tokenDecimals: 6,
+      solAmount: 1,
+      feeSol: 0.000105,
+      program: 'RaydiumV4',
+    })]);
+  });
+
+  it('ignores transactions without monitored wallets', () => {
+    const wallets: KOLWalletMap = new Map([[WALLET_B, KOL_B]]);
+    expect(decodeParsedTransaction(raydiumBuy as unknown as ParsedRawTransaction, wallets)).toEqual([]);
+  });
+});
+
+describe('decodeEnhancedTransaction', () => {
+  const tx = bundledBuy as unknown as HeliusEnhancedTransaction;
+
+  it('decodes one leg per KOL in a bundled buy', () => {
+    const wallets: KOLWalletMap = new Map([[WALLET_A, KOL_A], [WALLET_B, KOL_B]]);
+    const legs = decodeEnhancedTransaction(tx, wallets);
+
+    expect(legs).toHaveLength(2);
+    expect(legs).toContainEqual(expect.objectContaining({
+      kolAddress: KOL_A,
+      walletAddress: WALLET_A,
+      type: 'buy',
+      mint: MINT,
+      tokenAmount: 35_000_000,
+      solAmount: 1.01,
+      feeSol: 0.000105,
+      program: 'Pumpfun',
+    }));
+    expect(legs).toContainEqual(expect.objectContaining({
+      kolAddress: KOL_B,
+      walletAddress: WALLET_B,
+      type: 'buy',
+      mint: MINT,
+      tokenAmount: 17_300_000,
+      solAmount: 0.505,
+      feeSol: 0,
+    }));
+  });
+
+  it('nets the wallets of one KOL into a single leg', () => {
+    const wallets: KOLWalletMap = new Map([[WALLET_A, KOL_A], [WALLET_B, KOL_A]]);
+    const legs = decodeEnhancedTransaction(tx, wallets);
+
+    expect(legs).toEqual([expect.objectContaining({
+      kolAddress: KOL_A,
+      walletAddress: WALLET_A,
+      tokenAmount: 52_300_000,
+      solAmount: 1.515,
+    })]);
+  });
+});
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateKeyPairSigner, getBase58Decoder, getUtf8Encoder } from 'gill';
+import type { KeyPairSigner } from 'gill';
+import { createSessionToken, getSignInMessage, parseSessionToken, verifySignIn } from '../wallet-auth';
+
+async function signSignIn(signer: KeyPairSigner, issuedAt: number): Promise<string> {
+  const message = getUtf8Encoder().encode(getSignInMessage(signer.address, issuedAt));
+  const [signatures] = await signer.signMessages([{ content: message as Uint8Array, signatures: {} }]);
+  return getBase58Decoder().decode(signatures[signer.address]);
+}
+
+describe('wallet auth', () => {
+  let signer: KeyPairSigner;
+  const now = Date.UTC(2026, 0, 15, 12);
+
+  beforeEach(async () => {
+    vi.stubEnv('SESSION_SECRET', 'test-session-secret');
+    signer = await generateKeyPairSigner();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts a fresh sign-in signed by the wallet', async () => {
+    const signature = await signSignIn(signer, now);
+    expect(await verifySignIn(signer.address, now, signature, now + 1000)).toBe(true);
+  });
+
+  it('rejects stale sign-ins and signatures from another wallet', async () => {
+    const other = await generateKeyPairSigner();
+    const signature = await signSignIn(signer, now);
+
+    expect(await verifySignIn(signer.address, now, signature, now + 10 * 60 * 1000)).toBe(false);
+    expect(await verifySignIn(other.address, now, signature, now)).toBe(false);
+    expect(await verifySignIn(signer.address, now + 1, signature, now)).toBe(false);
+    expect(await verifySignIn(signer.address, now, 'not-a-signature', now)).toBe(false);
+  });
+
+  it('binds a session cookie to its wallet until it expires', () => {
+    const { token, session } = createSessionToken(signer.address, now);
+
+    expect(parseSessionToken(token, now + 1000)).toEqual(session);
+    expect(parseSessionToken(token, session.expiresAt)).toBeNull();
+
+    // Swapping the wallet invalidates the MAC
+    const [, expiresAt, mac] = token.split('.');
+    expect(parseSessionToken(`11111111111111111111111111111111.${expiresAt}.${mac}`, now)).toBeNull();
+
+    vi.stubEnv('SESSION_SECRET', 'rotated-secret');
+    expect(parseSessionToken(token, now)).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Address } from 'gill';
+
+vi.mock('pg', () => import('./support/test-database').then(m => m.pgModule));
+
+import { resetTestDatabase } from './support/test-database';
+import { query } from '../database';
+import { addKOL } from '../kol-registry';
+import { fillMissingSolPrices, recordSolPriceSnapshot } from '../sol-price';
+import { decodeEnhancedTransaction } from '../trade-decoder';
+import type { HeliusEnhancedTransaction, KOLWalletMap } from '../trade-decoder';
+import { processWebhookTransaction } from '../webhook-db-processor';
+import bundledBuy from './fixtures/pumpfun-bundled-buy.enhanced.json';
+
+const WALLET_A = 'BS2EfUuCDk29VbeWYzuHeTLGh2L6ck6uCBUz2ftZ2DQB' as Address;
+const WALLET_B = '78akwbCnwWZNLfdfddfoBTdKQWFJoD8FZiQrctek82fX' as Address;
+
+const tx = bundledBuy as unknown as HeliusEnhancedTransaction;
+const wallets: KOLWalletMap = new Map([[WALLET_A, WALLET_A], [WALLET_B, WALLET_B]]);
+
+describe('processWebhookTransaction', () => {
+  beforeEach(async () => {
+    vi.stubEnv('HELIUS_API_KEY', '');
+    await resetTestDatabase();
+    const linkedAt = (tx.timestamp - 3600) * 1000;
+    await addKOL(WALLET_A, { name: 'Alpha' }, linkedAt);
+    await addKOL(WALLET_B, { name: 'Beta' }, linkedAt);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('records every leg of a transaction once', async () => {
+    await recordSolPriceSnapshot(150, tx.timestamp * 1000, 'fixture');
+    const legs = decodeEnhancedTransaction(tx, wallets);
+
+    expect(await processWebhookTransaction(tx.signature, tx.timestamp, tx.slot, legs, tx)).toEqual({ recorded: 2, unlinked: 0 });
+    // A redelivery adds nothing
+    expect(await processWebhookTransaction(tx.signature, tx.timestamp, tx.slot, legs, tx)).toEqual({ recorded: 0, unlinked: 0 });
+
+    const rows = await query<{ wallet_address: string; sol_amount: string }>(
+      'SELECT wallet_address, sol_amount FROM trade_transactions WHERE signature = $1 ORDER BY wallet_address',
+      [tx.signature]
+    );
+    expect(rows).toEqual([
+      { wallet_address: WALLET_B, sol_amount: '0.505000000' },
+      { wallet_address: WALLET_A, sol_amount: '1.010000000' },
+    ]);
+  });
+
+  it('records legs without a SOL price near block time and prices them later', async () => {
+    await recordSolPriceSnapshot(150, (tx.timestamp - 6 * 3600) * 1000, 'fixture');
+    const legs = decodeEnhancedTransaction(tx, wallets);
+
+    expect(await processWebhookTransaction(tx.signature, tx.timestamp, tx.slot, legs, tx)).toEqual({ recorded: 2, unlinked: 0 });
+
+    const unpriced = await query<{ sol_price_usd: string | null }>('SELECT sol_price_usd FROM trade_transactions');
+    const [log] = await query<{ processing_status: string }>(
+      'SELECT processing_status FROM webhook_logs WHERE signature = $1',
+      [tx.signature]
+    );
+    expect(unpriced).toEqual([{ sol_price_usd: null }, { sol_price_usd: null }]);
+    expect(log.processing_status).toBe('processed');
+
+    await recordSolPriceSnapshot(160, tx.timestamp * 1000, 'fixture');
+    expect(await fillMissingSolPrices()).toBe(2);
+
+    const priced = await query<{ sol_price_usd: string | null }>('SELECT sol_price_usd FROM trade_transactions');
+    expect(priced).toEqual([{ sol_price_usd: '160.00' }, { sol_price_usd: '160.00' }]);
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Address } from 'gill';
+
+vi.mock('pg', () => import('./support/test-database').then(m => m.pgModule));
+
+import { resetTestDatabase } from './support/test-database';
+import { query } from '../database';
+import { addKOL } from '../kol-registry';
+import type { HeliusEnhancedTransaction } from '../trade-decoder';
+import { discardWebhookLog, replayWebhookLog, retryFailedWebhooks, WebhookLogError } from '../webhook-dead-letter';
+import { recordWebhookFailure, WEBHOOK_MAX_ATTEMPTS } from '../webhook-log-db';
+import type { WebhookLogInput } from '../webhook-log-db';
+import bundledBuy from './fixtures/pumpfun-bundled-buy.enhanced.json';
+
+const WALLET_A = 'BS2EfUuCDk29VbeWYzuHeTLGh2L6ck6uCBUz2ftZ2DQB' as Address;
+const WALLET_B = '78akwbCnwWZNLfdfddfoBTdKQWFJoD8FZiQrctek82fX' as Address;
+
+const tx = bundledBuy as unknown as HeliusEnhancedTransaction;
+
+// Stored the way the processor stores it, with no legs, so a replay can only
+// find the swaps by decoding the transaction again
+function failedLog(transaction: HeliusEnhancedTransaction = tx): WebhookLogInput {
+  return {
+    signature: transaction.signature,
+    kolAddress: WALLET_A,
+    transactionType: 'Pumpfun',
+    rawData: JSON.stringify({ transaction, legs: [], timestamp: transaction.timestamp, slot: transaction.slot }),
+  };
+}
+
+async function getLog(signature: string) {
+  const [row] = await query<{ processing_status: string; attempts: number; retry_in: string }>(`
+    SELECT processing_status, attempts, EXTRACT(EPOCH FROM next_retry_at - CURRENT_TIMESTAMP) AS retry_in
+    FROM webhook_logs WHERE signature = $1
+  `, [signature]);
+  return { status: row.processing_status, attempts: row.attempts, retryInSeconds: Math.round(parseFloat(row.retry_in)) };
+}
+
+async function makeDue(signature: string): Promise<void> {
+  await query(
+    "UPDATE webhook_logs SET next_retry_at = CURRENT_TIMESTAMP - INTERVAL '1 second' WHERE signature = $1",
+    [signature]
+  );
+}
+
+describe('webhook dead-letter queue', () => {
+  beforeEach(async () => {
+    // Replays decode from the stored payload alone
+    vi.stubEnv('HELIUS_API_KEY', '');
+    await resetTestDatabase();
+    const linkedAt = (tx.timestamp - 3600) * 1000;
+    await addKOL(WALLET_A, { name: 'Alpha' }, linkedAt);
+    await addKOL(WALLET_B, { name: 'Beta' }, linkedAt);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('backs off exponentially and marks a row dead after the last attempt', async () => {
+    const retryDelays: number[] = [];
+    for (let attempt = 1; attempt < WEBHOOK_MAX_ATTEMPTS; attempt++) {
+      await recordWebhookFailure(failedLog(), 'boom');
+      const log = await getLog(tx.signature);
+      expect(log).toMatchObject({ status: 'failed', attempts: attempt });
+      retryDelays.push(log.retryInSeconds);
+    }
+    expect(retryDelays.slice(0, 4)).toEqual([60, 120, 240, 480]);
+
+    await recordWebhookFailure(failedLog(), 'boom');
+    expect(await getLog(tx.signature)).toMatchObject({ status: 'dead', attempts: WEBHOOK_MAX_ATTEMPTS });
+
+    // Dead rows are left for an operator
+    await makeDue(tx.signature);
+    expect(await retryFailedWebhooks()).toEqual({ retried: 0, succeeded: 0, failed: 0 });
+  });
+
+  it('retries a due row by decoding its stored transaction again', async () => {
+    await recordWebhookFailure(failedLog(), 'boom');
+
+    // Not due until its backoff elapses
+    expect((await retryFailedWebhooks()).retried).toBe(0);
+
+    await makeDue(tx.signature);
+    expect(await retryFailedWebhooks()).toEqual({ retried: 1, succeeded: 1, failed: 0 });
+
+    const legs = await query<{ wallet_address: string }>(
+      'SELECT wallet_address FROM trade_transactions WHERE signature = $1 ORDER BY wallet_address',
+      [tx.signature]
+    );
+    expect(legs.map(leg => leg.wallet_address)).toEqual([WALLET_B, WALLET_A]);
+    expect((await getLog(tx.signature)).status).toBe('processed');
+  });
+
+  it('counts a replay without the raw transaction or any decoded swap as a failed attempt', async () => {
+    const noSwaps = {
+      ...tx,
+      accountData: tx.accountData.map(data => ({ ...data, tokenBalanceChanges: [] })),
+    };
+    await recordWebhookFailure(failedLog(noSwaps), 'boom');
+
+    await expect(replayWebhookLog(tx.signature)).rejects.toThrow('Raw transaction unavailable');
+    expect(await getLog(tx.signature)).toMatchObject({ status: 'failed', attempts: 2, retryInSeconds: 120 });
+  });
+
+  it('discards a replay of a transaction that definitely has no KOL swaps', async () => {
+    await recordWebhookFailure(failedLog({ ...tx, transactionError: 'failed' }), 'boom');
+
+    expect((await replayWebhookLog(tx.signature)).status).toBe('discarded');
+  });
+
+  it('refuses to discard or replay a processed row', async () => {
+    await recordWebhookFailure(failedLog(), 'boom');
+    await replayWebhookLog(tx.signature);
+
+    await expect(discardWebhookLog(tx.signature)).rejects.toThrow(WebhookLogError.ALREADY_PROCESSED);
+    await expect(replayWebhookLog(tx.signature)).rejects.toThrow(WebhookLogError.ALREADY_PROCESSED);
+    await expect(discardWebhookLog('unknown')).rejects.toThrow(WebhookLogError.NOT_FOUND);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Bearer token checks for operator-only API routes and Helius webhooks
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+/**
+ * Constant-time string comparison
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Whether the request carries `Authorization: Bearer <ADMIN_API_SECRET>`
+ * Always false when no secret is configured
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  const secret = process.env.ADMIN_API_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  return safeCompare(request.headers.get('authorization') || '', `Bearer ${secret}`);
+}
+
+/**
+ * Shared secret Helius sends with webhook deliveries
+ * WEBHOOK_SECRET, with HELIUS_WEBHOOK_SECRET still accepted for older deployments
+ */
+export function getWebhookSecret(): string | undefined {
+  return process.env.WEBHOOK_SECRET || process.env.HELIUS_WEBHOOK_SECRET || undefined;
+}
+
+/**
+ * Whether the request carries `Authorization: Bearer <WEBHOOK_SECRET>`
+ * Always false when no secret is configured
+ */
+export function isWebhookRequest(request: NextRequest): boolean {
+  const secret = getWebhookSecret();
+  if (!secret) {
+    return false;
+  }
+
+  return safeCompare(request.headers.get('authorization') || '', `Bearer ${secret}`);
+}
@@ -4,10 +4,42 @@
  */
 
 import { Pool, PoolClient } from 'pg';
+import type { QueryResult, QueryResultRow } from 'pg';
+import { getEpoch, toLeaderboardPeriodId } from './epoch-calendar';
+import type { Epoch } from './epoch-calendar';
 
 // Global connection pool
 let pool: Pool | null = null;
 
+export interface LeaderboardPeriodRow {
+  id: string;
+  period_id: string;
+  start_time: Date;
+  end_time: Date;
+  is_active: boolean;
+  sol_price_usd: string | null;
+  created_at: Date;
+}
+
+export interface LeaderboardEntryRow {
+  kol_id: string;
+  wallet_address: string;
+  name: string;
+  twitter_handle: string | null;
+  image_url: string | null;
+  telegram_handle: boolean | null;
+  is_active: boolean;
+  /** Currently linked wallets, oldest first */
+  wallets: string[];
+  total_pnl_sol: string;
+  total_pnl_usd: string;
+  total_trades: string;
+  winning_trades: string;
+  losing_trades: string;
+  active_trades: string;
+  last_trade_at: Date | null;
+}
+
 /**
  * Initialize database connection pool
  */
@@ -79,6 +111,18 @@ export async function transaction<T>(
   }
 }
 
+/**
+ * Execute a query on a transaction's client, or on the pool when there is none
+ * Repository functions take an optional client so they compose into transactions
+ */
+export async function execute<T extends QueryResultRow = QueryResultRow>(
+  client: PoolClient | undefined,
+  text: string,
+  params?: unknown[]
+): Promise<QueryResult<T>> {
+  return client ? client.query<T>(text, params) : getPool().query<T>(text, params);
+}
+
 /**
  * Close the database connection pool
  */
@@ -90,126 +134,94 @@ export async function closePool(): Promise<void> {
 }
 
 /**
- * Database utility functions
+ * Persist a calendar epoch to leaderboard_periods if it isn't there yet,
+ * snapshotting the active KOLs as its roster when it is created
+ * Returns the leaderboard period ID
  */
+export async function ensureLeaderboardPeriod(
+  epoch: Pick<Epoch, 'startTime' | 'endTime'>,
+  client?: PoolClient
+): Promise<string> {
+  const periodId = toLeaderboardPeriodId(epoch);
+  const now = Date.now();
+  const text = `
+    WITH period AS (
+      INSERT INTO leaderboard_periods (period_id, start_time, end_time, is_active)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (period_id) DO NOTHING
+      RETURNING period_id
+    )
+    INSERT INTO leaderboard_period_kols (period_id, kol_id)
+    SELECT period.period_id, kols.id
+    FROM period CROSS JOIN kols
+    WHERE kols.is_active = true
+  `;
+  const params = [
+    periodId,
+    new Date(epoch.startTime),
+    new Date(epoch.endTime),
+    now >= epoch.startTime && now < epoch.endTime,
+  ];
 
-/**
- * Get KOL by wallet address
- */
-export async function getKOLByWallet(walletAddress: string) {
-  const results = await query(
-    'SELECT * FROM kols WHERE wallet_address = $1 AND is_active = true',
-    [walletAddress]
-  );
-  return results[0] || null;
+  await execute(client, text, params);
+  return periodId;
 }
 
 /**
- * Get all active KOLs
+ * Get a leaderboard period by ID
  */
-export async function getAllActiveKOLs() {
-  return await query(
-    'SELECT * FROM kols WHERE is_active = true ORDER BY name'
+export async function getLeaderboardPeriod(periodId: string, client?: PoolClient): Promise<LeaderboardPeriodRow | null> {
+  const result = await execute<LeaderboardPeriodRow>(
+    client,
+    'SELECT * FROM leaderboard_periods WHERE period_id = $1',
+    [periodId]
   );
+  return result.rows[0] || null;
 }
 
 /**
- * Get or create token record
+ * Set a period's SOL price unless it already has one
  */
-export async function getOrCreateToken(mintAddress: string, tokenData?: {
-  name?: string;
-  symbol?: string;
-  decimals?: number;
-  imageUrl?: string;
-  description?: string;
-  tokenProgram?: string;
-  supply?: number;
-  priceUsd?: number;
-}) {
-  return await transaction(async (client) => {
-    // Try to get existing token
-    const result = await client.query(
-      'SELECT * FROM tokens WHERE mint_address = $1',
-      [mintAddress]
-    );
-    
-    if (result.rows.length > 0) {
-      // Update token data if provided
-      if (tokenData) {
-        await client.query(`
-          UPDATE tokens SET
-            name = COALESCE($2, name),
-            symbol = COALESCE($3, symbol),
-            decimals = COALESCE($4, decimals),
-            image_url = COALESCE($5, image_url),
-            description = COALESCE($6, description),
-            token_program = COALESCE($7, token_program),
-            supply = COALESCE($8, supply),
-            price_usd = COALESCE($9, price_usd),
-            last_price_update = CASE WHEN $9 IS NOT NULL THEN CURRENT_TIMESTAMP ELSE last_price_update END,
-            updated_at = CURRENT_TIMESTAMP
-          WHERE mint_address = $1
-        `, [
-          mintAddress,
-          tokenData.name,
-          tokenData.symbol,
-          tokenData.decimals,
-          tokenData.imageUrl,
-          tokenData.description,
-          tokenData.tokenProgram,
-          tokenData.supply,
-          tokenData.priceUsd
-        ]);
-      }
-      return result.rows[0];
-    }
-    
-    // Create new token
-    const insertResult = await client.query(`
-      INSERT INTO tokens (
-        mint_address, name, symbol, decimals, image_url, description, 
-        token_program, supply, price_usd, last_price_update
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-      RETURNING *
-    `, [
-      mintAddress,
-      tokenData?.name || 'Unknown Token',
-      tokenData?.symbol || 'UNKNOWN',
-      tokenData?.decimals || 9,
-      tokenData?.imageUrl,
-      tokenData?.description,
-      tokenData?.tokenProgram,
-      tokenData?.supply,
-      tokenData?.priceUsd,
-      tokenData?.priceUsd ? new Date() : null
-    ]);
-    
-    return insertResult.rows[0];
-  });
+export async function setLeaderboardPeriodSolPrice(
+  periodId: string,
+  solPriceUsd: number,
+  client?: PoolClient
+): Promise<void> {
+  await execute(
+    client,
+    'UPDATE leaderboard_periods SET sol_price_usd = $2 WHERE period_id = $1 AND sol_price_usd IS NULL',
+    [periodId, solPriceUsd]
+  );
 }
 
 /**
- * Get current active leaderboard period
+ * Get current active leaderboard period from the epoch calendar
  */
-export async function getCurrentLeaderboardPeriod() {
-  const results = await query(
-    'SELECT * FROM leaderboard_periods WHERE is_active = true ORDER BY start_time DESC LIMIT 1'
+export async function getCurrentLeaderboardPeriod(): Promise<LeaderboardPeriodRow | null> {
+  const periodId = await ensureLeaderboardPeriod(getEpoch());
+
+  // Only the calendar's current period is active
+  await query(
+    'UPDATE leaderboard_periods SET is_active = (period_id = $1) WHERE is_active = true OR period_id = $1',
+    [periodId]
   );
-  return results[0] || null;
+
+  return await getLeaderboardPeriod(periodId);
 }
 
 /**
- * Get leaderboard data for a specific period
+ * Get leaderboard data for a specific period, ranking the KOLs on its roster
+ * by the PnL their sells realized inside the period; a trade counts toward
+ * the period if it had a buy or sell in it
  */
-export async function getLeaderboardData(periodId?: string) {
-  let period;
+export async function getLeaderboardData(periodId?: string): Promise<{
+  period: LeaderboardPeriodRow;
+  entries: LeaderboardEntryRow[];
+}> {
+  let period: LeaderboardPeriodRow | null;
   
   if (periodId) {
-    const results = await query(
-      'SELECT * FROM leaderboard_periods WHERE period_id = $1',
-      [periodId]
-    );
-    period = results[0];
+    period = await getLeaderboardPeriod(periodId);
   } else {
     period = await getCurrentLeaderboardPeriod();
   }
@@ -219,7 +231,7 @@ export async function getLeaderboardData(periodId?: string) {
   }
   
   // Get leaderboard entries
-  const entries = await query(`
+  const entries = await query<LeaderboardEntryRow>(`
     SELECT 
       k.id as kol_id,
       k.wallet_address,
@@ -227,21 +239,43 @@ export async function getLeaderboardData(periodId?: string) {
       k.twitter_handle,
       k.image_url,
       k.telegram_handle,
-      COALESCE(SUM(t.pnl_sol), 0) as total_pnl_sol,
-      COALESCE(SUM(t.pnl_usd), 0) as total_pnl_usd,
-      COUNT(t.id) as total_trades,
-      COUNT(CASE WHEN t.pnl_sol > 0 THEN 1 END) as winning_trades,
-      COUNT(CASE WHEN t.pnl_sol < 0 THEN 1 END) as losing_trades,
-      COUNT(CASE WHEN t.is_open THEN 1 END) as active_trades,
-      MAX(t.last_activity_at) as last_trade_at
-    FROM kols k
-    LEFT JOIN trades t ON k.id = t.kol_id 
-      AND t.started_at >= $1 
-      AND t.started_at < $2
-    WHERE k.is_active = true
-    GROUP BY k.id, k.wallet_address, k.name, k.twitter_handle, k.image_url, k.telegram_handle
-    ORDER BY total_pnl_sol DESC
-  `, [(period as { start_time: string }).start_time, (period as { end_time: string }).end_time]);
+      k.is_active,
+      ARRAY(
+        SELECT w.wallet_address FROM kol_wallets w
+        WHERE w.kol_id = k.id AND w.removed_at IS NULL
+        ORDER BY w.added_at
+      ) as wallets,
+      COALESCE(SUM(pt.pnl_sol), 0) as total_pnl_sol,
+      COALESCE(SUM(pt.pnl_usd), 0) as total_pnl_usd,
+      COUNT(pt.trade_id) as total_trades,
+      COUNT(CASE WHEN pt.pnl_sol > 0 THEN 1 END) as winning_trades,
+      COUNT(CASE WHEN pt.pnl_sol < 0 THEN 1 END) as losing_trades,
+      COUNT(CASE WHEN pt.is_open THEN 1 END) as active_trades,
+      MAX(pt.last_activity_at) as last_trade_at
+    FROM leaderboard_period_kols r
+    JOIN kols k ON k.id = r.kol_id
+    LEFT JOIN (
+      SELECT
+        t.kol_id,
+        t.id as trade_id,
+        t.is_open,
+        COALESCE(SUM(tt.realized_pnl_sol), 0) as pnl_sol,
+        COALESCE(SUM(tt.realized_pnl_sol * COALESCE(tt.sol_price_usd, 0)), 0) as pnl_usd,
+        MAX(tt.block_time) as last_activity_at
+      FROM trades t
+      JOIN trade_transactions tt ON tt.trade_id = t.id
+      WHERE tt.block_time >= $1
+        AND tt.block_time < $2
+      GROUP BY t.kol_id, t.id, t.is_open
+    ) pt ON pt.kol_id = k.id
+    WHERE r.period_id = $3
+    GROUP BY k.id, k.wallet_address, k.name, k.twitter_handle, k.image_url, k.telegram_handle, k.is_active
+    ORDER BY
+      total_pnl_sol DESC,
+      COUNT(CASE WHEN pt.pnl_sol > 0 THEN 1 END)::float / NULLIF(COUNT(pt.trade_id), 0) DESC NULLS LAST,
+      total_trades DESC,
+      k.wallet_address ASC
+  `, [period.start_time, period.end_time, period.period_id]);
   
   return {
     period,
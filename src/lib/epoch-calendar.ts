@@ -0,0 +1,128 @@
+/**
+ * Epoch calendar shared by the market, the leaderboard and the webhook processor
+ * Periods are fixed-length UTC windows (1h, 4h, 24h or weekly from Monday),
+ * configured by NEXT_PUBLIC_MARKET_PERIOD_LENGTH so client and server agree.
+ * Changing the length starts a new sequence of epochs; existing periods keep
+ * their stored boundaries.
+ */
+
+import type { LeaderboardPeriod } from './kol-types';
+import type { MarketPeriod } from './pills-market-types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type PeriodLength = '1h' | '4h' | '24h' | 'weekly';
+
+export const PERIOD_LENGTHS_MS: Record<PeriodLength, number> = {
+  '1h': HOUR_MS,
+  '4h': 4 * HOUR_MS,
+  '24h': DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+// 1970-01-01 was a Thursday: weekly epochs are anchored to Monday 1970-01-05
+const PERIOD_ANCHORS_MS: Record<PeriodLength, number> = {
+  '1h': 0,
+  '4h': 0,
+  '24h': 0,
+  weekly: 4 * DAY_MS,
+};
+
+const DEFAULT_PERIOD_LENGTH: PeriodLength = '24h';
+
+export interface Epoch {
+  /** Sequential epoch number for the period length */
+  epochNumber: number;
+  /** Inclusive start timestamp */
+  startTime: number;
+  /** Exclusive end timestamp */
+  endTime: number;
+}
+
+/**
+ * Configured period length, 24h unless NEXT_PUBLIC_MARKET_PERIOD_LENGTH says otherwise
+ */
+export function getPeriodLength(): PeriodLength {
+  const configured = process.env.NEXT_PUBLIC_MARKET_PERIOD_LENGTH as PeriodLength | undefined;
+  return configured && configured in PERIOD_LENGTHS_MS ? configured : DEFAULT_PERIOD_LENGTH;
+}
+
+/**
+ * Epoch by sequence number
+ */
+export function getEpochByNumber(epochNumber: number, length: PeriodLength = getPeriodLength()): Epoch {
+  const startTime = PERIOD_ANCHORS_MS[length] + epochNumber * PERIOD_LENGTHS_MS[length];
+  return {
+    epochNumber,
+    startTime,
+    endTime: startTime + PERIOD_LENGTHS_MS[length],
+  };
+}
+
+/**
+ * Epoch containing a timestamp
+ */
+export function getEpoch(timestamp: number = Date.now(), length: PeriodLength = getPeriodLength()): Epoch {
+  const epochNumber = Math.floor((timestamp - PERIOD_ANCHORS_MS[length]) / PERIOD_LENGTHS_MS[length]);
+  return getEpochByNumber(epochNumber, length);
+}
+
+/**
+ * Epoch immediately after the given one
+ */
+export function getNextEpoch(epoch: Epoch, length: PeriodLength = getPeriodLength()): Epoch {
+  return getEpochByNumber(epoch.epochNumber + 1, length);
+}
+
+/**
+ * Market period ID for an epoch (period_<start>)
+ */
+export function toMarketPeriodId(epoch: Pick<Epoch, 'startTime'>): string {
+  return `period_${epoch.startTime}`;
+}
+
+/**
+ * Leaderboard period ID for an epoch (<start>-<end>)
+ */
+export function toLeaderboardPeriodId(epoch: Pick<Epoch, 'startTime' | 'endTime'>): string {
+  return `${epoch.startTime}-${epoch.endTime}`;
+}
+
+/**
+ * Start and end of a leaderboard period ID, or null if it isn't one
+ */
+export function parseLeaderboardPeriodId(periodId: string): Pick<Epoch, 'startTime' | 'endTime'> | null {
+  const match = /^(\d+)-(\d+)$/.exec(periodId);
+  if (!match) return null;
+  return { startTime: Number(match[1]), endTime: Number(match[2]) };
+}
+
+/**
+ * Leaderboard view of an epoch or market period
+ */
+export function toLeaderboardPeriod(
+  epoch: Pick<Epoch, 'startTime' | 'endTime'>,
+  now: number = Date.now()
+): LeaderboardPeriod {
+  return {
+    startTime: epoch.startTime,
+    endTime: epoch.endTime,
+    isActive: now >= epoch.startTime && now < epoch.endTime,
+    periodId: toLeaderboardPeriodId(epoch),
+  };
+}
+
+/**
+ * Market period ID covering the same window as a leaderboard period
+ */
+export function toMarketPeriodIdForLeaderboard(period: LeaderboardPeriod): string {
+  return toMarketPeriodId(period);
+}
+
+/**
+ * Leaderboard period covering the same window as a market period
+ */
+export function toLeaderboardPeriodForMarket(period: MarketPeriod, now: number = Date.now()): LeaderboardPeriod {
+  return toLeaderboardPeriod(period, now);
+}
@@ -0,0 +1,254 @@
+/**
+ * Helius webhook manager
+ * Keeps the enhanced webhook pointing at this app's /api/webhook/helius in
+ * step with the wallets linked to active KOLs: the desired wallets are diffed
+ * against the webhook's accountAddresses and the webhook is edited in place.
+ * Only webhooks whose URL is this app's webhook URL are managed; anything
+ * else on the Helius account is left alone. The management API can be passed
+ * in, so syncs can run against a stand-in in tests.
+ */
+
+import { getWebhookSecret } from './admin-auth';
+import { getActiveKOLWalletLinks } from './kol-db';
+
+const HELIUS_API_URL = 'https://api.helius.xyz/v0/webhooks';
+const REQUEST_TIMEOUT_MS = 15000;
+// Helius accepts up to 100k addresses per webhook
+const MAX_ADDRESSES_PER_WEBHOOK = 100_000;
+
+export interface HeliusWebhookConfig {
+  webhookURL: string;
+  transactionTypes: string[];
+  accountAddresses: string[];
+  webhookType: string;
+  authHeader?: string;
+}
+
+export interface HeliusWebhook extends HeliusWebhookConfig {
+  webhookID: string;
+}
+
+export interface HeliusWebhookApi {
+  listWebhooks(): Promise<HeliusWebhook[]>;
+  createWebhook(config: HeliusWebhookConfig): Promise<HeliusWebhook>;
+  /** Replace a webhook's configuration, addresses included */
+  updateWebhook(webhookID: string, config: HeliusWebhookConfig): Promise<HeliusWebhook>;
+  deleteWebhook(webhookID: string): Promise<void>;
+}
+
+export interface WebhookSyncPlan {
+  /** created: no managed webhook yet; deleted: no active KOLs left */
+  action: 'created' | 'updated' | 'unchanged' | 'deleted';
+  /** Managed webhook kept or edited, null when creating or deleting */
+  webhookId: string | null;
+  config: HeliusWebhookConfig;
+  added: string[];
+  removed: string[];
+  /** Extra managed webhooks folded into the kept one, e.g. from the old batch setup */
+  duplicateWebhookIds: string[];
+}
+
+export interface WebhookSyncResult extends WebhookSyncPlan {
+  dryRun: boolean;
+}
+
+/**
+ * The Helius webhook management REST API
+ */
+export function createHeliusWebhookApi(apiKey = process.env.HELIUS_API_KEY): HeliusWebhookApi {
+  const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    if (!apiKey) {
+      throw new Error('HELIUS_API_KEY is required to manage webhooks');
+    }
+
+    const response = await fetch(`${HELIUS_API_URL}${path}?api-key=${apiKey}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Helius webhook request failed with status ${response.status}: ${await response.text()}`);
+    }
+
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  };
+
+  return {
+    listWebhooks: () => request<HeliusWebhook[]>(''),
+    createWebhook: config => request<HeliusWebhook>('', { method: 'POST', body: JSON.stringify(config) }),
+    updateWebhook: (webhookID, config) =>
+      request<HeliusWebhook>(`/${webhookID}`, { method: 'PUT', body: JSON.stringify(config) }),
+    deleteWebhook: async webhookID => {
+      await request<unknown>(`/${webhookID}`, { method: 'DELETE' });
+    },
+  };
+}
+
+let api: HeliusWebhookApi | null = null;
+
+/**
+ * The Helius API, shared by every sync
+ */
+export function getHeliusWebhookApi(): HeliusWebhookApi {
+  api ??= createHeliusWebhookApi();
+  return api;
+}
+
+/**
+ * URL Helius should deliver to, null when NEXT_PUBLIC_APP_URL isn't set
+ */
+export function getWebhookUrl(): string | null {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  return appUrl ? `${appUrl.replace(/\/$/, '')}/api/webhook/helius` : null;
+}
+
+function sameConfig(webhook: HeliusWebhookConfig, config: HeliusWebhookConfig): boolean {
+  return webhook.webhookType === config.webhookType
+    && (webhook.authHeader || undefined) === config.authHeader
+    && webhook.transactionTypes.join(',') === config.transactionTypes.join(',');
+}
+
+/**
+ * Work out what a sync has to do, given every webhook on the account
+ */
+export function planWebhookSync(
+  webhooks: HeliusWebhook[],
+  webhookURL: string,
+  addresses: string[],
+  authHeader?: string
+): WebhookSyncPlan {
+  const desired = [...new Set(addresses)].sort();
+  if (desired.length > MAX_ADDRESSES_PER_WEBHOOK) {
+    throw new Error(`${desired.length} KOL wallets exceed the ${MAX_ADDRESSES_PER_WEBHOOK} addresses a webhook can hold`);
+  }
+
+  const config: HeliusWebhookConfig = {
+    webhookURL,
+    transactionTypes: ['ANY'], // Monitor all transactions to catch Pump.Fun buy/sell instructions
+    accountAddresses: desired,
+    webhookType: 'enhanced',
+    authHeader,
+  };
+
+  const [kept, ...duplicates] = webhooks.filter(webhook => webhook.webhookURL === webhookURL);
+  const registered = new Set(duplicates.reduce(
+    (all, webhook) => [...all, ...webhook.accountAddresses],
+    kept ? [...kept.accountAddresses] : []
+  ));
+  const added = desired.filter(address => !registered.has(address));
+  const removed = [...registered].filter(address => !desired.includes(address)).sort();
+  const duplicateWebhookIds = duplicates.map(webhook => webhook.webhookID);
+
+  if (desired.length === 0) {
+    return {
+      action: kept ? 'deleted' : 'unchanged',
+      webhookId: null,
+      config,
+      added,
+      removed,
+      duplicateWebhookIds: kept ? [kept.webhookID, ...duplicateWebhookIds] : [],
+    };
+  }
+  if (!kept) {
+    return { action: 'created', webhookId: null, config, added, removed, duplicateWebhookIds };
+  }
+
+  const upToDate = added.length === 0
+    && removed.length === 0
+    && duplicates.length === 0
+    && kept.accountAddresses.length === desired.length
+    && sameConfig(kept, config);
+  return {
+    action: upToDate ? 'unchanged' : 'updated',
+    webhookId: kept.webhookID,
+    config,
+    added,
+    removed,
+    duplicateWebhookIds,
+  };
+}
+
+/**
+ * Bring the managed webhook in line with the active KOLs in the database
+ * With `dryRun` the plan is returned without calling any write endpoint
+ */
+export async function syncHeliusWebhook(
+  options: { api?: HeliusWebhookApi; webhookURL?: string; dryRun?: boolean } = {}
+): Promise<WebhookSyncResult> {
+  const webhookURL = options.webhookURL || getWebhookUrl();
+  if (!webhookURL) {
+    throw new Error('NEXT_PUBLIC_APP_URL is required to manage webhooks');
+  }
+  const secret = getWebhookSecret();
+  if (!secret) {
+    throw new Error('WEBHOOK_SECRET is required to manage webhooks');
+  }
+
+  const webhookApi = options.api || getHeliusWebhookApi();
+  const links = await getActiveKOLWalletLinks();
+  const plan = planWebhookSync(
+    await webhookApi.listWebhooks(),
+    webhookURL,
+    links.map(link => link.wallet_address),
+    `Bearer ${secret}`
+  );
+  const dryRun = options.dryRun ?? false;
+  if (dryRun) {
+    return { ...plan, dryRun };
+  }
+
+  let webhookId = plan.webhookId;
+  if (plan.action === 'created') {
+    webhookId = (await webhookApi.createWebhook(plan.config)).webhookID;
+  } else if (plan.action === 'updated' && webhookId) {
+    await webhookApi.updateWebhook(webhookId, plan.config);
+  }
+  // Folded or emptied webhooks go only after the kept one covers their wallets
+  for (const duplicateId of plan.duplicateWebhookIds) {
+    await webhookApi.deleteWebhook(duplicateId);
+  }
+
+  if (plan.action !== 'unchanged') {
+    console.log(`🔗 Helius webhook ${plan.action}: +${plan.added.length} -${plan.removed.length} wallet(s)${plan.duplicateWebhookIds.length > 0 ? `, removed ${plan.duplicateWebhookIds.length} extra webhook(s)` : ''}`);
+  }
+  return { ...plan, webhookId, dryRun };
+}
+
+/**
+ * Whether automatic syncs can run here: the app URL, webhook secret and
+ * Helius API key are set and HELIUS_WEBHOOK_SYNC_DISABLED isn't true
+ */
+export function isWebhookSyncEnabled(): boolean {
+  return process.env.HELIUS_WEBHOOK_SYNC_DISABLED !== 'true'
+    && !!getWebhookUrl()
+    && !!getWebhookSecret()
+    && !!process.env.HELIUS_API_KEY;
+}
+
+let syncRunning: Promise<void> | null = null;
+let syncRequested = false;
+
+/**
+ * Sync in the background after a registry change
+ * Requests made while a sync runs are folded into one follow-up sync, so the
+ * last change always gets synced without piling up API calls
+ */
+export function requestWebhookSync(): void {
+  if (!isWebhookSyncEnabled()) return;
+
+  syncRequested = true;
+  if (syncRunning) return;
+
+  syncRunning = (async () => {
+    while (syncRequested) {
+      syncRequested = false;
+      try {
+        await syncHeliusWebhook();
+      } catch (error) {
+        console.error('❌ Helius webhook sync failed:', error);
+      }
+    }
+    syncRunning = null;
+  })();
+}
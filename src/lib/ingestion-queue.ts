@@ -0,0 +1,254 @@
+/**
+ * Ingestion queue for webhook transactions
+ * The webhook route only validates and enqueues deliveries into
+ * ingestion_jobs; this worker decodes and records them. Jobs for different
+ * KOLs run concurrently, while each KOL's jobs, from any of its wallets, run
+ * one at a time in slot order, so its trades are applied in chain order. A
+ * transaction with several KOLs is queued for each of them (ingestion_job_kols)
+ * and only runs once it is next in all of their queues.
+ */
+
+import type { Address } from 'gill';
+import { query } from './database';
+import { getMonitoredWallets } from './kol-registry';
+import { decodeKOLTrades } from './trade-decoder';
+import type { HeliusEnhancedTransaction } from './trade-decoder';
+import { processWebhookTransaction } from './webhook-db-processor';
+import { getWebhookLogStatus } from './webhook-log-db';
+
+const POLL_INTERVAL_MS = 1000;
+const DEFAULT_CONCURRENCY = 4;
+const MAX_JOB_ATTEMPTS = 3;
+const RETRY_BASE_SECONDS = 5;
+// Running jobs older than this were abandoned by a crashed worker
+const JOB_LEASE_SECONDS = 10 * 60;
+// Finished jobs are kept this long for metrics and debugging
+const JOB_RETENTION_HOURS = 24 * 7;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface IngestionJobInput {
+  transaction: HeliusEnhancedTransaction;
+  /** Monitored KOLs in the transaction; the job is ordered in each one's queue */
+  kolAddresses: Address[];
+}
+
+export interface IngestionQueueMetrics {
+  queued: number;
+  running: number;
+  failed: number;
+  /** Jobs finished in the last hour */
+  processedLastHour: number;
+  /** KOLs with queued jobs */
+  wallets: number;
+  /** Age of the oldest queued job in ms, 0 when the queue is empty */
+  lagMs: number;
+}
+
+interface IngestionJobRow {
+  id: string;
+  signature: string;
+  kol_addresses: Address[];
+  attempts: number;
+  payload: HeliusEnhancedTransaction;
+}
+
+interface IngestionMetricsRow {
+  queued: string;
+  running: string;
+  failed: string;
+  processed_last_hour: string;
+  wallets: string;
+  oldest_queued_at: Date | null;
+}
+
+function getConcurrency(): number {
+  const concurrency = parseInt(process.env.INGESTION_CONCURRENCY || '', 10);
+  return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Durably queue webhook transactions; returns the signatures newly queued
+ * (signatures already in the queue are left alone)
+ */
+export async function enqueueWebhookTransactions(jobs: IngestionJobInput[]): Promise<Set<string>> {
+  if (jobs.length === 0) return new Set();
+
+  const rows = await query<{ signature: string }>(`
+    WITH queued AS (
+      INSERT INTO ingestion_jobs (signature, kol_addresses, slot, payload)
+      SELECT signature, kol_addresses, slot, payload
+      FROM jsonb_to_recordset($1::jsonb) AS job(signature text, kol_addresses jsonb, slot bigint, payload jsonb)
+      ON CONFLICT (signature) DO NOTHING
+      RETURNING id, signature, kol_addresses, slot
+    ), job_kols AS (
+      INSERT INTO ingestion_job_kols (job_id, kol_address, slot)
+      SELECT queued.id, kol.address, queued.slot
+      FROM queued
+      CROSS JOIN jsonb_array_elements_text(queued.kol_addresses) AS kol(address)
+      ON CONFLICT DO NOTHING
+    )
+    SELECT signature FROM queued
+  `, [JSON.stringify(jobs.map(({ transaction, kolAddresses }) => ({
+    signature: transaction.signature,
+    kol_addresses: kolAddresses,
+    slot: transaction.slot,
+    payload: transaction,
+  })))]);
+
+  return new Set(rows.map(row => row.signature));
+}
+
+/**
+ * Claim up to `limit` jobs that are next in every one of their KOLs' queues
+ * A KOL's next job is its lowest-slot unfinished one, so a running or
+ * backing-off job holds back everything after it, and no two claimed jobs
+ * share a KOL
+ */
+async function claimJobs(limit: number): Promise<IngestionJobRow[]> {
+  await query(`
+    UPDATE ingestion_jobs SET status = 'queued'
+    WHERE status = 'running' AND started_at < CURRENT_TIMESTAMP - make_interval(secs => $1)
+  `, [JOB_LEASE_SECONDS]);
+
+  return await query<IngestionJobRow>(`
+    UPDATE ingestion_jobs SET
+      status = 'running',
+      attempts = attempts + 1,
+      started_at = CURRENT_TIMESTAMP
+    WHERE id IN (
+      WITH next_jobs AS (
+        SELECT DISTINCT ON (c.kol_address) c.kol_address, c.job_id
+        FROM ingestion_job_kols c
+        JOIN ingestion_jobs j ON j.id = c.job_id
+        WHERE j.status IN ('queued', 'running')
+        ORDER BY c.kol_address, c.slot, c.job_id
+      )
+      SELECT j.id
+      FROM ingestion_jobs j
+      WHERE j.status = 'queued'
+        AND j.available_at <= CURRENT_TIMESTAMP
+        AND NOT EXISTS (
+          SELECT 1
+          FROM ingestion_job_kols c
+          JOIN next_jobs n ON n.kol_address = c.kol_address
+          WHERE c.job_id = j.id AND n.job_id <> j.id
+        )
+      ORDER BY j.slot, j.id
+      LIMIT $1
+    )
+    AND status = 'queued'
+    RETURNING id, signature, kol_addresses, attempts, payload
+  `, [limit]);
+}
+
+/**
+ * Decode and record one job's transaction
+ * Failures the processor records in webhook_logs are left to the dead-letter
+ * worker; anything else is retried here a few times before the job fails.
+ */
+async function runJob(job: IngestionJobRow): Promise<void> {
+  try {
+    const transaction = job.payload;
+    const legs = await decodeKOLTrades(transaction, await getMonitoredWallets());
+
+    if (legs.length === 0) {
+      console.log(`⏭️  Skipping transaction ${job.signature} - no KOL swaps decoded (type: ${transaction.type})`);
+    } else {
+      console.log(`🎯 Processing ${legs.length} swap leg(s) for KOL(s): ${job.kol_addresses.join(', ')}`);
+      await processWebhookTransaction(job.signature, transaction.timestamp, transaction.slot, legs, transaction);
+    }
+
+    await query(`
+      UPDATE ingestion_jobs SET status = 'done', last_error = null, completed_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `, [job.id]);
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const logStatus = await getWebhookLogStatus(job.signature).catch(() => null);
+    const giveUp = logStatus === 'failed' || logStatus === 'dead' || job.attempts >= MAX_JOB_ATTEMPTS;
+
+    console.error(`❌ Ingestion job for ${job.signature} failed (attempt ${job.attempts}):`, error);
+    await query(`
+      UPDATE ingestion_jobs SET
+        status = $2,
+        last_error = $3,
+        available_at = CURRENT_TIMESTAMP + make_interval(secs => $4),
+        completed_at = CASE WHEN $2 = 'failed' THEN CURRENT_TIMESTAMP ELSE NULL END
+      WHERE id = $1
+    `, [job.id, giveUp ? 'failed' : 'queued', message, RETRY_BASE_SECONDS * 2 ** (job.attempts - 1)]);
+  }
+}
+
+/**
+ * Run one round of jobs; returns how many were claimed
+ */
+export async function processIngestionJobs(limit: number = getConcurrency()): Promise<number> {
+  const jobs = await claimJobs(limit);
+  await Promise.all(jobs.map(runJob));
+  return jobs.length;
+}
+
+/**
+ * Queue depth and lag
+ */
+export async function getIngestionQueueMetrics(): Promise<IngestionQueueMetrics> {
+  const rows = await query<IngestionMetricsRow>(`
+    SELECT
+      COUNT(*) FILTER (WHERE status = 'queued') AS queued,
+      COUNT(*) FILTER (WHERE status = 'running') AS running,
+      COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+      COUNT(*) FILTER (WHERE status = 'done' AND completed_at > CURRENT_TIMESTAMP - INTERVAL '1 hour') AS processed_last_hour,
+      (
+        SELECT COUNT(DISTINCT c.kol_address)
+        FROM ingestion_job_kols c
+        JOIN ingestion_jobs j ON j.id = c.job_id
+        WHERE j.status = 'queued'
+      ) AS wallets,
+      MIN(created_at) FILTER (WHERE status = 'queued') AS oldest_queued_at
+    FROM ingestion_jobs
+  `);
+
+  const row = rows[0];
+  return {
+    queued: parseInt(row.queued, 10),
+    running: parseInt(row.running, 10),
+    failed: parseInt(row.failed, 10),
+    processedLastHour: parseInt(row.processed_last_hour, 10),
+    wallets: parseInt(row.wallets, 10),
+    lagMs: row.oldest_queued_at ? Math.max(Date.now() - new Date(row.oldest_queued_at).getTime(), 0) : 0,
+  };
+}
+
+let workerTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Process the queue continuously, polling when it is empty
+ */
+export function startIngestionWorker(): void {
+  if (workerTimer) return;
+
+  let lastPruneAt = 0;
+  const run = async () => {
+    let claimed = 0;
+    try {
+      claimed = await processIngestionJobs();
+
+      if (Date.now() - lastPruneAt > PRUNE_INTERVAL_MS) {
+        lastPruneAt = Date.now();
+        await query(`
+          DELETE FROM ingestion_jobs
+          WHERE status = 'done' AND completed_at < CURRENT_TIMESTAMP - make_interval(hours => $1)
+        `, [JOB_RETENTION_HOURS]);
+      }
+    } catch (error) {
+      console.error('❌ Ingestion worker run failed:', error);
+    }
+
+    // Keep draining while there is work, otherwise wait for the next poll
+    workerTimer = setTimeout(run, claimed > 0 ? 0 : POLL_INTERVAL_MS);
+  };
+
+  console.log(`⏰ Starting ingestion worker (concurrency ${getConcurrency()})`);
+  workerTimer = setTimeout(run, 0);
+}
@@ -0,0 +1,269 @@
+/**
+ * KOL rows in the database
+ * Trades reference KOLs by id. A KOL's wallet_address is its identity; the
+ * wallets it trades from, that one usually included, are linked in
+ * kol_wallets, and swaps go to the KOL that had the wallet linked at block time.
+ */
+
+import type { PoolClient } from 'pg';
+import { execute } from './database';
+
+export interface KOLRow {
+  id: string;
+  wallet_address: string;
+  name: string;
+  twitter_handle: string | null;
+  image_url: string | null;
+  telegram_handle: boolean | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface KOLWalletRow {
+  id: string;
+  kol_id: string;
+  wallet_address: string;
+  added_at: Date;
+  removed_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * A linked wallet of an active KOL, keyed to the KOL's address
+ */
+export interface KOLWalletLinkRow {
+  wallet_address: string;
+  kol_wallet_address: string;
+}
+
+/**
+ * A wallet a roster KOL had linked during a period
+ */
+export interface RosterWalletRow extends KOLWalletLinkRow {
+  added_at: Date;
+  removed_at: Date | null;
+}
+
+export interface KOLProfileChanges {
+  name?: string;
+  twitterHandle?: string | null;
+  imageUrl?: string | null;
+  telegramHandle?: boolean;
+  isActive?: boolean;
+}
+
+export interface KOLInput {
+  walletAddress: string;
+  name: string;
+  twitterHandle?: string;
+  imageUrl?: string;
+  telegramHandle?: boolean;
+  isActive?: boolean;
+}
+
+/**
+ * Get KOL by wallet address, active or not
+ */
+export async function getKOLByWallet(walletAddress: string, client?: PoolClient): Promise<KOLRow | null> {
+  const result = await execute<KOLRow>(client, 'SELECT * FROM kols WHERE wallet_address = $1', [walletAddress]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Get all active KOLs
+ */
+export async function getAllActiveKOLs(client?: PoolClient): Promise<KOLRow[]> {
+  const result = await execute<KOLRow>(client, 'SELECT * FROM kols WHERE is_active = true ORDER BY name');
+  return result.rows;
+}
+
+/**
+ * Get all KOLs, active or not
+ */
+export async function getAllKOLs(client?: PoolClient): Promise<KOLRow[]> {
+  const result = await execute<KOLRow>(client, 'SELECT * FROM kols ORDER BY name');
+  return result.rows;
+}
+
+/**
+ * Insert a KOL and link its wallet from `addedAt` (now by default); null if
+ * a KOL with the same wallet already exists
+ */
+export async function insertKOL(kol: KOLInput, addedAt?: Date, client?: PoolClient): Promise<KOLRow | null> {
+  const result = await execute<KOLRow>(client, `
+    WITH kol AS (
+      INSERT INTO kols (wallet_address, name, twitter_handle, image_url, telegram_handle, is_active)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (wallet_address) DO NOTHING
+      RETURNING *
+    ), wallet AS (
+      INSERT INTO kol_wallets (kol_id, wallet_address, added_at)
+      SELECT id, wallet_address, COALESCE($7, CURRENT_TIMESTAMP) FROM kol
+    )
+    SELECT * FROM kol
+  `, [
+    kol.walletAddress,
+    kol.name,
+    kol.twitterHandle ?? null,
+    kol.imageUrl ?? null,
+    kol.telegramHandle ?? false,
+    kol.isActive ?? true,
+    addedAt ?? null,
+  ]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Change the given profile fields of a KOL; null if the wallet isn't a KOL
+ */
+export async function updateKOLProfile(
+  walletAddress: string,
+  changes: KOLProfileChanges,
+  client?: PoolClient
+): Promise<KOLRow | null> {
+  const result = await execute<KOLRow>(client, `
+    UPDATE kols SET
+      name = CASE WHEN $2 THEN $3 ELSE name END,
+      twitter_handle = CASE WHEN $4 THEN $5 ELSE twitter_handle END,
+      image_url = CASE WHEN $6 THEN $7 ELSE image_url END,
+      telegram_handle = CASE WHEN $8 THEN $9 ELSE telegram_handle END,
+      is_active = CASE WHEN $10 THEN $11 ELSE is_active END,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE wallet_address = $1
+    RETURNING *
+  `, [
+    walletAddress,
+    changes.name !== undefined, changes.name ?? null,
+    changes.twitterHandle !== undefined, changes.twitterHandle ?? null,
+    changes.imageUrl !== undefined, changes.imageUrl ?? null,
+    changes.telegramHandle !== undefined, changes.telegramHandle ?? null,
+    changes.isActive !== undefined, changes.isActive ?? null,
+  ]);
+  return result.rows[0] || null;
+}
+
+/**
+ * A KOL's wallet links, current and past, oldest first
+ */
+export async function getKOLWallets(kolId: string, client?: PoolClient): Promise<KOLWalletRow[]> {
+  const result = await execute<KOLWalletRow>(
+    client,
+    'SELECT * FROM kol_wallets WHERE kol_id = $1 ORDER BY added_at, wallet_address',
+    [kolId]
+  );
+  return result.rows;
+}
+
+/**
+ * Wallets currently linked to active KOLs
+ */
+export async function getActiveKOLWalletLinks(client?: PoolClient): Promise<KOLWalletLinkRow[]> {
+  const result = await execute<KOLWalletLinkRow>(client, `
+    SELECT w.wallet_address, k.wallet_address AS kol_wallet_address
+    FROM kol_wallets w
+    JOIN kols k ON k.id = w.kol_id
+    WHERE w.removed_at IS NULL
+      AND k.is_active = true
+    ORDER BY k.wallet_address, w.added_at
+  `);
+  return result.rows;
+}
+
+/**
+ * KOL that had the wallet linked at a time (ms), null if none did
+ */
+export async function findKOLForWallet(walletAddress: string, time: number, client?: PoolClient): Promise<KOLRow | null> {
+  const result = await execute<KOLRow>(client, `
+    SELECT k.*
+    FROM kol_wallets w
+    JOIN kols k ON k.id = w.kol_id
+    WHERE w.wallet_address = $1
+      AND w.added_at <= $2
+      AND (w.removed_at IS NULL OR w.removed_at > $2)
+    ORDER BY w.added_at DESC
+    LIMIT 1
+  `, [walletAddress, new Date(time)]);
+  return result.rows[0] || null;
+}
+
+/**
+ * A link of the wallet that is current or ends after `since`, if any
+ */
+export async function findWalletLinkSince(walletAddress: string, since: Date, client?: PoolClient): Promise<KOLWalletRow | null> {
+  const result = await execute<KOLWalletRow>(client, `
+    SELECT * FROM kol_wallets
+    WHERE wallet_address = $1
+      AND (removed_at IS NULL OR removed_at > $2)
+    ORDER BY added_at DESC
+    LIMIT 1
+  `, [walletAddress, since]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Link a wallet to a KOL from `addedAt`; null if the wallet is linked to a
+ * KOL at or after that time
+ */
+export async function linkKOLWallet(
+  kolId: string,
+  walletAddress: string,
+  addedAt: Date,
+  client?: PoolClient
+): Promise<KOLWalletRow | null> {
+  const result = await execute<KOLWalletRow>(client, `
+    INSERT INTO kol_wallets (kol_id, wallet_address, added_at)
+    SELECT $1, $2, $3
+    WHERE NOT EXISTS (
+      SELECT 1 FROM kol_wallets
+      WHERE wallet_address = $2
+        AND (removed_at IS NULL OR removed_at > $3)
+    )
+    ON CONFLICT DO NOTHING
+    RETURNING *
+  `, [kolId, walletAddress, addedAt]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Unlink a KOL's wallet as of `removedAt`; null if it isn't linked or was
+ * only linked after that time
+ */
+export async function unlinkKOLWallet(
+  kolId: string,
+  walletAddress: string,
+  removedAt: Date,
+  client?: PoolClient
+): Promise<KOLWalletRow | null> {
+  const result = await execute<KOLWalletRow>(client, `
+    UPDATE kol_wallets SET removed_at = $3
+    WHERE kol_id = $1
+      AND wallet_address = $2
+      AND removed_at IS NULL
+      AND added_at < $3
+    RETURNING *
+  `, [kolId, walletAddress, removedAt]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Wallets the KOLs on a period's roster had linked at any point in [startTime, endTime)
+ */
+export async function getPeriodRosterWallets(
+  periodId: string,
+  startTime: number,
+  endTime: number,
+  client?: PoolClient
+): Promise<RosterWalletRow[]> {
+  const result = await execute<RosterWalletRow>(client, `
+    SELECT w.wallet_address, k.wallet_address AS kol_wallet_address, w.added_at, w.removed_at
+    FROM leaderboard_period_kols r
+    JOIN kols k ON k.id = r.kol_id
+    JOIN kol_wallets w ON w.kol_id = k.id
+    WHERE r.period_id = $1
+      AND w.added_at < $3
+      AND (w.removed_at IS NULL OR w.removed_at > $2)
+    ORDER BY k.wallet_address, w.added_at
+  `, [periodId, new Date(startTime), new Date(endTime)]);
+  return result.rows;
+}
@@ -0,0 +1,187 @@
+/**
+ * KOL profile data from the recorded trades
+ * Stats span every trade the KOL has made from any of its wallets; the period
+ * history follows the leaderboard, counting each trade in the period it started
+ */
+
+import { query } from './database';
+import { loadTrades, TRADE_WITH_TOKEN_COLUMNS } from './leaderboard-db';
+import type { TradeWithTokenRow } from './leaderboard-db';
+import { getMarketSummary } from './market-db';
+import { getKOL } from './kol-registry';
+import { calculateWinRate } from './kol-utils';
+import type { KOLPeriodPnl, KOLProfile, KOLTradingStats, Trade } from './kol-types';
+import type { PaginatedResponse } from './pills-market-types';
+
+const PROFILE_PERIODS = 30;
+export const TRADES_PAGE_SIZE = 20;
+const MAX_TRADES_PAGE_SIZE = 100;
+
+interface KOLStatsRow {
+  total_trades: string;
+  total_pnl_sol: string;
+  total_pnl_usd: string;
+  winning_trades: string;
+  losing_trades: string;
+  average_hold_seconds: string | null;
+}
+
+interface KOLPeriodRow {
+  period_id: string;
+  start_time: Date;
+  end_time: Date;
+  pnl_sol: string;
+  pnl_usd: string;
+  total_trades: string;
+}
+
+async function queryKOLTrades(address: string, filter: string, order: string, params: unknown[] = []): Promise<TradeWithTokenRow[]> {
+  return await query<TradeWithTokenRow>(`
+    SELECT ${TRADE_WITH_TOKEN_COLUMNS}
+    FROM trades t
+    JOIN kols k ON k.id = t.kol_id
+    JOIN tokens tk ON tk.id = t.token_id
+    WHERE k.wallet_address = $1 ${filter}
+    ORDER BY ${order}
+  `, [address, ...params]);
+}
+
+/**
+ * Win rate, hold time and extremes over all of a KOL's trades
+ */
+export async function getKOLTradingStats(address: string): Promise<KOLTradingStats> {
+  const [[row], winRows, lossRows] = await Promise.all([
+    query<KOLStatsRow>(`
+      SELECT
+        COUNT(t.id) AS total_trades,
+        COALESCE(SUM(t.pnl_sol), 0) AS total_pnl_sol,
+        COALESCE(SUM(t.pnl_usd), 0) AS total_pnl_usd,
+        COUNT(CASE WHEN t.pnl_sol > 0 THEN 1 END) AS winning_trades,
+        COUNT(CASE WHEN t.pnl_sol < 0 THEN 1 END) AS losing_trades,
+        AVG(EXTRACT(EPOCH FROM (t.last_activity_at - t.started_at))) FILTER (WHERE NOT t.is_open) AS average_hold_seconds
+      FROM trades t
+      JOIN kols k ON k.id = t.kol_id
+      WHERE k.wallet_address = $1
+    `, [address]),
+    queryKOLTrades(address, 'AND t.pnl_sol > 0', 't.pnl_sol DESC LIMIT 1'),
+    queryKOLTrades(address, 'AND t.pnl_sol < 0', 't.pnl_sol ASC LIMIT 1'),
+  ]);
+  const [[biggestWin], [biggestLoss]] = await Promise.all([loadTrades(winRows), loadTrades(lossRows)]);
+
+  const winningTrades = parseInt(row.winning_trades, 10);
+  const losingTrades = parseInt(row.losing_trades, 10);
+  return {
+    totalTrades: parseInt(row.total_trades, 10),
+    totalPnlSol: parseFloat(row.total_pnl_sol),
+    totalPnlUsd: parseFloat(row.total_pnl_usd),
+    winningTrades,
+    losingTrades,
+    winRate: calculateWinRate(winningTrades, losingTrades),
+    averageHoldTimeMs: row.average_hold_seconds === null ? undefined : parseFloat(row.average_hold_seconds) * 1000,
+    biggestWin,
+    biggestLoss,
+  };
+}
+
+/**
+ * The KOL's P&L in each of the recent periods it was ranked in, oldest first:
+ * what its sells realized inside each period, over the trades active in it
+ */
+export async function getKOLPeriodHistory(address: string, limit: number = PROFILE_PERIODS): Promise<KOLPeriodPnl[]> {
+  const rows = await query<KOLPeriodRow>(`
+    SELECT
+      p.period_id,
+      p.start_time,
+      p.end_time,
+      COALESCE(SUM(tt.realized_pnl_sol), 0) AS pnl_sol,
+      COALESCE(SUM(tt.realized_pnl_sol * COALESCE(tt.sol_price_usd, 0)), 0) AS pnl_usd,
+      COUNT(DISTINCT tt.trade_id) AS total_trades
+    FROM leaderboard_period_kols r
+    JOIN kols k ON k.id = r.kol_id
+    JOIN leaderboard_periods p ON p.period_id = r.period_id
+    LEFT JOIN trades t ON t.kol_id = r.kol_id
+    LEFT JOIN trade_transactions tt ON tt.trade_id = t.id
+      AND tt.block_time >= p.start_time
+      AND tt.block_time < p.end_time
+    WHERE k.wallet_address = $1
+    GROUP BY p.period_id, p.start_time, p.end_time
+    ORDER BY p.start_time DESC
+    LIMIT $2
+  `, [address, limit]);
+
+  let cumulativePnlSol = 0;
+  return rows.reverse().map(row => {
+    const pnlSol = parseFloat(row.pnl_sol);
+    cumulativePnlSol += pnlSol;
+    return {
+      periodId: row.period_id,
+      startTime: new Date(row.start_time).getTime(),
+      endTime: new Date(row.end_time).getTime(),
+      pnlSol,
+      pnlUsd: parseFloat(row.pnl_usd),
+      totalTrades: parseInt(row.total_trades, 10),
+      cumulativePnlSol,
+    };
+  });
+}
+
+/**
+ * Trades the KOL still holds tokens in, most recently active first
+ */
+export async function getKOLOpenPositions(address: string): Promise<Trade[]> {
+  return await loadTrades(await queryKOLTrades(address, 'AND t.is_open', 't.last_activity_at DESC'));
+}
+
+/**
+ * One page of the KOL's trades with their buys and sells, most recently active first
+ */
+export async function getKOLTrades(
+  address: string,
+  page: number = 1,
+  limit: number = TRADES_PAGE_SIZE
+): Promise<PaginatedResponse<Trade>> {
+  const pageNumber = Math.max(Math.floor(page) || 1, 1);
+  const pageSize = Math.min(Math.max(Math.floor(limit) || TRADES_PAGE_SIZE, 1), MAX_TRADES_PAGE_SIZE);
+
+  const [countRows, rows] = await Promise.all([
+    query<{ count: string }>(`
+      SELECT COUNT(*) AS count
+      FROM trades t
+      JOIN kols k ON k.id = t.kol_id
+      WHERE k.wallet_address = $1
+    `, [address]),
+    queryKOLTrades(address, '', 't.last_activity_at DESC, t.id LIMIT $2 OFFSET $3', [pageSize, (pageNumber - 1) * pageSize]),
+  ]);
+  const total = parseInt(countRows[0].count, 10);
+
+  return {
+    items: await loadTrades(rows),
+    total,
+    page: pageNumber,
+    limit: pageSize,
+    hasMore: pageNumber * pageSize < total,
+  };
+}
+
+/**
+ * Everything the KOL page shows besides the trade list, null if the KOL isn't tracked
+ */
+export async function getKOLProfile(address: string): Promise<KOLProfile | null> {
+  const kol = await getKOL(address);
+  if (!kol) return null;
+
+  const [stats, periods, openPositions, market] = await Promise.all([
+    getKOLTradingStats(kol.address),
+    getKOLPeriodHistory(kol.address),
+    getKOLOpenPositions(kol.address),
+    getMarketSummary(),
+  ]);
+
+  return {
+    kol,
+    stats,
+    periods,
+    openPositions,
+    market: market.kolShares.find(share => share.kolAddress === kol.address),
+  };
+}
@@ -0,0 +1,329 @@
+/**
+ * Registry of tracked KOLs, backed by the kols table
+ * Active KOLs are cached in memory for a minute since the webhook handler and
+ * workers look them up on every delivery; changes made through this module
+ * clear the cache straight away, other instances pick them up on expiry.
+ * A KOL can trade from several linked wallets; adding, activating or
+ * deactivating a KOL and linking or unlinking a wallet also syncs the Helius
+ * webhook.
+ */
+
+import { isAddress } from 'gill';
+import type { Address } from 'gill';
+import { requestWebhookSync } from './helius-webhooks';
+import {
+  findWalletLinkSince,
+  getActiveKOLWalletLinks,
+  getAllActiveKOLs,
+  getAllKOLs,
+  getKOLByWallet,
+  getKOLWallets,
+  insertKOL,
+  linkKOLWallet,
+  unlinkKOLWallet,
+  updateKOLProfile,
+} from './kol-db';
+import type { KOLProfileChanges, KOLRow, KOLWalletRow } from './kol-db';
+import type { KOL, KOLWallet } from './kol-types';
+import type { KOLWalletMap } from './trade-decoder';
+
+const CACHE_TTL_MS = 60 * 1000;
+const MAX_NAME_LENGTH = 100;
+const MAX_TWITTER_LENGTH = 50;
+const MAX_AVATAR_LENGTH = 255;
+
+export enum KOLError {
+  NOT_FOUND = 'kol_not_found',
+  ALREADY_EXISTS = 'kol_already_exists',
+  INVALID_ADDRESS = 'invalid_kol_address',
+  INVALID_PROFILE = 'invalid_kol_profile',
+  INVALID_TIMESTAMP = 'invalid_wallet_timestamp',
+  WALLET_IN_USE = 'wallet_in_use',
+  WALLET_NOT_LINKED = 'wallet_not_linked',
+  LAST_WALLET = 'last_kol_wallet',
+}
+
+export interface KOLProfileInput {
+  name?: string;
+  /** Handle without @, or an x.com profile URL */
+  twitter?: string | null;
+  /** Image URL, or a file name under public/ */
+  avatar?: string | null;
+  telegramHandle?: boolean;
+  isActive?: boolean;
+}
+
+let activeKOLsCache: { kols: KOL[]; wallets: KOLWalletMap; loadedAt: number } | null = null;
+
+export function isKOLError(error: unknown): error is Error & { message: KOLError } {
+  return error instanceof Error && Object.values(KOLError).includes(error.message as KOLError);
+}
+
+/**
+ * Public URL of a stored avatar; bare file names are served from public/
+ */
+export function toAvatarUrl(imageUrl: string | null): string | undefined {
+  if (!imageUrl) return undefined;
+  return /^(https?:)?\/\//.test(imageUrl) || imageUrl.startsWith('/') ? imageUrl : `/${imageUrl}`;
+}
+
+function toKOL(row: KOLRow, wallets: string[]): KOL {
+  return {
+    address: row.wallet_address as Address,
+    wallets: wallets as Address[],
+    name: row.name,
+    twitter: row.twitter_handle || '',
+    avatar: toAvatarUrl(row.image_url),
+    isActive: row.is_active,
+    telegramHandle: row.telegram_handle ?? undefined,
+  };
+}
+
+function toKOLWallet(row: KOLWalletRow): KOLWallet {
+  return {
+    address: row.wallet_address as Address,
+    addedAt: new Date(row.added_at).getTime(),
+    removedAt: row.removed_at ? new Date(row.removed_at).getTime() : undefined,
+  };
+}
+
+/**
+ * Link or unlink time in ms, now when not given; throws
+ * KOLError.INVALID_TIMESTAMP for anything but a past or present time
+ */
+function toLinkTime(time: unknown): Date {
+  if (time === undefined) return new Date();
+  if (typeof time !== 'number' || !Number.isFinite(time) || time < 0 || time > Date.now()) {
+    throw new Error(KOLError.INVALID_TIMESTAMP);
+  }
+  return new Date(time);
+}
+
+function normalizeTwitter(twitter: string): string {
+  return twitter.trim().replace(/^https?:\/\/(www\.)?(x|twitter)\.com\//, '').replace(/^@/, '').replace(/\/$/, '');
+}
+
+/**
+ * Check and normalize profile fields, throwing KOLError.INVALID_PROFILE
+ */
+function toProfileChanges(input: KOLProfileInput): KOLProfileChanges {
+  const changes: KOLProfileChanges = {};
+
+  if (input.name !== undefined) {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) throw new Error(KOLError.INVALID_PROFILE);
+    changes.name = name;
+  }
+  if (input.twitter !== undefined) {
+    if (input.twitter !== null && typeof input.twitter !== 'string') throw new Error(KOLError.INVALID_PROFILE);
+    const twitter = input.twitter ? normalizeTwitter(input.twitter) : '';
+    if (twitter.length > MAX_TWITTER_LENGTH) throw new Error(KOLError.INVALID_PROFILE);
+    changes.twitterHandle = twitter || null;
+  }
+  if (input.avatar !== undefined) {
+    if (input.avatar !== null && typeof input.avatar !== 'string') throw new Error(KOLError.INVALID_PROFILE);
+    const avatar = input.avatar?.trim() || '';
+    if (avatar.length > MAX_AVATAR_LENGTH) throw new Error(KOLError.INVALID_PROFILE);
+    changes.imageUrl = avatar || null;
+  }
+  if (input.telegramHandle !== undefined) {
+    if (typeof input.telegramHandle !== 'boolean') throw new Error(KOLError.INVALID_PROFILE);
+    changes.telegramHandle = input.telegramHandle;
+  }
+  if (input.isActive !== undefined) {
+    if (typeof input.isActive !== 'boolean') throw new Error(KOLError.INVALID_PROFILE);
+    changes.isActive = input.isActive;
+  }
+
+  return changes;
+}
+
+/**
+ * Drop the cached active KOLs so the next lookup reads the table
+ */
+export function invalidateKOLCache(): void {
+  activeKOLsCache = null;
+}
+
+async function loadActiveKOLs(): Promise<NonNullable<typeof activeKOLsCache>> {
+  if (activeKOLsCache && Date.now() - activeKOLsCache.loadedAt < CACHE_TTL_MS) {
+    return activeKOLsCache;
+  }
+
+  const [rows, links] = await Promise.all([getAllActiveKOLs(), getActiveKOLWalletLinks()]);
+  const wallets = new Map(links.map(link => [link.wallet_address as Address, link.kol_wallet_address as Address]));
+  const kols = rows.map(row => toKOL(
+    row,
+    links.filter(link => link.kol_wallet_address === row.wallet_address).map(link => link.wallet_address)
+  ));
+
+  activeKOLsCache = { kols, wallets, loadedAt: Date.now() };
+  return activeKOLsCache;
+}
+
+/**
+ * Active KOLs with their linked wallets, cached
+ */
+export async function getActiveKOLs(): Promise<KOL[]> {
+  return (await loadActiveKOLs()).kols;
+}
+
+/**
+ * Wallets of the active KOLs, each mapped to its KOL's address, cached
+ * These are the wallets the webhook monitors
+ */
+export async function getMonitoredWallets(): Promise<KOLWalletMap> {
+  return (await loadActiveKOLs()).wallets;
+}
+
+/**
+ * Addresses of the active KOLs
+ */
+export async function getActiveKOLAddresses(): Promise<Address[]> {
+  return (await getActiveKOLs()).map(kol => kol.address);
+}
+
+/**
+ * Every KOL, including deactivated ones
+ */
+export async function listKOLs(): Promise<KOL[]> {
+  const rows = await getAllKOLs();
+  return Promise.all(rows.map(async row => toKOL(row, await getLinkedWallets(row.id))));
+}
+
+async function getLinkedWallets(kolId: string): Promise<string[]> {
+  return (await getKOLWallets(kolId)).filter(wallet => !wallet.removed_at).map(wallet => wallet.wallet_address);
+}
+
+/**
+ * A KOL by address, active or not; null if the address was never tracked
+ */
+export async function getKOL(address: string): Promise<KOL | null> {
+  const row = await getKOLByWallet(address);
+  return row ? toKOL(row, await getLinkedWallets(row.id)) : null;
+}
+
+/**
+ * Every wallet a KOL has had linked, current and past, oldest first
+ */
+export async function getKOLWalletHistory(address: string): Promise<KOLWallet[]> {
+  const row = await getKOLByWallet(address);
+  if (!row) {
+    throw new Error(KOLError.NOT_FOUND);
+  }
+  return (await getKOLWallets(row.id)).map(toKOLWallet);
+}
+
+/**
+ * Start tracking a KOL by its wallet, linked from `addedAt` (ms, now by
+ * default); it joins the roster from the next period on
+ */
+export async function addKOL(address: string, profile: KOLProfileInput, addedAt?: number): Promise<KOL> {
+  if (!isAddress(address)) {
+    throw new Error(KOLError.INVALID_ADDRESS);
+  }
+  const changes = toProfileChanges(profile);
+  if (!changes.name) {
+    throw new Error(KOLError.INVALID_PROFILE);
+  }
+  const linkedFrom = toLinkTime(addedAt);
+  if (await findWalletLinkSince(address, linkedFrom)) {
+    throw new Error(KOLError.WALLET_IN_USE);
+  }
+
+  const row = await insertKOL({
+    walletAddress: address,
+    name: changes.name,
+    twitterHandle: changes.twitterHandle ?? undefined,
+    imageUrl: changes.imageUrl ?? undefined,
+    telegramHandle: changes.telegramHandle,
+    isActive: changes.isActive,
+  }, linkedFrom);
+  if (!row) {
+    throw new Error(KOLError.ALREADY_EXISTS);
+  }
+
+  invalidateKOLCache();
+  if (row.is_active) {
+    requestWebhookSync();
+  }
+  console.log(`➕ Added KOL ${row.name} (${row.wallet_address})`);
+  return toKOL(row, [row.wallet_address]);
+}
+
+/**
+ * Rename, re-avatar, activate or deactivate a KOL
+ * Deactivated KOLs stop being monitored but keep their trades and stay on the
+ * rosters of periods they were already part of
+ */
+export async function updateKOL(address: string, profile: KOLProfileInput): Promise<KOL> {
+  const changes = toProfileChanges(profile);
+  const row = await updateKOLProfile(address, changes);
+  if (!row) {
+    throw new Error(KOLError.NOT_FOUND);
+  }
+
+  invalidateKOLCache();
+  if (changes.isActive !== undefined) {
+    requestWebhookSync();
+  }
+  console.log(`✏️  Updated KOL ${row.name} (${row.wallet_address})`);
+  return toKOL(row, await getLinkedWallets(row.id));
+}
+
+/**
+ * Link another wallet to a KOL from `addedAt` (ms, now by default); its swaps
+ * from then on count as the KOL's trades. Backdate to attribute swaps the
+ * backfill or reconciliation records from before the link was made.
+ */
+export async function linkWallet(address: string, walletAddress: string, addedAt?: number): Promise<KOLWallet> {
+  if (!isAddress(walletAddress)) {
+    throw new Error(KOLError.INVALID_ADDRESS);
+  }
+  const linkedFrom = toLinkTime(addedAt);
+  const kol = await getKOLByWallet(address);
+  if (!kol) {
+    throw new Error(KOLError.NOT_FOUND);
+  }
+
+  const row = await linkKOLWallet(kol.id, walletAddress, linkedFrom);
+  if (!row) {
+    throw new Error(KOLError.WALLET_IN_USE);
+  }
+
+  invalidateKOLCache();
+  requestWebhookSync();
+  console.log(`🔗 Linked wallet ${walletAddress} to KOL ${kol.name}`);
+  return toKOLWallet(row);
+}
+
+/**
+ * Unlink a KOL's wallet as of `removedAt` (ms, now by default); swaps after
+ * that no longer count. A KOL keeps at least one wallet, deactivate it instead.
+ */
+export async function unlinkWallet(address: string, walletAddress: string, removedAt?: number): Promise<KOLWallet> {
+  const unlinkedAt = toLinkTime(removedAt);
+  const kol = await getKOLByWallet(address);
+  if (!kol) {
+    throw new Error(KOLError.NOT_FOUND);
+  }
+
+  const linked = await getLinkedWallets(kol.id);
+  if (!linked.includes(walletAddress)) {
+    throw new Error(KOLError.WALLET_NOT_LINKED);
+  }
+  if (linked.length === 1) {
+    throw new Error(KOLError.LAST_WALLET);
+  }
+
+  const row = await unlinkKOLWallet(kol.id, walletAddress, unlinkedAt);
+  if (!row) {
+    // Linked after the requested removal time
+    throw new Error(KOLError.INVALID_TIMESTAMP);
+  }
+
+  invalidateKOLCache();
+  requestWebhookSync();
+  console.log(`✂️  Unlinked wallet ${walletAddress} from KOL ${kol.name}`);
+  return toKOLWallet(row);
+}
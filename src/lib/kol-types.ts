@@ -1,8 +1,11 @@
 import { type Address } from 'gill';
+import type { KOLShare, MarketResolution, MarketState } from './pills-market-types';
 
 export interface KOL {
-  /** Wallet address of the KOL */
+  /** Wallet address identifying the KOL */
   address: Address;
+  /** Wallets currently linked to the KOL, whose swaps count as its trades */
+  wallets?: Address[];
   /** Display name/handle */
   name: string;
   /** Twitter handle (without @) */
@@ -15,6 +18,14 @@ export interface KOL {
   telegramHandle?: boolean;
 }
 
+export interface KOLWallet {
+  address: Address;
+  /** When the wallet was linked (unix ms) */
+  addedAt: number;
+  /** When the wallet was unlinked (unix ms), absent while linked */
+  removedAt?: number;
+}
+
 export interface TokenInfo {
   /** Token mint address */
   address: string;
@@ -56,10 +67,14 @@ export interface Trade {
   totalBuyAmount: number;
   /** Total SOL received from sells */
   totalSellAmount: number;
-  /** Current P&L in SOL */
+  /** Realized P&L in SOL */
   pnlSol: number;
-  /** Current P&L in USD */
+  /** Realized P&L in USD */
   pnlUsd: number;
+  /** Cost of the tokens still held, in SOL */
+  costBasisSol?: number;
+  /** Unrealized P&L of the tokens still held, at the last trade price */
+  unrealizedPnlSol?: number;
   /** Whether the trade is still open (has remaining tokens) */
   isOpen: boolean;
   /** Timestamp of first buy */
@@ -79,6 +94,12 @@ export interface TradeTransaction {
   solAmount: number;
   /** Token amount */
   tokenAmount: number;
+  /** Network fee paid, in SOL */
+  feeSol?: number;
+  /** P&L realized by a sell, in SOL */
+  realizedPnlSol?: number;
+  /** SOL/USD at block time */
+  solPriceUsd?: number;
   /** Block timestamp */
   timestamp: number;
   /** Solana slot */
@@ -112,6 +133,48 @@ export interface KOLLeaderboardEntry {
   rank: number;
 }
 
+export interface KOLTradingStats {
+  /** Trades across every period */
+  totalTrades: number;
+  /** Realized P&L in SOL across every period */
+  totalPnlSol: number;
+  /** Realized P&L in USD across every period */
+  totalPnlUsd: number;
+  winningTrades: number;
+  losingTrades: number;
+  /** Win rate percentage */
+  winRate: number;
+  /** Mean time from first buy to last sell of closed trades, in ms */
+  averageHoldTimeMs?: number;
+  /** Trade with the highest realized P&L, if any made a profit */
+  biggestWin?: Trade;
+  /** Trade with the lowest realized P&L, if any made a loss */
+  biggestLoss?: Trade;
+}
+
+export interface KOLPeriodPnl {
+  periodId: string;
+  startTime: number;
+  endTime: number;
+  /** P&L in SOL realized by sells inside the period, as ranked on its leaderboard */
+  pnlSol: number;
+  pnlUsd: number;
+  totalTrades: number;
+  /** Running total of pnlSol over the periods up to and including this one */
+  cumulativePnlSol: number;
+}
+
+export interface KOLProfile {
+  kol: KOL;
+  stats: KOLTradingStats;
+  /** Recent periods the KOL was ranked in, oldest first */
+  periods: KOLPeriodPnl[];
+  /** Trades still holding tokens, with unrealized P&L at the last trade price */
+  openPositions: Trade[];
+  /** The KOL's shares in the current PILLS market, if it is listed */
+  market?: KOLShare;
+}
+
 export interface LeaderboardPeriod {
   /** Period start timestamp */
   startTime: number;
@@ -134,6 +197,30 @@ export interface LeaderboardData {
   solPriceUsd: number;
 }
 
+export interface PeriodArchiveEntry {
+  period: LeaderboardPeriod;
+  /** Market period covering the same window, absent if no market was opened */
+  marketPeriodId?: string;
+  marketState?: MarketState;
+  /** PILLS traded in the period's market */
+  totalVolume: number;
+  /** Winners, final ranking and payout per share, once the market is settled */
+  resolution?: MarketResolution;
+}
+
+export interface MarketPricePoint {
+  timestamp: number;
+  /** Every KOL's share price (its win probability) after the fill at this time */
+  prices: Record<Address, number>;
+}
+
+export interface PeriodArchiveDetail extends PeriodArchiveEntry {
+  /** Final leaderboard: the ranking stored when the market resolved, otherwise replayed from the period's trades */
+  leaderboard: KOLLeaderboardEntry[];
+  /** Market prices from the opening through every filled order */
+  priceHistory: MarketPricePoint[];
+}
+
 // Prediction market interface for the betting aspect
 export interface KOLPredictionMarket {
   /** Market address */
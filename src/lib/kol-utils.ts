@@ -1,4 +1,5 @@
 import type { 
+  KOL,
   Trade, 
   TradeTransaction, 
   KOLLeaderboardEntry, 
@@ -6,19 +7,34 @@ import type {
   LeaderboardData,
   TokenInfo 
 } from './kol-types';
-import { getKOLByAddress } from './kol-data';
+import { getEpoch, toLeaderboardPeriod } from './epoch-calendar';
+import { applyFill, emptyPosition } from './position-accounting';
 
 /**
- * Calculate P&L for a completed trade
+ * Calculate realized P&L for a trade by replaying its buys and sells
+ * through the configured cost-basis method; each sell converts to USD
+ * at its own block-time SOL price
  */
 export function calculateTradePnL(trade: Trade): { pnlSol: number; pnlUsd: number } {
-  const totalBought = trade.totalBuyAmount;
-  const totalSold = trade.totalSellAmount;
-  const pnlSol = totalSold - totalBought;
-  
-  // For now, use a mock SOL price - in production this would come from an API
-  const solPriceUsd = 213.45;
-  const pnlUsd = pnlSol * solPriceUsd;
+  const fills = [
+    ...trade.buys.map(tx => ({ tx, type: 'buy' as const })),
+    ...trade.sells.map(tx => ({ tx, type: 'sell' as const })),
+  ].sort((a, b) => a.tx.timestamp - b.tx.timestamp || a.tx.slot - b.tx.slot);
+
+  let position = emptyPosition();
+  let pnlUsd = 0;
+  for (const { tx, type } of fills) {
+    const result = applyFill(position, {
+      type,
+      tokenAmount: tx.tokenAmount,
+      solAmount: tx.solAmount,
+      feeSol: tx.feeSol ?? 0,
+    });
+    position = result.state;
+    pnlUsd += result.realizedPnlSol * (tx.solPriceUsd ?? 0);
+  }
+
+  const pnlSol = position.realizedPnlSol;
   
   return { pnlSol, pnlUsd };
 }
@@ -46,22 +62,11 @@ export function calculateWinRate(winningTrades: number, losingTrades: number): n
 }
 
 /**
- * Create a 24-hour leaderboard period starting from the most recent midnight UTC
+ * Current leaderboard period from the epoch calendar
  */
 export function getCurrentLeaderboardPeriod(): LeaderboardPeriod {
   const now = Date.now();
-  const currentDate = new Date(now);
-  
-  // Get start of current day in UTC
-  const startTime = new Date(currentDate.getUTCFullYear(), currentDate.getUTCMonth(), currentDate.getUTCDate()).getTime();
-  const endTime = startTime + (24 * 60 * 60 * 1000); // Add 24 hours
-  
-  return {
-    startTime,
-    endTime,
-    isActive: now < endTime,
-    periodId: `${startTime}-${endTime}`,
-  };
+  return toLeaderboardPeriod(getEpoch(now), now);
 }
 
 /**
@@ -77,13 +82,10 @@ export function filterTradesByPeriod(trades: Trade[], period: LeaderboardPeriod)
  * Calculate leaderboard entry for a KOL
  */
 export function calculateKOLLeaderboardEntry(
-  kolAddress: string,
+  kol: KOL,
   trades: Trade[],
   period: LeaderboardPeriod
-): KOLLeaderboardEntry | null {
-  const kol = getKOLByAddress(kolAddress);
-  if (!kol) return null;
-
+): KOLLeaderboardEntry {
   const periodTrades = filterTradesByPeriod(trades, period);
   const activeTrades = periodTrades.filter(trade => !isTradeComplete(trade));
   const completedTrades = periodTrades.filter(trade => isTradeComplete(trade));
@@ -93,15 +95,15 @@ export function calculateKOLLeaderboardEntry(
   let winningTrades = 0;
   let losingTrades = 0;
 
-  // Calculate P&L for completed trades only
-  completedTrades.forEach(trade => {
+  // Rank on realized P&L, which includes partial exits of open trades
+  periodTrades.forEach(trade => {
     const { pnlSol, pnlUsd } = calculateTradePnL(trade);
     totalPnlSol += pnlSol;
     totalPnlUsd += pnlUsd;
     
     if (pnlSol > 0) {
       winningTrades++;
-    } else {
+    } else if (pnlSol < 0) {
       losingTrades++;
     }
   });
@@ -127,22 +129,18 @@ export function calculateKOLLeaderboardEntry(
 }
 
 /**
- * Create leaderboard from KOL trades data
+ * Create leaderboard for the given KOLs from their trades, keyed by wallet
  */
 export function createLeaderboard(
+  kols: KOL[],
   kolTrades: Record<string, Trade[]>,
+  solPriceUsd: number,
   period?: LeaderboardPeriod
 ): LeaderboardData {
   const currentPeriod = period || getCurrentLeaderboardPeriod();
-  const entries: KOLLeaderboardEntry[] = [];
 
   // Calculate entries for each KOL
-  Object.keys(kolTrades).forEach(kolAddress => {
-    const entry = calculateKOLLeaderboardEntry(kolAddress, kolTrades[kolAddress], currentPeriod);
-    if (entry) {
-      entries.push(entry);
-    }
-  });
+  const entries = kols.map(kol => calculateKOLLeaderboardEntry(kol, kolTrades[kol.address] || [], currentPeriod));
 
   // Sort by total P&L (descending) and assign ranks
   entries.sort((a, b) => b.totalPnlSol - a.totalPnlSol);
@@ -154,7 +152,7 @@ export function createLeaderboard(
     period: currentPeriod,
     entries,
     lastUpdated: Date.now(),
-    solPriceUsd: 213.45, // Mock price - replace with real API call
+    solPriceUsd,
   };
 }
 
@@ -198,6 +196,18 @@ export function formatWinRate(winRate: number): string {
   return `${winRate.toFixed(1)}%`;
 }
 
+/**
+ * Format a duration in ms as days, hours or minutes
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / (60 * 1000));
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
 /**
  * Get time until period ends
  */
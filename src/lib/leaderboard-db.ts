@@ -0,0 +1,171 @@
+/**
+ * KOL leaderboard from the trades recorded by the Helius webhook
+ * Wraps getLeaderboardData with each KOL's trades and their buys/sells
+ */
+
+import type { Address } from 'gill';
+import { getLeaderboardData, getLeaderboardPeriod, query } from './database';
+import { toAvatarUrl } from './kol-registry';
+import { calculateWinRate } from './kol-utils';
+import type { KOLLeaderboardEntry, Trade, TradeTransaction } from './kol-types';
+import type { TradeRow, TradeTransactionRow } from './trade-db';
+
+export interface TradeWithTokenRow extends TradeRow {
+  wallet_address: string;
+  mint_address: string;
+  token_name: string | null;
+  token_symbol: string | null;
+  token_decimals: number | null;
+  token_image_url: string | null;
+  token_updated_at: Date;
+}
+
+function toTradeTransaction(row: TradeTransactionRow): TradeTransaction {
+  return {
+    signature: row.signature,
+    type: row.transaction_type === 'buy' ? 'BUY' : 'SELL',
+    // Sells are stored as negative SOL amounts
+    solAmount: Math.abs(parseFloat(row.sol_amount)),
+    tokenAmount: parseFloat(row.token_amount),
+    feeSol: row.fee_sol ? parseFloat(row.fee_sol) : 0,
+    realizedPnlSol: row.realized_pnl_sol ? parseFloat(row.realized_pnl_sol) : undefined,
+    solPriceUsd: row.sol_price_usd ? parseFloat(row.sol_price_usd) : undefined,
+    timestamp: new Date(row.block_time).getTime(),
+    slot: row.slot ? parseInt(row.slot, 10) : 0,
+    idx: row.id,
+  };
+}
+
+export function toTrade(row: TradeWithTokenRow, transactions: TradeTransactionRow[]): Trade {
+  let status: Trade['status'] = 'completed';
+  if (row.is_open) {
+    status = parseFloat(row.total_token_sold) > 0 ? 'partial_exit' : 'active';
+  }
+
+  return {
+    id: row.id,
+    kol: row.wallet_address as Address,
+    token: {
+      address: row.mint_address,
+      name: row.token_name || 'Unknown Token',
+      symbol: row.token_symbol || row.mint_address.slice(0, 4).toUpperCase(),
+      image: row.token_image_url || undefined,
+      decimals: row.token_decimals ?? 9,
+      lastUpdated: new Date(row.token_updated_at).getTime(),
+    },
+    buys: transactions.filter(tx => tx.transaction_type === 'buy').map(toTradeTransaction),
+    sells: transactions.filter(tx => tx.transaction_type === 'sell').map(toTradeTransaction),
+    totalBuyAmount: parseFloat(row.total_buy_amount),
+    totalSellAmount: parseFloat(row.total_sell_amount),
+    pnlSol: parseFloat(row.pnl_sol),
+    pnlUsd: parseFloat(row.pnl_usd),
+    costBasisSol: row.cost_basis_sol ? parseFloat(row.cost_basis_sol) : 0,
+    unrealizedPnlSol: row.unrealized_pnl_sol ? parseFloat(row.unrealized_pnl_sol) : 0,
+    isOpen: row.is_open,
+    startedAt: new Date(row.started_at).getTime(),
+    lastActivityAt: new Date(row.last_activity_at).getTime(),
+    status,
+  };
+}
+
+/**
+ * Columns for a TradeWithTokenRow, selected from trades t joined to kols k and tokens tk
+ */
+export const TRADE_WITH_TOKEN_COLUMNS = `
+  t.*,
+  k.wallet_address,
+  tk.mint_address,
+  tk.name AS token_name,
+  tk.symbol AS token_symbol,
+  tk.decimals AS token_decimals,
+  tk.image_url AS token_image_url,
+  tk.updated_at AS token_updated_at
+`;
+
+/**
+ * Trades with their buys and sells in chain order
+ */
+export async function loadTrades(rows: TradeWithTokenRow[]): Promise<Trade[]> {
+  const transactionRows = rows.length > 0
+    ? await query<TradeTransactionRow>(`
+        SELECT * FROM trade_transactions
+        WHERE trade_id = ANY($1::uuid[])
+        ORDER BY block_time, slot
+      `, [rows.map(row => row.id)])
+    : [];
+
+  const transactionsByTrade = new Map<string, TradeTransactionRow[]>();
+  for (const row of transactionRows) {
+    const list = transactionsByTrade.get(row.trade_id) || [];
+    list.push(row);
+    transactionsByTrade.set(row.trade_id, list);
+  }
+
+  return rows.map(row => toTrade(row, transactionsByTrade.get(row.id) || []));
+}
+
+/**
+ * Ranked leaderboard entries for a period (the current one by default),
+ * or null if the period doesn't exist. Lookups never create periods: only
+ * the epoch scheduler opens them and snapshots their rosters.
+ */
+export async function getLeaderboardEntries(periodId?: string): Promise<KOLLeaderboardEntry[] | null> {
+  if (periodId && !(await getLeaderboardPeriod(periodId))) {
+    return null;
+  }
+
+  const { period, entries } = await getLeaderboardData(periodId);
+  const { start_time: startTime, end_time: endTime } = period;
+
+  const tradeRows = await query<TradeWithTokenRow>(`
+    SELECT ${TRADE_WITH_TOKEN_COLUMNS}
+    FROM trades t
+    JOIN leaderboard_period_kols r ON r.kol_id = t.kol_id AND r.period_id = $3
+    JOIN kols k ON k.id = t.kol_id
+    JOIN tokens tk ON tk.id = t.token_id
+    WHERE EXISTS (
+      SELECT 1 FROM trade_transactions tt
+      WHERE tt.trade_id = t.id
+        AND tt.block_time >= $1
+        AND tt.block_time < $2
+    )
+    ORDER BY t.last_activity_at DESC
+  `, [startTime, endTime, period.period_id]);
+
+  const tradesByKOL = new Map<string, Trade[]>();
+  const trades = await loadTrades(tradeRows);
+  tradeRows.forEach((row, index) => {
+    const list = tradesByKOL.get(row.kol_id) || [];
+    list.push(trades[index]);
+    tradesByKOL.set(row.kol_id, list);
+  });
+
+  // getLeaderboardData already returns the rows in ranking order
+  return entries.map((row, index) => {
+    const trades = tradesByKOL.get(row.kol_id) || [];
+    const winningTrades = parseInt(row.winning_trades, 10);
+    const losingTrades = parseInt(row.losing_trades, 10);
+
+    return {
+      kol: {
+        address: row.wallet_address as Address,
+        name: row.name,
+        twitter: row.twitter_handle || '',
+        avatar: toAvatarUrl(row.image_url),
+        isActive: row.is_active,
+        telegramHandle: row.telegram_handle ?? undefined,
+        wallets: row.wallets as Address[],
+      },
+      totalTrades: parseInt(row.total_trades, 10),
+      totalPnlSol: parseFloat(row.total_pnl_sol),
+      totalPnlUsd: parseFloat(row.total_pnl_usd),
+      winningTrades,
+      losingTrades,
+      winRate: calculateWinRate(winningTrades, losingTrades),
+      activeTrades: trades.filter(trade => trade.isOpen),
+      completedTrades: trades.filter(trade => !trade.isOpen),
+      lastTradeAt: row.last_trade_at ? new Date(row.last_trade_at).getTime() : undefined,
+      rank: index + 1,
+    };
+  });
+}
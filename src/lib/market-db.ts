@@ -0,0 +1,503 @@
+/**
+ * Persistence for the PILLS prediction market
+ * Orders are executed by PillsMarketEngine inside a database transaction so
+ * market state, positions and the order ledger always move together
+ */
+
+import type { PoolClient } from 'pg';
+import type { Address } from 'gill';
+import { ensureLeaderboardPeriod, query, transaction } from './database';
+import { pillsMarketEngine } from './pills-market-engine';
+import { marketAccount, postLedgerTransaction, userAccount } from './pills-ledger';
+import { publishMarketEvents } from './market-events';
+import { getEpoch, toMarketPeriodId } from './epoch-calendar';
+import { assertTransition, getEffectiveMarketState, getTradingClosesAt, isTradingOpen } from './market-state';
+import { MarketError, MarketState, TRADING_CONFIG } from './pills-market-types';
+import type {
+  KOLShare,
+  MarketPeriod,
+  MarketSummary,
+  TradeOrder,
+  UserPosition,
+} from './pills-market-types';
+
+export interface MarketPeriodRow {
+  id: string;
+  epoch_number: number;
+  start_time: Date;
+  end_time: Date;
+  liquidity_parameter: string;
+  state: MarketState;
+  winner_address: string | null;
+  total_volume: string;
+}
+
+export interface KOLShareRow {
+  period_id: string;
+  kol_address: string;
+  total_shares: string;
+  total_invested: string;
+  last_updated: Date;
+}
+
+export interface UserPositionRow {
+  user_address: string;
+  period_id: string;
+  kol_address: string;
+  shares_owned: string;
+  average_price: string;
+  total_invested: string;
+  last_trade_at: Date;
+}
+
+interface TradeOrderRow {
+  id: string;
+  user_address: string;
+  period_id: string;
+  kol_address: string;
+  order_type: 'buy' | 'sell';
+  shares: string;
+  price_per_share: string;
+  total_value: string;
+  status: TradeOrder['status'];
+  signature: string | null;
+  created_at: Date;
+  filled_at: Date | null;
+}
+
+export interface PlaceOrderRequest {
+  userAddress: Address;
+  /** Period the client is trading on, defaults to the current one */
+  periodId?: string;
+  kolAddress: Address;
+  type: 'buy' | 'sell';
+  /** PILLS to spend for buys, shares to sell for sells */
+  amount: number;
+  /** Minimum shares a buy must fill */
+  minSharesOut?: number;
+  /** Minimum PILLS a sell must return */
+  minPillsOut?: number;
+}
+
+export interface PlaceOrderResult {
+  order: TradeOrder;
+  newPrice: number;
+  position: UserPosition;
+}
+
+/**
+ * Current market period from the epoch calendar
+ */
+export function getCurrentMarketPeriod(now: number = Date.now()): MarketPeriod {
+  const { epochNumber, startTime, endTime } = getEpoch(now);
+  const state = getEffectiveMarketState(MarketState.UPCOMING, startTime, endTime, now);
+  const tradingClosesAt = getTradingClosesAt(endTime);
+
+  return {
+    id: toMarketPeriodId({ startTime }),
+    epochNumber,
+    startTime,
+    endTime,
+    state,
+    tradingClosesAt,
+    isActive: isTradingOpen({ state, tradingClosesAt }, now),
+    isResolved: false,
+    liquidityParameter: TRADING_CONFIG.LIQUIDITY_PARAMETER,
+    totalVolume: 0,
+  };
+}
+
+export function toMarketPeriod(row: MarketPeriodRow, now: number = Date.now()): MarketPeriod {
+  const startTime = new Date(row.start_time).getTime();
+  const endTime = new Date(row.end_time).getTime();
+  const state = getEffectiveMarketState(row.state, startTime, endTime, now);
+  const tradingClosesAt = getTradingClosesAt(endTime);
+
+  return {
+    id: row.id,
+    epochNumber: row.epoch_number,
+    startTime,
+    endTime,
+    state,
+    tradingClosesAt,
+    isActive: isTradingOpen({ state, tradingClosesAt }, now),
+    isResolved: state === MarketState.RESOLVED,
+    liquidityParameter: parseFloat(row.liquidity_parameter),
+    winner: (row.winner_address as Address) || undefined,
+    totalVolume: parseFloat(row.total_volume),
+  };
+}
+
+export function toKOLShare(row: KOLShareRow): KOLShare {
+  return {
+    periodId: row.period_id,
+    kolAddress: row.kol_address as Address,
+    pricePerShare: 0, // Priced from all quantities by generateMarketSummary
+    totalShares: parseFloat(row.total_shares),
+    totalInvested: parseFloat(row.total_invested),
+    probability: 0,
+    lastUpdated: new Date(row.last_updated).getTime(),
+  };
+}
+
+function toUserPosition(row: UserPositionRow, currentPrice: number): UserPosition {
+  const sharesOwned = parseFloat(row.shares_owned);
+  const totalInvested = parseFloat(row.total_invested);
+  const currentValue = sharesOwned * currentPrice;
+
+  return {
+    userAddress: row.user_address as Address,
+    periodId: row.period_id,
+    kolAddress: row.kol_address as Address,
+    sharesOwned,
+    averagePrice: parseFloat(row.average_price),
+    totalInvested,
+    currentValue,
+    unrealizedPnL: currentValue - totalInvested,
+    lastTradeAt: new Date(row.last_trade_at).getTime(),
+  };
+}
+
+function toTradeOrder(row: TradeOrderRow): TradeOrder {
+  return {
+    id: row.id,
+    userAddress: row.user_address as Address,
+    periodId: row.period_id,
+    kolAddress: row.kol_address as Address,
+    type: row.order_type,
+    shares: parseFloat(row.shares),
+    pricePerShare: parseFloat(row.price_per_share),
+    totalValue: parseFloat(row.total_value),
+    status: row.status,
+    signature: row.signature || undefined,
+    createdAt: new Date(row.created_at).getTime(),
+    filledAt: row.filled_at ? new Date(row.filled_at).getTime() : undefined,
+  };
+}
+
+/**
+ * Create the period row and one share row per KOL on the matching leaderboard
+ * period's roster if missing. Shares are only added when the period is
+ * created, so KOLs added later wait for the next period.
+ */
+export async function ensureMarketPeriod(client: PoolClient, period: MarketPeriod): Promise<void> {
+  const leaderboardPeriodId = await ensureLeaderboardPeriod(period, client);
+
+  const created = await client.query(`
+    INSERT INTO market_periods (id, epoch_number, start_time, end_time, liquidity_parameter)
+    VALUES ($1, $2, $3, $4, $5)
+    ON CONFLICT (id) DO NOTHING
+  `, [
+    period.id,
+    period.epochNumber,
+    new Date(period.startTime),
+    new Date(period.endTime),
+    period.liquidityParameter,
+  ]);
+
+  if (created.rowCount === 0) return;
+
+  await client.query(`
+    INSERT INTO market_kol_shares (period_id, kol_address)
+    SELECT $1, k.wallet_address
+    FROM leaderboard_period_kols r
+    JOIN kols k ON k.id = r.kol_id
+    WHERE r.period_id = $2
+    ON CONFLICT (period_id, kol_address) DO NOTHING
+  `, [period.id, leaderboardPeriodId]);
+}
+
+/**
+ * Move a period to a new lifecycle state, locking its row for the rest of the
+ * transaction. Throws if the transition isn't allowed from its current state.
+ * Persisting a state the clock has already moved the period to (freezing an
+ * ended period that is still stored as upcoming or active) is always allowed.
+ */
+export async function transitionMarketPeriod(
+  client: PoolClient,
+  periodId: string,
+  to: MarketState,
+  now: number = Date.now()
+): Promise<MarketPeriod> {
+  const result = await client.query<MarketPeriodRow>(
+    'SELECT * FROM market_periods WHERE id = $1 FOR UPDATE',
+    [periodId]
+  );
+  if (!result.rows[0]) {
+    throw new Error(`Market period ${periodId} not found`);
+  }
+
+  const current = toMarketPeriod(result.rows[0], now).state;
+  if (current !== to || result.rows[0].state === to) {
+    assertTransition(current, to);
+  }
+
+  const updated = await client.query<MarketPeriodRow>(
+    'UPDATE market_periods SET state = $2 WHERE id = $1 RETURNING *',
+    [periodId, to]
+  );
+  console.log(`🔁 Market period ${periodId} → ${to}`);
+  return toMarketPeriod(updated.rows[0], now);
+}
+
+/**
+ * Load the current market period and its KOL shares, creating them on first use
+ */
+export async function getMarketSummary(): Promise<MarketSummary> {
+  const currentPeriod = getCurrentMarketPeriod();
+
+  return await transaction(async (client) => {
+    await ensureMarketPeriod(client, currentPeriod);
+
+    const periodResult = await client.query<MarketPeriodRow>(
+      'SELECT * FROM market_periods WHERE id = $1',
+      [currentPeriod.id]
+    );
+    const sharesResult = await client.query<KOLShareRow>(
+      'SELECT * FROM market_kol_shares WHERE period_id = $1 ORDER BY kol_address',
+      [currentPeriod.id]
+    );
+    const tradersResult = await client.query<{ count: string }>(
+      'SELECT COUNT(DISTINCT user_address) AS count FROM market_positions WHERE period_id = $1 AND shares_owned > 0',
+      [currentPeriod.id]
+    );
+
+    return pillsMarketEngine.generateMarketSummary(
+      toMarketPeriod(periodResult.rows[0]),
+      sharesResult.rows.map(toKOLShare),
+      parseInt(tradersResult.rows[0].count, 10)
+    );
+  });
+}
+
+/**
+ * Execute a buy or sell against the current market and record it
+ */
+export async function placeMarketOrder(request: PlaceOrderRequest): Promise<PlaceOrderResult> {
+  const currentPeriod = getCurrentMarketPeriod();
+  const periodId = request.periodId ?? currentPeriod.id;
+
+  return await transaction(async (client) => {
+    await ensureMarketPeriod(client, currentPeriod);
+
+    // Lock every KOL row in the period: LMSR prices depend on all quantities,
+    // so trades on any KOL must serialize. Fixed ordering avoids deadlocks.
+    const sharesResult = await client.query<KOLShareRow>(
+      'SELECT * FROM market_kol_shares WHERE period_id = $1 ORDER BY kol_address FOR UPDATE',
+      [periodId]
+    );
+
+    // Read under the share locks, which the resolver and cancellations also take
+    const periodResult = await client.query<MarketPeriodRow>(
+      'SELECT * FROM market_periods WHERE id = $1',
+      [periodId]
+    );
+    if (!periodResult.rows[0]) {
+      throw new Error(MarketError.MARKET_CLOSED);
+    }
+
+    const period = toMarketPeriod(periodResult.rows[0]);
+    if (period.state === MarketState.RESOLVED || period.state === MarketState.CANCELLED) {
+      throw new Error(MarketError.ALREADY_RESOLVED);
+    }
+    if (!period.isActive) {
+      throw new Error(MarketError.MARKET_CLOSED);
+    }
+
+    const kolShares = sharesResult.rows.map(toKOLShare);
+    const kolShare = kolShares.find(share => share.kolAddress === request.kolAddress);
+    if (!kolShare) {
+      throw new Error(MarketError.KOL_NOT_IN_MARKET);
+    }
+
+    const positionResult = await client.query<UserPositionRow>(`
+      SELECT * FROM market_positions
+      WHERE user_address = $1 AND period_id = $2 AND kol_address = $3
+      FOR UPDATE
+    `, [request.userAddress, period.id, request.kolAddress]);
+
+    const currentPrice = pillsMarketEngine.calculateSharePrice(
+      kolShares,
+      request.kolAddress,
+      0,
+      true,
+      period.liquidityParameter
+    );
+    const existingPosition = positionResult.rows[0]
+      ? toUserPosition(positionResult.rows[0], currentPrice)
+      : undefined;
+
+    let order: TradeOrder;
+    let newPrice: number;
+
+    if (request.type === 'buy') {
+      ({ order, newPrice } = await pillsMarketEngine.executeBuyOrder(
+        request.userAddress,
+        period.id,
+        request.kolAddress,
+        request.amount,
+        kolShares,
+        period.liquidityParameter,
+        request.minSharesOut
+      ));
+    } else {
+      if (!existingPosition || existingPosition.sharesOwned <= 0) {
+        throw new Error(MarketError.POSITION_NOT_FOUND);
+      }
+
+      ({ order, newPrice } = await pillsMarketEngine.executeSellOrder(
+        request.userAddress,
+        period.id,
+        request.kolAddress,
+        request.amount,
+        kolShares,
+        existingPosition,
+        period.liquidityParameter,
+        request.minPillsOut
+      ));
+    }
+
+    const filledAt = Date.now();
+    order.status = 'filled';
+    order.filledAt = filledAt;
+
+    const updatedShare = pillsMarketEngine.updateKOLShareAfterTrade(kolShare, order, newPrice);
+    await client.query(`
+      UPDATE market_kol_shares SET
+        total_shares = $3,
+        total_invested = $4,
+        last_updated = CURRENT_TIMESTAMP
+      WHERE period_id = $1 AND kol_address = $2
+    `, [period.id, request.kolAddress, updatedShare.totalShares, updatedShare.totalInvested]);
+
+    const position = pillsMarketEngine.updateUserPosition(existingPosition, order, request.userAddress);
+    await client.query(`
+      INSERT INTO market_positions (
+        user_address, period_id, kol_address, shares_owned, average_price, total_invested, last_trade_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (user_address, period_id, kol_address) DO UPDATE SET
+        shares_owned = EXCLUDED.shares_owned,
+        average_price = EXCLUDED.average_price,
+        total_invested = EXCLUDED.total_invested,
+        last_trade_at = EXCLUDED.last_trade_at
+    `, [
+      position.userAddress,
+      position.periodId,
+      position.kolAddress,
+      position.sharesOwned,
+      position.averagePrice,
+      position.totalInvested,
+      new Date(position.lastTradeAt),
+    ]);
+
+    await client.query(`
+      INSERT INTO market_orders (
+        id, user_address, period_id, kol_address, order_type, shares,
+        price_per_share, total_value, status, created_at, filled_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+    `, [
+      order.id,
+      order.userAddress,
+      order.periodId,
+      order.kolAddress,
+      order.type,
+      order.shares,
+      order.pricePerShare,
+      order.totalValue,
+      order.status,
+      new Date(order.createdAt),
+      new Date(filledAt),
+    ]);
+
+    // Move PILLS between the user's balance and the period's market account;
+    // a buy the user can't afford fails here and rolls the whole order back
+    const pillsDelta = order.type === 'buy' ? -order.totalValue : order.totalValue;
+    await postLedgerTransaction(client, {
+      kind: 'trade',
+      reference: `order:${order.id}`,
+      description: `${order.type} ${order.shares.toFixed(4)} shares of ${order.kolAddress}`,
+      entries: [
+        { account: userAccount(order.userAddress), amount: pillsDelta },
+        { account: marketAccount(order.periodId), amount: -pillsDelta },
+      ],
+    });
+
+    await client.query(
+      'UPDATE market_periods SET total_volume = total_volume + $2 WHERE id = $1',
+      [period.id, order.totalValue]
+    );
+
+    // Every KOL's LMSR price moves with a trade, so push all of them
+    const updatedShares = kolShares.map(share =>
+      share.kolAddress === updatedShare.kolAddress ? updatedShare : share
+    );
+    const probabilities = pillsMarketEngine.calculateProbabilities(updatedShares, period.liquidityParameter);
+    await publishMarketEvents(client, [
+      {
+        type: 'trade',
+        timestamp: filledAt,
+        periodId: period.id,
+        data: {
+          kolAddress: order.kolAddress,
+          userAddress: order.userAddress,
+          orderType: order.type,
+          shares: order.shares,
+          price: order.pricePerShare,
+          newPrice,
+        },
+      },
+      ...updatedShares.map(share => ({
+        type: 'price_update' as const,
+        timestamp: filledAt,
+        periodId: period.id,
+        data: {
+          kolAddress: share.kolAddress,
+          newPrice: probabilities[share.kolAddress] || 0,
+          probability: probabilities[share.kolAddress] || 0,
+          totalShares: share.totalShares,
+          totalInvested: share.totalInvested,
+        },
+      })),
+    ]);
+
+    return { order, newPrice, position };
+  });
+}
+
+/**
+ * Most recent orders for a user across all periods
+ */
+export async function getUserOrders(userAddress: string, limit = 50): Promise<TradeOrder[]> {
+  const rows = await query<TradeOrderRow>(`
+    SELECT * FROM market_orders
+    WHERE user_address = $1
+    ORDER BY created_at DESC
+    LIMIT $2
+  `, [userAddress, limit]);
+
+  return rows.map(toTradeOrder);
+}
+
+/**
+ * Open positions for a user in the current period, valued at current prices
+ */
+export async function getUserPositions(userAddress: string): Promise<UserPosition[]> {
+  const summary = await getMarketSummary();
+  const rows = await query<UserPositionRow>(`
+    SELECT * FROM market_positions
+    WHERE user_address = $1 AND period_id = $2 AND shares_owned > 0
+    ORDER BY last_trade_at DESC
+  `, [userAddress, summary.period.id]);
+
+  return rows.map(row => {
+    const share = summary.kolShares.find(s => s.kolAddress === row.kol_address);
+    return toUserPosition(row, share?.pricePerShare || 0);
+  });
+}
+
+/**
+ * Whether an error thrown by the engine is a client-facing MarketError
+ */
+export function isMarketError(error: unknown): error is Error & { message: MarketError } {
+  return error instanceof Error && (Object.values(MarketError) as string[]).includes(error.message);
+}
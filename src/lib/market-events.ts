@@ -0,0 +1,260 @@
+/**
+ * Real-time market event feed
+ * Events are written to market_events inside the transaction that causes them
+ * and announced with pg_notify, which Postgres only delivers on commit. Row
+ * ids are taken before commit, so concurrent transactions can commit out of id
+ * order: each stream tracks the recent ids it hasn't delivered yet (see
+ * MarketEventCursor) rather than a single high-water mark, and sends that
+ * state as the SSE event id so clients resume without losing a late event.
+ */
+
+import type { PoolClient } from 'pg';
+import { getClient, query } from './database';
+import type { MarketEvent } from './pills-market-types';
+
+const MARKET_EVENTS_CHANNEL = 'market_events';
+const LISTENER_RETRY_MS = 5000;
+
+// Ids this far below the newest delivered one are no longer waited for; a
+// missing id that old belongs to a rolled-back transaction
+export const CURSOR_GAP_WINDOW = 1000;
+const CURSOR_PATTERN = /^(\d+)(?::((?:\d+(?:-\d+)?)(?:,\d+(?:-\d+)?)*))?$/;
+
+interface MarketEventRow {
+  id: string;
+  type: MarketEvent['type'];
+  period_id: string;
+  data: MarketEvent['data'];
+  created_at: Date;
+}
+
+function toMarketEvent(row: MarketEventRow): MarketEvent {
+  return {
+    id: row.id,
+    type: row.type,
+    timestamp: new Date(row.created_at).getTime(),
+    periodId: row.period_id,
+    data: row.data,
+  };
+}
+
+/**
+ * Record events in the caller's transaction; subscribers see them after commit
+ */
+export async function publishMarketEvents(client: PoolClient, events: MarketEvent[]): Promise<void> {
+  for (const event of events) {
+    const result = await client.query<MarketEventRow>(`
+      INSERT INTO market_events (type, period_id, data, created_at)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+    `, [event.type, event.periodId, JSON.stringify(event.data), new Date(event.timestamp)]);
+
+    await client.query('SELECT pg_notify($1, $2)', [
+      MARKET_EVENTS_CHANNEL,
+      JSON.stringify(toMarketEvent(result.rows[0])),
+    ]);
+  }
+}
+
+/**
+ * What one stream has delivered: every id up to the high-water mark except the
+ * recent gaps, ids not seen yet that may still commit
+ * Serialized as `<high-water mark>[:<gap>,<from>-<to>,...]`
+ */
+export class MarketEventCursor {
+  private highWaterMark: bigint;
+  private readonly gaps = new Set<bigint>();
+
+  constructor(highWaterMark: bigint, gaps: Iterable<bigint> = []) {
+    this.highWaterMark = highWaterMark;
+    for (const gap of gaps) {
+      if (gap < highWaterMark) this.gaps.add(gap);
+    }
+    this.prune();
+  }
+
+  /**
+   * Parse a cursor sent back as Last-Event-ID; null if it's malformed
+   * A plain event id resumes after that id, as before gaps were tracked
+   */
+  static parse(value: string): MarketEventCursor | null {
+    const match = CURSOR_PATTERN.exec(value);
+    if (!match) return null;
+
+    const gaps: bigint[] = [];
+    for (const range of match[2] ? match[2].split(',') : []) {
+      const [from, to = from] = range.split('-').map(BigInt);
+      if (to < from || to - from >= BigInt(CURSOR_GAP_WINDOW)) return null;
+      for (let id = from; id <= to; id++) gaps.push(id);
+    }
+    return new MarketEventCursor(BigInt(match[1]), gaps);
+  }
+
+  /**
+   * Cursor at the newest committed event, waiting on the recent ids that
+   * aren't in the table yet
+   */
+  static async atLatest(): Promise<MarketEventCursor> {
+    const rows = await query<{ id: string }>(`
+      SELECT id::text AS id FROM market_events
+      WHERE id > (SELECT COALESCE(MAX(id), 0) FROM market_events) - $1
+      ORDER BY id
+    `, [CURSOR_GAP_WINDOW]);
+    if (rows.length === 0) return new MarketEventCursor(BigInt(0));
+
+    const present = new Set(rows.map(row => BigInt(row.id)));
+    const latest = BigInt(rows[rows.length - 1].id);
+    const gaps: bigint[] = [];
+    for (let id = latest - BigInt(CURSOR_GAP_WINDOW) + BigInt(1); id < latest; id++) {
+      if (id > BigInt(0) && !present.has(id)) gaps.push(id);
+    }
+    return new MarketEventCursor(latest, gaps);
+  }
+
+  /**
+   * Record an event as delivered; false if this stream already sent it
+   */
+  accept(eventId: string | undefined): boolean {
+    const id = BigInt(eventId || '0');
+
+    if (id > this.highWaterMark) {
+      const firstGap = [id - BigInt(CURSOR_GAP_WINDOW), this.highWaterMark]
+        .reduce((max, value) => (value > max ? value : max)) + BigInt(1);
+      for (let gap = firstGap; gap < id; gap++) this.gaps.add(gap);
+      this.highWaterMark = id;
+      this.prune();
+      return true;
+    }
+    return this.gaps.delete(id);
+  }
+
+  /** Newest id delivered */
+  get lastId(): string {
+    return this.highWaterMark.toString();
+  }
+
+  /** Ids below the high-water mark still to be delivered, oldest first */
+  get pendingIds(): string[] {
+    return [...this.gaps].sort((a, b) => (a < b ? -1 : 1)).map(String);
+  }
+
+  toString(): string {
+    const ranges: string[] = [];
+    let start: bigint | null = null;
+    let end: bigint | null = null;
+    for (const gap of this.pendingIds.map(BigInt)) {
+      if (end !== null && gap === end + BigInt(1)) {
+        end = gap;
+        continue;
+      }
+      if (start !== null) ranges.push(start === end ? `${start}` : `${start}-${end}`);
+      start = end = gap;
+    }
+    if (start !== null) ranges.push(start === end ? `${start}` : `${start}-${end}`);
+
+    return ranges.length > 0 ? `${this.highWaterMark}:${ranges.join(',')}` : `${this.highWaterMark}`;
+  }
+
+  private prune(): void {
+    const oldest = this.highWaterMark - BigInt(CURSOR_GAP_WINDOW);
+    for (const gap of this.gaps) {
+      if (gap <= oldest) this.gaps.delete(gap);
+    }
+  }
+}
+
+/**
+ * Events a cursor hasn't delivered: its pending gaps that have since
+ * committed and everything after its high-water mark, oldest first
+ */
+export async function getMarketEventsSince(cursor: MarketEventCursor, limit = 500): Promise<MarketEvent[]> {
+  const rows = await query<MarketEventRow>(`
+    SELECT * FROM market_events
+    WHERE id > $1 OR id = ANY($2::bigint[])
+    ORDER BY id
+    LIMIT $3
+  `, [cursor.lastId, cursor.pendingIds, limit]);
+
+  return rows.map(toMarketEvent);
+}
+
+type MarketEventListener = (event: MarketEvent) => void;
+
+const listeners = new Set<MarketEventListener>();
+let listenerClient: PoolClient | null = null;
+let connecting = false;
+
+// One LISTEN connection per server process, shared by every open stream
+async function connectListener(): Promise<void> {
+  if (listenerClient || connecting) return;
+  connecting = true;
+
+  try {
+    const client = await getClient();
+
+    client.on('notification', (message) => {
+      if (message.channel !== MARKET_EVENTS_CHANNEL || !message.payload) return;
+      const event: MarketEvent = JSON.parse(message.payload);
+      for (const listener of listeners) {
+        listener(event);
+      }
+    });
+
+    client.on('error', (error) => {
+      console.error('❌ Market event listener error:', error);
+      client.release(true);
+      listenerClient = null;
+      if (listeners.size > 0) {
+        setTimeout(connectListener, LISTENER_RETRY_MS);
+      }
+    });
+
+    await client.query(`LISTEN ${MARKET_EVENTS_CHANNEL}`);
+    listenerClient = client;
+    console.log('📡 Listening for market events');
+
+    // Every stream closed while the connection was being set up
+    if (listeners.size === 0) {
+      await disconnectListener();
+    }
+
+  } catch (error) {
+    console.error('❌ Failed to listen for market events:', error);
+    if (listeners.size > 0) {
+      setTimeout(connectListener, LISTENER_RETRY_MS);
+    }
+
+  } finally {
+    connecting = false;
+  }
+}
+
+async function disconnectListener(): Promise<void> {
+  const client = listenerClient;
+  if (!client) return;
+
+  listenerClient = null;
+  client.removeAllListeners('notification');
+  client.removeAllListeners('error');
+  try {
+    await client.query(`UNLISTEN ${MARKET_EVENTS_CHANNEL}`);
+    client.release();
+  } catch {
+    client.release(true);
+  }
+}
+
+/**
+ * Receive every committed event; returns the unsubscribe function
+ */
+export async function subscribeMarketEvents(listener: MarketEventListener): Promise<() => void> {
+  listeners.add(listener);
+  await connectListener();
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      void disconnectListener();
+    }
+  };
+}
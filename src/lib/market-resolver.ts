@@ -0,0 +1,389 @@
+/**
+ * Market period resolution
+ * Settles ended periods from the KOL leaderboard: ranks KOLs by PnL over the
+ * period, pays every winning share (or refunds stakes, per RESOLUTION_CONFIG)
+ * out of the period's market account, sweeps the remainder to the house and
+ * opens the next epoch. Re-running is a no-op
+ * for settled periods, and payouts are keyed ledger postings so nothing is paid twice.
+ */
+
+import type { PoolClient } from 'pg';
+import type { Address } from 'gill';
+import { ensureLeaderboardPeriod, getLeaderboardData, query, transaction } from './database';
+import {
+  ensureMarketPeriod,
+  getCurrentMarketPeriod,
+  toKOLShare,
+  toMarketPeriod,
+  transitionMarketPeriod,
+} from './market-db';
+import type { KOLShareRow, MarketPeriodRow, UserPositionRow } from './market-db';
+import { pillsMarketEngine } from './pills-market-engine';
+import { HOUSE_ACCOUNT, marketAccount, postLedgerTransaction, userAccount } from './pills-ledger';
+import { isTerminalState } from './market-state';
+import { publishMarketEvents } from './market-events';
+import { MarketError, MarketState, ResolutionReason } from './pills-market-types';
+import type { MarketPeriod, MarketResolution } from './pills-market-types';
+
+// Give the webhook a minute to deliver trades from the period's last blocks
+const RESOLUTION_DELAY_MS = 60 * 1000;
+
+export interface MarketResolutionRow {
+  period_id: string;
+  reason: ResolutionReason;
+  winner_address: string | null;
+  winners: Address[];
+  final_ranking: MarketResolution['finalRanking'];
+  payout_per_share: string;
+  total_winning_shares: string;
+  total_prize_pool: string;
+  total_payout: string;
+  refund_stakes: boolean;
+  resolved_at: Date;
+}
+
+export function toMarketResolution(row: MarketResolutionRow): MarketResolution {
+  return {
+    periodId: row.period_id,
+    reason: row.reason,
+    winner: (row.winner_address as Address) || undefined,
+    winners: row.winners,
+    finalRanking: row.final_ranking,
+    payoutPerShare: parseFloat(row.payout_per_share),
+    totalWinningShares: parseFloat(row.total_winning_shares),
+    totalPrizePool: parseFloat(row.total_prize_pool),
+    totalPayout: parseFloat(row.total_payout),
+    refundStakes: row.refund_stakes,
+    resolvedAt: new Date(row.resolved_at).getTime(),
+  };
+}
+
+/**
+ * Rank the market's KOLs by SOL PnL over the period window, ties broken by
+ * the resolution rules. KOLs without trades in the window rank with zero PnL.
+ */
+async function getFinalRanking(
+  period: MarketPeriod,
+  kolAddresses: Address[]
+): Promise<MarketResolution['finalRanking']> {
+  const leaderboardPeriodId = await ensureLeaderboardPeriod(period);
+  const { entries } = await getLeaderboardData(leaderboardPeriodId);
+  const entriesByAddress = new Map(
+    entries.map(entry => [entry.wallet_address, entry])
+  );
+
+  return pillsMarketEngine.rankKOLs(kolAddresses.map(kolAddress => {
+    const entry = entriesByAddress.get(kolAddress);
+    const totalTrades = entry ? parseInt(entry.total_trades, 10) : 0;
+    return {
+      kolAddress,
+      pnlSol: entry ? parseFloat(entry.total_pnl_sol) : 0,
+      winRate: entry && totalTrades > 0 ? parseInt(entry.winning_trades, 10) / totalTrades : 0,
+      totalTrades,
+    };
+  }));
+}
+
+/**
+ * Stored resolution of a settled period
+ */
+export async function getMarketResolution(periodId: string): Promise<MarketResolution | null> {
+  const rows = await query<MarketResolutionRow>(
+    'SELECT * FROM market_resolutions WHERE period_id = $1',
+    [periodId]
+  );
+  return rows[0] ? toMarketResolution(rows[0]) : null;
+}
+
+/**
+ * Refund every user's net stake in a period (PILLS paid in and not sold back out)
+ */
+async function refundStakes(
+  client: PoolClient,
+  periodId: string,
+  reason: ResolutionReason
+): Promise<{ totalRefunded: number; stakers: number }> {
+  const stakes = await client.query<{ user_address: string; stake: string }>(`
+    SELECT user_address, SUM(CASE WHEN order_type = 'buy' THEN total_value ELSE -total_value END) AS stake
+    FROM market_orders
+    WHERE period_id = $1 AND status = 'filled'
+    GROUP BY user_address
+    HAVING SUM(CASE WHEN order_type = 'buy' THEN total_value ELSE -total_value END) > 0
+    ORDER BY user_address
+  `, [periodId]);
+
+  let totalRefunded = 0;
+  for (const { user_address, stake } of stakes.rows) {
+    const refund = parseFloat(stake);
+    await postLedgerTransaction(client, {
+      kind: 'payout',
+      reference: `refund:${periodId}:${user_address}`,
+      description: `Refund of stakes in ${periodId} (${reason})`,
+      entries: [
+        { account: userAccount(user_address), amount: refund },
+        { account: marketAccount(periodId), amount: -refund },
+      ],
+    });
+    totalRefunded += refund;
+  }
+
+  return { totalRefunded, stakers: stakes.rows.length };
+}
+
+/**
+ * Close a period's market account: trading profit goes to the house, and a
+ * negative balance is the house subsidy (bounded by b * ln(n) for payouts)
+ */
+async function settleMarketAccount(client: PoolClient, periodId: string): Promise<void> {
+  const marketBalance = await client.query<{ balance: string }>(
+    'SELECT balance FROM pills_balances WHERE account = $1',
+    [marketAccount(periodId)]
+  );
+  const remaining = marketBalance.rows[0] ? parseFloat(marketBalance.rows[0].balance) : 0;
+  if (remaining === 0) return;
+
+  await postLedgerTransaction(client, {
+    kind: 'payout',
+    reference: `settlement:${periodId}`,
+    description: `Settlement of ${periodId}`,
+    entries: [
+      { account: marketAccount(periodId), amount: -remaining },
+      { account: HOUSE_ACCOUNT, amount: remaining },
+    ],
+  });
+}
+
+async function insertMarketResolution(client: PoolClient, resolution: MarketResolution): Promise<void> {
+  await client.query(`
+    INSERT INTO market_resolutions (
+      period_id, reason, winner_address, winners, final_ranking, payout_per_share,
+      total_winning_shares, total_prize_pool, total_payout, refund_stakes, resolved_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+  `, [
+    resolution.periodId,
+    resolution.reason,
+    resolution.winner ?? null,
+    JSON.stringify(resolution.winners),
+    JSON.stringify(resolution.finalRanking),
+    resolution.payoutPerShare,
+    resolution.totalWinningShares,
+    resolution.totalPrizePool,
+    resolution.totalPayout,
+    resolution.refundStakes,
+    new Date(resolution.resolvedAt),
+  ]);
+
+  await publishMarketEvents(client, [{
+    type: 'resolution',
+    timestamp: resolution.resolvedAt,
+    periodId: resolution.periodId,
+    data: {
+      kolAddress: resolution.winner,
+      reason: resolution.reason,
+      winners: resolution.winners,
+    },
+  }]);
+}
+
+/**
+ * Settle one ended period and credit its winning positions, or refund
+ * every stake if the period is void or nobody holds a winner
+ * Returns the stored resolution if the period was already settled or cancelled
+ */
+export async function resolveMarketPeriod(periodId: string, now: number = Date.now()): Promise<MarketResolution> {
+  const periodRows = await query<MarketPeriodRow>('SELECT * FROM market_periods WHERE id = $1', [periodId]);
+  if (!periodRows[0]) {
+    throw new Error(`Market period ${periodId} not found`);
+  }
+
+  const period = toMarketPeriod(periodRows[0], now);
+  if (isTerminalState(period.state)) {
+    const existing = await getMarketResolution(periodId);
+    if (existing) return existing;
+    throw new Error(MarketError.ALREADY_RESOLVED);
+  }
+  if (period.state !== MarketState.RESOLVING) {
+    throw new Error(`Market period ${periodId} has not ended yet`);
+  }
+
+  // Freeze the period before the (slow) ranking so the halt is visible to everyone
+  if (periodRows[0].state !== MarketState.RESOLVING) {
+    await transaction(async (client) => {
+      await transitionMarketPeriod(client, periodId, MarketState.RESOLVING, now);
+    });
+  }
+
+  const kolRows = await query<{ kol_address: string }>(
+    'SELECT kol_address FROM market_kol_shares WHERE period_id = $1 ORDER BY kol_address',
+    [periodId]
+  );
+  const finalRanking = await getFinalRanking(period, kolRows.map(row => row.kol_address as Address));
+
+  return await transaction(async (client) => {
+    const locked = await client.query<MarketPeriodRow>(
+      'SELECT * FROM market_periods WHERE id = $1 FOR UPDATE',
+      [periodId]
+    );
+
+    // Another run settled (or an operator cancelled) it while the ranking was computed
+    if (locked.rows[0].state !== MarketState.RESOLVING) {
+      const existing = await client.query<MarketResolutionRow>(
+        'SELECT * FROM market_resolutions WHERE period_id = $1',
+        [periodId]
+      );
+      return toMarketResolution(existing.rows[0]);
+    }
+
+    // Same lock order as placeMarketOrder, so no trade can land mid-settlement
+    const sharesResult = await client.query<KOLShareRow>(
+      'SELECT * FROM market_kol_shares WHERE period_id = $1 ORDER BY kol_address FOR UPDATE',
+      [periodId]
+    );
+    const resolution = pillsMarketEngine.calculateMarketResolution(
+      periodId,
+      sharesResult.rows.map(toKOLShare),
+      finalRanking
+    );
+
+    let paidPositions = 0;
+    if (resolution.refundStakes) {
+      const { totalRefunded, stakers } = await refundStakes(client, periodId, resolution.reason);
+      resolution.totalPayout = totalRefunded;
+      paidPositions = stakers;
+
+    } else if (resolution.payoutPerShare > 0) {
+      const winningPositions = await client.query<UserPositionRow>(`
+        SELECT * FROM market_positions
+        WHERE period_id = $1 AND kol_address = ANY($2::varchar[]) AND shares_owned > 0
+        ORDER BY user_address, kol_address
+      `, [periodId, resolution.winners]);
+
+      for (const position of winningPositions.rows) {
+        const payout = parseFloat(position.shares_owned) * resolution.payoutPerShare;
+        await postLedgerTransaction(client, {
+          kind: 'payout',
+          reference: `payout:${periodId}:${position.user_address}:${position.kol_address}`,
+          description: `Payout for ${position.shares_owned} winning shares in ${periodId}`,
+          entries: [
+            { account: userAccount(position.user_address), amount: payout },
+            { account: marketAccount(periodId), amount: -payout },
+          ],
+        });
+      }
+      paidPositions = winningPositions.rows.length;
+    }
+
+    await settleMarketAccount(client, periodId);
+    await insertMarketResolution(client, resolution);
+
+    await transitionMarketPeriod(client, periodId, MarketState.RESOLVED, now);
+    await client.query(
+      'UPDATE market_periods SET winner_address = $2 WHERE id = $1',
+      [periodId, resolution.winner ?? null]
+    );
+
+    console.log(`🏆 Resolved ${periodId} (${resolution.reason}): winners ${resolution.winners.join(', ') || 'none'}, paid ${resolution.totalPayout} PILLS to ${paidPositions} ${resolution.refundStakes ? 'stakers' : 'positions'}`);
+    return resolution;
+  });
+}
+
+/**
+ * Cancel a period that hasn't been resolved and refund every stake
+ */
+export async function cancelMarketPeriod(periodId: string, now: number = Date.now()): Promise<MarketResolution> {
+  return await transaction(async (client) => {
+    await transitionMarketPeriod(client, periodId, MarketState.CANCELLED, now);
+
+    // Wait out any in-flight trade before refunding
+    const sharesResult = await client.query<KOLShareRow>(
+      'SELECT * FROM market_kol_shares WHERE period_id = $1 ORDER BY kol_address FOR UPDATE',
+      [periodId]
+    );
+
+    const { totalRefunded, stakers } = await refundStakes(client, periodId, ResolutionReason.CANCELLED);
+    await settleMarketAccount(client, periodId);
+
+    const resolution: MarketResolution = {
+      periodId,
+      reason: ResolutionReason.CANCELLED,
+      winners: [],
+      finalRanking: [],
+      payoutPerShare: 0,
+      totalWinningShares: 0,
+      totalPrizePool: sharesResult.rows.map(toKOLShare).reduce((sum, share) => sum + share.totalInvested, 0),
+      totalPayout: totalRefunded,
+      refundStakes: true,
+      resolvedAt: now,
+    };
+    await insertMarketResolution(client, resolution);
+
+    console.log(`🚫 Cancelled ${periodId}: refunded ${totalRefunded} PILLS to ${stakers} stakers`);
+    return resolution;
+  });
+}
+
+/**
+ * Settle every ended, unresolved period and open the current epoch
+ */
+export async function resolveDueMarketPeriods(now: number = Date.now()): Promise<MarketResolution[]> {
+  const due = await query<{ id: string }>(`
+    SELECT id FROM market_periods
+    WHERE state IN ('upcoming', 'active', 'resolving') AND end_time <= $1
+    ORDER BY end_time
+  `, [new Date(now)]);
+
+  const resolutions: MarketResolution[] = [];
+  for (const { id } of due) {
+    try {
+      resolutions.push(await resolveMarketPeriod(id, now));
+    } catch (error) {
+      console.error(`❌ Failed to resolve ${id}:`, error);
+    }
+  }
+
+  await transaction(async (client) => {
+    const currentPeriod = getCurrentMarketPeriod(now);
+    await ensureMarketPeriod(client, currentPeriod);
+    const activated = await client.query(
+      "UPDATE market_periods SET state = 'active' WHERE id = $1 AND state = 'upcoming'",
+      [currentPeriod.id]
+    );
+
+    if (activated.rowCount) {
+      await publishMarketEvents(client, [{
+        type: 'new_period',
+        timestamp: now,
+        periodId: currentPeriod.id,
+        data: {},
+      }]);
+    }
+  });
+
+  return resolutions;
+}
+
+let resolverTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Run the resolver now and again shortly after every period boundary
+ */
+export function startMarketResolver(): void {
+  if (resolverTimer) return;
+
+  const run = async () => {
+    try {
+      const resolutions = await resolveDueMarketPeriods();
+      if (resolutions.length > 0) {
+        console.log(`✅ Market resolver settled ${resolutions.length} periods`);
+      }
+    } catch (error) {
+      console.error('❌ Market resolver run failed:', error);
+    }
+
+    const nextRun = getCurrentMarketPeriod().endTime + RESOLUTION_DELAY_MS;
+    resolverTimer = setTimeout(run, Math.max(nextRun - Date.now(), RESOLUTION_DELAY_MS));
+  };
+
+  console.log('⏰ Starting market resolver');
+  resolverTimer = setTimeout(run, 0);
+}
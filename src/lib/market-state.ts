@@ -0,0 +1,78 @@
+/**
+ * Market period lifecycle
+ * upcoming → active → resolving → resolved, with cancellation allowed until a
+ * period is resolved. Clock-driven transitions (opening at startTime, freezing
+ * at endTime) are applied on read; the rest are persisted by the resolver and
+ * operator actions.
+ */
+
+import { MarketError, MarketState, TRADING_CONFIG } from './pills-market-types';
+import type { MarketPeriod } from './pills-market-types';
+
+export const MARKET_STATE_TRANSITIONS: Record<MarketState, readonly MarketState[]> = {
+  [MarketState.UPCOMING]: [MarketState.ACTIVE, MarketState.CANCELLED],
+  [MarketState.ACTIVE]: [MarketState.RESOLVING, MarketState.CANCELLED],
+  [MarketState.RESOLVING]: [MarketState.RESOLVED, MarketState.CANCELLED],
+  [MarketState.RESOLVED]: [],
+  [MarketState.CANCELLED]: [],
+};
+
+/**
+ * Whether a period may move from one state to another
+ */
+export function canTransition(from: MarketState, to: MarketState): boolean {
+  return MARKET_STATE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw unless a period may move from one state to another
+ * Settled periods raise MarketError.ALREADY_RESOLVED
+ */
+export function assertTransition(from: MarketState, to: MarketState): void {
+  if (canTransition(from, to)) return;
+
+  if (isTerminalState(from)) {
+    throw new Error(MarketError.ALREADY_RESOLVED);
+  }
+  throw new Error(`Invalid market state transition: ${from} → ${to}`);
+}
+
+/**
+ * Whether a state is final
+ */
+export function isTerminalState(state: MarketState): boolean {
+  return MARKET_STATE_TRANSITIONS[state].length === 0;
+}
+
+/**
+ * Stored state advanced by the clock: upcoming periods open at startTime and
+ * active periods freeze for resolution at endTime
+ */
+export function getEffectiveMarketState(
+  storedState: MarketState,
+  startTime: number,
+  endTime: number,
+  now: number = Date.now()
+): MarketState {
+  if (storedState === MarketState.UPCOMING && now >= startTime) {
+    storedState = MarketState.ACTIVE;
+  }
+  if (storedState === MarketState.ACTIVE && now >= endTime) {
+    storedState = MarketState.RESOLVING;
+  }
+  return storedState;
+}
+
+/**
+ * When trading halts for a period ending at endTime
+ */
+export function getTradingClosesAt(endTime: number): number {
+  return endTime - TRADING_CONFIG.TRADING_HALT_MS;
+}
+
+/**
+ * Whether a period accepts trades right now
+ */
+export function isTradingOpen(period: Pick<MarketPeriod, 'state' | 'tradingClosesAt'>, now: number = Date.now()): boolean {
+  return period.state === MarketState.ACTIVE && now < period.tradingClosesAt;
+}
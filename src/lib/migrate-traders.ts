@@ -1,6 +1,7 @@
 /**
- * Migration script to populate the KOLs table with trader data
- * This script reads from traders.json and inserts the data into the database
+ * Seed script for the KOLs table with the initial trader list
+ * Only wallets that aren't in the table yet are inserted, so KOLs edited or
+ * deactivated through /api/kols keep their changes when this runs again
  * 
  * Usage:
  * 1. Set DATABASE_URL in your environment
@@ -8,18 +9,21 @@
  */
 
 import { config } from 'dotenv';
-import { Pool } from 'pg';
 import { TRADERS_DATA } from './traders-data';
+import { getEpoch, toLeaderboardPeriodId } from './epoch-calendar';
+import { getSolPriceAt } from './sol-price';
+import {
+  closePool,
+  ensureLeaderboardPeriod,
+  getLeaderboardPeriod,
+  setLeaderboardPeriodSolPrice,
+  transaction,
+} from './database';
+import { getAllActiveKOLs, getAllKOLs, insertKOL } from './kol-db';
 
 // Load environment variables from .env file
 config();
 
-// Database connection
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL,
-  ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
-});
-
 interface TraderData {
   name: string;
   walletAddress: string;
@@ -39,117 +43,75 @@ function extractTwitterHandle(twitterUrl: string): string {
 }
 
 /**
- * Migrate trader data to the database
+ * Insert the seed traders missing from the database
  */
 async function migrateTraders() {
-  const client = await pool.connect();
-  
   try {
     console.log('🚀 Starting trader migration...');
     
-    // Begin transaction
-    await client.query('BEGIN');
-    
-    // Clear existing KOLs (optional - remove this if you want to keep existing data)
-    await client.query('DELETE FROM kols');
-    console.log('🗑️  Cleared existing KOL data');
-    
-    // Insert each trader
-    const insertQuery = `
-      INSERT INTO kols (wallet_address, name, twitter_handle, image_url, telegram_handle, is_active)
-      VALUES ($1, $2, $3, $4, $5, $6)
-      ON CONFLICT (wallet_address) 
-      DO UPDATE SET 
-        name = EXCLUDED.name,
-        twitter_handle = EXCLUDED.twitter_handle,
-        image_url = EXCLUDED.image_url,
-        telegram_handle = EXCLUDED.telegram_handle,
-        updated_at = CURRENT_TIMESTAMP
-      RETURNING id, name, wallet_address;
-    `;
-    
-    let insertedCount = 0;
-    
-    for (const trader of TRADERS_DATA as TraderData[]) {
-      try {
-        const result = await client.query(insertQuery, [
-          trader.walletAddress,
-          trader.name,
-          extractTwitterHandle(trader.twitterHandle),
-          trader.imageUrl,
-          trader.telegramHandle,
-          true // is_active
-        ]);
-        
-        const kol = result.rows[0];
-        console.log(`✅ Inserted/Updated: ${kol.name} (${kol.wallet_address})`);
-        insertedCount++;
-        
-      } catch (error) {
-        console.error(`❌ Error inserting trader ${trader.name}:`, error);
-        throw error; // Rollback transaction on error
+    const insertedCount = await transaction(async (client) => {
+      let count = 0;
+      // Seed traders have always owned their wallets, so their history can be backfilled
+      const linkedSince = new Date(0);
+      for (const trader of TRADERS_DATA as TraderData[]) {
+        try {
+          const kol = await insertKOL({
+            walletAddress: trader.walletAddress,
+            name: trader.name,
+            twitterHandle: extractTwitterHandle(trader.twitterHandle),
+            imageUrl: trader.imageUrl,
+            telegramHandle: trader.telegramHandle,
+            isActive: true,
+          }, linkedSince, client);
+          
+          if (!kol) {
+            console.log(`⏭️  Already tracked: ${trader.name} (${trader.walletAddress})`);
+            continue;
+          }
+          
+          console.log(`✅ Inserted: ${kol.name} (${kol.wallet_address})`);
+          count++;
+          
+        } catch (error) {
+          console.error(`❌ Error inserting trader ${trader.name}:`, error);
+          throw error; // Rollback transaction on error
+        }
       }
-    }
-    
-    // Commit transaction
-    await client.query('COMMIT');
+      return count;
+    });
     
     console.log(`\n🎉 Migration completed successfully!`);
-    console.log(`📊 Total traders migrated: ${insertedCount}`);
+    console.log(`📊 Traders inserted: ${insertedCount}`);
     
     // Verify the data
-    const countResult = await client.query('SELECT COUNT(*) FROM kols WHERE is_active = true');
-    console.log(`📈 Active KOLs in database: ${countResult.rows[0].count}`);
+    const activeKOLs = await getAllActiveKOLs();
+    console.log(`📈 Active KOLs in database: ${activeKOLs.length}`);
     
   } catch (error) {
-    // Rollback on error
-    await client.query('ROLLBACK');
     console.error('💥 Migration failed:', error);
     throw error;
-    
-  } finally {
-    client.release();
   }
 }
 
 /**
- * Create the initial leaderboard period for the current day
+ * Create the initial leaderboard period for the current epoch
  */
 async function createInitialPeriod() {
-  const client = await pool.connect();
-  
   try {
     console.log('📅 Creating initial leaderboard period...');
     
     const now = Date.now();
-    const currentDate = new Date(now);
-    
-    // Get start of current day in UTC
-    const startTime = new Date(
-      currentDate.getUTCFullYear(), 
-      currentDate.getUTCMonth(), 
-      currentDate.getUTCDate()
-    );
-    const endTime = new Date(startTime.getTime() + 24 * 60 * 60 * 1000);
-    
-    const periodId = `${startTime.getTime()}-${endTime.getTime()}`;
-    
-    const insertPeriodQuery = `
-      INSERT INTO leaderboard_periods (period_id, start_time, end_time, is_active, sol_price_usd)
-      VALUES ($1, $2, $3, $4, $5)
-      ON CONFLICT (period_id) DO NOTHING
-      RETURNING id, period_id;
-    `;
-    
-    const result = await client.query(insertPeriodQuery, [
-      periodId,
-      startTime,
-      endTime,
-      now < endTime.getTime(), // is_active if current time is before end time
-      213.45 // Mock SOL price - replace with real API call
-    ]);
-    
-    if (result.rows.length > 0) {
+    const epoch = getEpoch(now);
+    const periodId = toLeaderboardPeriodId(epoch);
+    const existing = await getLeaderboardPeriod(periodId);
+    
+    await ensureLeaderboardPeriod(epoch);
+    const solPriceUsd = await getSolPriceAt(now);
+    if (solPriceUsd !== null) {
+      await setLeaderboardPeriodSolPrice(periodId, solPriceUsd);
+    }
+    
+    if (!existing) {
       console.log(`✅ Created leaderboard period: ${periodId}`);
     } else {
       console.log(`ℹ️  Leaderboard period already exists: ${periodId}`);
@@ -157,8 +119,6 @@ async function createInitialPeriod() {
     
   } catch (error) {
     console.error('❌ Error creating leaderboard period:', error);
-  } finally {
-    client.release();
   }
 }
 
@@ -166,32 +126,22 @@ async function createInitialPeriod() {
  * Display current KOL data for verification
  */
 async function verifyMigration() {
-  const client = await pool.connect();
-  
   try {
     console.log('\n🔍 Verifying migration results...');
     
-    const query = `
-      SELECT wallet_address, name, twitter_handle, telegram_handle, is_active, created_at
-      FROM kols 
-      ORDER BY name;
-    `;
+    const kols = await getAllKOLs();
     
-    const result = await client.query(query);
-    
-    console.log(`\n📋 KOLs in database (${result.rows.length}):`);
+    console.log(`\n📋 KOLs in database (${kols.length}):`);
     console.log('─'.repeat(80));
     
-    result.rows.forEach((kol, index) => {
-      console.log(`${(index + 1).toString().padStart(2)}. ${kol.name.padEnd(15)} | @${kol.twitter_handle.padEnd(15)} | ${kol.wallet_address.slice(0, 8)}...`);
+    kols.forEach((kol, index) => {
+      console.log(`${(index + 1).toString().padStart(2)}. ${kol.name.padEnd(15)} | @${(kol.twitter_handle || '').padEnd(15)} | ${kol.wallet_address.slice(0, 8)}...`);
     });
     
     console.log('─'.repeat(80));
     
   } catch (error) {
     console.error('❌ Error verifying migration:', error);
-  } finally {
-    client.release();
   }
 }
 
@@ -213,7 +163,7 @@ async function main() {
     process.exit(1);
     
   } finally {
-    await pool.end();
+    await closePool();
   }
 }
 
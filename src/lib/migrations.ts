@@ -0,0 +1,397 @@
+/**
+ * Versioned schema migrations
+ * Each file in migrations/ is named <version>_<name>.sql and holds a
+ * `-- migrate:up` and a `-- migrate:down` section. Applied versions are kept
+ * in schema_migrations with a checksum of their up section, so edits to an
+ * applied migration show up in the status. Every migration runs in its own
+ * transaction under an advisory lock, so concurrent runners can't interleave.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import type { PoolClient } from 'pg';
+import { getClient } from './database';
+
+export const MIGRATIONS_DIR = join(process.cwd(), 'migrations');
+
+// Arbitrary key for pg_advisory_lock, shared by every migration runner
+const MIGRATION_LOCK_KEY = 7_164_205;
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+const UP_MARKER = '-- migrate:up';
+const DOWN_MARKER = '-- migrate:down';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+  /** sha256 of the up section */
+  checksum: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  /** Unix time in ms, null while pending */
+  appliedAt: number | null;
+  /** Applied, but the file's up section has changed since */
+  modified: boolean;
+  /** Applied, but the file no longer exists */
+  missing: boolean;
+}
+
+export interface SchemaCheckResult {
+  ok: boolean;
+  /** Pending migrations, which the check applies before comparing */
+  pending: number[];
+  /** Missing or differing columns, constraints and indexes */
+  problems: string[];
+  /** Tables in the database that no migration creates */
+  extraTables: string[];
+}
+
+interface AppliedMigrationRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+interface ColumnRow {
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  is_nullable: 'YES' | 'NO';
+  column_default: string | null;
+}
+
+interface ConstraintRow {
+  table_name: string;
+  constraint_name: string;
+  definition: string;
+}
+
+interface IndexRow {
+  table_name: string;
+  index_name: string;
+  definition: string;
+}
+
+interface SchemaSnapshot {
+  tables: Set<string>;
+  columns: Map<string, ColumnRow>;
+  constraints: Map<string, ConstraintRow>;
+  indexes: Map<string, IndexRow>;
+}
+
+function parseMigration(file: string, sql: string): Migration {
+  const match = MIGRATION_FILE_PATTERN.exec(file);
+  if (!match) {
+    throw new Error(`Invalid migration file name: ${file}`);
+  }
+
+  const upStart = sql.indexOf(UP_MARKER);
+  const downStart = sql.indexOf(DOWN_MARKER);
+  if (upStart === -1 || downStart === -1 || downStart < upStart) {
+    throw new Error(`Migration ${file} needs a "${UP_MARKER}" section followed by a "${DOWN_MARKER}" section`);
+  }
+
+  const up = sql.slice(upStart + UP_MARKER.length, downStart).trim();
+  return {
+    version: parseInt(match[1], 10),
+    name: match[2],
+    up,
+    down: sql.slice(downStart + DOWN_MARKER.length).trim(),
+    checksum: createHash('sha256').update(up).digest('hex'),
+  };
+}
+
+/**
+ * Migration files in version order
+ */
+export async function loadMigrations(dir: string = MIGRATIONS_DIR): Promise<Migration[]> {
+  const files = (await readdir(dir)).filter(file => file.endsWith('.sql'));
+  const migrations = await Promise.all(
+    files.map(async file => parseMigration(file, await readFile(join(dir, file), 'utf8')))
+  );
+
+  migrations.sort((a, b) => a.version - b.version);
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new Error(`Duplicate migration version ${migrations[i].version}`);
+    }
+  }
+  return migrations;
+}
+
+async function ensureMigrationsTable(client: PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        checksum VARCHAR(64) NOT NULL,
+        applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+async function getAppliedMigrations(client: PoolClient): Promise<AppliedMigrationRow[]> {
+  const result = await client.query<AppliedMigrationRow>(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return result.rows;
+}
+
+/**
+ * Run a callback on a dedicated connection holding the migration lock
+ */
+async function withMigrationLock<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await getClient();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    try {
+      await ensureMigrationsTable(client);
+      return await callback(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function runInTransaction(client: PoolClient, statements: (client: PoolClient) => Promise<void>): Promise<void> {
+  await client.query('BEGIN');
+  try {
+    await statements(client);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Applied and pending migrations, in version order
+ */
+export async function getMigrationStatus(dir: string = MIGRATIONS_DIR): Promise<MigrationStatus[]> {
+  const migrations = await loadMigrations(dir);
+
+  return await withMigrationLock(async (client) => {
+    const applied = new Map((await getAppliedMigrations(client)).map(row => [row.version, row]));
+    const statuses: MigrationStatus[] = migrations.map(migration => {
+      const row = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        appliedAt: row ? new Date(row.applied_at).getTime() : null,
+        modified: row ? row.checksum !== migration.checksum : false,
+        missing: false,
+      };
+    });
+
+    for (const row of applied.values()) {
+      if (!migrations.some(migration => migration.version === row.version)) {
+        statuses.push({
+          version: row.version,
+          name: row.name,
+          appliedAt: new Date(row.applied_at).getTime(),
+          modified: false,
+          missing: true,
+        });
+      }
+    }
+    return statuses.sort((a, b) => a.version - b.version);
+  });
+}
+
+/**
+ * Apply pending migrations up to and including `target` (all by default)
+ * Returns the versions applied
+ */
+export async function migrateUp(target?: number, dir: string = MIGRATIONS_DIR): Promise<number[]> {
+  const migrations = await loadMigrations(dir);
+
+  return await withMigrationLock(async (client) => {
+    const applied = new Set((await getAppliedMigrations(client)).map(row => row.version));
+    const pending = migrations.filter(migration =>
+      !applied.has(migration.version) && (target === undefined || migration.version <= target)
+    );
+
+    for (const migration of pending) {
+      console.log(`⬆️  Applying ${migration.version}_${migration.name}`);
+      await runInTransaction(client, async (tx) => {
+        await tx.query(migration.up);
+        await tx.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        );
+      });
+    }
+    return pending.map(migration => migration.version);
+  });
+}
+
+/**
+ * Revert the last `steps` applied migrations, newest first
+ * Returns the versions reverted
+ */
+export async function migrateDown(steps: number = 1, dir: string = MIGRATIONS_DIR): Promise<number[]> {
+  const migrations = new Map((await loadMigrations(dir)).map(migration => [migration.version, migration]));
+
+  return await withMigrationLock(async (client) => {
+    const toRevert = (await getAppliedMigrations(client)).reverse().slice(0, steps);
+
+    for (const row of toRevert) {
+      const migration = migrations.get(row.version);
+      if (!migration) {
+        throw new Error(`Migration ${row.version}_${row.name} is applied but its file is missing`);
+      }
+
+      console.log(`⬇️  Reverting ${migration.version}_${migration.name}`);
+      await runInTransaction(client, async (tx) => {
+        if (migration.down) {
+          await tx.query(migration.down);
+        }
+        await tx.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+      });
+    }
+    return toRevert.map(row => row.version);
+  });
+}
+
+// Schema names in definitions differ between the live and the scratch schema
+function normalizeDefinition(definition: string | null, schemas: string[]): string {
+  if (!definition) return '';
+  return schemas.reduce((text, schema) => text.split(`${schema}.`).join(''), definition);
+}
+
+async function snapshotSchema(client: PoolClient, schema: string, schemas: string[]): Promise<SchemaSnapshot> {
+  const tables = await client.query<{ table_name: string }>(
+    "SELECT table_name FROM information_schema.tables WHERE table_schema = $1 AND table_type = 'BASE TABLE'",
+    [schema]
+  );
+  const columns = await client.query<ColumnRow>(`
+    SELECT table_name, column_name, is_nullable, column_default,
+      CASE
+        WHEN data_type = 'character varying' THEN 'varchar(' || character_maximum_length || ')'
+        WHEN data_type = 'numeric' THEN 'numeric(' || numeric_precision || ',' || numeric_scale || ')'
+        ELSE data_type
+      END AS data_type
+    FROM information_schema.columns
+    WHERE table_schema = $1
+  `, [schema]);
+  const constraints = await client.query<ConstraintRow>(`
+    SELECT c.relname AS table_name, con.conname AS constraint_name, pg_get_constraintdef(con.oid) AS definition
+    FROM pg_constraint con
+    JOIN pg_class c ON c.oid = con.conrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = $1
+  `, [schema]);
+  const indexes = await client.query<IndexRow>(
+    'SELECT tablename AS table_name, indexname AS index_name, indexdef AS definition FROM pg_indexes WHERE schemaname = $1',
+    [schema]
+  );
+
+  return {
+    tables: new Set(tables.rows.map(row => row.table_name)),
+    columns: new Map(columns.rows.map(row => [
+      `${row.table_name}.${row.column_name}`,
+      { ...row, column_default: normalizeDefinition(row.column_default, schemas) },
+    ])),
+    constraints: new Map(constraints.rows.map(row => [
+      `${row.table_name}.${row.constraint_name}`,
+      { ...row, definition: normalizeDefinition(row.definition, schemas) },
+    ])),
+    indexes: new Map(indexes.rows.map(row => [
+      row.index_name,
+      { ...row, definition: normalizeDefinition(row.definition, schemas) },
+    ])),
+  };
+}
+
+function compareSnapshots(expected: SchemaSnapshot, actual: SchemaSnapshot): string[] {
+  const problems: string[] = [];
+
+  for (const table of expected.tables) {
+    if (!actual.tables.has(table)) problems.push(`missing table ${table}`);
+  }
+
+  for (const [key, column] of expected.columns) {
+    if (!actual.tables.has(column.table_name)) continue;
+    const found = actual.columns.get(key);
+    if (!found) {
+      problems.push(`missing column ${key}`);
+      continue;
+    }
+    if (found.data_type !== column.data_type) {
+      problems.push(`column ${key} is ${found.data_type}, expected ${column.data_type}`);
+    }
+    if (found.is_nullable !== column.is_nullable) {
+      problems.push(`column ${key} is ${found.is_nullable === 'YES' ? 'nullable' : 'NOT NULL'}, expected ${column.is_nullable === 'YES' ? 'nullable' : 'NOT NULL'}`);
+    }
+    if (found.column_default !== column.column_default) {
+      problems.push(`column ${key} defaults to ${found.column_default || 'nothing'}, expected ${column.column_default || 'nothing'}`);
+    }
+  }
+
+  for (const [key, constraint] of expected.constraints) {
+    if (!actual.tables.has(constraint.table_name)) continue;
+    const found = actual.constraints.get(key);
+    if (!found) {
+      problems.push(`missing constraint ${key} (${constraint.definition})`);
+    } else if (found.definition !== constraint.definition) {
+      problems.push(`constraint ${key} is ${found.definition}, expected ${constraint.definition}`);
+    }
+  }
+
+  for (const [name, index] of expected.indexes) {
+    if (!actual.tables.has(index.table_name)) continue;
+    const found = actual.indexes.get(name);
+    if (!found) {
+      problems.push(`missing index ${name} on ${index.table_name}`);
+    } else if (found.definition !== index.definition) {
+      problems.push(`index ${name} is "${found.definition}", expected "${index.definition}"`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Compare the live public schema with what the migrations produce
+ * The migrations are applied to a scratch schema inside a transaction that is
+ * rolled back, so the expected columns, constraints and indexes always come
+ * from the migration files themselves
+ */
+export async function checkSchema(dir: string = MIGRATIONS_DIR): Promise<SchemaCheckResult> {
+  const migrations = await loadMigrations(dir);
+  const scratch = `migration_check_${randomBytes(4).toString('hex')}`;
+  const schemas = [scratch, 'public'];
+
+  return await withMigrationLock(async (client) => {
+    const applied = new Set((await getAppliedMigrations(client)).map(row => row.version));
+    const pending = migrations.filter(migration => !applied.has(migration.version)).map(migration => migration.version);
+
+    await client.query('BEGIN');
+    try {
+      await client.query(`CREATE SCHEMA ${scratch}`);
+      await client.query(`SET LOCAL search_path TO ${scratch}, public`);
+      for (const migration of migrations) {
+        await client.query(migration.up);
+      }
+
+      const expected = await snapshotSchema(client, scratch, schemas);
+      const actual = await snapshotSchema(client, 'public', schemas);
+      const problems = compareSnapshots(expected, actual);
+      const extraTables = [...actual.tables]
+        .filter(table => !expected.tables.has(table) && table !== 'schema_migrations')
+        .sort();
+
+      return { ok: problems.length === 0 && pending.length === 0, pending, problems, extraTables };
+    } finally {
+      await client.query('ROLLBACK');
+    }
+  });
+}
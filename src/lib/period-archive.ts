@@ -0,0 +1,198 @@
+/**
+ * Archive of ended periods
+ * Lists past leaderboard periods with their market's volume and settlement,
+ * and replays a single period: its final leaderboard (the ranking stored when
+ * its market resolved, otherwise replayed from the recorded trades) and its
+ * market prices by re-running every filled order through the LMSR.
+ */
+
+import type { Address } from 'gill';
+import { getLeaderboardPeriod, query } from './database';
+import type { LeaderboardPeriodRow } from './database';
+import { toLeaderboardPeriod, toMarketPeriodId } from './epoch-calendar';
+import { getKOL } from './kol-registry';
+import { getLeaderboardEntries } from './leaderboard-db';
+import { toMarketPeriod } from './market-db';
+import type { MarketPeriodRow } from './market-db';
+import { toMarketResolution } from './market-resolver';
+import type { MarketResolutionRow } from './market-resolver';
+import { pillsMarketEngine } from './pills-market-engine';
+import { ResolutionReason } from './pills-market-types';
+import type { KOLRankingEntry, KOLShare, PaginatedResponse } from './pills-market-types';
+import type { KOLLeaderboardEntry, MarketPricePoint, PeriodArchiveDetail, PeriodArchiveEntry } from './kol-types';
+
+export const ARCHIVE_PAGE_SIZE = 20;
+const MAX_ARCHIVE_PAGE_SIZE = 100;
+
+interface FilledOrderRow {
+  kol_address: string;
+  order_type: 'buy' | 'sell';
+  shares: string;
+  filled_at: Date;
+}
+
+function toArchiveEntry(
+  row: LeaderboardPeriodRow,
+  market: MarketPeriodRow | undefined,
+  resolution: MarketResolutionRow | undefined,
+  now: number
+): PeriodArchiveEntry {
+  const startTime = new Date(row.start_time).getTime();
+  const endTime = new Date(row.end_time).getTime();
+
+  return {
+    period: toLeaderboardPeriod({ startTime, endTime }, now),
+    marketPeriodId: market?.id,
+    marketState: market ? toMarketPeriod(market, now).state : undefined,
+    totalVolume: market ? parseFloat(market.total_volume) : 0,
+    resolution: resolution ? toMarketResolution(resolution) : undefined,
+  };
+}
+
+async function loadArchiveEntries(rows: LeaderboardPeriodRow[], now: number): Promise<PeriodArchiveEntry[]> {
+  const marketIds = rows.map(row => toMarketPeriodId({ startTime: new Date(row.start_time).getTime() }));
+  const [markets, resolutions] = marketIds.length > 0
+    ? await Promise.all([
+      query<MarketPeriodRow>('SELECT * FROM market_periods WHERE id = ANY($1::varchar[])', [marketIds]),
+      query<MarketResolutionRow>('SELECT * FROM market_resolutions WHERE period_id = ANY($1::varchar[])', [marketIds]),
+    ])
+    : [[], []];
+
+  const marketsById = new Map(markets.map(market => [market.id, market]));
+  const resolutionsById = new Map(resolutions.map(resolution => [resolution.period_id, resolution]));
+  return rows.map((row, index) =>
+    toArchiveEntry(row, marketsById.get(marketIds[index]), resolutionsById.get(marketIds[index]), now)
+  );
+}
+
+/**
+ * One page of the periods that have ended, most recent first
+ */
+export async function getPastPeriods(
+  page: number = 1,
+  limit: number = ARCHIVE_PAGE_SIZE,
+  now: number = Date.now()
+): Promise<PaginatedResponse<PeriodArchiveEntry>> {
+  const pageNumber = Math.max(Math.floor(page) || 1, 1);
+  const pageSize = Math.min(Math.max(Math.floor(limit) || ARCHIVE_PAGE_SIZE, 1), MAX_ARCHIVE_PAGE_SIZE);
+
+  const [countRows, rows] = await Promise.all([
+    query<{ count: string }>('SELECT COUNT(*) AS count FROM leaderboard_periods WHERE end_time <= $1', [new Date(now)]),
+    query<LeaderboardPeriodRow>(`
+      SELECT * FROM leaderboard_periods
+      WHERE end_time <= $1
+      ORDER BY start_time DESC
+      LIMIT $2 OFFSET $3
+    `, [new Date(now), pageSize, (pageNumber - 1) * pageSize]),
+  ]);
+  const total = parseInt(countRows[0].count, 10);
+
+  return {
+    items: await loadArchiveEntries(rows, now),
+    total,
+    page: pageNumber,
+    limit: pageSize,
+    hasMore: pageNumber * pageSize < total,
+  };
+}
+
+/**
+ * Every KOL's market price from the opening (all quantities zero) through each
+ * filled order, in fill order
+ */
+async function getMarketPriceHistory(market: MarketPeriodRow): Promise<MarketPricePoint[]> {
+  const [shareRows, orders] = await Promise.all([
+    query<{ kol_address: string }>(
+      'SELECT kol_address FROM market_kol_shares WHERE period_id = $1 ORDER BY kol_address',
+      [market.id]
+    ),
+    query<FilledOrderRow>(`
+      SELECT kol_address, order_type, shares, COALESCE(filled_at, created_at) AS filled_at
+      FROM market_orders
+      WHERE period_id = $1 AND status = 'filled'
+      ORDER BY COALESCE(filled_at, created_at), created_at
+    `, [market.id]),
+  ]);
+
+  const liquidity = parseFloat(market.liquidity_parameter);
+  const quantities = new Map(shareRows.map(row => [row.kol_address, 0]));
+  const pricesAt = (timestamp: number): MarketPricePoint => {
+    const shares = [...quantities].map(([kolAddress, totalShares]) => ({ kolAddress, totalShares }) as KOLShare);
+    return { timestamp, prices: pillsMarketEngine.calculateProbabilities(shares, liquidity) as Record<Address, number> };
+  };
+
+  const history = [pricesAt(new Date(market.start_time).getTime())];
+  for (const order of orders) {
+    const current = quantities.get(order.kol_address);
+    if (current === undefined) continue;
+
+    const shares = parseFloat(order.shares);
+    quantities.set(order.kol_address, current + (order.order_type === 'buy' ? shares : -shares));
+    history.push(pricesAt(new Date(order.filled_at).getTime()));
+  }
+  return history;
+}
+
+/**
+ * The leaderboard as the market settled it: the stored ranking's order, rank,
+ * P&L and win rate, with profiles, USD P&L and trades from the replay
+ */
+async function toSettledLeaderboard(
+  finalRanking: KOLRankingEntry[],
+  replayed: KOLLeaderboardEntry[]
+): Promise<KOLLeaderboardEntry[]> {
+  const replayedByAddress = new Map(replayed.map(entry => [entry.kol.address, entry]));
+
+  const entries = await Promise.all(finalRanking.map(async (ranking): Promise<KOLLeaderboardEntry | null> => {
+    const entry = replayedByAddress.get(ranking.kolAddress);
+    const kol = entry?.kol || await getKOL(ranking.kolAddress);
+    if (!kol) return null;
+
+    const winningTrades = Math.round(ranking.winRate * ranking.totalTrades);
+    return {
+      kol,
+      totalTrades: ranking.totalTrades,
+      totalPnlSol: ranking.pnlSol,
+      totalPnlUsd: entry?.totalPnlUsd ?? 0,
+      winningTrades,
+      losingTrades: ranking.totalTrades - winningTrades,
+      winRate: ranking.winRate * 100,
+      activeTrades: entry?.activeTrades || [],
+      completedTrades: entry?.completedTrades || [],
+      lastTradeAt: entry?.lastTradeAt,
+      rank: ranking.rank,
+    };
+  }));
+
+  return entries
+    .filter((entry): entry is KOLLeaderboardEntry => entry !== null)
+    .sort((a, b) => a.rank - b.rank);
+}
+
+/**
+ * Replay of an ended period, null if it doesn't exist or hasn't ended
+ */
+export async function getPeriodArchive(periodId: string, now: number = Date.now()): Promise<PeriodArchiveDetail | null> {
+  const row = await getLeaderboardPeriod(periodId);
+  if (!row || new Date(row.end_time).getTime() > now) return null;
+
+  const [[entry], leaderboard] = await Promise.all([
+    loadArchiveEntries([row], now),
+    getLeaderboardEntries(periodId),
+  ]);
+
+  let priceHistory: MarketPricePoint[] = [];
+  if (entry.marketPeriodId) {
+    const [market] = await query<MarketPeriodRow>('SELECT * FROM market_periods WHERE id = $1', [entry.marketPeriodId]);
+    priceHistory = await getMarketPriceHistory(market);
+  }
+
+  return {
+    ...entry,
+    // Cancelled periods are settled without a ranking
+    leaderboard: entry.resolution && entry.resolution.reason !== ResolutionReason.CANCELLED
+      ? await toSettledLeaderboard(entry.resolution.finalRanking, leaderboard || [])
+      : leaderboard || [],
+    priceHistory,
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * PILLS deposits
+ * Credits a user's custodial balance when an SPL transfer of the PILLS mint
+ * into the treasury wallet is finalized on-chain, so a transfer on a fork that
+ * is later dropped never becomes spendable PILLS. The RPC client is injectable
+ * so deposits can be exercised against a local validator or a mocked RPC.
+ */
+
+import { createSolanaClient, signature as toSignature } from 'gill';
+import type { Address, SolanaClient } from 'gill';
+import { getAssociatedTokenAccountAddress } from 'gill/programs';
+import { query, transaction } from './database';
+import { postLedgerTransaction, TREASURY_ACCOUNT, userAccount } from './pills-ledger';
+import { BalanceError, PILLS_TOKEN } from './pills-market-types';
+import type { PillsDeposit } from './pills-market-types';
+
+export type SolanaRpc = SolanaClient['rpc'];
+
+interface PillsDepositRow {
+  signature: string;
+  user_address: string;
+  amount: string;
+  slot: string;
+  block_time: Date | null;
+  created_at: Date;
+}
+
+interface TokenBalanceLike {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  uiTokenAmount: { amount: string; decimals: number };
+}
+
+/** The parts of a getTransaction response a deposit is read from */
+export interface DepositTransactionLike {
+  slot: bigint | number;
+  blockTime: bigint | number | null;
+  meta: {
+    err: unknown;
+    preTokenBalances?: readonly TokenBalanceLike[] | null;
+    postTokenBalances?: readonly TokenBalanceLike[] | null;
+  } | null;
+}
+
+export interface ObservedDeposit {
+  userAddress: Address;
+  amount: number;
+  slot: number;
+  blockTime?: number;
+}
+
+let defaultRpc: SolanaRpc | null = null;
+
+/**
+ * Server-side RPC client, configured by SOLANA_RPC_URL (devnet by default)
+ */
+export function getServerRpc(): SolanaRpc {
+  if (!defaultRpc) {
+    defaultRpc = createSolanaClient({ urlOrMoniker: process.env.SOLANA_RPC_URL || 'devnet' }).rpc;
+  }
+  return defaultRpc;
+}
+
+function getTreasuryAddress(): Address {
+  const treasury = process.env.PILLS_TREASURY_ADDRESS || PILLS_TOKEN.treasuryAddress;
+  if (!treasury) {
+    throw new Error(BalanceError.DEPOSITS_DISABLED);
+  }
+  return treasury as Address;
+}
+
+function toPillsDeposit(row: PillsDepositRow): PillsDeposit {
+  return {
+    signature: row.signature,
+    userAddress: row.user_address as Address,
+    amount: parseFloat(row.amount),
+    slot: parseInt(row.slot, 10),
+    blockTime: row.block_time ? new Date(row.block_time).getTime() : undefined,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+/**
+ * Net raw token balance change per owner for one mint
+ */
+function getOwnerBalanceChanges(
+  tx: DepositTransactionLike,
+  mint: string
+): Map<string, { delta: bigint; decimals: number }> {
+  const changes = new Map<string, { delta: bigint; decimals: number }>();
+  const apply = (balances: readonly TokenBalanceLike[] | null | undefined, sign: bigint) => {
+    for (const balance of balances || []) {
+      if (balance.mint !== mint || !balance.owner) continue;
+      const current = changes.get(balance.owner) || { delta: BigInt(0), decimals: balance.uiTokenAmount.decimals };
+      current.delta += sign * BigInt(balance.uiTokenAmount.amount);
+      changes.set(balance.owner, current);
+    }
+  };
+
+  apply(tx.meta?.preTokenBalances, BigInt(-1));
+  apply(tx.meta?.postTokenBalances, BigInt(1));
+  return changes;
+}
+
+/**
+ * Read a PILLS transfer into the treasury from a finalized transaction
+ * The depositor is the owner whose PILLS balance decreased the most
+ */
+export function parseTreasuryDeposit(
+  tx: DepositTransactionLike,
+  treasuryAddress: string,
+  mint: string = PILLS_TOKEN.mintAddress
+): ObservedDeposit | null {
+  if (!tx.meta || tx.meta.err) {
+    return null;
+  }
+
+  const changes = getOwnerBalanceChanges(tx, mint);
+  const treasuryChange = changes.get(treasuryAddress);
+  if (!treasuryChange || treasuryChange.delta <= BigInt(0)) {
+    return null;
+  }
+
+  let sender: string | null = null;
+  let senderDelta = BigInt(0);
+  for (const [owner, change] of changes) {
+    if (owner !== treasuryAddress && change.delta < senderDelta) {
+      sender = owner;
+      senderDelta = change.delta;
+    }
+  }
+  if (!sender) {
+    return null;
+  }
+
+  return {
+    userAddress: sender as Address,
+    amount: Number(treasuryChange.delta) / 10 ** treasuryChange.decimals,
+    slot: Number(tx.slot),
+    blockTime: tx.blockTime != null ? Number(tx.blockTime) * 1000 : undefined,
+  };
+}
+
+/**
+ * Credit the deposit made in a transaction, at most once per signature
+ * Returns the existing deposit if the signature was already credited; a
+ * transaction that isn't finalized yet is DEPOSIT_NOT_FOUND
+ */
+export async function creditDeposit(signature: string, rpc: SolanaRpc = getServerRpc()): Promise<PillsDeposit> {
+  const existing = await query<PillsDepositRow>(
+    'SELECT * FROM pills_deposits WHERE signature = $1',
+    [signature]
+  );
+  if (existing[0]) {
+    return toPillsDeposit(existing[0]);
+  }
+
+  const treasury = getTreasuryAddress();
+  const tx = await rpc.getTransaction(toSignature(signature), {
+    commitment: 'finalized',
+    encoding: 'json',
+    maxSupportedTransactionVersion: 0,
+  }).send();
+
+  if (!tx) {
+    throw new Error(BalanceError.DEPOSIT_NOT_FOUND);
+  }
+
+  const deposit = parseTreasuryDeposit(tx, treasury);
+  if (!deposit) {
+    throw new Error(BalanceError.NOT_A_DEPOSIT);
+  }
+
+  return await transaction(async (client) => {
+    const inserted = await client.query<PillsDepositRow>(`
+      INSERT INTO pills_deposits (signature, user_address, amount, slot, block_time)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (signature) DO NOTHING
+      RETURNING *
+    `, [
+      signature,
+      deposit.userAddress,
+      deposit.amount,
+      deposit.slot,
+      deposit.blockTime ? new Date(deposit.blockTime) : null,
+    ]);
+
+    // Credited concurrently by another request
+    if (inserted.rows.length === 0) {
+      const current = await client.query<PillsDepositRow>(
+        'SELECT * FROM pills_deposits WHERE signature = $1',
+        [signature]
+      );
+      return toPillsDeposit(current.rows[0]);
+    }
+
+    const ledgerTransactionId = await postLedgerTransaction(client, {
+      kind: 'deposit',
+      reference: `deposit:${signature}`,
+      description: `Deposit of ${deposit.amount} ${PILLS_TOKEN.symbol}`,
+      entries: [
+        { account: userAccount(deposit.userAddress), amount: deposit.amount },
+        { account: TREASURY_ACCOUNT, amount: -deposit.amount },
+      ],
+    });
+
+    await client.query(
+      'UPDATE pills_deposits SET ledger_transaction_id = $2 WHERE signature = $1',
+      [signature, ledgerTransactionId]
+    );
+
+    console.log(`💰 Credited ${deposit.amount} ${PILLS_TOKEN.symbol} deposit from ${deposit.userAddress}`);
+    return toPillsDeposit(inserted.rows[0]);
+  });
+}
+
+/**
+ * Scan recent transfers into the treasury token account and credit any
+ * deposits that were not submitted by the client
+ */
+export async function syncTreasuryDeposits(
+  rpc: SolanaRpc = getServerRpc(),
+  limit = 100
+): Promise<PillsDeposit[]> {
+  const treasuryTokenAccount = await getAssociatedTokenAccountAddress(PILLS_TOKEN.mintAddress, getTreasuryAddress());
+  const signatures = await rpc.getSignaturesForAddress(treasuryTokenAccount, {
+    commitment: 'finalized',
+    limit,
+  }).send();
+
+  const known = await query<{ signature: string }>(
+    'SELECT signature FROM pills_deposits WHERE signature = ANY($1::varchar[])',
+    [signatures.map(entry => entry.signature)]
+  );
+  const knownSignatures = new Set(known.map(row => row.signature));
+
+  const credited: PillsDeposit[] = [];
+  for (const entry of signatures) {
+    if (entry.err || knownSignatures.has(entry.signature)) continue;
+
+    try {
+      credited.push(await creditDeposit(entry.signature, rpc));
+    } catch (error) {
+      // Outgoing withdrawals and other treasury activity are not deposits
+      if (error instanceof Error && error.message === BalanceError.NOT_A_DEPOSIT) continue;
+      throw error;
+    }
+  }
+
+  return credited;
+}
+
+/**
+ * Most recent deposits credited to a user
+ */
+export async function getUserDeposits(userAddress: string, limit = 50): Promise<PillsDeposit[]> {
+  const rows = await query<PillsDepositRow>(`
+    SELECT * FROM pills_deposits
+    WHERE user_address = $1
+    ORDER BY created_at DESC
+    LIMIT $2
+  `, [userAddress, limit]);
+
+  return rows.map(toPillsDeposit);
+}
@@ -0,0 +1,155 @@
+/**
+ * Custodial PILLS balance ledger
+ * Double-entry: every ledger transaction is a set of signed entries across
+ * accounts that sums to zero, so PILLS are only ever moved, never created
+ */
+
+import type { PoolClient } from 'pg';
+import { query } from './database';
+import { BalanceError, MarketError } from './pills-market-types';
+
+/** PILLS held on-chain by the treasury wallet (contra account for deposits/withdrawals) */
+export const TREASURY_ACCOUNT = 'treasury';
+/** Market maker bankroll: keeps a period's trading profit or funds its payout shortfall */
+export const HOUSE_ACCOUNT = 'house';
+/** PILLS debited from users awaiting an on-chain withdrawal transfer */
+export const PENDING_WITHDRAWALS_ACCOUNT = 'withdrawals_pending';
+
+export type LedgerTransactionKind = 'deposit' | 'withdrawal' | 'trade' | 'payout';
+
+export interface LedgerEntry {
+  account: string;
+  /** Positive credits the account, negative debits it */
+  amount: number;
+}
+
+export interface LedgerTransaction {
+  kind: LedgerTransactionKind;
+  /** Idempotency key, e.g. deposit:<signature> or order:<id> */
+  reference: string;
+  description?: string;
+  entries: LedgerEntry[];
+}
+
+export interface LedgerHistoryItem {
+  kind: LedgerTransactionKind;
+  reference: string;
+  description: string | null;
+  amount: number;
+  createdAt: number;
+}
+
+// Amounts are stored with 9 decimal places
+const BALANCE_EPSILON = 1e-9;
+
+/**
+ * Ledger account for a user wallet
+ */
+export function userAccount(walletAddress: string): string {
+  return `user:${walletAddress}`;
+}
+
+/**
+ * Ledger account holding the PILLS paid into a market period
+ */
+export function marketAccount(periodId: string): string {
+  return `market:${periodId}`;
+}
+
+/**
+ * Post a balanced ledger transaction inside an open database transaction
+ * Returns the ledger transaction ID, or null if the reference was already posted
+ * Throws MarketError.INSUFFICIENT_FUNDS if a user account would go negative
+ */
+export async function postLedgerTransaction(
+  client: PoolClient,
+  transaction: LedgerTransaction
+): Promise<string | null> {
+  const total = transaction.entries.reduce((sum, entry) => sum + entry.amount, 0);
+  if (Math.abs(total) > BALANCE_EPSILON) {
+    throw new Error(`Unbalanced ledger transaction ${transaction.reference}: entries sum to ${total}`);
+  }
+
+  const inserted = await client.query<{ id: string }>(`
+    INSERT INTO pills_ledger_transactions (kind, reference, description)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (reference) DO NOTHING
+    RETURNING id
+  `, [transaction.kind, transaction.reference, transaction.description]);
+
+  if (inserted.rows.length === 0) {
+    return null;
+  }
+  const transactionId = inserted.rows[0].id;
+
+  // Apply balances in a fixed account order so concurrent postings can't deadlock
+  const entries = [...transaction.entries].sort((a, b) => a.account.localeCompare(b.account));
+
+  for (const entry of entries) {
+    await client.query(`
+      INSERT INTO pills_ledger_entries (transaction_id, account, amount)
+      VALUES ($1, $2, $3)
+    `, [transactionId, entry.account, entry.amount]);
+
+    const balance = await client.query<{ balance: string }>(`
+      INSERT INTO pills_balances (account, balance)
+      VALUES ($1, $2)
+      ON CONFLICT (account) DO UPDATE SET
+        balance = pills_balances.balance + EXCLUDED.balance,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING balance
+    `, [entry.account, entry.amount]);
+
+    if (entry.account.startsWith('user:') && parseFloat(balance.rows[0].balance) < -BALANCE_EPSILON) {
+      throw new Error(MarketError.INSUFFICIENT_FUNDS);
+    }
+  }
+
+  return transactionId;
+}
+
+/**
+ * Current PILLS balance of a user wallet
+ */
+export async function getPillsBalance(walletAddress: string): Promise<number> {
+  const rows = await query<{ balance: string }>(
+    'SELECT balance FROM pills_balances WHERE account = $1',
+    [userAccount(walletAddress)]
+  );
+  return rows[0] ? parseFloat(rows[0].balance) : 0;
+}
+
+/**
+ * Recent ledger movements on a user wallet's account
+ */
+export async function getPillsLedgerHistory(walletAddress: string, limit = 50): Promise<LedgerHistoryItem[]> {
+  const rows = await query<{
+    kind: LedgerTransactionKind;
+    reference: string;
+    description: string | null;
+    amount: string;
+    created_at: Date;
+  }>(`
+    SELECT t.kind, t.reference, t.description, e.amount, t.created_at
+    FROM pills_ledger_entries e
+    JOIN pills_ledger_transactions t ON t.id = e.transaction_id
+    WHERE e.account = $1
+    ORDER BY t.created_at DESC
+    LIMIT $2
+  `, [userAccount(walletAddress), limit]);
+
+  return rows.map(row => ({
+    kind: row.kind,
+    reference: row.reference,
+    description: row.description,
+    amount: parseFloat(row.amount),
+    createdAt: new Date(row.created_at).getTime(),
+  }));
+}
+
+/**
+ * Whether an error is a client-facing BalanceError
+ */
+export function isBalanceError(error: unknown): error is Error & { message: BalanceError } {
+  return error instanceof Error && (Object.values(BalanceError) as string[]).includes(error.message);
+}
@@ -4,91 +4,215 @@ import type {
   UserPosition, 
   TradeOrder,
   MarketSummary,
-  UserPortfolio 
+  UserPortfolio,
+  TradeQuote,
+  SlippageOptions,
+  MarketResolution,
+  KOLRankingEntry,
+  ResolutionRules
 } from './pills-market-types';
-import { TRADING_CONFIG, MarketError } from './pills-market-types';
+import { TRADING_CONFIG, MarketError, RESOLUTION_CONFIG, ResolutionReason } from './pills-market-types';
 import type { Address } from 'gill';
-import { getKOLByAddress } from './kol-data';
 
 /**
- * Automated Market Maker for KOL prediction markets
- * Uses constant product formula with modifications for prediction markets
+ * Logarithmic Market Scoring Rule (LMSR) market maker for KOL prediction markets
+ *
+ * Each KOL is one outcome and a winning share redeems for PAYOUT_PER_SHARE PILLS.
+ * The cost function C(q) = b * ln(Σ exp(q_i / b)) prices every trade exactly, the
+ * marginal prices exp(q_i / b) / Σ exp(q_j / b) are the displayed probabilities,
+ * and the market maker can never lose more than b * ln(n).
  */
 export class PillsMarketEngine {
   /**
-   * Calculate share price using automated market maker formula
-   * Price increases as more people bet on a KOL, decreases as others gain popularity
+   * Numerically stable log(Σ exp(x_i))
+   */
+  private logSumExp(values: number[]): number {
+    const max = Math.max(...values);
+    if (!Number.isFinite(max)) return max;
+    return max + Math.log(values.reduce((sum, value) => sum + Math.exp(value - max), 0));
+  }
+
+  /**
+   * Outstanding share quantities scaled by the liquidity parameter, with an
+   * optional share delta applied to a single KOL
+   */
+  private scaledQuantities(
+    kolShares: KOLShare[],
+    liquidity: number,
+    kolAddress?: Address,
+    shareDelta = 0
+  ): number[] {
+    if (liquidity <= 0) throw new Error('Liquidity parameter must be positive');
+
+    return kolShares.map(share => {
+      const quantity = share.totalShares + (share.kolAddress === kolAddress ? shareDelta : 0);
+      return quantity / liquidity;
+    });
+  }
+
+  /**
+   * LMSR cost function C(q) = b * ln(Σ exp(q_i / b))
+   */
+  calculateCost(
+    kolShares: KOLShare[],
+    liquidity: number = TRADING_CONFIG.LIQUIDITY_PARAMETER
+  ): number {
+    return liquidity * this.logSumExp(this.scaledQuantities(kolShares, liquidity));
+  }
+
+  /**
+   * Marginal share price for a KOL after trading shareAmount shares
+   * (pass 0 for the current price)
    */
   calculateSharePrice(
     kolShares: KOLShare[], 
     kolAddress: Address, 
     shareAmount: number,
-    isBuy: boolean
+    isBuy: boolean,
+    liquidity: number = TRADING_CONFIG.LIQUIDITY_PARAMETER
   ): number {
-    const targetKOL = kolShares.find(share => share.kolAddress === kolAddress);
-    if (!targetKOL) throw new Error('KOL not found in market');
+    const index = kolShares.findIndex(share => share.kolAddress === kolAddress);
+    if (index === -1) throw new Error('KOL not found in market');
 
-    // Base price starts at 0.50 PILLS (50% probability distributed equally)
-    const basePrice = 0.50;
-    
-    // Calculate total market investment
-    const totalInvested = kolShares.reduce((sum, share) => sum + share.totalInvested, 0);
-    
-    if (totalInvested === 0) {
-      return basePrice;
-    }
-    
-    // Current market share (percentage of total investment)
-    const currentMarketShare = targetKOL.totalInvested / totalInvested;
-    
-    // Simulate the trade to see new market state
-    const tradeValue = shareAmount * (isBuy ? 1 : -1);
-    const newInvestment = Math.max(0, targetKOL.totalInvested + tradeValue);
-    const newTotalInvested = totalInvested + (isBuy ? tradeValue : 0);
-    
-    // New market share after trade
-    const newMarketShare = newInvestment / Math.max(newTotalInvested, 1);
-    
-    // Price based on market share with exponential curve
-    // Higher market share = exponentially higher price
-    const priceCurve = Math.pow(newMarketShare * 2, 1.5);
-    const newPrice = Math.min(0.95, Math.max(0.05, basePrice + priceCurve));
-    
-    return Math.round(newPrice * 10000) / 10000; // Round to 4 decimal places
+    const quantities = this.scaledQuantities(
+      kolShares,
+      liquidity,
+      kolAddress,
+      isBuy ? shareAmount : -shareAmount
+    );
+    return Math.exp(quantities[index] - this.logSumExp(quantities));
   }
 
   /**
    * Calculate all probabilities for KOLs in a market
-   * Probabilities must sum to 100%
+   * These are the LMSR marginal prices, so they always sum to 1
    */
-  calculateProbabilities(kolShares: KOLShare[]): Record<string, number> {
-    const totalInvested = kolShares.reduce((sum, share) => sum + share.totalInvested, 0);
-    
-    if (totalInvested === 0) {
-      // Equal probability for all KOLs when no bets placed
-      const equalProb = 1 / kolShares.length;
-      return kolShares.reduce((acc, share) => ({
-        ...acc,
-        [share.kolAddress]: equalProb
-      }), {});
-    }
-    
-    // Probability based on investment share with softmax normalization
-    const softmaxDenominator = kolShares.reduce((sum, share) => {
-      const marketShare = share.totalInvested / totalInvested;
-      return sum + Math.exp(marketShare * 5); // Scale factor for sharpness
-    }, 0);
-    
-    return kolShares.reduce((acc, share) => {
-      const marketShare = share.totalInvested / totalInvested;
-      const probability = Math.exp(marketShare * 5) / softmaxDenominator;
-      return {
-        ...acc,
-        [share.kolAddress]: Math.round(probability * 10000) / 10000
-      };
+  calculateProbabilities(
+    kolShares: KOLShare[],
+    liquidity: number = TRADING_CONFIG.LIQUIDITY_PARAMETER
+  ): Record<string, number> {
+    if (kolShares.length === 0) return {};
+
+    const quantities = this.scaledQuantities(kolShares, liquidity);
+    const normalizer = this.logSumExp(quantities);
+
+    return kolShares.reduce<Record<string, number>>((acc, share, index) => {
+      acc[share.kolAddress] = Math.exp(quantities[index] - normalizer);
+      return acc;
     }, {});
   }
 
+  /**
+   * Exact PILLS cost of buying shareAmount shares of a KOL: C(q + Δ) - C(q)
+   */
+  calculateBuyCost(
+    kolShares: KOLShare[],
+    kolAddress: Address,
+    shareAmount: number,
+    liquidity: number = TRADING_CONFIG.LIQUIDITY_PARAMETER
+  ): number {
+    if (!kolShares.some(share => share.kolAddress === kolAddress)) {
+      throw new Error('KOL not found in market');
+    }
+
+    const before = this.logSumExp(this.scaledQuantities(kolShares, liquidity));
+    const after = this.logSumExp(this.scaledQuantities(kolShares, liquidity, kolAddress, shareAmount));
+    return liquidity * (after - before);
+  }
+
+  /**
+   * Exact PILLS returned for selling shareAmount shares of a KOL: C(q) - C(q - Δ)
+   */
+  calculateSellProceeds(
+    kolShares: KOLShare[],
+    kolAddress: Address,
+    shareAmount: number,
+    liquidity: number = TRADING_CONFIG.LIQUIDITY_PARAMETER
+  ): number {
+    return -this.calculateBuyCost(kolShares, kolAddress, -shareAmount, liquidity);
+  }
+
+  /**
+   * Number of shares a PILLS amount buys, inverting the cost function:
+   * Δ = b * ln((exp(c / b) - 1 + p) / p)
+   */
+  calculateSharesForAmount(
+    kolShares: KOLShare[],
+    kolAddress: Address,
+    pillsAmount: number,
+    liquidity: number = TRADING_CONFIG.LIQUIDITY_PARAMETER
+  ): number {
+    if (pillsAmount <= 0) return 0;
+
+    const price = this.calculateSharePrice(kolShares, kolAddress, 0, true, liquidity);
+    const scaledAmount = pillsAmount / liquidity;
+
+    // Factor exp(c / b) out of the numerator so large amounts don't overflow
+    return liquidity * (scaledAmount + Math.log1p(-(1 - price) * Math.exp(-scaledAmount)) - Math.log(price));
+  }
+
+  /**
+   * Worst-case market maker subsidy for a market with the given number of KOLs
+   */
+  getMaxMarketMakerLoss(
+    kolCount: number,
+    liquidity: number = TRADING_CONFIG.LIQUIDITY_PARAMETER
+  ): number {
+    return kolCount > 0 ? liquidity * Math.log(kolCount) : 0;
+  }
+
+  /**
+   * Quote a trade exactly against the cost function
+   * amount is PILLS to spend for buys and shares to sell for sells
+   */
+  quoteTrade(
+    kolShares: KOLShare[],
+    kolAddress: Address,
+    type: 'buy' | 'sell',
+    amount: number,
+    liquidity: number = TRADING_CONFIG.LIQUIDITY_PARAMETER
+  ): TradeQuote {
+    const currentPrice = this.calculateSharePrice(kolShares, kolAddress, 0, true, liquidity);
+    const isBuy = type === 'buy';
+
+    const shares = isBuy
+      ? this.calculateSharesForAmount(kolShares, kolAddress, amount, liquidity)
+      : Math.max(0, amount);
+    const pillsAmount = isBuy
+      ? Math.max(0, amount)
+      : this.calculateSellProceeds(kolShares, kolAddress, shares, liquidity);
+
+    const newPrice = this.calculateSharePrice(kolShares, kolAddress, shares, isBuy, liquidity);
+    const averagePrice = shares > 0 ? pillsAmount / shares : currentPrice;
+    const priceImpact = currentPrice > 0 ? Math.abs(averagePrice - currentPrice) / currentPrice : 0;
+
+    return {
+      kolAddress,
+      type,
+      pillsAmount,
+      shares,
+      averagePrice,
+      currentPrice,
+      newPrice,
+      priceImpact,
+      // LMSR marginal price is the post-trade probability
+      postTradeProbability: newPrice,
+    };
+  }
+
+  /**
+   * Resolve slippage options into the minimum acceptable fill
+   * (shares for buys, PILLS for sells); undefined means unbounded
+   */
+  getMinimumFill(type: 'buy' | 'sell', options: SlippageOptions = {}): number | undefined {
+    const explicit = type === 'buy' ? options.minSharesOut : options.minPillsOut;
+    if (explicit !== undefined) return explicit;
+    if (!options.quote || options.maxSlippageBps === undefined) return undefined;
+
+    const expected = type === 'buy' ? options.quote.shares : options.quote.pillsAmount;
+    return expected * (1 - options.maxSlippageBps / 10000);
+  }
+
   /**
    * Execute a buy order
    */
@@ -97,19 +221,25 @@ export class PillsMarketEngine {
     periodId: string,
     kolAddress: Address,
     pillsAmount: number,
-    currentShares: KOLShare[]
+    currentShares: KOLShare[],
+    liquidity: number = TRADING_CONFIG.LIQUIDITY_PARAMETER,
+    minSharesOut?: number
   ): Promise<{ order: TradeOrder; newPrice: number; sharesReceived: number }> {
     // Validate minimum bet
     if (pillsAmount < TRADING_CONFIG.MIN_BET) {
       throw new Error(MarketError.INVALID_AMOUNT);
     }
 
-    // Calculate current price and shares received
-    const currentPrice = this.calculateSharePrice(currentShares, kolAddress, 0, true);
-    const sharesReceived = pillsAmount / currentPrice;
-    
-    // Calculate new price after purchase
-    const newPrice = this.calculateSharePrice(currentShares, kolAddress, pillsAmount, true);
+    // Shares are priced along the cost curve, not at the pre-trade price
+    const quote = this.quoteTrade(currentShares, kolAddress, 'buy', pillsAmount, liquidity);
+    const sharesReceived = quote.shares;
+    if (sharesReceived < TRADING_CONFIG.MIN_SHARES) {
+      throw new Error(MarketError.INVALID_AMOUNT);
+    }
+
+    if (minSharesOut !== undefined && sharesReceived < minSharesOut) {
+      throw new Error(MarketError.SLIPPAGE_EXCEEDED);
+    }
     
     const order: TradeOrder = {
       id: `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -118,13 +248,13 @@ export class PillsMarketEngine {
       kolAddress,
       type: 'buy',
       shares: sharesReceived,
-      pricePerShare: currentPrice,
+      pricePerShare: quote.averagePrice,
       totalValue: pillsAmount,
       status: 'pending',
       createdAt: Date.now(),
     };
     
-    return { order, newPrice, sharesReceived };
+    return { order, newPrice: quote.newPrice, sharesReceived };
   }
 
   /**
@@ -136,19 +266,26 @@ export class PillsMarketEngine {
     kolAddress: Address,
     sharesAmount: number,
     currentShares: KOLShare[],
-    userPosition: UserPosition
+    userPosition: UserPosition,
+    liquidity: number = TRADING_CONFIG.LIQUIDITY_PARAMETER,
+    minPillsOut?: number
   ): Promise<{ order: TradeOrder; newPrice: number; pillsReceived: number }> {
+    if (sharesAmount < TRADING_CONFIG.MIN_SHARES) {
+      throw new Error(MarketError.INVALID_AMOUNT);
+    }
+
     // Validate user has enough shares
     if (sharesAmount > userPosition.sharesOwned) {
       throw new Error(MarketError.INSUFFICIENT_FUNDS);
     }
 
-    // Calculate current price and PILLS received
-    const currentPrice = this.calculateSharePrice(currentShares, kolAddress, 0, false);
-    const pillsReceived = sharesAmount * currentPrice;
-    
-    // Calculate new price after sale
-    const newPrice = this.calculateSharePrice(currentShares, kolAddress, -pillsReceived, false);
+    // PILLS received is the exact drop in the cost function
+    const quote = this.quoteTrade(currentShares, kolAddress, 'sell', sharesAmount, liquidity);
+    const pillsReceived = quote.pillsAmount;
+
+    if (minPillsOut !== undefined && pillsReceived < minPillsOut) {
+      throw new Error(MarketError.SLIPPAGE_EXCEEDED);
+    }
     
     const order: TradeOrder = {
       id: `order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -157,13 +294,13 @@ export class PillsMarketEngine {
       kolAddress,
       type: 'sell',
       shares: sharesAmount,
-      pricePerShare: currentPrice,
+      pricePerShare: quote.averagePrice,
       totalValue: pillsReceived,
       status: 'pending',
       createdAt: Date.now(),
     };
     
-    return { order, newPrice, pillsReceived };
+    return { order, newPrice: quote.newPrice, pillsReceived };
   }
 
   /**
@@ -231,7 +368,6 @@ export class PillsMarketEngine {
     } else {
       // Sell order
       const newTotalShares = existingPosition.sharesOwned - order.shares;
-      const realizedPnL = (order.pricePerShare - existingPosition.averagePrice) * order.shares;
       
       if (newTotalShares <= 0) {
         // Position closed
@@ -265,21 +401,26 @@ export class PillsMarketEngine {
     const totalVolume = kolShares.reduce((sum, share) => sum + share.totalInvested, 0);
     const totalShares = kolShares.reduce((sum, share) => sum + share.totalShares, 0);
     
+    // Marginal prices double as probabilities under LMSR
+    const probabilities = this.calculateProbabilities(kolShares, period.liquidityParameter);
+    const pricedShares = kolShares.map(share => ({
+      ...share,
+      pricePerShare: probabilities[share.kolAddress] || 0,
+      probability: probabilities[share.kolAddress] || 0,
+    }));
+    
     // Find most popular and current favorite
-    const mostPopular = kolShares.reduce((max, share) => 
+    const mostPopular = pricedShares.reduce((max, share) => 
       share.totalInvested > (max?.totalInvested || 0) ? share : max
-    , kolShares[0])?.kolAddress;
+    , pricedShares[0])?.kolAddress;
     
-    const currentFavorite = kolShares.reduce((max, share) =>
+    const currentFavorite = pricedShares.reduce((max, share) =>
       share.probability > (max?.probability || 0) ? share : max
-    , kolShares[0])?.kolAddress;
+    , pricedShares[0])?.kolAddress;
     
     return {
       period,
-      kolShares: kolShares.map(share => ({
-        ...share,
-        probability: this.calculateProbabilities(kolShares)[share.kolAddress] || 0
-      })),
+      kolShares: pricedShares,
       totalVolume,
       activeTraders,
       totalShares,
@@ -289,29 +430,116 @@ export class PillsMarketEngine {
   }
 
   /**
-   * Calculate market resolution payouts
+   * Compare two KOLs' standings: negative if a ranks above b, 0 if level
+   */
+  private compareStandings(
+    a: Omit<KOLRankingEntry, 'rank'>,
+    b: Omit<KOLRankingEntry, 'rank'>,
+    rules: ResolutionRules
+  ): number {
+    if (Math.abs(a.pnlSol - b.pnlSol) > rules.pnlTolerance) {
+      return b.pnlSol - a.pnlSol;
+    }
+    for (const tieBreaker of rules.tieBreakers) {
+      if (a[tieBreaker] !== b[tieBreaker]) {
+        return b[tieBreaker] - a[tieBreaker];
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Rank KOLs by PnL, then by the tie-breakers in order
+   * KOLs still level share a rank; address order only fixes display order
+   */
+  rankKOLs(
+    standings: Array<Omit<KOLRankingEntry, 'rank'>>,
+    rules: ResolutionRules = RESOLUTION_CONFIG
+  ): KOLRankingEntry[] {
+    const sorted = [...standings].sort((a, b) =>
+      this.compareStandings(a, b, rules) || a.kolAddress.localeCompare(b.kolAddress)
+    );
+
+    const ranking: KOLRankingEntry[] = [];
+    sorted.forEach((standing, index) => {
+      const previous = ranking[index - 1];
+      const rank = previous && this.compareStandings(previous, standing, rules) === 0
+        ? previous.rank
+        : index + 1;
+      ranking.push({ ...standing, rank });
+    });
+    return ranking;
+  }
+
+  /**
+   * Calculate market resolution payouts from the final ranking
+   * Dead heats split PAYOUT_PER_SHARE between the winners. Voids and markets
+   * where nobody holds a winner refund stakes instead; the caller fills in
+   * totalPayout for refunds from the period's orders.
    */
   calculateMarketResolution(
     periodId: string,
-    winningKOLAddress: Address,
     kolShares: KOLShare[],
-    finalRanking: Array<{ kolAddress: Address; rank: number; pnlSol: number }>
-  ) {
-    const winningKOLShare = kolShares.find(share => share.kolAddress === winningKOLAddress);
-    if (!winningKOLShare) throw new Error('Winning KOL not found');
-    
+    finalRanking: KOLRankingEntry[],
+    rules: ResolutionRules = RESOLUTION_CONFIG
+  ): MarketResolution {
+    if (finalRanking.length === 0) throw new Error('No KOLs to resolve');
+
+    // Net PILLS paid into the market maker across all KOLs
     const totalPrizePool = kolShares.reduce((sum, share) => sum + share.totalInvested, 0);
-    const totalWinningShares = winningKOLShare.totalShares;
-    const payoutPerShare = totalWinningShares > 0 ? totalPrizePool / totalWinningShares : 0;
-    
+    const resolvedAt = Date.now();
+
+    if (rules.voidOnNoActivity && finalRanking.every(entry => entry.totalTrades === 0)) {
+      return {
+        periodId,
+        reason: ResolutionReason.NO_ACTIVITY,
+        winners: [],
+        finalRanking,
+        payoutPerShare: 0,
+        totalWinningShares: 0,
+        totalPrizePool,
+        totalPayout: 0,
+        refundStakes: true,
+        resolvedAt,
+      };
+    }
+
+    const winners = finalRanking.filter(entry => entry.rank === 1).map(entry => entry.kolAddress);
+    const totalWinningShares = kolShares
+      .filter(share => winners.includes(share.kolAddress))
+      .reduce((sum, share) => sum + share.totalShares, 0);
+
+    let reason: ResolutionReason;
+    if (totalWinningShares <= 0) {
+      reason = ResolutionReason.NO_WINNING_HOLDERS;
+    } else if (winners.length > 1) {
+      reason = ResolutionReason.DEAD_HEAT;
+    } else if (
+      finalRanking.length > 1 &&
+      Math.abs(finalRanking[0].pnlSol - finalRanking[1].pnlSol) <= rules.pnlTolerance
+    ) {
+      reason = ResolutionReason.TIE_BREAK;
+    } else {
+      reason = ResolutionReason.WINNER;
+    }
+
+    const refundStakes = reason === ResolutionReason.NO_WINNING_HOLDERS && rules.refundWithoutWinningHolders;
+    // Every winning share redeems at face value (split for dead heats); any
+    // shortfall against the prize pool is the market maker subsidy, bounded by b * ln(n)
+    const payoutPerShare = refundStakes ? 0 : TRADING_CONFIG.PAYOUT_PER_SHARE / winners.length;
+
     return {
       periodId,
-      winner: winningKOLAddress,
+      reason,
+      winner: winners.length === 1 ? winners[0] : undefined,
+      winners,
       finalRanking,
       payoutPerShare,
       totalWinningShares,
       totalPrizePool,
-      resolvedAt: Date.now(),
+      totalPayout: totalWinningShares * payoutPerShare,
+      refundStakes,
+      resolvedAt,
     };
   }
 
@@ -5,7 +5,9 @@ import { type Address } from 'gill';
  */
 export const PILLS_TOKEN = {
   // This would be the actual $PILLS token mint address on Solana
-  mintAddress: 'PILLS1234567890123456789012345678901234567' as Address,
+  mintAddress: (process.env.NEXT_PUBLIC_PILLS_MINT_ADDRESS || 'PILLS1234567890123456789012345678901234567') as Address,
+  // Custodial wallet that receives deposits and pays out withdrawals
+  treasuryAddress: (process.env.NEXT_PUBLIC_PILLS_TREASURY_ADDRESS || '') as Address,
   symbol: 'PILLS',
   name: 'Pills Token',
   decimals: 6,
@@ -23,10 +25,16 @@ export interface MarketPeriod {
   startTime: number;
   /** End timestamp */
   endTime: number;
-  /** Whether this period is currently active */
+  /** Lifecycle state */
+  state: MarketState;
+  /** Trading halts at this timestamp, ahead of endTime */
+  tradingClosesAt: number;
+  /** Whether this period is currently accepting trades */
   isActive: boolean;
   /** Whether this period has been resolved */
   isResolved: boolean;
+  /** LMSR liquidity parameter (b) - higher values mean prices move less per trade */
+  liquidityParameter: number;
   /** Winning KOL address (if resolved) */
   winner?: Address;
   /** Total volume traded in this period */
@@ -107,6 +115,44 @@ export interface TradeOrder {
   filledAt?: number;
 }
 
+/**
+ * Trade Quote - exact fill for a prospective buy or sell against the current market
+ */
+export interface TradeQuote {
+  /** KOL address */
+  kolAddress: Address;
+  /** Order type */
+  type: 'buy' | 'sell';
+  /** PILLS paid (buy) or received (sell) */
+  pillsAmount: number;
+  /** Shares received (buy) or sold (sell) */
+  shares: number;
+  /** Average fill price per share in PILLS */
+  averagePrice: number;
+  /** Marginal price before the trade */
+  currentPrice: number;
+  /** Marginal price after the trade */
+  newPrice: number;
+  /** Relative distance between the average fill and the pre-trade price (0-1) */
+  priceImpact: number;
+  /** KOL probability once the trade is filled (0-1) */
+  postTradeProbability: number;
+}
+
+/**
+ * Slippage Options - bounds on how much worse than the quote a fill may be
+ */
+export interface SlippageOptions {
+  /** Quote the user was shown; maxSlippageBps is measured against it */
+  quote?: TradeQuote;
+  /** Maximum tolerated slippage in basis points */
+  maxSlippageBps?: number;
+  /** Minimum shares a buy must fill (overrides maxSlippageBps) */
+  minSharesOut?: number;
+  /** Minimum PILLS a sell must return (overrides maxSlippageBps) */
+  minPillsOut?: number;
+}
+
 /**
  * Market Summary - overall market stats for a period
  */
@@ -154,26 +200,43 @@ export interface UserPortfolio {
   };
 }
 
+/**
+ * KOL standing in a period's final ranking
+ */
+export interface KOLRankingEntry {
+  kolAddress: Address;
+  /** Competition rank: KOLs in a dead heat share a rank */
+  rank: number;
+  pnlSol: number;
+  /** Winning trades / total trades (0 without trades) */
+  winRate: number;
+  totalTrades: number;
+}
+
 /**
  * Market Resolution - final results when period ends
  */
 export interface MarketResolution {
   /** Market period */
   periodId: string;
-  /** Winning KOL address */
-  winner: Address;
+  /** How the period was settled */
+  reason: ResolutionReason;
+  /** Sole winning KOL address (unset for dead heats and voids) */
+  winner?: Address;
+  /** Every KOL whose shares pay out, more than one for a dead heat */
+  winners: Address[];
   /** Final leaderboard positions */
-  finalRanking: Array<{
-    kolAddress: Address;
-    rank: number;
-    pnlSol: number;
-  }>;
-  /** Payout per winning share */
+  finalRanking: KOLRankingEntry[];
+  /** Payout per winning share (0 when stakes are refunded) */
   payoutPerShare: number;
   /** Total winning shares */
   totalWinningShares: number;
   /** Total prize pool */
   totalPrizePool: number;
+  /** PILLS paid out as winnings or refunds (any excess over the prize pool is the house subsidy) */
+  totalPayout: number;
+  /** Whether stakes were refunded instead of paying winners */
+  refundStakes: boolean;
   /** Resolution timestamp */
   resolvedAt: number;
 }
@@ -182,8 +245,10 @@ export interface MarketResolution {
  * Real-time Market Event - for live updates
  */
 export interface MarketEvent {
-  /** Event type */
-  type: 'trade' | 'price_update' | 'new_period' | 'resolution';
+  /** Stream event ID, increasing; set once the event is persisted */
+  id?: string;
+  /** Event type (pnl_update carries a KOL's leaderboard PnL delta) */
+  type: 'trade' | 'price_update' | 'new_period' | 'resolution' | 'pnl_update';
   /** Event timestamp */
   timestamp: number;
   /** Period ID */
@@ -192,13 +257,61 @@ export interface MarketEvent {
   data: {
     kolAddress?: Address;
     userAddress?: Address;
+    orderType?: 'buy' | 'sell';
     shares?: number;
     price?: number;
     newPrice?: number;
     probability?: number;
+    totalShares?: number;
+    totalInvested?: number;
+    pnlDeltaSol?: number;
+    pnlDeltaUsd?: number;
+    signature?: string;
+    reason?: ResolutionReason;
+    winners?: Address[];
   };
 }
 
+/**
+ * PILLS deposit credited from an on-chain transfer to the treasury
+ */
+export interface PillsDeposit {
+  /** Transfer transaction signature */
+  signature: string;
+  /** Wallet that sent the PILLS */
+  userAddress: Address;
+  /** PILLS credited */
+  amount: number;
+  /** Slot the transfer landed in */
+  slot: number;
+  /** Block time of the transfer */
+  blockTime?: number;
+  /** Credit timestamp */
+  createdAt: number;
+}
+
+/**
+ * PILLS withdrawal from the custodial balance back to a wallet
+ */
+export interface PillsWithdrawal {
+  /** Withdrawal ID */
+  id: string;
+  /** Wallet whose balance was debited */
+  userAddress: Address;
+  /** Wallet the PILLS are sent to */
+  destinationAddress: Address;
+  /** PILLS withdrawn */
+  amount: number;
+  /** Withdrawal status */
+  status: 'requested' | 'completed' | 'rejected';
+  /** Payout transaction signature once completed */
+  signature?: string;
+  /** Request timestamp */
+  requestedAt: number;
+  /** Completion or rejection timestamp */
+  processedAt?: number;
+}
+
 /**
  * API Response Types
  */
@@ -233,6 +346,14 @@ export const TRADING_CONFIG = {
   MIN_SHARES: 0.01,
   /** Price precision (decimal places) */
   PRICE_PRECISION: 4,
+  /** Default LMSR liquidity parameter (b) for new periods */
+  LIQUIDITY_PARAMETER: 1000,
+  /** PILLS paid out per winning share at resolution */
+  PAYOUT_PER_SHARE: 1,
+  /** Default slippage tolerance for trades in basis points */
+  DEFAULT_MAX_SLIPPAGE_BPS: 100,
+  /** Trading halts this long before a period ends (ms) */
+  TRADING_HALT_MS: 5 * 60 * 1000,
 } as const;
 
 /**
@@ -246,6 +367,47 @@ export enum MarketState {
   CANCELLED = 'cancelled',
 }
 
+/**
+ * Resolution reason codes
+ */
+export enum ResolutionReason {
+  /** Single KOL with the highest PnL */
+  WINNER = 'winner',
+  /** KOLs level on PnL, decided by the tie-breakers */
+  TIE_BREAK = 'tie_break',
+  /** KOLs level after every tie-breaker, payout split between them */
+  DEAD_HEAT = 'dead_heat',
+  /** Void: no tracked KOL traded in the period, stakes refunded */
+  NO_ACTIVITY = 'no_activity',
+  /** Nobody held a winning KOL, stakes refunded */
+  NO_WINNING_HOLDERS = 'no_winning_holders',
+  /** Cancelled by an operator, stakes refunded */
+  CANCELLED = 'cancelled',
+}
+
+export type ResolutionTieBreaker = 'winRate' | 'totalTrades';
+
+export interface ResolutionRules {
+  /** Applied in order (higher wins) when KOLs finish level on PnL */
+  tieBreakers: readonly ResolutionTieBreaker[];
+  /** SOL PnL difference within which KOLs count as level */
+  pnlTolerance: number;
+  /** Void the market and refund stakes when no KOL traded */
+  voidOnNoActivity: boolean;
+  /** Refund stakes when nobody holds a winner, instead of keeping the pool for the house */
+  refundWithoutWinningHolders: boolean;
+}
+
+/**
+ * Default resolution rules
+ */
+export const RESOLUTION_CONFIG: ResolutionRules = {
+  tieBreakers: ['winRate', 'totalTrades'],
+  pnlTolerance: 1e-9,
+  voidOnNoActivity: true,
+  refundWithoutWinningHolders: true,
+};
+
 /**
  * Error Types
  */
@@ -256,4 +418,14 @@ export enum MarketError {
   POSITION_NOT_FOUND = 'position_not_found',
   TRANSACTION_FAILED = 'transaction_failed',
   ALREADY_RESOLVED = 'already_resolved',
+  SLIPPAGE_EXCEEDED = 'slippage_exceeded',
+  KOL_NOT_IN_MARKET = 'kol_not_in_market',
+}
+
+export enum BalanceError {
+  DEPOSITS_DISABLED = 'deposits_disabled',
+  DEPOSIT_NOT_FOUND = 'deposit_not_found',
+  NOT_A_DEPOSIT = 'not_a_deposit',
+  WITHDRAWAL_NOT_FOUND = 'withdrawal_not_found',
+  WITHDRAWAL_ALREADY_PROCESSED = 'withdrawal_already_processed',
 }
\ No newline at end of file
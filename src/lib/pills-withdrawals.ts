@@ -0,0 +1,151 @@
+/**
+ * PILLS withdrawals
+ * A request debits the user's balance into a pending account straight away;
+ * the treasury operator then sends the on-chain transfer and completes it,
+ * or rejects it and the PILLS are returned to the user
+ */
+
+import type { Address } from 'gill';
+import { query, transaction } from './database';
+import {
+  PENDING_WITHDRAWALS_ACCOUNT,
+  postLedgerTransaction,
+  TREASURY_ACCOUNT,
+  userAccount,
+} from './pills-ledger';
+import { BalanceError, MarketError, PILLS_TOKEN } from './pills-market-types';
+import type { PillsWithdrawal } from './pills-market-types';
+
+interface PillsWithdrawalRow {
+  id: string;
+  user_address: string;
+  destination_address: string;
+  amount: string;
+  status: PillsWithdrawal['status'];
+  signature: string | null;
+  requested_at: Date;
+  processed_at: Date | null;
+}
+
+function toPillsWithdrawal(row: PillsWithdrawalRow): PillsWithdrawal {
+  return {
+    id: row.id,
+    userAddress: row.user_address as Address,
+    destinationAddress: row.destination_address as Address,
+    amount: parseFloat(row.amount),
+    status: row.status,
+    signature: row.signature || undefined,
+    requestedAt: new Date(row.requested_at).getTime(),
+    processedAt: row.processed_at ? new Date(row.processed_at).getTime() : undefined,
+  };
+}
+
+/**
+ * Debit a user's balance and queue a withdrawal to their own wallet
+ */
+export async function requestWithdrawal(userAddress: Address, amount: number): Promise<PillsWithdrawal> {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error(MarketError.INVALID_AMOUNT);
+  }
+
+  const id = `withdrawal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  return await transaction(async (client) => {
+    const inserted = await client.query<PillsWithdrawalRow>(`
+      INSERT INTO pills_withdrawals (id, user_address, destination_address, amount)
+      VALUES ($1, $2, $2, $3)
+      RETURNING *
+    `, [id, userAddress, amount]);
+
+    await postLedgerTransaction(client, {
+      kind: 'withdrawal',
+      reference: `withdrawal:${id}`,
+      description: `Withdrawal of ${amount} ${PILLS_TOKEN.symbol} requested`,
+      entries: [
+        { account: userAccount(userAddress), amount: -amount },
+        { account: PENDING_WITHDRAWALS_ACCOUNT, amount },
+      ],
+    });
+
+    console.log(`📤 Withdrawal ${id} of ${amount} ${PILLS_TOKEN.symbol} requested by ${userAddress}`);
+    return toPillsWithdrawal(inserted.rows[0]);
+  });
+}
+
+/**
+ * Mark a requested withdrawal as paid out (signature) or rejected (refunded)
+ */
+export async function processWithdrawal(
+  id: string,
+  outcome: { status: 'completed'; signature: string } | { status: 'rejected' }
+): Promise<PillsWithdrawal> {
+  return await transaction(async (client) => {
+    const result = await client.query<PillsWithdrawalRow>(
+      'SELECT * FROM pills_withdrawals WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+    const withdrawal = result.rows[0] ? toPillsWithdrawal(result.rows[0]) : null;
+
+    if (!withdrawal) {
+      throw new Error(BalanceError.WITHDRAWAL_NOT_FOUND);
+    }
+    if (withdrawal.status !== 'requested') {
+      throw new Error(BalanceError.WITHDRAWAL_ALREADY_PROCESSED);
+    }
+
+    // Paid out: the PILLS leave the treasury. Rejected: back to the user.
+    const destination = outcome.status === 'completed'
+      ? TREASURY_ACCOUNT
+      : userAccount(withdrawal.userAddress);
+
+    await postLedgerTransaction(client, {
+      kind: 'withdrawal',
+      reference: `withdrawal:${id}:${outcome.status}`,
+      description: `Withdrawal of ${withdrawal.amount} ${PILLS_TOKEN.symbol} ${outcome.status}`,
+      entries: [
+        { account: PENDING_WITHDRAWALS_ACCOUNT, amount: -withdrawal.amount },
+        { account: destination, amount: withdrawal.amount },
+      ],
+    });
+
+    const updated = await client.query<PillsWithdrawalRow>(`
+      UPDATE pills_withdrawals SET
+        status = $2,
+        signature = $3,
+        processed_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    `, [id, outcome.status, outcome.status === 'completed' ? outcome.signature : null]);
+
+    console.log(`📤 Withdrawal ${id} ${outcome.status}`);
+    return toPillsWithdrawal(updated.rows[0]);
+  });
+}
+
+/**
+ * Most recent withdrawals for a user
+ */
+export async function getUserWithdrawals(userAddress: string, limit = 50): Promise<PillsWithdrawal[]> {
+  const rows = await query<PillsWithdrawalRow>(`
+    SELECT * FROM pills_withdrawals
+    WHERE user_address = $1
+    ORDER BY requested_at DESC
+    LIMIT $2
+  `, [userAddress, limit]);
+
+  return rows.map(toPillsWithdrawal);
+}
+
+/**
+ * Withdrawals waiting for the treasury operator, oldest first
+ */
+export async function getPendingWithdrawals(limit = 100): Promise<PillsWithdrawal[]> {
+  const rows = await query<PillsWithdrawalRow>(`
+    SELECT * FROM pills_withdrawals
+    WHERE status = 'requested'
+    ORDER BY requested_at ASC
+    LIMIT $1
+  `, [limit]);
+
+  return rows.map(toPillsWithdrawal);
+}
@@ -0,0 +1,125 @@
+/**
+ * Cost-basis accounting for a KOL's position in one token
+ * Fills are replayed in chain order; buys add their cost (fees included) to
+ * the position, sells realize proceeds (net of fees) against the cost of the
+ * tokens they close, by average cost or FIFO lots
+ */
+
+export type CostBasisMethod = 'average' | 'fifo';
+
+const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'average';
+
+export interface PositionFill {
+  type: 'buy' | 'sell';
+  tokenAmount: number;
+  /** SOL paid or received by the swap itself */
+  solAmount: number;
+  /** Network fees paid on top, in SOL */
+  feeSol: number;
+}
+
+interface PositionLot {
+  tokenAmount: number;
+  costSol: number;
+}
+
+export interface PositionState {
+  /** Tokens still held */
+  tokensHeld: number;
+  /** Cost of the tokens still held */
+  costBasisSol: number;
+  /** PnL realized by sells so far */
+  realizedPnlSol: number;
+  /** Open lots, oldest first (FIFO only) */
+  lots: PositionLot[];
+}
+
+/**
+ * Configured cost-basis method, average cost unless PNL_COST_BASIS_METHOD=fifo
+ */
+export function getCostBasisMethod(): CostBasisMethod {
+  return process.env.PNL_COST_BASIS_METHOD === 'fifo' ? 'fifo' : DEFAULT_COST_BASIS_METHOD;
+}
+
+export function emptyPosition(): PositionState {
+  return { tokensHeld: 0, costBasisSol: 0, realizedPnlSol: 0, lots: [] };
+}
+
+/**
+ * Apply one fill; returns the new state and the PnL the fill realized
+ * Tokens sold beyond what the position holds (bought before tracking began)
+ * have no known cost, so that share of the proceeds is left unrealized
+ */
+export function applyFill(
+  state: PositionState,
+  fill: PositionFill,
+  method: CostBasisMethod = getCostBasisMethod()
+): { state: PositionState; realizedPnlSol: number } {
+  if (fill.tokenAmount <= 0) {
+    return { state, realizedPnlSol: 0 };
+  }
+
+  if (fill.type === 'buy') {
+    const costSol = fill.solAmount + fill.feeSol;
+    return {
+      state: {
+        ...state,
+        tokensHeld: state.tokensHeld + fill.tokenAmount,
+        costBasisSol: state.costBasisSol + costSol,
+        lots: method === 'fifo' ? [...state.lots, { tokenAmount: fill.tokenAmount, costSol }] : state.lots,
+      },
+      realizedPnlSol: 0,
+    };
+  }
+
+  const closedTokens = Math.min(fill.tokenAmount, state.tokensHeld);
+  if (closedTokens <= 0) {
+    return { state, realizedPnlSol: 0 };
+  }
+
+  const proceedsSol = (fill.solAmount - fill.feeSol) * (closedTokens / fill.tokenAmount);
+
+  let closedCostSol = 0;
+  let lots = state.lots;
+  if (method === 'fifo') {
+    lots = [];
+    let remaining = closedTokens;
+    for (const lot of state.lots) {
+      if (remaining <= 0) {
+        lots.push(lot);
+        continue;
+      }
+      const taken = Math.min(lot.tokenAmount, remaining);
+      const takenCost = lot.costSol * (taken / lot.tokenAmount);
+      closedCostSol += takenCost;
+      remaining -= taken;
+      if (taken < lot.tokenAmount) {
+        lots.push({ tokenAmount: lot.tokenAmount - taken, costSol: lot.costSol - takenCost });
+      }
+    }
+  } else {
+    closedCostSol = state.costBasisSol * (closedTokens / state.tokensHeld);
+  }
+
+  const realizedPnlSol = proceedsSol - closedCostSol;
+  const tokensHeld = state.tokensHeld - closedTokens;
+
+  return {
+    state: {
+      tokensHeld,
+      // Fully closed positions drop any rounding dust
+      costBasisSol: tokensHeld > 0 ? state.costBasisSol - closedCostSol : 0,
+      realizedPnlSol: state.realizedPnlSol + realizedPnlSol,
+      lots: tokensHeld > 0 ? lots : [],
+    },
+    realizedPnlSol,
+  };
+}
+
+/**
+ * Unrealized PnL of the tokens still held at a mark price (SOL per token)
+ */
+export function getUnrealizedPnl(state: PositionState, markPriceSol: number): number {
+  if (state.tokensHeld <= 0) return 0;
+  return state.tokensHeld * markPriceSol - state.costBasisSol;
+}
@@ -0,0 +1,282 @@
+/**
+ * Reconciliation between webhook deliveries and the chain
+ * For each KOL wallet and leaderboard period, the wallet's signatures from
+ * RPC, over the part of the period it was linked, are compared with the
+ * signatures recorded for it in trade_transactions. Swaps Helius never
+ * delivered (missing) are fed through the backfill pipeline;
+ * recorded signatures absent from the wallet's history (extra) are reported.
+ * Every check is kept in reconciliation_runs and summarized in /api/health.
+ */
+
+import type { Address } from 'gill';
+import { query } from './database';
+import { getEpoch, toLeaderboardPeriodId } from './epoch-calendar';
+import type { Epoch } from './epoch-calendar';
+import { getPeriodRosterWallets } from './kol-db';
+import { getMonitoredWallets } from './kol-registry';
+import { createRpcBackfillSource, getWalletSignatures, ingestSignatures } from './trade-backfill';
+import type { BackfillSource } from './trade-backfill';
+import { getWalletTransactionSignatures } from './trade-db';
+import type { KOLWalletMap } from './trade-decoder';
+
+const RECONCILE_INTERVAL_MS = 15 * 60 * 1000;
+// Deliveries still in flight at the end of the window aren't counted as missing
+const SETTLE_DELAY_MS = 5 * 60 * 1000;
+
+export type ReconciliationStatus = 'ok' | 'repaired' | 'gaps' | 'error';
+
+export interface ReconciliationRun {
+  /** KOL wallet that was checked */
+  kolAddress: Address;
+  periodId: string;
+  /** ok: nothing missing; repaired: every missing swap was backfilled; gaps: something is still off */
+  status: ReconciliationStatus;
+  chainSignatures: number;
+  recordedSignatures: number;
+  /** On chain with KOL swaps but not recorded */
+  missingSignatures: string[];
+  /** Recorded but not in the wallet's history */
+  extraSignatures: string[];
+  backfilled: number;
+  failed: number;
+  errorMessage?: string;
+  startedAt: number;
+  completedAt: number;
+}
+
+export interface WalletLinkWindow {
+  /** When the wallet was linked to its KOL (ms) */
+  addedAt?: number;
+  /** When the wallet was unlinked (ms) */
+  removedAt?: number;
+  /** Wallets to decode against, keyed to their KOL */
+  wallets?: KOLWalletMap;
+}
+
+export interface ReconciliationSummary {
+  periodId: string;
+  lastRunAt: number;
+  /** KOL wallets checked */
+  kolsChecked: number;
+  missing: number;
+  backfilled: number;
+  /** Missing swaps that failed to backfill plus extra signatures */
+  unresolved: number;
+  errors: number;
+  status: 'ok' | 'gaps';
+}
+
+interface ReconciliationSummaryRow {
+  period_id: string;
+  last_run_at: Date;
+  kols_checked: string;
+  missing: string;
+  backfilled: string;
+  unresolved: string;
+  errors: string;
+}
+
+async function saveReconciliationRun(run: ReconciliationRun): Promise<void> {
+  await query(`
+    INSERT INTO reconciliation_runs (
+      kol_wallet_address, period_id, status, chain_signatures, recorded_signatures,
+      missing_signatures, extra_signatures, backfilled, failed, error_message, started_at, completed_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+  `, [
+    run.kolAddress,
+    run.periodId,
+    run.status,
+    run.chainSignatures,
+    run.recordedSignatures,
+    JSON.stringify(run.missingSignatures),
+    JSON.stringify(run.extraSignatures),
+    run.backfilled,
+    run.failed,
+    run.errorMessage || null,
+    new Date(run.startedAt),
+    new Date(run.completedAt),
+  ]);
+}
+
+/**
+ * Reconcile one KOL wallet's recorded trades for a period against the chain,
+ * limited to the part of the period the wallet was linked
+ */
+export async function reconcileKOLPeriod(
+  kolAddress: Address,
+  epoch: Pick<Epoch, 'startTime' | 'endTime'>,
+  source: BackfillSource = createRpcBackfillSource(),
+  now: number = Date.now(),
+  link: WalletLinkWindow = {}
+): Promise<ReconciliationRun> {
+  const run: ReconciliationRun = {
+    kolAddress,
+    periodId: toLeaderboardPeriodId(epoch),
+    status: 'ok',
+    chainSignatures: 0,
+    recordedSignatures: 0,
+    missingSignatures: [],
+    extraSignatures: [],
+    backfilled: 0,
+    failed: 0,
+    startedAt: now,
+    completedAt: now,
+  };
+
+  try {
+    const window = {
+      startTime: Math.max(epoch.startTime, link.addedAt ?? epoch.startTime),
+      endTime: Math.min(epoch.endTime, link.removedAt ?? epoch.endTime, now - SETTLE_DELAY_MS),
+    };
+    const chain = window.startTime < window.endTime ? await getWalletSignatures(kolAddress, window, source) : [];
+    const recordedSignatures = await getWalletTransactionSignatures(kolAddress, window.startTime, window.endTime);
+
+    const chainSignatures = new Set(chain.map(entry => entry.signature));
+    run.chainSignatures = chainSignatures.size;
+    run.recordedSignatures = recordedSignatures.size;
+
+    // Most unrecorded signatures are transfers and other non-swaps; only
+    // those that decode to KOL swaps are missing deliveries
+    const unrecorded = [...chainSignatures].filter(signature => !recordedSignatures.has(signature));
+    const ingested = await ingestSignatures(kolAddress, unrecorded, source, link.wallets);
+
+    run.missingSignatures = [...ingested.recorded, ...ingested.failed];
+    run.extraSignatures = [...recordedSignatures].filter(signature => !chainSignatures.has(signature));
+    run.backfilled = ingested.recorded.length;
+    run.failed = ingested.failed.length;
+
+    if (run.failed > 0 || run.extraSignatures.length > 0) {
+      run.status = 'gaps';
+    } else if (run.backfilled > 0) {
+      run.status = 'repaired';
+    }
+
+  } catch (error) {
+    console.error(`❌ Reconciliation failed for ${kolAddress} in ${run.periodId}:`, error);
+    run.status = 'error';
+    run.errorMessage = error instanceof Error ? error.message : String(error);
+  }
+
+  run.completedAt = Date.now();
+  await saveReconciliationRun(run);
+
+  if (run.status !== 'ok') {
+    console.log(`⚠️  Reconciled ${kolAddress} in ${run.periodId}: ${run.status}, ${run.missingSignatures.length} missing (${run.backfilled} backfilled), ${run.extraSignatures.length} extra`);
+  }
+  return run;
+}
+
+/**
+ * Reconcile every wallet the KOLs on a period's roster had linked during it
+ * (the active KOLs' wallets if the period was never opened), skipping wallets
+ * already reconciled for it unless `force` is set
+ */
+export async function reconcilePeriod(
+  epoch: Pick<Epoch, 'startTime' | 'endTime'>,
+  options: { force?: boolean; source?: BackfillSource } = {}
+): Promise<ReconciliationRun[]> {
+  const periodId = toLeaderboardPeriodId(epoch);
+  const done = options.force
+    ? []
+    : await query<{ kol_wallet_address: string }>(
+      "SELECT DISTINCT kol_wallet_address FROM reconciliation_runs WHERE period_id = $1 AND status <> 'error'",
+      [periodId]
+    );
+  const doneAddresses = new Set(done.map(row => row.kol_wallet_address));
+
+  const roster = await getPeriodRosterWallets(periodId, epoch.startTime, epoch.endTime);
+  const links: Array<{ wallet: Address } & WalletLinkWindow> = roster.map(row => ({
+    wallet: row.wallet_address as Address,
+    addedAt: new Date(row.added_at).getTime(),
+    removedAt: row.removed_at ? new Date(row.removed_at).getTime() : undefined,
+  }));
+  let wallets: KOLWalletMap = new Map(roster.map(row => [row.wallet_address as Address, row.kol_wallet_address as Address]));
+  if (roster.length === 0) {
+    wallets = await getMonitoredWallets();
+    links.push(...[...wallets.keys()].map(wallet => ({ wallet })));
+  }
+
+  const source = options.source || createRpcBackfillSource();
+  const now = Date.now();
+  const runs: ReconciliationRun[] = [];
+  for (const link of links) {
+    if (doneAddresses.has(link.wallet)) continue;
+    runs.push(await reconcileKOLPeriod(link.wallet, epoch, source, now, { ...link, wallets }));
+  }
+  return runs;
+}
+
+/**
+ * Results of the most recently reconciled period, null before the first run
+ */
+export async function getReconciliationSummary(): Promise<ReconciliationSummary | null> {
+  const rows = await query<ReconciliationSummaryRow>(`
+    WITH latest AS (
+      SELECT DISTINCT ON (kol_wallet_address) *
+      FROM reconciliation_runs
+      WHERE period_id = (SELECT period_id FROM reconciliation_runs ORDER BY completed_at DESC LIMIT 1)
+      ORDER BY kol_wallet_address, completed_at DESC
+    )
+    SELECT
+      MAX(period_id) AS period_id,
+      MAX(completed_at) AS last_run_at,
+      COUNT(*) AS kols_checked,
+      COALESCE(SUM(jsonb_array_length(missing_signatures)), 0) AS missing,
+      COALESCE(SUM(backfilled), 0) AS backfilled,
+      COALESCE(SUM(failed + jsonb_array_length(extra_signatures)), 0) AS unresolved,
+      COUNT(*) FILTER (WHERE status = 'error') AS errors
+    FROM latest
+    HAVING COUNT(*) > 0
+  `);
+
+  const row = rows[0];
+  if (!row) return null;
+
+  const unresolved = parseInt(row.unresolved, 10);
+  const errors = parseInt(row.errors, 10);
+  return {
+    periodId: row.period_id,
+    lastRunAt: new Date(row.last_run_at).getTime(),
+    kolsChecked: parseInt(row.kols_checked, 10),
+    missing: parseInt(row.missing, 10),
+    backfilled: parseInt(row.backfilled, 10),
+    unresolved,
+    errors,
+    status: unresolved > 0 || errors > 0 ? 'gaps' : 'ok',
+  };
+}
+
+let reconcileTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Reconcile each period once it has ended, checking every 15 minutes
+ */
+export function startReconciliationWorker(): void {
+  if (reconcileTimer) return;
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const now = Date.now();
+      const previousEpoch = getEpoch(getEpoch(now).startTime - 1);
+      // Wait until late deliveries for the period have settled
+      if (now >= previousEpoch.endTime + SETTLE_DELAY_MS) {
+        const runs = await reconcilePeriod(previousEpoch);
+        if (runs.length > 0) {
+          console.log(`✅ Reconciled ${runs.length} KOL wallet(s) for ${toLeaderboardPeriodId(previousEpoch)}`);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Reconciliation worker run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  console.log('⏰ Starting reconciliation worker');
+  reconcileTimer = setInterval(run, RECONCILE_INTERVAL_MS);
+  void run();
+}
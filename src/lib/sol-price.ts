@@ -0,0 +1,295 @@
+/**
+ * SOL/USD price oracle
+ * Prices come from a pluggable provider (Helius price_info, a configurable
+ * HTTP source, or a fixture file for offline runs) and are recorded as
+ * snapshots in sol_price_snapshots, so trades are converted at the price
+ * closest to their block time rather than the price when they're read. Legs
+ * with no price near their block time are recorded unpriced (their SOL PnL
+ * still counts) and priced once one turns up.
+ */
+
+import { readFile } from 'fs/promises';
+import { query } from './database';
+import { getUnpricedTransactions, refreshTradePnlUsd, setTransactionSolPrice } from './trade-db';
+
+const HELIUS_RPC_URL = 'https://mainnet.helius-rpc.com/';
+const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+const PROVIDER_TIMEOUT_MS = 10000;
+
+// A snapshot this close to a timestamp is used as is
+const SNAPSHOT_MAX_AGE_MS = 5 * 60 * 1000;
+// Furthest a snapshot may be from a timestamp the provider couldn't price
+const SNAPSHOT_FALLBACK_MAX_AGE_MS = 60 * 60 * 1000;
+// Providers without history only price timestamps this close to now
+const LIVE_PRICE_WINDOW_MS = 5 * 60 * 1000;
+// How often the recorder takes a snapshot
+const RECORD_INTERVAL_MS = 5 * 60 * 1000;
+// Legs priced per page when filling in missing prices
+const FILL_PAGE_SIZE = 200;
+
+export type SolPriceProviderName = 'helius' | 'http' | 'fixture';
+
+export interface SolPriceProvider {
+  name: SolPriceProviderName;
+  /** SOL/USD at a timestamp (ms), null if the provider can't price it */
+  getPrice(timestamp: number): Promise<number | null>;
+}
+
+interface SolPriceSnapshotRow {
+  price_usd: string;
+  recorded_at: Date;
+}
+
+interface SolPriceFixtureEntry {
+  /** Unix time in ms */
+  timestamp: number;
+  priceUsd: number;
+}
+
+function isLive(timestamp: number): boolean {
+  return Math.abs(Date.now() - timestamp) <= LIVE_PRICE_WINDOW_MS;
+}
+
+function toPrice(value: unknown): number | null {
+  const price = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof price === 'number' && Number.isFinite(price) && price > 0 ? price : null;
+}
+
+/**
+ * Current price from the price_info Helius DAS returns for wrapped SOL
+ */
+export function createHeliusPriceProvider(apiKey = process.env.HELIUS_API_KEY): SolPriceProvider {
+  return {
+    name: 'helius',
+    async getPrice(timestamp) {
+      if (!apiKey || !isLive(timestamp)) return null;
+
+      const response = await fetch(`${HELIUS_RPC_URL}?api-key=${apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 'sol-price',
+          method: 'getAsset',
+          params: { id: WRAPPED_SOL_MINT, displayOptions: { showFungible: true } },
+        }),
+        signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+      });
+      const body = await response.json();
+      return toPrice(body.result?.token_info?.price_info?.price_per_token);
+    },
+  };
+}
+
+/**
+ * Price from a JSON HTTP endpoint
+ * A {timestamp} placeholder in the URL (unix seconds) makes it a historical
+ * source; without one it only prices the present. The price is read from the
+ * dotted field path, `price` by default.
+ */
+export function createHttpPriceProvider(
+  url = process.env.SOL_PRICE_HTTP_URL,
+  field = process.env.SOL_PRICE_HTTP_FIELD || 'price'
+): SolPriceProvider {
+  const isHistorical = !!url?.includes('{timestamp}');
+
+  return {
+    name: 'http',
+    async getPrice(timestamp) {
+      if (!url || (!isHistorical && !isLive(timestamp))) return null;
+
+      const response = await fetch(url.replace('{timestamp}', String(Math.floor(timestamp / 1000))), {
+        signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`SOL price request failed with status ${response.status}`);
+      }
+
+      const body: unknown = await response.json();
+      const value = field.split('.').reduce<unknown>(
+        (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+        body
+      );
+      return toPrice(value);
+    },
+  };
+}
+
+/**
+ * Prices from a JSON file of { timestamp, priceUsd } entries; each timestamp
+ * gets the latest entry at or before it (the earliest one before the file starts)
+ */
+export function createFixturePriceProvider(path = process.env.SOL_PRICE_FIXTURE_PATH): SolPriceProvider {
+  let entries: Promise<SolPriceFixtureEntry[]> | null = null;
+
+  return {
+    name: 'fixture',
+    async getPrice(timestamp) {
+      if (!path) return null;
+
+      entries ??= readFile(path, 'utf8').then(text =>
+        (JSON.parse(text) as SolPriceFixtureEntry[]).sort((a, b) => a.timestamp - b.timestamp)
+      );
+      const sorted = await entries;
+      if (sorted.length === 0) return null;
+
+      const entry = sorted.filter(item => item.timestamp <= timestamp).pop() ?? sorted[0];
+      return toPrice(entry.priceUsd);
+    },
+  };
+}
+
+let provider: SolPriceProvider | null = null;
+
+function getProviderName(): SolPriceProviderName {
+  const name = process.env.SOL_PRICE_PROVIDER;
+  return name === 'http' || name === 'fixture' ? name : 'helius';
+}
+
+/**
+ * Provider selected by SOL_PRICE_PROVIDER (helius, http or fixture), Helius by
+ * default; chosen again if the setting changes
+ */
+export function getSolPriceProvider(): SolPriceProvider {
+  const name = getProviderName();
+  if (provider?.name !== name) {
+    switch (name) {
+      case 'http':
+        provider = createHttpPriceProvider();
+        break;
+      case 'fixture':
+        provider = createFixturePriceProvider();
+        break;
+      default:
+        provider = createHeliusPriceProvider();
+    }
+  }
+  return provider;
+}
+
+/**
+ * Record a price snapshot; the first snapshot inside a leaderboard period
+ * also becomes that period's sol_price_usd
+ */
+export async function recordSolPriceSnapshot(
+  priceUsd: number,
+  recordedAt: number,
+  source: string
+): Promise<void> {
+  await query(`
+    INSERT INTO sol_price_snapshots (price_usd, source, recorded_at)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (source, recorded_at) DO NOTHING
+  `, [priceUsd, source, new Date(recordedAt)]);
+
+  await query(`
+    UPDATE leaderboard_periods SET sol_price_usd = $1
+    WHERE sol_price_usd IS NULL AND start_time <= $2 AND end_time > $2
+  `, [priceUsd, new Date(recordedAt)]);
+}
+
+async function findNearestSnapshot(timestamp: number): Promise<SolPriceSnapshotRow | null> {
+  const rows = await query<SolPriceSnapshotRow>(`
+    (SELECT price_usd, recorded_at FROM sol_price_snapshots
+      WHERE recorded_at <= $1 ORDER BY recorded_at DESC LIMIT 1)
+    UNION ALL
+    (SELECT price_usd, recorded_at FROM sol_price_snapshots
+      WHERE recorded_at > $1 ORDER BY recorded_at ASC LIMIT 1)
+  `, [new Date(timestamp)]);
+
+  let nearest: SolPriceSnapshotRow | null = null;
+  for (const row of rows) {
+    const distance = Math.abs(new Date(row.recorded_at).getTime() - timestamp);
+    if (!nearest || distance < Math.abs(new Date(nearest.recorded_at).getTime() - timestamp)) {
+      nearest = row;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * SOL/USD at a timestamp (ms)
+ * Uses a recorded snapshot within a few minutes, otherwise asks the provider
+ * (recording what it returns), and falls back to the nearest snapshot within
+ * an hour. Null when nothing that close is available.
+ */
+export async function getSolPriceAt(timestamp: number = Date.now()): Promise<number | null> {
+  const nearest = await findNearestSnapshot(timestamp);
+  if (nearest && Math.abs(new Date(nearest.recorded_at).getTime() - timestamp) <= SNAPSHOT_MAX_AGE_MS) {
+    return parseFloat(nearest.price_usd);
+  }
+
+  const source = getSolPriceProvider();
+  try {
+    const price = await source.getPrice(timestamp);
+    if (price !== null) {
+      await recordSolPriceSnapshot(price, timestamp, source.name);
+      return price;
+    }
+  } catch (error) {
+    console.error(`❌ ${source.name} SOL price provider failed:`, error);
+  }
+
+  if (nearest && Math.abs(new Date(nearest.recorded_at).getTime() - timestamp) <= SNAPSHOT_FALLBACK_MAX_AGE_MS) {
+    console.warn(`⚠️  No SOL price near ${new Date(timestamp).toISOString()}, using snapshot from ${new Date(nearest.recorded_at).toISOString()}`);
+    return parseFloat(nearest.price_usd);
+  }
+  return null;
+}
+
+/**
+ * Price legs recorded without a SOL/USD price and recompute their trades' USD
+ * PnL; returns how many legs were priced
+ * Legs still without a price nearby are left for a later run.
+ */
+export async function fillMissingSolPrices(): Promise<number> {
+  const pricesByTime = new Map<number, number | null>();
+  const tradeIds = new Set<string>();
+  let priced = 0;
+
+  let page = await getUnpricedTransactions(FILL_PAGE_SIZE);
+  while (page.length > 0) {
+    for (const row of page) {
+      const blockTime = new Date(row.block_time).getTime();
+      if (!pricesByTime.has(blockTime)) {
+        pricesByTime.set(blockTime, await getSolPriceAt(blockTime));
+      }
+
+      const price = pricesByTime.get(blockTime);
+      if (price == null) continue;
+      await setTransactionSolPrice(row.id, price);
+      tradeIds.add(row.trade_id);
+      priced++;
+    }
+    page = page.length < FILL_PAGE_SIZE ? [] : await getUnpricedTransactions(FILL_PAGE_SIZE, page[page.length - 1]);
+  }
+
+  await refreshTradePnlUsd([...tradeIds]);
+  if (priced > 0) {
+    console.log(`💵 Priced ${priced} trade leg(s) recorded without a SOL price`);
+  }
+  return priced;
+}
+
+let recorderTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Snapshot the current price now and every few minutes, pricing any legs
+ * still waiting for one
+ */
+export function startSolPriceRecorder(): void {
+  if (recorderTimer) return;
+
+  const run = async () => {
+    try {
+      await getSolPriceAt(Date.now());
+      await fillMissingSolPrices();
+    } catch (error) {
+      console.error('❌ SOL price recorder run failed:', error);
+    }
+  };
+
+  console.log('⏰ Starting SOL price recorder');
+  recorderTimer = setInterval(run, RECORD_INTERVAL_MS);
+  void run();
+}
@@ -0,0 +1,275 @@
+/**
+ * Historical backfill of KOL trades
+ * Pages through a wallet's signatures over RPC, decodes each transaction with
+ * the same decoder the webhook uses and records it through the webhook
+ * processor, so re-running a window only adds what is missing. Signatures and
+ * transactions come from a BackfillSource: the gill RPC client, or a fixture
+ * file recorded from an earlier run for offline use.
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { address as toAddress, createSolanaClient, signature as toSignature } from 'gill';
+import type { Address, SolanaClient } from 'gill';
+import { getMonitoredWallets } from './kol-registry';
+import { decodeParsedTransaction } from './trade-decoder';
+import type { KOLWalletMap, ParsedRawTransaction } from './trade-decoder';
+import { findRecordedSignatures } from './trade-db';
+import { processWebhookTransaction } from './webhook-db-processor';
+
+const HELIUS_RPC_URL = 'https://mainnet.helius-rpc.com/';
+const SIGNATURE_PAGE_SIZE = 1000;
+
+export interface BackfillSignature {
+  signature: string;
+  slot: number;
+  /** Block time in seconds */
+  blockTime: number | null;
+  err: unknown;
+}
+
+/**
+ * Where the backfill reads a wallet's history from
+ */
+export interface BackfillSource {
+  /** Signatures newest first, starting before the given signature */
+  getSignatures(address: Address, options: { before?: string; limit: number }): Promise<BackfillSignature[]>;
+  getTransaction(signature: string): Promise<ParsedRawTransaction | null>;
+}
+
+/**
+ * Recorded RPC responses, as written by createRecordingBackfillSource
+ */
+export interface BackfillFixture {
+  /** Each wallet's signatures, newest first */
+  signatures: Record<string, BackfillSignature[]>;
+  transactions: Record<string, ParsedRawTransaction | null>;
+}
+
+export interface BackfillWindow {
+  /** Unix time in ms, inclusive */
+  startTime: number;
+  /** Unix time in ms, exclusive */
+  endTime: number;
+}
+
+export interface IngestResult {
+  /** Decoded to KOL swaps and recorded */
+  recorded: string[];
+  /** Decoded to KOL swaps made while no KOL had the wallet linked, so not recorded */
+  unlinked: string[];
+  /** Decoded to KOL swaps that were all recorded already */
+  unchanged: string[];
+  /** Decoded to KOL swaps but failed to record, left in webhook_logs for the retry worker */
+  failed: string[];
+  /** Decoded to no KOL swaps */
+  ignored: string[];
+}
+
+export interface BackfillResult {
+  walletAddress: Address;
+  /** Successful transactions inside the window */
+  scanned: number;
+  /** Already recorded before this run */
+  skipped: number;
+  /** Recorded by this run */
+  recorded: number;
+  /** Swaps from before the wallet was linked to a KOL (or after it was unlinked), not recorded */
+  unlinked: number;
+  /** Decoded to no KOL swaps */
+  ignored: number;
+  /** Failed to record, left in webhook_logs for the retry worker */
+  failed: number;
+}
+
+// gill returns integers as bigint; solana-dex-parser and the decoder expect numbers
+function toPlainNumbers<T>(value: unknown): T {
+  return JSON.parse(JSON.stringify(value, (_key, item) => (typeof item === 'bigint' ? Number(item) : item)));
+}
+
+/**
+ * Mainnet RPC client for the backfill: BACKFILL_RPC_URL, else Helius when
+ * HELIUS_API_KEY is set, else the public mainnet endpoint
+ */
+export function createRpcBackfillSource(
+  rpc: SolanaClient['rpc'] = createSolanaClient({
+    urlOrMoniker: process.env.BACKFILL_RPC_URL
+      || (process.env.HELIUS_API_KEY ? `${HELIUS_RPC_URL}?api-key=${process.env.HELIUS_API_KEY}` : 'mainnet'),
+  }).rpc
+): BackfillSource {
+  return {
+    async getSignatures(address, { before, limit }) {
+      const signatures = await rpc.getSignaturesForAddress(toAddress(address), {
+        commitment: 'confirmed',
+        before: before ? toSignature(before) : undefined,
+        limit,
+      }).send();
+      return toPlainNumbers<BackfillSignature[]>(signatures);
+    },
+
+    async getTransaction(signature) {
+      const tx = await rpc.getTransaction(toSignature(signature), {
+        commitment: 'confirmed',
+        encoding: 'jsonParsed',
+        maxSupportedTransactionVersion: 0,
+      }).send();
+      return tx ? toPlainNumbers<ParsedRawTransaction>(tx) : null;
+    },
+  };
+}
+
+/**
+ * Replays RPC responses from a fixture file
+ */
+export async function createFixtureBackfillSource(path: string): Promise<BackfillSource> {
+  const fixture: BackfillFixture = JSON.parse(await readFile(path, 'utf8'));
+
+  return {
+    async getSignatures(address, { before, limit }) {
+      const signatures = fixture.signatures[address] || [];
+      const start = before ? signatures.findIndex(entry => entry.signature === before) + 1 : 0;
+      // An unknown `before` signature has nothing after it
+      if (before && start === 0) return [];
+      return signatures.slice(start, start + limit);
+    },
+
+    async getTransaction(signature) {
+      return fixture.transactions[signature] ?? null;
+    },
+  };
+}
+
+/**
+ * Wraps a source and keeps every response it returns; save() writes them as
+ * a fixture for createFixtureBackfillSource
+ */
+export function createRecordingBackfillSource(source: BackfillSource): BackfillSource & { save(path: string): Promise<void> } {
+  const fixture: BackfillFixture = { signatures: {}, transactions: {} };
+
+  return {
+    async getSignatures(address, options) {
+      const signatures = await source.getSignatures(address, options);
+      fixture.signatures[address] = [...(fixture.signatures[address] || []), ...signatures];
+      return signatures;
+    },
+
+    async getTransaction(signature) {
+      const tx = await source.getTransaction(signature);
+      fixture.transactions[signature] = tx;
+      return tx;
+    },
+
+    async save(path) {
+      await writeFile(path, JSON.stringify(fixture, null, 2));
+    },
+  };
+}
+
+/**
+ * Signatures of the wallet's successful transactions inside the window,
+ * oldest first
+ */
+export async function getWalletSignatures(
+  kolAddress: Address,
+  window: BackfillWindow,
+  source: BackfillSource
+): Promise<BackfillSignature[]> {
+  const collected: BackfillSignature[] = [];
+  let before: string | undefined;
+
+  while (true) {
+    const page = await source.getSignatures(kolAddress, { before, limit: SIGNATURE_PAGE_SIZE });
+    if (page.length === 0) break;
+
+    let reachedStart = false;
+    for (const entry of page) {
+      const time = entry.blockTime !== null ? entry.blockTime * 1000 : null;
+      if (time !== null && time < window.startTime) {
+        reachedStart = true;
+        break;
+      }
+      if (!entry.err && time !== null && time < window.endTime) {
+        collected.push(entry);
+      }
+    }
+
+    if (reachedStart || page.length < SIGNATURE_PAGE_SIZE) break;
+    before = page[page.length - 1].signature;
+  }
+
+  return collected.reverse();
+}
+
+/**
+ * Fetch, decode and record a KOL wallet's transactions through the webhook pipeline
+ * Decodes against every monitored wallet unless `wallets` is given, so swaps
+ * between a KOL's own wallets net out as they do for webhook deliveries
+ */
+export async function ingestSignatures(
+  walletAddress: Address,
+  signatures: string[],
+  source: BackfillSource,
+  wallets?: KOLWalletMap
+): Promise<IngestResult> {
+  const result: IngestResult = { recorded: [], unlinked: [], unchanged: [], failed: [], ignored: [] };
+  const monitored = wallets || await getMonitoredWallets();
+  const walletMap: KOLWalletMap = monitored.has(walletAddress)
+    ? monitored
+    : new Map([...monitored, [walletAddress, walletAddress]]);
+
+  for (const signature of signatures) {
+    const tx = await source.getTransaction(signature);
+    const legs = tx ? decodeParsedTransaction(tx, walletMap) : [];
+    if (!tx || legs.length === 0) {
+      result.ignored.push(signature);
+      continue;
+    }
+
+    try {
+      const processed = await processWebhookTransaction(signature, tx.blockTime ?? 0, tx.slot, legs);
+      if (processed.recorded > 0) {
+        result.recorded.push(signature);
+      } else if (processed.unlinked > 0) {
+        result.unlinked.push(signature);
+      } else {
+        result.unchanged.push(signature);
+      }
+    } catch (error) {
+      console.error(`❌ Failed to ingest ${signature}:`, error);
+      result.failed.push(signature);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Backfill one KOL wallet's trades for a time window
+ * Swaps are recorded for the KOL that had the wallet linked at block time
+ */
+export async function backfillKOLTrades(
+  walletAddress: Address,
+  window: BackfillWindow,
+  source: BackfillSource = createRpcBackfillSource(),
+  wallets?: KOLWalletMap
+): Promise<BackfillResult> {
+  console.log(`🔎 Backfilling ${walletAddress} from ${new Date(window.startTime).toISOString()} to ${new Date(window.endTime).toISOString()}`);
+
+  const signatures = await getWalletSignatures(walletAddress, window, source);
+
+  const knownSignatures = await findRecordedSignatures(walletAddress, signatures.map(entry => entry.signature));
+
+  const unknown = signatures.map(entry => entry.signature).filter(signature => !knownSignatures.has(signature));
+  const ingested = await ingestSignatures(walletAddress, unknown, source, wallets);
+  const result: BackfillResult = {
+    walletAddress,
+    scanned: signatures.length,
+    skipped: signatures.length - unknown.length + ingested.unchanged.length,
+    recorded: ingested.recorded.length,
+    unlinked: ingested.unlinked.length,
+    ignored: ingested.ignored.length,
+    failed: ingested.failed.length,
+  };
+
+  console.log(`✅ Backfilled ${walletAddress}: ${result.recorded} recorded, ${result.skipped} already recorded, ${result.unlinked} before the wallet was linked, ${result.ignored} without swaps, ${result.failed} failed`);
+  return result;
+}
@@ -0,0 +1,384 @@
+/**
+ * Token, trade and trade transaction rows in the database
+ * A trade is one KOL's position in one token across all of its wallets; its
+ * transactions are the individual buys and sells, with sells stored as
+ * negative SOL amounts
+ */
+
+import type { PoolClient } from 'pg';
+import { execute, transaction } from './database';
+
+export interface TokenRow {
+  id: string;
+  mint_address: string;
+  name: string | null;
+  symbol: string | null;
+  decimals: number | null;
+  image_url: string | null;
+  description: string | null;
+  token_program: string | null;
+  supply: string | null;
+  price_usd: string | null;
+  last_price_update: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TokenInput {
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+  imageUrl?: string;
+  description?: string;
+  tokenProgram?: string;
+  supply?: number;
+  priceUsd?: number;
+}
+
+export interface TradeRow {
+  id: string;
+  kol_id: string;
+  token_id: string;
+  total_buy_amount: string;
+  total_sell_amount: string;
+  total_token_bought: string;
+  total_token_sold: string;
+  cost_basis_sol: string | null;
+  pnl_sol: string;
+  pnl_usd: string;
+  unrealized_pnl_sol: string | null;
+  is_open: boolean;
+  status: 'active' | 'partial' | 'completed';
+  started_at: Date;
+  last_activity_at: Date;
+  completed_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TradeTransactionRow {
+  id: string;
+  trade_id: string;
+  signature: string;
+  transaction_type: 'buy' | 'sell';
+  sol_amount: string;
+  token_amount: string;
+  price_per_token: string | null;
+  fee_sol: string | null;
+  realized_pnl_sol: string | null;
+  sol_price_usd: string | null;
+  slot: string | null;
+  block_time: Date;
+  wallet_address: string | null;
+  created_at: Date;
+}
+
+export interface TradeTransactionInput {
+  tradeId: string;
+  /** Wallet of the KOL that made the swap */
+  walletAddress: string;
+  signature: string;
+  type: 'buy' | 'sell';
+  /** SOL moved by the swap, always positive */
+  solAmount: number;
+  tokenAmount: number;
+  feeSol: number;
+  solPriceUsd: number | null;
+  /** Block time in seconds */
+  timestamp: number;
+  slot: number;
+}
+
+export interface TradeTotals {
+  totalBuyAmount: number;
+  totalSellAmount: number;
+  totalTokenBought: number;
+  totalTokenSold: number;
+  costBasisSol: number;
+  pnlSol: number;
+  pnlUsd: number;
+  unrealizedPnlSol: number;
+  isOpen: boolean;
+  status: TradeRow['status'];
+}
+
+/**
+ * Ensure token exists in database, create if missing
+ */
+export async function upsertToken(mintAddress: string, decimals: number, client?: PoolClient): Promise<TokenRow> {
+  const result = await execute<TokenRow>(client, `
+    INSERT INTO tokens (mint_address, decimals, created_at, updated_at)
+    VALUES ($1, $2, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+    ON CONFLICT (mint_address) DO UPDATE SET
+      decimals = EXCLUDED.decimals,
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING *
+  `, [mintAddress, decimals]);
+  return result.rows[0];
+}
+
+/**
+ * Get or create token record, updating its metadata when given
+ */
+export async function getOrCreateToken(mintAddress: string, tokenData?: TokenInput): Promise<TokenRow> {
+  return await transaction(async (client) => {
+    const existing = await client.query<TokenRow>(
+      'SELECT * FROM tokens WHERE mint_address = $1',
+      [mintAddress]
+    );
+
+    if (existing.rows.length > 0) {
+      if (!tokenData) return existing.rows[0];
+
+      const updated = await client.query<TokenRow>(`
+        UPDATE tokens SET
+          name = COALESCE($2, name),
+          symbol = COALESCE($3, symbol),
+          decimals = COALESCE($4, decimals),
+          image_url = COALESCE($5, image_url),
+          description = COALESCE($6, description),
+          token_program = COALESCE($7, token_program),
+          supply = COALESCE($8, supply),
+          price_usd = COALESCE($9, price_usd),
+          last_price_update = CASE WHEN $9 IS NOT NULL THEN CURRENT_TIMESTAMP ELSE last_price_update END,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE mint_address = $1
+        RETURNING *
+      `, [
+        mintAddress,
+        tokenData.name,
+        tokenData.symbol,
+        tokenData.decimals,
+        tokenData.imageUrl,
+        tokenData.description,
+        tokenData.tokenProgram,
+        tokenData.supply,
+        tokenData.priceUsd,
+      ]);
+      return updated.rows[0];
+    }
+
+    const inserted = await client.query<TokenRow>(`
+      INSERT INTO tokens (
+        mint_address, name, symbol, decimals, image_url, description,
+        token_program, supply, price_usd, last_price_update
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `, [
+      mintAddress,
+      tokenData?.name || 'Unknown Token',
+      tokenData?.symbol || 'UNKNOWN',
+      tokenData?.decimals || 9,
+      tokenData?.imageUrl,
+      tokenData?.description,
+      tokenData?.tokenProgram,
+      tokenData?.supply,
+      tokenData?.priceUsd,
+      tokenData?.priceUsd ? new Date() : null,
+    ]);
+    return inserted.rows[0];
+  });
+}
+
+/**
+ * Get or create the trade record for a KOL-token pair
+ * The trade spans the block times of its transactions, so backfilled history
+ * lands in the right period
+ */
+export async function upsertTrade(
+  kolId: string,
+  tokenMint: string,
+  timestamp: number,
+  client?: PoolClient
+): Promise<TradeRow> {
+  const tokenResult = await execute<{ id: string }>(client, 'SELECT id FROM tokens WHERE mint_address = $1', [tokenMint]);
+  if (tokenResult.rows.length === 0) {
+    throw new Error(`Token ${tokenMint} not found in database`);
+  }
+
+  const result = await execute<TradeRow>(client, `
+    INSERT INTO trades (kol_id, token_id, started_at, last_activity_at, created_at, updated_at)
+    VALUES ($1, $2, $3, $3, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+    ON CONFLICT (kol_id, token_id) DO UPDATE SET
+      started_at = LEAST(trades.started_at, EXCLUDED.started_at),
+      last_activity_at = GREATEST(trades.last_activity_at, EXCLUDED.last_activity_at),
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING *
+  `, [kolId, tokenResult.rows[0].id, new Date(timestamp * 1000)]);
+  return result.rows[0];
+}
+
+/**
+ * Lock a trade for the rest of the transaction
+ */
+export async function lockTrade(tradeId: string, client: PoolClient): Promise<TradeRow | null> {
+  const result = await client.query<TradeRow>('SELECT * FROM trades WHERE id = $1 FOR UPDATE', [tradeId]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Store a trade's recomputed totals and PnL
+ */
+export async function updateTradeTotals(tradeId: string, totals: TradeTotals, client?: PoolClient): Promise<void> {
+  await execute(client, `
+    UPDATE trades SET
+      total_buy_amount = $2,
+      total_sell_amount = $3,
+      total_token_bought = $4,
+      total_token_sold = $5,
+      cost_basis_sol = $6,
+      pnl_sol = $7,
+      pnl_usd = $11,
+      unrealized_pnl_sol = $8,
+      is_open = $9,
+      status = $10,
+      completed_at = CASE WHEN $9 THEN NULL ELSE COALESCE(completed_at, CURRENT_TIMESTAMP) END,
+      updated_at = CURRENT_TIMESTAMP
+    WHERE id = $1
+  `, [
+    tradeId,
+    totals.totalBuyAmount,
+    totals.totalSellAmount,
+    totals.totalTokenBought,
+    totals.totalTokenSold,
+    totals.costBasisSol,
+    totals.pnlSol,
+    totals.unrealizedPnlSol,
+    totals.isOpen,
+    totals.status,
+    totals.pnlUsd,
+  ]);
+}
+
+/**
+ * Record one leg of a swap, the part one wallet traded of one token; false if
+ * that leg is already recorded
+ */
+export async function insertTradeTransaction(input: TradeTransactionInput, client?: PoolClient): Promise<boolean> {
+  const pricePerToken = input.tokenAmount > 0 ? input.solAmount / input.tokenAmount : 0;
+
+  const result = await execute(client, `
+    INSERT INTO trade_transactions (
+      trade_id, signature, transaction_type, sol_amount, token_amount, price_per_token,
+      fee_sol, sol_price_usd, slot, block_time, wallet_address, created_at
+    )
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CURRENT_TIMESTAMP)
+    ON CONFLICT (signature, wallet_address, trade_id) DO NOTHING
+  `, [
+    input.tradeId,
+    input.signature,
+    input.type,
+    input.type === 'sell' ? -input.solAmount : input.solAmount,
+    input.tokenAmount,
+    pricePerToken,
+    input.feeSol,
+    input.solPriceUsd,
+    input.slot,
+    new Date(input.timestamp * 1000),
+    input.walletAddress,
+  ]);
+  return result.rowCount !== 0;
+}
+
+/**
+ * A trade's transactions in chain order
+ */
+export async function getTradeTransactions(tradeId: string, client?: PoolClient): Promise<TradeTransactionRow[]> {
+  const result = await execute<TradeTransactionRow>(client, `
+    SELECT * FROM trade_transactions
+    WHERE trade_id = $1
+    ORDER BY block_time, slot, created_at
+  `, [tradeId]);
+  return result.rows;
+}
+
+/**
+ * Store the PnL a sell realized against the position's cost basis
+ */
+export async function setRealizedPnl(transactionId: string, realizedPnlSol: number, client?: PoolClient): Promise<void> {
+  await execute(client, 'UPDATE trade_transactions SET realized_pnl_sol = $2 WHERE id = $1', [transactionId, realizedPnlSol]);
+}
+
+/**
+ * Signatures among these that already have a leg recorded for the wallet
+ */
+export async function findRecordedSignatures(
+  walletAddress: string,
+  signatures: string[],
+  client?: PoolClient
+): Promise<Set<string>> {
+  if (signatures.length === 0) return new Set();
+
+  const result = await execute<{ signature: string }>(
+    client,
+    'SELECT DISTINCT signature FROM trade_transactions WHERE wallet_address = $1 AND signature = ANY($2::varchar[])',
+    [walletAddress, signatures]
+  );
+  return new Set(result.rows.map(row => row.signature));
+}
+
+/**
+ * Signatures recorded for a KOL wallet with block times in [startTime, endTime)
+ */
+export async function getWalletTransactionSignatures(
+  walletAddress: string,
+  startTime: number,
+  endTime: number,
+  client?: PoolClient
+): Promise<Set<string>> {
+  const result = await execute<{ signature: string }>(client, `
+    SELECT signature
+    FROM trade_transactions
+    WHERE wallet_address = $1
+      AND block_time >= $2
+      AND block_time < $3
+  `, [walletAddress, new Date(startTime), new Date(endTime)]);
+  return new Set(result.rows.map(row => row.signature));
+}
+
+/**
+ * Legs recorded without a SOL/USD price, oldest first, after `after` when given
+ */
+export async function getUnpricedTransactions(
+  limit: number,
+  after?: Pick<TradeTransactionRow, 'id' | 'block_time'>,
+  client?: PoolClient
+): Promise<TradeTransactionRow[]> {
+  const result = await execute<TradeTransactionRow>(client, `
+    SELECT * FROM trade_transactions
+    WHERE sol_price_usd IS NULL
+      AND ($2::timestamptz IS NULL OR (block_time, id) > ($2, $3::uuid))
+    ORDER BY block_time, id
+    LIMIT $1
+  `, [limit, after?.block_time ?? null, after?.id ?? null]);
+  return result.rows;
+}
+
+/**
+ * Price a leg recorded without one
+ */
+export async function setTransactionSolPrice(transactionId: string, solPriceUsd: number, client?: PoolClient): Promise<void> {
+  await execute(
+    client,
+    'UPDATE trade_transactions SET sol_price_usd = $2 WHERE id = $1 AND sol_price_usd IS NULL',
+    [transactionId, solPriceUsd]
+  );
+}
+
+/**
+ * Recompute trades' USD PnL from their sells' realized PnL and prices
+ */
+export async function refreshTradePnlUsd(tradeIds: string[], client?: PoolClient): Promise<void> {
+  if (tradeIds.length === 0) return;
+
+  await execute(client, `
+    UPDATE trades t SET
+      pnl_usd = COALESCE((
+        SELECT SUM(tt.realized_pnl_sol * COALESCE(tt.sol_price_usd, 0))
+        FROM trade_transactions tt
+        WHERE tt.trade_id = t.id AND tt.transaction_type = 'sell'
+      ), 0),
+      updated_at = CURRENT_TIMESTAMP
+    WHERE t.id = ANY($1::uuid[])
+  `, [tradeIds]);
+}
@@ -0,0 +1,441 @@
+/**
+ * KOL trade decoding for Helius webhook transactions
+ * Swaps are decoded with solana-dex-parser from the raw transaction (fetched
+ * over Helius RPC), which covers Pump.Fun, PumpSwap and the common DEXes and
+ * aggregators. When the raw transaction can't be fetched or parsed, legs are
+ * derived from the enhanced payload's per-account balance changes instead.
+ * A KOL's wallets are decoded together, so SOL and tokens moving between its
+ * own wallets cancel out instead of showing up as buys and sells.
+ */
+
+import type { Address } from 'gill';
+import { DexParser, TOKENS, getProgramName } from 'solana-dex-parser';
+import type { SolanaTransaction, TradeInfo } from 'solana-dex-parser';
+
+const HELIUS_RPC_URL = 'https://mainnet.helius-rpc.com/';
+const RPC_TIMEOUT_MS = 10000;
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+// Both count as SOL for the quote side of a trade
+const SOL_MINTS = new Set<string>([TOKENS.NATIVE, TOKENS.SOL]);
+
+/**
+ * Helius enhanced transaction, as delivered by the webhook
+ */
+export interface HeliusEnhancedTransaction {
+  accountData: {
+    account: string;
+    nativeBalanceChange: number;
+    tokenBalanceChanges: Array<{
+      mint: string;
+      rawTokenAmount: {
+        tokenAmount: string;
+        decimals: number;
+      };
+      userAccount: string;
+    }>;
+  }[];
+  description: string;
+  events: unknown[];
+  fee: number;
+  feePayer: string;
+  instructions: Array<{
+    accounts: string[];
+    data: string;
+    programId: string;
+    innerInstructions: unknown[];
+  }>;
+  nativeTransfers: Array<{
+    fromUserAccount: string;
+    toUserAccount: string;
+    amount: number;
+  }>;
+  signature: string;
+  slot: number;
+  source: string;
+  timestamp: number;
+  tokenTransfers: Array<{
+    fromTokenAccount: string;
+    toTokenAccount: string;
+    fromUserAccount: string;
+    toUserAccount: string;
+    tokenAmount: number;
+    mint: string;
+  }>;
+  transactionError: string | null;
+  type: string;
+}
+
+/**
+ * Monitored wallets, each mapped to the address of the KOL that owns it
+ */
+export type KOLWalletMap = ReadonlyMap<Address, Address>;
+
+/**
+ * One KOL's side of a swap between SOL and a token
+ */
+export interface SwapLeg {
+  /** KOL the wallet belonged to when decoded */
+  kolAddress: Address;
+  /** Wallet that made the swap; for legs stored before wallets were tracked, the KOL address */
+  walletAddress: Address;
+  signature: string;
+  slot: number;
+  /** Block time in seconds */
+  timestamp: number;
+  type: 'buy' | 'sell';
+  /** Token bought or sold */
+  mint: string;
+  /** Token amount, decimals applied */
+  tokenAmount: number;
+  tokenDecimals: number;
+  /** SOL spent (buy) or received (sell), net of DEX fees */
+  solAmount: number;
+  /** Network fee share paid by the KOL, in SOL */
+  feeSol: number;
+  /** DEX or aggregator name, e.g. Pumpfun, PumpSwap */
+  program: string;
+  programId?: string;
+  pool?: string;
+}
+
+interface ParsedTokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  uiTokenAmount: { amount: string; decimals: number };
+}
+
+/**
+ * Subset of a jsonParsed getTransaction result used for balance changes
+ */
+export interface ParsedRawTransaction {
+  slot: number;
+  blockTime: number | null;
+  meta: {
+    err: unknown;
+    fee: number;
+    preBalances: number[];
+    postBalances: number[];
+    preTokenBalances?: ParsedTokenBalance[];
+    postTokenBalances?: ParsedTokenBalance[];
+  } | null;
+  transaction: {
+    signatures: string[];
+    message: {
+      accountKeys: Array<string | { pubkey: string }>;
+    };
+  };
+}
+
+const dexParser = new DexParser();
+
+/**
+ * Fetch the raw transaction from Helius RPC, null if unavailable
+ */
+async function fetchParsedTransaction(signature: string): Promise<ParsedRawTransaction | null> {
+  const apiKey = process.env.HELIUS_API_KEY;
+  if (!apiKey) return null;
+
+  try {
+    const response = await fetch(`${HELIUS_RPC_URL}?api-key=${apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: signature,
+        method: 'getTransaction',
+        params: [signature, { encoding: 'jsonParsed', commitment: 'confirmed', maxSupportedTransactionVersion: 0 }],
+      }),
+      signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+    });
+    const body = await response.json();
+    return body.result ?? null;
+
+  } catch (error) {
+    console.error(`❌ Failed to fetch transaction ${signature}:`, error);
+    return null;
+  }
+}
+
+function getAccountKeys(tx: ParsedRawTransaction): string[] {
+  return tx.transaction.message.accountKeys.map(key => (typeof key === 'string' ? key : key.pubkey));
+}
+
+/**
+ * The monitored wallets among the accounts, grouped by KOL
+ */
+function groupWalletsByKOL(wallets: KOLWalletMap, accounts: string[]): Map<Address, Address[]> {
+  const groups = new Map<Address, Address[]>();
+  for (const account of new Set(accounts)) {
+    const kolAddress = wallets.get(account as Address);
+    if (!kolAddress) continue;
+    groups.set(kolAddress, [...(groups.get(kolAddress) || []), account as Address]);
+  }
+  return groups;
+}
+
+/**
+ * Net a KOL's legs in one transaction per token: a buy on one of its wallets
+ * and a sell on another cancel out, and what's left becomes a single leg
+ * credited to the wallet with the largest part in it
+ */
+function netKOLLegs(legs: SwapLeg[]): SwapLeg[] {
+  const byMint = new Map<string, SwapLeg[]>();
+  for (const leg of legs) {
+    byMint.set(leg.mint, [...(byMint.get(leg.mint) || []), leg]);
+  }
+
+  const netted: SwapLeg[] = [];
+  for (const group of byMint.values()) {
+    if (group.length === 1) {
+      netted.push(group[0]);
+      continue;
+    }
+
+    const signed = (leg: SwapLeg, amount: number) => (leg.type === 'buy' ? amount : -amount);
+    const tokenChange = group.reduce((sum, leg) => sum + signed(leg, leg.tokenAmount), 0);
+    const solChange = group.reduce((sum, leg) => sum - signed(leg, leg.solAmount), 0);
+    const type = tokenChange > 0 ? 'buy' : 'sell';
+
+    // Tokens only moved between the KOL's wallets, or without SOL going the other way
+    const dust = Math.max(...group.map(leg => leg.tokenAmount)) * 1e-9;
+    if (Math.abs(tokenChange) <= dust || (type === 'buy' ? solChange >= 0 : solChange <= 0)) continue;
+
+    const main = group
+      .filter(leg => leg.type === type)
+      .reduce((largest, leg) => (leg.tokenAmount > largest.tokenAmount ? leg : largest));
+    netted.push({
+      ...main,
+      tokenAmount: Math.abs(tokenChange),
+      solAmount: Math.abs(solChange),
+      feeSol: group.reduce((sum, leg) => sum + leg.feeSol, 0),
+    });
+  }
+  return netted;
+}
+
+/**
+ * Owner's change in SOL across native lamports and wrapped SOL, with the
+ * network fee added back when the owner paid it
+ */
+function getRawSolChange(tx: ParsedRawTransaction, owner: string): number {
+  const meta = tx.meta;
+  if (!meta) return 0;
+
+  const index = getAccountKeys(tx).indexOf(owner);
+
+  let lamports = index >= 0 ? meta.postBalances[index] - meta.preBalances[index] : 0;
+  if (index === 0) {
+    lamports += meta.fee;
+  }
+
+  const wrappedBalance = (balances: ParsedTokenBalance[] = []) => balances
+    .filter(balance => balance.owner === owner && balance.mint === TOKENS.SOL)
+    .reduce((sum, balance) => sum + Number(balance.uiTokenAmount.amount), 0);
+  lamports += wrappedBalance(meta.postTokenBalances) - wrappedBalance(meta.preTokenBalances);
+
+  return lamports / LAMPORTS_PER_SOL;
+}
+
+/**
+ * Turn a parsed trade into a KOL's swap leg, null unless one side is SOL
+ */
+function toSwapLeg(trade: TradeInfo, kolAddress: Address, walletAddress: Address): SwapLeg | null {
+  const isBuy = SOL_MINTS.has(trade.inputToken.mint) && !SOL_MINTS.has(trade.outputToken.mint);
+  const isSell = SOL_MINTS.has(trade.outputToken.mint) && !SOL_MINTS.has(trade.inputToken.mint);
+  if (!isBuy && !isSell) return null;
+
+  const token = isBuy ? trade.outputToken : trade.inputToken;
+  const sol = isBuy ? trade.inputToken : trade.outputToken;
+
+  return {
+    kolAddress,
+    walletAddress,
+    signature: trade.signature,
+    slot: trade.slot,
+    timestamp: trade.timestamp,
+    type: isBuy ? 'buy' : 'sell',
+    mint: token.mint,
+    tokenAmount: token.amount,
+    tokenDecimals: token.decimals,
+    solAmount: sol.amount,
+    feeSol: 0,
+    program: trade.amm || (trade.programId ? getProgramName(trade.programId) : 'Unknown'),
+    programId: trade.programId,
+    pool: trade.Pool?.[0],
+  };
+}
+
+/**
+ * Decode swap legs from the raw transaction with solana-dex-parser
+ */
+function decodeRawTransaction(tx: ParsedRawTransaction, wallets: KOLWalletMap): SwapLeg[] {
+  const trades = dexParser.parseTrades(tx as unknown as SolanaTransaction, { aggregateTrades: true });
+  const accountKeys = getAccountKeys(tx);
+  const tokenOwners = [...(tx.meta?.preTokenBalances || []), ...(tx.meta?.postTokenBalances || [])]
+    .map(balance => balance.owner)
+    .filter((owner): owner is string => !!owner);
+  const legs: SwapLeg[] = [];
+
+  for (const [kolAddress, kolWallets] of groupWalletsByKOL(wallets, [...accountKeys, ...tokenOwners])) {
+    const kolLegs = trades
+      .filter(trade => kolWallets.includes(trade.user as Address))
+      .map(trade => toSwapLeg(trade, kolAddress, trade.user as Address))
+      .filter((leg): leg is SwapLeg => leg !== null);
+
+    // The fee payer's network fee is split across its KOL's swaps
+    if (kolWallets.includes(accountKeys[0] as Address) && tx.meta) {
+      for (const leg of kolLegs) {
+        leg.feeSol = tx.meta.fee / LAMPORTS_PER_SOL / kolLegs.length;
+      }
+    }
+
+    // With a single swap the KOL's own SOL balance change is the exact amount
+    // paid or received, including fees the DEX charges outside the swap event;
+    // summed over its wallets, so SOL moved between them doesn't count
+    if (kolLegs.length === 1) {
+      const solChange = kolWallets.reduce((sum, wallet) => sum + getRawSolChange(tx, wallet), 0);
+      const leg = kolLegs[0];
+      if ((leg.type === 'buy' && solChange < 0) || (leg.type === 'sell' && solChange > 0)) {
+        leg.solAmount = Math.abs(solChange);
+      }
+    }
+
+    legs.push(...netKOLLegs(kolLegs));
+  }
+
+  return legs;
+}
+
+/**
+ * Derive swap legs from the enhanced payload's balance changes: one leg per
+ * KOL whose SOL, across its wallets, moved against exactly one token
+ */
+export function decodeEnhancedTransaction(tx: HeliusEnhancedTransaction, wallets: KOLWalletMap): SwapLeg[] {
+  const dexProgram = tx.instructions
+    .map(instruction => instruction.programId)
+    .find(programId => getProgramName(programId) !== 'Unknown');
+
+  const legs: SwapLeg[] = [];
+  const accounts = [
+    ...tx.accountData.map(data => data.account),
+    ...tx.accountData.flatMap(data => data.tokenBalanceChanges.map(change => change.userAccount)),
+  ];
+
+  for (const [kolAddress, kolWallets] of groupWalletsByKOL(wallets, accounts)) {
+    const isKOLWallet = (account: string) => kolWallets.includes(account as Address);
+    const tokenChanges = tx.accountData
+      .flatMap(data => data.tokenBalanceChanges)
+      .filter(change => isKOLWallet(change.userAccount));
+    const paysFee = isKOLWallet(tx.feePayer);
+
+    let lamports = tx.accountData
+      .filter(data => isKOLWallet(data.account))
+      .reduce((sum, data) => sum + data.nativeBalanceChange, 0);
+    if (paysFee) {
+      lamports += tx.fee;
+    }
+    for (const change of tokenChanges.filter(change => change.mint === TOKENS.SOL)) {
+      lamports += Number(change.rawTokenAmount.tokenAmount);
+    }
+
+    const nonSolChanges = tokenChanges.filter(change => !SOL_MINTS.has(change.mint));
+    const mints = new Set(nonSolChanges.map(change => change.mint));
+    if (mints.size !== 1) continue;
+
+    const rawTokenChange = nonSolChanges.reduce((sum, change) => sum + BigInt(change.rawTokenAmount.tokenAmount), BigInt(0));
+    const decimals = nonSolChanges[0].rawTokenAmount.decimals;
+    const isBuy = rawTokenChange > BigInt(0);
+
+    // A token change without SOL moving the other way isn't a swap
+    if (rawTokenChange === BigInt(0) || (isBuy ? lamports >= 0 : lamports <= 0)) continue;
+
+    const absTokenChange = isBuy ? rawTokenChange : -rawTokenChange;
+    // Credit the wallet whose balance moved the most in the swap's direction
+    const walletChange = (wallet: Address) => nonSolChanges
+      .filter(change => change.userAccount === wallet)
+      .reduce((sum, change) => sum + BigInt(change.rawTokenAmount.tokenAmount), BigInt(0)) * (isBuy ? BigInt(1) : BigInt(-1));
+    const walletAddress = kolWallets.reduce((best, wallet) => (walletChange(wallet) > walletChange(best) ? wallet : best));
+
+    legs.push({
+      kolAddress,
+      walletAddress,
+      signature: tx.signature,
+      slot: tx.slot,
+      timestamp: tx.timestamp,
+      type: isBuy ? 'buy' : 'sell',
+      mint: nonSolChanges[0].mint,
+      tokenAmount: Number(absTokenChange) / 10 ** decimals,
+      tokenDecimals: decimals,
+      solAmount: Math.abs(lamports) / LAMPORTS_PER_SOL,
+      feeSol: paysFee ? tx.fee / LAMPORTS_PER_SOL : 0,
+      program: dexProgram ? getProgramName(dexProgram) : tx.source,
+      programId: dexProgram,
+    });
+  }
+
+  return legs;
+}
+
+/**
+ * Decode KOL swap legs from a jsonParsed transaction fetched over RPC, e.g. by
+ * the backfill; failed or unparseable transactions decode to no legs
+ */
+export function decodeParsedTransaction(tx: ParsedRawTransaction, wallets: KOLWalletMap): SwapLeg[] {
+  if (!tx.meta || tx.meta.err) return [];
+
+  try {
+    return decodeRawTransaction(tx, wallets);
+  } catch (error) {
+    console.error(`❌ solana-dex-parser failed on ${tx.transaction.signatures[0]}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Monitored wallets whose accounts the transaction touches
+ */
+export function findInvolvedWallets(tx: HeliusEnhancedTransaction, wallets: KOLWalletMap): Address[] {
+  return tx.accountData
+    .map(account => account.account as Address)
+    .filter(account => wallets.has(account));
+}
+
+export interface KOLTradesDecode {
+  legs: SwapLeg[];
+  /**
+   * False when nothing was decoded without the raw transaction to check, e.g.
+   * when its fetch failed, so the transaction may still hold KOL swaps
+   */
+  conclusive: boolean;
+}
+
+/**
+ * Decode every KOL swap leg in a webhook transaction, and whether finding
+ * none is conclusive
+ */
+export async function decodeKOLTradesWithStatus(
+  tx: HeliusEnhancedTransaction,
+  wallets: KOLWalletMap
+): Promise<KOLTradesDecode> {
+  if (tx.transactionError || findInvolvedWallets(tx, wallets).length === 0) {
+    return { legs: [], conclusive: true };
+  }
+
+  const raw = await fetchParsedTransaction(tx.signature);
+  const legs = raw ? decodeParsedTransaction(raw, wallets) : [];
+  if (legs.length > 0) {
+    return { legs, conclusive: true };
+  }
+
+  const enhancedLegs = decodeEnhancedTransaction(tx, wallets);
+  return { legs: enhancedLegs, conclusive: raw !== null || enhancedLegs.length > 0 };
+}
+
+/**
+ * Decode every KOL swap leg in a webhook transaction
+ */
+export async function decodeKOLTrades(tx: HeliusEnhancedTransaction, wallets: KOLWalletMap): Promise<SwapLeg[]> {
+  return (await decodeKOLTradesWithStatus(tx, wallets)).legs;
+}
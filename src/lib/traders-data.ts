@@ -1,5 +1,5 @@
-// KOL trader data - this replaces the external traders.json file
-// Contains the 21 tracked KOL wallets for the prediction market
+// Seed data for the kols table, inserted by `npm run db:seed`
+// The database is the source of truth for tracked KOLs; manage them through /api/kols
 
 export interface TraderData {
   name: string
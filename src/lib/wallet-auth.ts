@@ -0,0 +1,140 @@
+/**
+ * Wallet sign-in sessions for user API routes
+ * A wallet proves ownership by signing a short, timestamped sign-in message;
+ * the server then issues a session cookie bound to that wallet, HMAC'd with
+ * SESSION_SECRET. Routes that move a user's custodial PILLS only act for the
+ * wallet in the session.
+ */
+
+import { createHmac } from 'crypto';
+import { getBase58Encoder, getPublicKeyFromAddress, getUtf8Encoder, isAddress, verifySignature } from 'gill';
+import type { Address, SignatureBytes } from 'gill';
+import type { NextRequest } from 'next/server';
+import { safeCompare } from './admin-auth';
+
+export const SESSION_COOKIE = 'pills_session';
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// How long a signed sign-in message stays valid, and the clock skew allowed
+const SIGN_IN_MAX_AGE_MS = 5 * 60 * 1000;
+const SIGN_IN_MAX_SKEW_MS = 60 * 1000;
+
+export interface WalletSession {
+  walletAddress: Address;
+  /** Unix time in ms */
+  expiresAt: number;
+}
+
+/**
+ * Secret session cookies are signed with
+ * Sessions can't be issued or verified while it is unset
+ */
+function getSessionSecret(): string | undefined {
+  return process.env.SESSION_SECRET || undefined;
+}
+
+/**
+ * Whether wallet sign-in is configured
+ */
+export function isWalletAuthConfigured(): boolean {
+  return !!getSessionSecret();
+}
+
+/**
+ * Text a wallet signs to open a session
+ */
+export function getSignInMessage(walletAddress: string, issuedAt: number): string {
+  return [
+    'Sign in to PillyMarket',
+    '',
+    'This proves you own this wallet. It does not send a transaction or cost any fees.',
+    '',
+    `Wallet: ${walletAddress}`,
+    `Issued At: ${new Date(issuedAt).toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Whether a base58 signature is the wallet's signature of a fresh sign-in message
+ */
+export async function verifySignIn(
+  walletAddress: string,
+  issuedAt: number,
+  signature: string,
+  now: number = Date.now()
+): Promise<boolean> {
+  if (!isAddress(walletAddress) || !Number.isFinite(issuedAt)) {
+    return false;
+  }
+  if (issuedAt > now + SIGN_IN_MAX_SKEW_MS || now - issuedAt > SIGN_IN_MAX_AGE_MS) {
+    return false;
+  }
+
+  try {
+    const signatureBytes = getBase58Encoder().encode(signature);
+    if (signatureBytes.length !== 64) {
+      return false;
+    }
+
+    const publicKey = await getPublicKeyFromAddress(walletAddress);
+    const message = getUtf8Encoder().encode(getSignInMessage(walletAddress, issuedAt));
+    return await verifySignature(publicKey, signatureBytes as SignatureBytes, message);
+  } catch {
+    return false;
+  }
+}
+
+function signSession(walletAddress: string, expiresAt: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${walletAddress}.${expiresAt}`).digest('base64url');
+}
+
+/**
+ * Session cookie value for a wallet that has just signed in
+ */
+export function createSessionToken(walletAddress: Address, now: number = Date.now()): { token: string; session: WalletSession } {
+  const secret = getSessionSecret();
+  if (!secret) {
+    throw new Error('SESSION_SECRET environment variable is required');
+  }
+
+  const expiresAt = now + SESSION_TTL_MS;
+  return {
+    token: `${walletAddress}.${expiresAt}.${signSession(walletAddress, expiresAt, secret)}`,
+    session: { walletAddress, expiresAt },
+  };
+}
+
+/**
+ * Unexpired session from a cookie value, null if it is missing, forged or expired
+ */
+export function parseSessionToken(token: string | undefined, now: number = Date.now()): WalletSession | null {
+  const secret = getSessionSecret();
+  if (!secret || !token) {
+    return null;
+  }
+
+  const [walletAddress, expiresAtText, mac, ...rest] = token.split('.');
+  const expiresAt = Number(expiresAtText);
+  if (rest.length > 0 || !walletAddress || !mac || !Number.isFinite(expiresAt) || expiresAt <= now) {
+    return null;
+  }
+  if (!safeCompare(mac, signSession(walletAddress, expiresAt, secret)) || !isAddress(walletAddress)) {
+    return null;
+  }
+  return { walletAddress, expiresAt };
+}
+
+/**
+ * Wallet session the request carries, if any
+ */
+export function getWalletSession(request: NextRequest, now: number = Date.now()): WalletSession | null {
+  return parseSessionToken(request.cookies.get(SESSION_COOKIE)?.value, now);
+}
+
+/**
+ * Whether the request carries a session for the given wallet
+ * Always false when no session secret is configured
+ */
+export function isWalletRequest(request: NextRequest, walletAddress: string): boolean {
+  return getWalletSession(request)?.walletAddress === walletAddress;
+}
@@ -1,51 +1,65 @@
-import { Pool } from 'pg';
 import type { Address } from 'gill';
+import type { PoolClient } from 'pg';
+import { ensureLeaderboardPeriod, getClient } from './database';
+import { getEpoch, toMarketPeriodId } from './epoch-calendar';
+import { publishMarketEvents } from './market-events';
+import type { MarketEvent } from './pills-market-types';
+import type { HeliusEnhancedTransaction, SwapLeg } from './trade-decoder';
+import { applyFill, emptyPosition, getCostBasisMethod, getUnrealizedPnl } from './position-accounting';
+import type { PositionFill } from './position-accounting';
+import { getSolPriceAt } from './sol-price';
+import { findKOLForWallet } from './kol-db';
+import {
+  getTradeTransactions,
+  insertTradeTransaction,
+  lockTrade,
+  setRealizedPnl,
+  updateTradeTotals,
+  upsertToken,
+  upsertTrade,
+} from './trade-db';
+import { markWebhookProcessed, markWebhookProcessing, recordWebhookFailure } from './webhook-log-db';
+import type { WebhookLogInput } from './webhook-log-db';
 
-// Database connection
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL,
-  ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
-});
+// Changes smaller than the stored precision of realized_pnl_sol are rounding
+const PNL_DELTA_EPSILON = 1e-9;
 
-interface TokenTransfer {
-  fromTokenAccount: string;
-  toTokenAccount: string;
-  fromUserAccount: string;
-  toUserAccount: string;
-  tokenAmount: number;
-  mint: string;
+export interface ProcessedTransaction {
+  /** Legs newly recorded */
+  recorded: number;
+  /** Legs from wallets no KOL had linked at block time, not recorded */
+  unlinked: number;
 }
 
-interface NativeTransfer {
-  fromUserAccount: string;
-  toUserAccount: string;
-  amount: number;
-}
-
-interface ProcessedTrade {
-  kolAddress: string;
-  tokenMint: string;
-  transactionType: 'buy' | 'sell';
-  tokenAmount: number;
-  solAmount: number;
-  signature: string;
-  timestamp: number;
-  slot: number;
+interface PnlDelta {
+  pnlDeltaSol: number;
+  pnlDeltaUsd: number;
 }
 
 /**
- * Process webhook transaction and save to database
+ * Process the decoded swap legs of a webhook transaction and save them to the database
+ * The enhanced payload, when given, is stored with the legs so a failed
+ * transaction can be decoded again on replay. Returns how many legs were newly
+ * recorded and how many were left out because their wallet wasn't linked.
  */
 export async function processWebhookTransaction(
   signature: string,
   timestamp: number,
   slot: number,
-  involvedKOLs: string[],
-  tokenTransfers: TokenTransfer[],
-  solTransfers: NativeTransfer[],
-  transactionType?: string
-) {
-  const client = await pool.connect();
+  legs: SwapLeg[],
+  transaction?: HeliusEnhancedTransaction
+): Promise<ProcessedTransaction> {
+  const log: WebhookLogInput = {
+    signature,
+    kolAddress: legs[0]?.kolAddress, // Use first KOL for logging
+    transactionType: legs[0]?.program || 'pump_fun',
+    rawData: JSON.stringify({ transaction, legs, timestamp, slot }),
+  };
+
+  // Price the swaps at block time; looked up before the transaction holds any locks
+  const solPriceUsd = await getSolPriceAt(timestamp * 1000);
+  
+  const client = await getClient();
   
   try {
     console.log(`💾 Processing transaction ${signature} for database storage`);
@@ -53,69 +67,99 @@ export async function processWebhookTransaction(
     // Begin transaction
     await client.query('BEGIN');
     
+    // Without a price near block time the legs are recorded unpriced: SOL PnL
+    // and the ranking don't need it, and the price recorder fills it in later
+    if (solPriceUsd === null) {
+      console.warn(`⚠️  No SOL price near block time ${new Date(timestamp * 1000).toISOString()}, recording ${signature} without one`);
+    }
+    
+    // Make sure the leaderboard period this trade falls in exists
+    const epoch = getEpoch(timestamp * 1000);
+    await ensureLeaderboardPeriod(epoch, client);
+    const pnlEvents: MarketEvent[] = [];
+    const processed: ProcessedTransaction = { recorded: 0, unlinked: 0 };
+    
     // Log the webhook processing
-    await client.query(`
-      INSERT INTO webhook_logs (signature, kol_wallet_address, transaction_type, processing_status, raw_data)
-      VALUES ($1, $2, $3, $4, $5)
-      ON CONFLICT (signature) DO UPDATE SET
-        processing_status = 'processing',
-        raw_data = EXCLUDED.raw_data
-    `, [
-      signature,
-      involvedKOLs[0], // Use first KOL for logging
-      transactionType || 'pump_fun',
-      'processing',
-      JSON.stringify({ tokenTransfers, solTransfers, timestamp, slot })
-    ]);
+    await markWebhookProcessing(log, client);
     
-    // Process each token involved in the transaction
-    for (const tokenTransfer of tokenTransfers) {
-      const { mint: tokenMint, tokenAmount } = tokenTransfer;
-      
-      // Determine which KOL is involved and transaction direction
-      const isKOLReceiver = involvedKOLs.includes(tokenTransfer.toUserAccount);
-      const isKOLSender = involvedKOLs.includes(tokenTransfer.fromUserAccount);
-      
-      if (!isKOLReceiver && !isKOLSender) continue;
-      
-      const kolAddress = isKOLReceiver ? tokenTransfer.toUserAccount : tokenTransfer.fromUserAccount;
-      const tradeType: 'buy' | 'sell' = isKOLReceiver ? 'buy' : 'sell';
+    // Record each KOL's side of every swap in the transaction
+    for (const leg of legs) {
+      const { mint: tokenMint, type: tradeType, tokenAmount, solAmount } = leg;
+      const walletAddress = leg.walletAddress || leg.kolAddress; // Legs stored before wallets were tracked
       
-      // Find corresponding SOL transfer
-      const correspondingSolTransfer = solTransfers.find(solTransfer => 
-        (tradeType === 'buy' && solTransfer.fromUserAccount === kolAddress) ||
-        (tradeType === 'sell' && solTransfer.toUserAccount === kolAddress)
-      );
+      // 1. Attribute the swap to the KOL that had the wallet linked at block time
+      const kol = await findKOLForWallet(walletAddress, timestamp * 1000, client);
+      if (!kol) {
+        console.log(`⏭️  Wallet ${walletAddress} wasn't linked to a KOL at ${new Date(timestamp * 1000).toISOString()}, skipping ${tradeType}`);
+        processed.unlinked++;
+        continue;
+      }
+      const kolAddress = kol.wallet_address as Address;
       
-      const solAmount = correspondingSolTransfer ? Math.abs(correspondingSolTransfer.amount) / 1e9 : 0; // Convert lamports to SOL
-      const tokenAmountDecimal = tokenAmount; // Assume already properly decimaled
+      console.log(`📝 Processing ${tradeType} for KOL ${kolAddress} (wallet ${walletAddress}) on ${leg.program}: ${tokenAmount} tokens, ${solAmount} SOL`);
       
-      console.log(`📝 Processing ${tradeType} for KOL ${kolAddress}: ${tokenAmountDecimal} tokens, ${solAmount} SOL`);
+      // 2. Ensure token exists in tokens table
+      await upsertToken(tokenMint, leg.tokenDecimals, client);
+      console.log(`🪙 Token ${tokenMint} ensured in database`);
       
-      // 1. Ensure token exists in tokens table
-      await upsertToken(client, tokenMint);
+      // 3. Get or create the KOL's trade record, shared by all its wallets
+      const trade = await upsertTrade(kol.id, tokenMint, timestamp, client);
+      console.log(`📈 Trade record ensured for KOL ${kolAddress} and token ${tokenMint}`);
       
-      // 2. Get or create trade record
-      const trade = await upsertTrade(client, kolAddress, tokenMint);
+      // 4. Record the individual transaction, skipping legs already recorded
+      const inserted = await insertTradeTransaction({
+        tradeId: trade.id,
+        walletAddress,
+        signature,
+        type: tradeType,
+        solAmount,
+        tokenAmount,
+        feeSol: leg.feeSol,
+        solPriceUsd,
+        timestamp,
+        slot,
+      }, client);
+      if (!inserted) {
+        console.log(`⏭️  ${tradeType} in ${signature} from wallet ${walletAddress} already recorded for trade ${trade.id}`);
+        continue;
+      }
+      processed.recorded++;
+      console.log(`📝 Recorded ${tradeType} transaction: ${tokenAmount} tokens for ${solAmount} SOL`);
       
-      // 3. Record the individual transaction
-      await insertTradeTransaction(client, trade.id, signature, tradeType, solAmount, tokenAmountDecimal, timestamp, slot);
+      // 5. Update trade aggregation; a leg that re-prices earlier sells moves
+      // the PnL of the periods those sells fell in
+      const periodDeltas = await updateTradeAggregation(client, trade.id);
+      const legPeriodId = toMarketPeriodId(epoch);
+      if (!periodDeltas.has(legPeriodId)) {
+        periodDeltas.set(legPeriodId, { pnlDeltaSol: 0, pnlDeltaUsd: 0 });
+      }
       
-      // 4. Update trade aggregation
-      await updateTradeAggregation(client, trade.id, tradeType, solAmount, tokenAmountDecimal);
+      for (const [periodId, { pnlDeltaSol, pnlDeltaUsd }] of periodDeltas) {
+        pnlEvents.push({
+          type: 'pnl_update',
+          timestamp: timestamp * 1000,
+          periodId,
+          data: {
+            kolAddress,
+            pnlDeltaSol,
+            pnlDeltaUsd,
+            signature,
+          },
+        });
+      }
     }
     
+    // 6. Push the leaderboard deltas to live streams once committed
+    await publishMarketEvents(client, pnlEvents);
+    
     // Mark webhook as processed
-    await client.query(`
-      UPDATE webhook_logs 
-      SET processing_status = 'processed', error_message = null 
-      WHERE signature = $1
-    `, [signature]);
+    await markWebhookProcessed(signature, client);
     
     // Commit transaction
     await client.query('COMMIT');
     
     console.log(`✅ Successfully processed transaction ${signature}`);
+    return processed;
     
   } catch (error) {
     // Rollback on error
@@ -123,13 +167,10 @@ export async function processWebhookTransaction(
     
     console.error(`❌ Error processing transaction ${signature}:`, error);
     
-    // Mark webhook as failed
+    // Record the failure outside the rolled-back transaction and schedule a retry,
+    // or give up once the attempts run out
     try {
-      await client.query(`
-        UPDATE webhook_logs 
-        SET processing_status = 'failed', error_message = $1 
-        WHERE signature = $2
-      `, [error instanceof Error ? error.message : String(error), signature]);
+      await recordWebhookFailure(log, error instanceof Error ? error.message : String(error), client);
     } catch (updateError) {
       console.error('Error updating webhook log:', updateError);
     }
@@ -140,130 +181,85 @@ export async function processWebhookTransaction(
   }
 }
 
-/**
- * Ensure token exists in database, create if missing
- */
-async function upsertToken(client: any, tokenMint: string) {
-  const result = await client.query(`
-    INSERT INTO tokens (mint_address, created_at, updated_at)
-    VALUES ($1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-    ON CONFLICT (mint_address) DO UPDATE SET
-      updated_at = CURRENT_TIMESTAMP
-    RETURNING id, mint_address
-  `, [tokenMint]);
-  
-  console.log(`🪙 Token ${tokenMint} ensured in database`);
-  return result.rows[0];
-}
-
-/**
- * Get or create trade record for KOL-token pair
- */
-async function upsertTrade(client: any, kolAddress: string, tokenMint: string) {
-  // First get KOL ID
-  const kolResult = await client.query('SELECT id FROM kols WHERE wallet_address = $1', [kolAddress]);
-  if (kolResult.rows.length === 0) {
-    throw new Error(`KOL ${kolAddress} not found in database`);
-  }
-  const kolId = kolResult.rows[0].id;
-  
-  // Get token ID
-  const tokenResult = await client.query('SELECT id FROM tokens WHERE mint_address = $1', [tokenMint]);
-  if (tokenResult.rows.length === 0) {
-    throw new Error(`Token ${tokenMint} not found in database`);
-  }
-  const tokenId = tokenResult.rows[0].id;
-  
-  // Get or create trade
-  const result = await client.query(`
-    INSERT INTO trades (kol_id, token_id, started_at, last_activity_at, created_at, updated_at)
-    VALUES ($1, $2, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-    ON CONFLICT (kol_id, token_id) DO UPDATE SET
-      last_activity_at = CURRENT_TIMESTAMP,
-      updated_at = CURRENT_TIMESTAMP
-    RETURNING id, kol_id, token_id
-  `, [kolId, tokenId]);
-  
-  console.log(`📈 Trade record ensured for KOL ${kolAddress} and token ${tokenMint}`);
-  return result.rows[0];
-}
-
-/**
- * Insert individual trade transaction
- */
-async function insertTradeTransaction(
-  client: any,
-  tradeId: string,
-  signature: string,
-  transactionType: 'buy' | 'sell',
-  solAmount: number,
-  tokenAmount: number,
-  timestamp: number,
-  slot: number
-) {
-  const blockTime = new Date(timestamp * 1000);
-  const pricePerToken = tokenAmount > 0 ? solAmount / tokenAmount : 0;
-  const adjustedSolAmount = transactionType === 'sell' ? -solAmount : solAmount;
-  
-  await client.query(`
-    INSERT INTO trade_transactions (trade_id, signature, transaction_type, sol_amount, token_amount, price_per_token, slot, block_time, created_at)
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)
-    ON CONFLICT (signature) DO NOTHING
-  `, [tradeId, signature, transactionType, adjustedSolAmount, tokenAmount, pricePerToken, slot, blockTime]);
-  
-  console.log(`📝 Recorded ${transactionType} transaction: ${tokenAmount} tokens for ${solAmount} SOL`);
-}
-
 /**
  * Update trade aggregation data
+ * Replays the trade's transactions in chain order through the cost-basis
+ * accounting, so late or out-of-order deliveries still land correctly.
+ * pnl_sol is the realized PnL and pnl_usd the sum of each sell's realized PnL
+ * at its block-time SOL price (unpriced sells count as 0 until priced). Returns
+ * how much the sells' realized PnL changed, per market period of the sells,
+ * which is what each period's leaderboard sums.
  */
 async function updateTradeAggregation(
-  client: any,
-  tradeId: string,
-  transactionType: 'buy' | 'sell',
-  solAmount: number,
-  tokenAmount: number
-) {
-  if (transactionType === 'buy') {
-    await client.query(`
-      UPDATE trades SET
-        total_buy_amount = total_buy_amount + $1,
-        total_token_bought = total_token_bought + $2,
-        updated_at = CURRENT_TIMESTAMP
-      WHERE id = $3
-    `, [solAmount, tokenAmount, tradeId]);
-  } else {
-    await client.query(`
-      UPDATE trades SET
-        total_sell_amount = total_sell_amount + $1,
-        total_token_sold = total_token_sold + $2,
-        updated_at = CURRENT_TIMESTAMP
-      WHERE id = $3
-    `, [solAmount, tokenAmount, tradeId]);
+  client: PoolClient,
+  tradeId: string
+): Promise<Map<string, PnlDelta>> {
+  const periodDeltas = new Map<string, PnlDelta>();
+  const trade = await lockTrade(tradeId, client);
+  if (!trade) {
+    return periodDeltas;
   }
   
-  // Recalculate P&L
-  const tradeResult = await client.query(`
-    SELECT total_buy_amount, total_sell_amount, total_token_bought, total_token_sold
-    FROM trades WHERE id = $1
-  `, [tradeId]);
+  const transactions = await getTradeTransactions(tradeId, client);
   
-  if (tradeResult.rows.length > 0) {
-    const trade = tradeResult.rows[0];
-    const pnlSol = parseFloat(trade.total_sell_amount) - parseFloat(trade.total_buy_amount);
+  const method = getCostBasisMethod();
+  let position = emptyPosition();
+  let totalBuyAmount = 0;
+  let totalSellAmount = 0;
+  let totalTokenBought = 0;
+  let totalTokenSold = 0;
+  let markPriceSol = 0;
+  let pnlUsd = 0;
+  
+  for (const row of transactions) {
+    const fill: PositionFill = {
+      type: row.transaction_type,
+      tokenAmount: parseFloat(row.token_amount),
+      solAmount: Math.abs(parseFloat(row.sol_amount)), // Sells are stored negative
+      feeSol: parseFloat(row.fee_sol || '0'),
+    };
+    
+    const result = applyFill(position, fill, method);
+    position = result.state;
+    markPriceSol = parseFloat(row.price_per_token || '0');
     
-    await client.query(`
-      UPDATE trades SET
-        pnl_sol = $1,
-        pnl_usd = $1 * 213.45,
-        is_open = CASE 
-          WHEN total_token_bought > total_token_sold THEN true 
-          ELSE false 
-        END,
-        updated_at = CURRENT_TIMESTAMP
-      WHERE id = $2
-    `, [pnlSol, tradeId]);
+    if (fill.type === 'buy') {
+      totalBuyAmount += fill.solAmount + fill.feeSol;
+      totalTokenBought += fill.tokenAmount;
+    } else {
+      totalSellAmount += fill.solAmount - fill.feeSol;
+      totalTokenSold += fill.tokenAmount;
+      const solPriceUsd = parseFloat(row.sol_price_usd || '0');
+      pnlUsd += result.realizedPnlSol * solPriceUsd;
+      
+      const deltaSol = result.realizedPnlSol - parseFloat(row.realized_pnl_sol || '0');
+      if (Math.abs(deltaSol) > PNL_DELTA_EPSILON) {
+        const periodId = toMarketPeriodId(getEpoch(new Date(row.block_time).getTime()));
+        const delta = periodDeltas.get(periodId) || { pnlDeltaSol: 0, pnlDeltaUsd: 0 };
+        delta.pnlDeltaSol += deltaSol;
+        delta.pnlDeltaUsd += deltaSol * solPriceUsd;
+        periodDeltas.set(periodId, delta);
+      }
+      await setRealizedPnl(row.id, result.realizedPnlSol, client);
+    }
   }
   
-  console.log(`📊 Updated trade aggregation for ${transactionType}`);
-}
\ No newline at end of file
+  const pnlSol = position.realizedPnlSol;
+  const isOpen = position.tokensHeld > 0;
+  
+  await updateTradeTotals(tradeId, {
+    totalBuyAmount,
+    totalSellAmount,
+    totalTokenBought,
+    totalTokenSold,
+    costBasisSol: position.costBasisSol,
+    pnlSol,
+    pnlUsd,
+    unrealizedPnlSol: getUnrealizedPnl(position, markPriceSol),
+    isOpen,
+    status: isOpen ? (totalTokenSold > 0 ? 'partial' : 'active') : 'completed',
+  }, client);
+  
+  console.log(`📊 Updated trade aggregation (${method} cost): realized ${pnlSol} SOL, ${position.tokensHeld} tokens held`);
+  return periodDeltas;
+}
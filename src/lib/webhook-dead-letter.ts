@@ -0,0 +1,261 @@
+/**
+ * Dead-letter queue for webhook transactions that failed to process
+ * Failed rows in webhook_logs keep their raw payload and are retried with
+ * exponential backoff until they run out of attempts ('dead'). Operators can
+ * list, replay or discard them; replays decode the stored enhanced payload
+ * again, so a parser fix applies to transactions that already failed.
+ */
+
+import { query } from './database';
+import { getMonitoredWallets } from './kol-registry';
+import { decodeKOLTradesWithStatus } from './trade-decoder';
+import type { HeliusEnhancedTransaction, SwapLeg } from './trade-decoder';
+import { processWebhookTransaction } from './webhook-db-processor';
+import { recordWebhookFailure, WEBHOOK_MAX_ATTEMPTS } from './webhook-log-db';
+
+const RETRY_INTERVAL_MS = 60 * 1000;
+const RETRY_BATCH_SIZE = 20;
+// Claimed rows aren't picked up again for this long, in case a run dies midway
+const RETRY_LEASE_SECONDS = 10 * 60;
+
+export type WebhookLogStatus = 'pending' | 'processing' | 'processed' | 'failed' | 'dead' | 'discarded';
+
+export const WEBHOOK_LOG_STATUSES: WebhookLogStatus[] = [
+  'pending',
+  'processing',
+  'processed',
+  'failed',
+  'dead',
+  'discarded',
+];
+
+export enum WebhookLogError {
+  NOT_FOUND = 'webhook_log_not_found',
+  ALREADY_PROCESSED = 'webhook_log_already_processed',
+  NO_PAYLOAD = 'webhook_log_no_payload',
+}
+
+export interface WebhookLog {
+  signature: string;
+  kolAddress?: string;
+  transactionType?: string;
+  status: WebhookLogStatus;
+  errorMessage?: string;
+  attempts: number;
+  nextRetryAt?: number;
+  processedAt: number;
+  /** Whether the enhanced payload is stored, so replays re-decode it */
+  hasPayload: boolean;
+}
+
+export interface WebhookRetryResult {
+  retried: number;
+  succeeded: number;
+  failed: number;
+}
+
+interface WebhookLogRow {
+  signature: string;
+  kol_wallet_address: string | null;
+  transaction_type: string | null;
+  processing_status: WebhookLogStatus;
+  error_message: string | null;
+  attempts: number | null;
+  next_retry_at: Date | null;
+  processed_at: Date;
+  has_payload: boolean;
+}
+
+interface WebhookRawData {
+  transaction?: HeliusEnhancedTransaction;
+  legs?: SwapLeg[];
+  timestamp: number;
+  slot: number;
+}
+
+const WEBHOOK_LOG_COLUMNS = `
+  signature, kol_wallet_address, transaction_type, processing_status, error_message,
+  attempts, next_retry_at, processed_at, raw_data ? 'transaction' AS has_payload
+`;
+
+export function isWebhookLogError(error: unknown): error is Error & { message: WebhookLogError } {
+  return error instanceof Error && (Object.values(WebhookLogError) as string[]).includes(error.message);
+}
+
+function toWebhookLog(row: WebhookLogRow): WebhookLog {
+  return {
+    signature: row.signature,
+    kolAddress: row.kol_wallet_address || undefined,
+    transactionType: row.transaction_type || undefined,
+    status: row.processing_status,
+    errorMessage: row.error_message || undefined,
+    attempts: row.attempts ?? 0,
+    nextRetryAt: row.next_retry_at ? new Date(row.next_retry_at).getTime() : undefined,
+    processedAt: new Date(row.processed_at).getTime(),
+    hasPayload: row.has_payload,
+  };
+}
+
+async function getWebhookLog(signature: string): Promise<WebhookLog | null> {
+  const rows = await query<WebhookLogRow>(
+    `SELECT ${WEBHOOK_LOG_COLUMNS} FROM webhook_logs WHERE signature = $1`,
+    [signature]
+  );
+  return rows[0] ? toWebhookLog(rows[0]) : null;
+}
+
+/**
+ * Webhook log entries by status, most recent first (failed and dead by default)
+ */
+export async function listWebhookLogs(
+  statuses: WebhookLogStatus[] = ['failed', 'dead'],
+  limit = 100
+): Promise<WebhookLog[]> {
+  const rows = await query<WebhookLogRow>(`
+    SELECT ${WEBHOOK_LOG_COLUMNS}
+    FROM webhook_logs
+    WHERE processing_status = ANY($1)
+    ORDER BY processed_at DESC
+    LIMIT $2
+  `, [statuses, limit]);
+  return rows.map(toWebhookLog);
+}
+
+/**
+ * Process a logged transaction again from its stored raw data
+ * Transactions with a stored enhanced payload are decoded again with the
+ * current decoder; older rows replay the legs decoded at the time. Only a
+ * conclusive decode with no KOL swaps discards the row. A failed replay,
+ * including one whose raw transaction couldn't be fetched, is recorded as
+ * another attempt and the error rethrown.
+ */
+export async function replayWebhookLog(signature: string): Promise<WebhookLog> {
+  const rows = await query<Pick<WebhookLogRow, 'kol_wallet_address' | 'transaction_type' | 'processing_status'> & {
+    raw_data: WebhookRawData | null;
+  }>(
+    'SELECT kol_wallet_address, transaction_type, processing_status, raw_data FROM webhook_logs WHERE signature = $1',
+    [signature]
+  );
+  const row = rows[0];
+  if (!row) {
+    throw new Error(WebhookLogError.NOT_FOUND);
+  }
+  if (row.processing_status === 'processed') {
+    throw new Error(WebhookLogError.ALREADY_PROCESSED);
+  }
+
+  const raw = row.raw_data;
+  if (!raw || (!raw.transaction && !raw.legs)) {
+    throw new Error(WebhookLogError.NO_PAYLOAD);
+  }
+
+  const { legs, conclusive } = raw.transaction
+    ? await decodeKOLTradesWithStatus(raw.transaction, await getMonitoredWallets())
+    : { legs: raw.legs || [], conclusive: true };
+
+  if (!conclusive) {
+    const message = 'Raw transaction unavailable and no KOL swaps decoded from the payload';
+    await recordWebhookFailure({
+      signature,
+      kolAddress: row.kol_wallet_address || undefined,
+      transactionType: row.transaction_type || 'pump_fun',
+      rawData: JSON.stringify(raw),
+    }, message);
+    throw new Error(`${message} for ${signature}`);
+  }
+
+  if (legs.length === 0) {
+    console.log(`⏭️  Replay of ${signature} decoded no KOL swaps, discarding`);
+    await query(`
+      UPDATE webhook_logs
+      SET processing_status = 'discarded', error_message = 'No KOL swaps decoded on replay', next_retry_at = null
+      WHERE signature = $1
+    `, [signature]);
+  } else {
+    console.log(`🔁 Replaying webhook transaction ${signature} (${legs.length} leg(s))`);
+    await processWebhookTransaction(signature, raw.timestamp, raw.slot, legs, raw.transaction);
+  }
+
+  return (await getWebhookLog(signature)) as WebhookLog;
+}
+
+/**
+ * Stop retrying a logged transaction
+ */
+export async function discardWebhookLog(signature: string): Promise<WebhookLog> {
+  const rows = await query<WebhookLogRow>(`
+    UPDATE webhook_logs
+    SET processing_status = 'discarded', next_retry_at = null
+    WHERE signature = $1 AND processing_status <> 'processed'
+    RETURNING ${WEBHOOK_LOG_COLUMNS}
+  `, [signature]);
+
+  if (!rows[0]) {
+    const existing = await getWebhookLog(signature);
+    throw new Error(existing ? WebhookLogError.ALREADY_PROCESSED : WebhookLogError.NOT_FOUND);
+  }
+  return toWebhookLog(rows[0]);
+}
+
+/**
+ * Replay failed transactions whose backoff has elapsed
+ */
+export async function retryFailedWebhooks(): Promise<WebhookRetryResult> {
+  // Claim a batch by pushing its next retry out, so concurrent runs skip it
+  const claimed = await query<{ signature: string }>(`
+    UPDATE webhook_logs
+    SET next_retry_at = CURRENT_TIMESTAMP + make_interval(secs => $2)
+    WHERE id IN (
+      SELECT id FROM webhook_logs
+      WHERE processing_status = 'failed'
+        AND attempts < $3
+        AND COALESCE(next_retry_at, processed_at) <= CURRENT_TIMESTAMP
+      ORDER BY next_retry_at NULLS FIRST
+      LIMIT $1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING signature
+  `, [RETRY_BATCH_SIZE, RETRY_LEASE_SECONDS, WEBHOOK_MAX_ATTEMPTS]);
+
+  const result: WebhookRetryResult = { retried: claimed.length, succeeded: 0, failed: 0 };
+
+  for (const { signature } of claimed) {
+    try {
+      await replayWebhookLog(signature);
+      result.succeeded++;
+    } catch (error) {
+      console.error(`❌ Retry of webhook transaction ${signature} failed:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+let retryTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Retry due failed transactions every minute
+ */
+export function startWebhookRetryWorker(): void {
+  if (retryTimer) return;
+
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await retryFailedWebhooks();
+      if (result.retried > 0) {
+        console.log(`✅ Webhook retry worker: ${result.succeeded}/${result.retried} transactions recovered`);
+      }
+    } catch (error) {
+      console.error('❌ Webhook retry worker run failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  console.log('⏰ Starting webhook retry worker');
+  retryTimer = setInterval(run, RETRY_INTERVAL_MS);
+}
@@ -0,0 +1,118 @@
+/**
+ * webhook_logs rows: one per transaction signature the pipeline has seen,
+ * with its processing status, raw payload and retry schedule
+ */
+
+import type { PoolClient } from 'pg';
+import { execute } from './database';
+import type { WebhookLogStatus } from './webhook-dead-letter';
+
+// Failed transactions are retried with exponential backoff until they run out of attempts
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+const WEBHOOK_RETRY_BASE_SECONDS = 60;
+const WEBHOOK_RETRY_MAX_SECONDS = 6 * 60 * 60;
+
+export interface WebhookLogRow {
+  id: string;
+  signature: string;
+  kol_wallet_address: string | null;
+  transaction_type: string | null;
+  processed_at: Date;
+  processing_status: WebhookLogStatus;
+  error_message: string | null;
+  raw_data: unknown;
+  attempts: number | null;
+  next_retry_at: Date | null;
+}
+
+export interface WebhookLogInput {
+  signature: string;
+  kolAddress?: string;
+  transactionType: string;
+  /** Serialized payload kept for replays */
+  rawData: string;
+}
+
+/**
+ * Mark a transaction as being processed, creating its log row if needed
+ */
+export async function markWebhookProcessing(log: WebhookLogInput, client?: PoolClient): Promise<void> {
+  await execute(client, `
+    INSERT INTO webhook_logs (signature, kol_wallet_address, transaction_type, processing_status, raw_data)
+    VALUES ($1, $2, $3, 'processing', $4)
+    ON CONFLICT (signature) DO UPDATE SET
+      processing_status = 'processing',
+      raw_data = EXCLUDED.raw_data
+  `, [log.signature, log.kolAddress, log.transactionType, log.rawData]);
+}
+
+/**
+ * Mark a transaction as processed and clear any scheduled retry
+ */
+export async function markWebhookProcessed(signature: string, client?: PoolClient): Promise<void> {
+  await execute(client, `
+    UPDATE webhook_logs
+    SET processing_status = 'processed', error_message = null, next_retry_at = null, processed_at = CURRENT_TIMESTAMP
+    WHERE signature = $1
+  `, [signature]);
+}
+
+/**
+ * Record a failed attempt and schedule a retry, or mark the transaction dead
+ * once the attempts run out
+ */
+export async function recordWebhookFailure(
+  log: WebhookLogInput,
+  errorMessage: string,
+  client?: PoolClient
+): Promise<void> {
+  await execute(client, `
+    INSERT INTO webhook_logs (
+      signature, kol_wallet_address, transaction_type, processing_status, error_message, raw_data,
+      attempts, next_retry_at
+    )
+    VALUES ($1, $2, $3, 'failed', $4, $5, 1, CURRENT_TIMESTAMP + make_interval(secs => $6))
+    ON CONFLICT (signature) DO UPDATE SET
+      processing_status = CASE WHEN webhook_logs.attempts + 1 >= $8 THEN 'dead' ELSE 'failed' END,
+      error_message = EXCLUDED.error_message,
+      raw_data = EXCLUDED.raw_data,
+      attempts = webhook_logs.attempts + 1,
+      next_retry_at = CURRENT_TIMESTAMP
+        + make_interval(secs => LEAST($6 * power(2, webhook_logs.attempts), $7))
+  `, [
+    log.signature,
+    log.kolAddress,
+    log.transactionType,
+    errorMessage,
+    log.rawData,
+    WEBHOOK_RETRY_BASE_SECONDS,
+    WEBHOOK_RETRY_MAX_SECONDS,
+    WEBHOOK_MAX_ATTEMPTS,
+  ]);
+}
+
+/**
+ * Processing status of a signature, null if it has no log row
+ */
+export async function getWebhookLogStatus(signature: string, client?: PoolClient): Promise<WebhookLogStatus | null> {
+  const result = await execute<Pick<WebhookLogRow, 'processing_status'>>(
+    client,
+    'SELECT processing_status FROM webhook_logs WHERE signature = $1',
+    [signature]
+  );
+  return result.rows[0]?.processing_status ?? null;
+}
+
+/**
+ * Signatures among these that have already been processed
+ */
+export async function findProcessedSignatures(signatures: string[], client?: PoolClient): Promise<Set<string>> {
+  if (signatures.length === 0) return new Set();
+
+  const result = await execute<Pick<WebhookLogRow, 'signature'>>(
+    client,
+    "SELECT signature FROM webhook_logs WHERE signature = ANY($1::varchar[]) AND processing_status = 'processed'",
+    [signatures]
+  );
+  return new Set(result.rows.map(row => row.signature));
+}
@@ -0,0 +1,107 @@
+/**
+ * Validation of Helius enhanced-transaction webhook payloads
+ * Checks the fields the decoder and processor read, so a malformed item is
+ * rejected on its own instead of failing the whole delivery
+ */
+
+import { isAddress, isSignature } from 'gill';
+import type { HeliusEnhancedTransaction } from './trade-decoder';
+
+/** A webhook delivery: an array of enhanced transactions */
+export type HeliusWebhookPayload = HeliusEnhancedTransaction[];
+
+// Upper bound on transactions in one delivery
+export const MAX_WEBHOOK_ITEMS = 1000;
+
+export type HeliusTransactionValidation =
+  | { valid: true; transaction: HeliusEnhancedTransaction }
+  | { valid: false; error: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+}
+
+function validateAccountData(value: unknown): string | null {
+  if (!Array.isArray(value)) return 'accountData must be an array';
+
+  for (const [index, account] of value.entries()) {
+    if (!isRecord(account) || typeof account.account !== 'string' || !isAddress(account.account)) {
+      return `accountData[${index}].account must be an address`;
+    }
+    if (typeof account.nativeBalanceChange !== 'number' || !Number.isFinite(account.nativeBalanceChange)) {
+      return `accountData[${index}].nativeBalanceChange must be a number`;
+    }
+    if (!Array.isArray(account.tokenBalanceChanges)) {
+      return `accountData[${index}].tokenBalanceChanges must be an array`;
+    }
+
+    for (const change of account.tokenBalanceChanges) {
+      const raw = isRecord(change) ? change.rawTokenAmount : undefined;
+      if (
+        !isRecord(change)
+        || typeof change.mint !== 'string'
+        || typeof change.userAccount !== 'string'
+        || !isRecord(raw)
+        || typeof raw.tokenAmount !== 'string'
+        || !/^-?\d+$/.test(raw.tokenAmount)
+        || !isNonNegativeInteger(raw.decimals)
+      ) {
+        return `accountData[${index}].tokenBalanceChanges has a malformed entry`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate one item of a webhook delivery
+ */
+export function validateHeliusTransaction(item: unknown): HeliusTransactionValidation {
+  if (!isRecord(item)) {
+    return { valid: false, error: 'Transaction must be an object' };
+  }
+
+  if (typeof item.signature !== 'string' || !isSignature(item.signature)) {
+    return { valid: false, error: 'signature must be a transaction signature' };
+  }
+  if (!isNonNegativeInteger(item.slot)) {
+    return { valid: false, error: 'slot must be a non-negative integer' };
+  }
+  if (!isNonNegativeInteger(item.timestamp)) {
+    return { valid: false, error: 'timestamp must be a non-negative integer' };
+  }
+  if (!isNonNegativeInteger(item.fee)) {
+    return { valid: false, error: 'fee must be a non-negative integer' };
+  }
+  if (typeof item.feePayer !== 'string' || !isAddress(item.feePayer)) {
+    return { valid: false, error: 'feePayer must be an address' };
+  }
+  if (item.transactionError !== null && item.transactionError !== undefined && typeof item.transactionError !== 'string' && !isRecord(item.transactionError)) {
+    return { valid: false, error: 'transactionError must be null, a string or an object' };
+  }
+  if (typeof item.type !== 'string' || typeof item.source !== 'string') {
+    return { valid: false, error: 'type and source must be strings' };
+  }
+
+  const accountDataError = validateAccountData(item.accountData);
+  if (accountDataError) {
+    return { valid: false, error: accountDataError };
+  }
+
+  if (!Array.isArray(item.instructions) || !item.instructions.every(instruction => isRecord(instruction) && typeof instruction.programId === 'string')) {
+    return { valid: false, error: 'instructions must be an array of instructions with a programId' };
+  }
+
+  return {
+    valid: true,
+    transaction: {
+      ...item,
+      transactionError: (item.transactionError ?? null) as HeliusEnhancedTransaction['transactionError'],
+    } as unknown as HeliusEnhancedTransaction,
+  };
+}